@@ -1,3 +1,6 @@
+// load zone.js before jsdom, because it has to patch the globals of node.js instead of the jsdom window
+require('zone.js');
+
 if (typeof window === 'undefined') {
     // load jsdom in tests running on node.js
     require('jsdom-global')();
@@ -6,8 +9,22 @@ if (typeof window === 'undefined') {
 require('reflect-metadata');
 
 require('../lib/lng2lat.spec');
+require('../lib/style-rules.spec');
+require('../lib/feature-filter.spec');
+require('../lib/classification.spec');
+require('../lib/coordinate-format.spec');
+require('../lib/measurement.spec');
+require('../lib/permalink.spec');
+require('../lib/location-validators.spec');
 
 require('../lib/map.component.spec');
+require('../lib/map.service.spec');
+require('../lib/map-sync.spec');
+require('../lib/map-state.spec');
+require('../lib/map-hash.directive.spec');
+require('../lib/view-history.spec');
+require('../lib/bookmark.service.spec');
+require('../lib/zone-emitter.spec');
 require('../lib/tile-layer.directive.spec');
 require('../lib/wms-layer.directive.spec');
 require('../lib/image-overlay.directive.spec');
@@ -15,6 +32,7 @@ require('../lib/popup.directive.spec');
 require('../lib/tooltip.directive.spec');
 require('../lib/icon.directive.spec');
 require('../lib/div-icon.directive.spec');
+require('../lib/component-icon.directive.spec');
 require('../lib/marker.directive.spec');
 require('../lib/polyline.directive.spec');
 require('../lib/polygon.directive.spec');
@@ -22,6 +40,27 @@ require('../lib/rectangle.directive.spec');
 require('../lib/geojson.directive.spec');
 require('../lib/circle.directive.spec');
 require('../lib/circle-marker.directive.spec');
+require('../lib/layer-group.directive.spec');
+require('../lib/feature-group.directive.spec');
+require('../lib/marker-cluster.directive.spec');
 require('../lib/zoom-control.directive.spec');
 require('../lib/attribution-control.directive.spec');
 require('../lib/scale-control.directive.spec');
+require('../lib/layers-control.directive.spec');
+require('../lib/control.directive.spec');
+require('../lib/coordinates-control.directive.spec');
+require('../lib/layer-editor.spec');
+require('../lib/draw-control.directive.spec');
+require('../lib/legend-control.directive.spec');
+require('../lib/fullscreen-control.directive.spec');
+require('../lib/user-location.directive.spec');
+require('../lib/locate-control.directive.spec');
+require('../lib/measure-control.directive.spec');
+require('../lib/minimap-control.directive.spec');
+require('../lib/side-by-side-control.directive.spec');
+require('../lib/history-control.directive.spec');
+require('../lib/bookmarks-control.directive.spec');
+require('../lib/marker-value-accessor.directive.spec');
+require('../lib/polyline-value-accessor.directive.spec');
+require('../lib/polygon-value-accessor.directive.spec');
+require('../lib/rectangle-value-accessor.directive.spec');
@@ -0,0 +1,247 @@
+import { NgZone, ReflectiveInjector } from '@angular/core';
+import { expect } from 'chai';
+import { latLngBounds, LatLngExpression, Map, point } from 'leaflet';
+import {
+    BookmarkService,
+    IBookmark,
+    IBookmarkStep,
+    LayerGroupDirective,
+    MapComponent,
+    MarkerDirective,
+    TileLayerDirective,
+} from './index';
+
+describe('Bookmark-Service', () => {
+    let map: Map;
+    let service: BookmarkService;
+
+    beforeEach(() => {
+        map = new Map(document.createElement('div'));
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        map.setView([0, 0], 0, {animate: false});
+        map.flyTo = (latlng: LatLngExpression, zoom: number): Map => map.setView(latlng, zoom, {animate: false});
+        service = new BookmarkService(map);
+    });
+    afterEach(() => {
+        service.destroy();
+    });
+
+    describe('Injection', () => {
+        it('should be injectable with the map component', () => {
+            const mapComponent: MapComponent = new MapComponent({nativeElement: document.createElement('div')});
+            const injected: BookmarkService = ReflectiveInjector.resolveAndCreate([
+                {provide: MapComponent, useValue: mapComponent},
+                BookmarkService,
+            ]).get(BookmarkService);
+            mapComponent.setView([10, 20], 5, {animate: false});
+            expect(injected.save('a').zoom).to.equal(5);
+            injected.destroy();
+        });
+    });
+    describe('.save', () => {
+        it('should save the current view with a name', () => {
+            map.setView([10, 20], 5, {animate: false});
+            const bookmark: IBookmark = service.save('Berlin');
+            expect(bookmark.name).to.equal('Berlin');
+            expect(bookmark.zoom).to.equal(5);
+            expect(bookmark.center.lat).to.be.closeTo(10, 0.0001);
+            expect(service.getBookmarks()).to.deep.equal([bookmark]);
+        });
+        it('should save bounds', () => {
+            const bookmark: IBookmark = service.save('Area', latLngBounds([0, 0], [10, 10]));
+            expect(bookmark.bounds.getNorthEast().lat).to.equal(10);
+            expect(bookmark.center.lat).to.equal(5);
+        });
+        it('should emit the changed bookmarks', (done: MochaDone) => {
+            service.bookmarksChange.subscribe((val: IBookmark[]) => {
+                expect(val.length).to.equal(1);
+                done();
+            });
+            service.save('a');
+        });
+    });
+    describe('.remove / .move', () => {
+        beforeEach(() => {
+            service.save('a');
+            service.save('b');
+            service.save('c');
+        });
+        it('should remove a bookmark', () => {
+            expect(service.remove(1).name).to.equal('b');
+            expect(service.getBookmarks().map((b: IBookmark) => b.name)).to.deep.equal(['a', 'c']);
+            expect(service.remove(5)).to.equal(undefined);
+        });
+        it('should reorder the bookmarks', () => {
+            service.move(2, 0);
+            expect(service.getBookmarks().map((b: IBookmark) => b.name)).to.deep.equal(['c', 'a', 'b']);
+            service.move(0, 3);
+            expect(service.getBookmarks().map((b: IBookmark) => b.name)).to.deep.equal(['c', 'a', 'b']);
+        });
+    });
+    describe('.goTo', () => {
+        beforeEach(() => {
+            map.setView([10, 20], 5, {animate: false});
+            service.save('a');
+            map.setView([0, 0], 0, {animate: false});
+        });
+        it('should fly to the bookmark', () => {
+            let flown: boolean = false;
+            map.flyTo = (latlng: LatLngExpression, zoom: number): Map => {
+                flown = true;
+                return map.setView(latlng, zoom, {animate: false});
+            };
+            expect(service.goTo(0)).to.equal(true);
+            expect(flown).to.equal(true);
+            expect(map.getZoom()).to.equal(5);
+            expect(service.currentIndex).to.equal(0);
+        });
+        it('should set the view without animation', () => {
+            map.flyTo = (): Map => {
+                throw new Error('Should not fly');
+            };
+            service.goTo(0, false);
+            expect(map.getZoom()).to.equal(5);
+        });
+        it('should return false for an unknown bookmark', () => {
+            expect(service.goTo(1)).to.equal(false);
+            expect(service.currentIndex).to.equal(-1);
+        });
+        it('should emit the step', (done: MochaDone) => {
+            service.stepChange.subscribe((step: IBookmarkStep) => {
+                expect(step.index).to.equal(0);
+                expect(step.bookmark.name).to.equal('a');
+                done();
+            });
+            service.goTo(0);
+        });
+        it('should toggle the display of the tour layers', () => {
+            const mapComponent: MapComponent = new MapComponent({nativeElement: document.createElement('div')});
+            const layer: TileLayerDirective = new TileLayerDirective(mapComponent);
+            const other: TileLayerDirective = new TileLayerDirective(mapComponent);
+            map.addLayer(layer);
+            map.addLayer(other);
+            service.tourLayers = {layer, other};
+            service.setBookmarks([{center: map.getCenter(), layers: ['other'], name: 'b', zoom: 3}]);
+            service.goTo(0);
+            expect(layer.display).to.equal(false);
+            expect(other.display).to.equal(true);
+        });
+        it('should keep tour layers within their layer group', () => {
+            const mapComponent: MapComponent = new MapComponent({nativeElement: document.createElement('div')});
+            (mapComponent as any)._size = point(100, 100);
+            (mapComponent as any)._pixelOrigin = point(50, 50);
+            const group: LayerGroupDirective = new LayerGroupDirective(mapComponent);
+            const marker: MarkerDirective = new MarkerDirective(mapComponent, group);
+            group.removeLayer(marker);
+            service.destroy();
+            service = new BookmarkService(mapComponent);
+            service.tourLayers = {marker};
+            service.setBookmarks([{center: mapComponent.getCenter(), layers: ['marker'], name: 'a', zoom: 3}]);
+            service.goTo(0, false);
+            expect(group.hasLayer(marker)).to.equal(true);
+            group.display = false;
+            expect(mapComponent.hasLayer(marker)).to.equal(false);
+        });
+    });
+    describe('Tour', () => {
+        beforeEach(() => {
+            service.stepDuration = 0;
+            service.setBookmarks([
+                {center: map.getCenter(), name: 'a', zoom: 1},
+                {center: map.getCenter(), name: 'b', zoom: 2},
+                {center: map.getCenter(), name: 'c', zoom: 3},
+            ]);
+        });
+        it('should play all bookmarks in order', (done: MochaDone) => {
+            const zooms: number[] = [];
+            service.stepChange.subscribe(() => zooms.push(map.getZoom()));
+            service.playingChange.subscribe((val: boolean) => {
+                if (!val) {
+                    expect(zooms).to.deep.equal([1, 2, 3]);
+                    done();
+                }
+            });
+            expect(service.play()).to.equal(true);
+            expect(service.playing).to.equal(true);
+        });
+        it('should use the duration of a bookmark', (done: MochaDone) => {
+            service.stepDuration = 1000;
+            service.setBookmarks([
+                {center: map.getCenter(), duration: 0, name: 'a', zoom: 1},
+                {center: map.getCenter(), name: 'b', zoom: 2},
+            ]);
+            service.play();
+            setTimeout(() => {
+                expect(service.currentIndex).to.equal(1);
+                expect(service.playing).to.equal(true);
+                done();
+            }, 10);
+        });
+        it('should start the duration of a step when the map has arrived at the bookmark', (done: MochaDone) => {
+            map.flyTo = (): Map => map;
+            service.play();
+            setTimeout(() => {
+                expect(service.currentIndex).to.equal(0);
+                map.fire('moveend');
+                setTimeout(() => {
+                    expect(service.currentIndex).to.equal(1);
+                    done();
+                }, 10);
+            }, 10);
+        });
+        it('should not continue a stopped tour when the map arrives at the bookmark', (done: MochaDone) => {
+            map.flyTo = (): Map => map;
+            service.play();
+            service.stop();
+            map.fire('moveend');
+            setTimeout(() => {
+                expect(service.currentIndex).to.equal(0);
+                done();
+            }, 10);
+        });
+        it('should stop the tour', (done: MochaDone) => {
+            service.play();
+            service.stop();
+            expect(service.playing).to.equal(false);
+            setTimeout(() => {
+                expect(service.currentIndex).to.equal(0);
+                done();
+            }, 10);
+        });
+        it('should start the steps and emit inside of the Angular zone', (done: MochaDone) => {
+            const zone: any = {inside: false};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            map.flyTo = (): Map => map;
+            service.destroy();
+            service = new BookmarkService(map, zone as NgZone);
+            service.stepDuration = 0;
+            service.setBookmarks([
+                {center: map.getCenter(), name: 'a', zoom: 1},
+                {center: map.getCenter(), name: 'b', zoom: 2},
+            ]);
+            service.play();
+            service.stepChange.subscribe((step: IBookmarkStep) => {
+                expect(step.index).to.equal(1);
+                expect(zone.inside).to.equal(true);
+                done();
+            });
+            // Fired by Leaflet outside of the Angular zone
+            map.fire('moveend');
+        });
+        it('should continue from the next or previous bookmark', () => {
+            service.goTo(0);
+            expect(service.next()).to.equal(true);
+            expect(map.getZoom()).to.equal(2);
+            expect(service.previous()).to.equal(true);
+            expect(map.getZoom()).to.equal(1);
+            expect(service.previous()).to.equal(false);
+        });
+    });
+});
@@ -0,0 +1,316 @@
+import { forwardRef, Inject, Injectable, NgZone, Optional } from '@angular/core';
+import { LatLng, LatLngBounds, latLngBounds, Layer, Map } from 'leaflet';
+import { Observable } from 'rxjs/Observable';
+import { Subject } from 'rxjs/Subject';
+import { setLayerDisplay } from './layer-display';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * A named view of a map
+ */
+export interface IBookmark {
+    name: string;
+    center: LatLng;
+    zoom: number;
+    /**
+     * Bounds that are fitted instead of the center and zoom, if given
+     */
+    bounds?: LatLngBounds;
+    /**
+     * Milliseconds the tour stays at this bookmark. The `stepDuration` of the service is used if not given.
+     */
+    duration?: number;
+    /**
+     * Names of the tour layers that are displayed at this bookmark. The other tour layers are hidden. The tour layers
+     * are not changed if not given.
+     */
+    layers?: string[];
+}
+
+/**
+ * Event of a step of a tour
+ */
+export interface IBookmarkStep {
+    index: number;
+    bookmark: IBookmark;
+}
+
+/**
+ * Service to save named views of a map and to play them back as a tour.
+ *
+ * A tour flies to every bookmark in the order of the list, stays there for the duration of the step and continues
+ * with the next one. The duration starts when the map has arrived at the bookmark. On every step the `display` of the
+ * tour layers is set according to the `layers` of the bookmark. Tour layers within a layer group keep their place in
+ * the group.
+ *
+ * The service can be provided by components inside of a map:
+ * ```typescript
+ * @Component({providers: [BookmarkService], selector: 'my-tour', template: '...'})
+ * class MyTourComponent {
+ *     constructor(bookmarkService: BookmarkService) { ... }
+ * }
+ * ```
+ * ```html
+ * <yaga-map><my-tour></my-tour></yaga-map>
+ * ```
+ */
+@Injectable()
+export class BookmarkService {
+    /**
+     * Default milliseconds the tour stays at a bookmark
+     */
+    public stepDuration: number = 5000;
+    /**
+     * Seconds of the fly animation to a bookmark
+     */
+    public flyDuration: number = 2;
+    /**
+     * Starts the tour again after the last bookmark
+     */
+    public loop: boolean = false;
+    /**
+     * Layers by their names, that are shown and hidden by the `layers` of the bookmarks
+     */
+    public tourLayers: {[name: string]: Layer} = {};
+
+    protected map: Map;
+    protected bookmarks: IBookmark[] = [];
+    protected stepIndex: number = -1;
+    protected zoneEmitter: ZoneEmitter;
+
+    private bookmarksSubject: Subject<IBookmark[]> = new Subject();
+    private stepSubject: Subject<IBookmarkStep> = new Subject();
+    private playingSubject: Subject<boolean> = new Subject();
+    private stepTimeout: any;
+    private isPlaying: boolean = false;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) map: Map,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        this.map = map;
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+    }
+
+    /**
+     * Observable that emits the list of bookmarks on every change
+     */
+    public get bookmarksChange(): Observable<IBookmark[]> {
+        return this.bookmarksSubject.asObservable();
+    }
+
+    /**
+     * Observable that emits every bookmark that is shown with `goTo` or in a tour
+     */
+    public get stepChange(): Observable<IBookmarkStep> {
+        return this.stepSubject.asObservable();
+    }
+
+    /**
+     * Observable that emits when a tour starts or stops
+     */
+    public get playingChange(): Observable<boolean> {
+        return this.playingSubject.asObservable();
+    }
+
+    public get playing(): boolean {
+        return this.isPlaying;
+    }
+
+    /**
+     * Index of the last shown bookmark or -1
+     */
+    public get currentIndex(): number {
+        return this.stepIndex;
+    }
+
+    public getBookmarks(): IBookmark[] {
+        return this.bookmarks.slice();
+    }
+
+    /**
+     * Replaces all bookmarks
+     */
+    public setBookmarks(bookmarks: IBookmark[]): void {
+        this.bookmarks = (bookmarks || []).slice();
+        this.stepIndex = Math.min(this.stepIndex, this.bookmarks.length - 1);
+        this.bookmarksSubject.next(this.getBookmarks());
+    }
+
+    /**
+     * Saves the current view of the map with the given name. With bounds, the bookmark fits the bounds instead.
+     */
+    public save(name: string, bounds?: LatLngBounds, options: {duration?: number, layers?: string[]} = {}): IBookmark {
+        const bookmark: IBookmark = {
+            center: bounds ? bounds.getCenter() : this.map.getCenter(),
+            name,
+            zoom: bounds ? this.map.getBoundsZoom(bounds) : this.map.getZoom(),
+        };
+        if (bounds) {
+            bookmark.bounds = latLngBounds(bounds.getSouthWest(), bounds.getNorthEast());
+        }
+        if (options.duration !== undefined) {
+            bookmark.duration = options.duration;
+        }
+        if (options.layers) {
+            bookmark.layers = options.layers.slice();
+        }
+        this.bookmarks.push(bookmark);
+        this.bookmarksSubject.next(this.getBookmarks());
+        return bookmark;
+    }
+
+    /**
+     * Removes the bookmark at the given index
+     */
+    public remove(index: number): IBookmark {
+        if (index < 0 || index >= this.bookmarks.length) {
+            return undefined;
+        }
+        const bookmark: IBookmark = this.bookmarks.splice(index, 1)[0];
+        if (this.stepIndex >= index) {
+            this.stepIndex -= 1;
+        }
+        this.bookmarksSubject.next(this.getBookmarks());
+        return bookmark;
+    }
+
+    /**
+     * Moves the bookmark at the index `from` to the index `to`
+     */
+    public move(from: number, to: number): void {
+        if (from < 0 || from >= this.bookmarks.length || to < 0 || to >= this.bookmarks.length || from === to) {
+            return;
+        }
+        this.bookmarks.splice(to, 0, this.bookmarks.splice(from, 1)[0]);
+        this.bookmarksSubject.next(this.getBookmarks());
+    }
+
+    /**
+     * Shows the bookmark at the given index, animated with `flyTo` by default
+     */
+    public goTo(index: number, animate: boolean = true): boolean {
+        const bookmark: IBookmark = this.bookmarks[index];
+        if (!bookmark) {
+            return false;
+        }
+        this.stepIndex = index;
+        if (bookmark.bounds && animate) {
+            this.map.flyToBounds(bookmark.bounds, {duration: this.flyDuration});
+        } else if (bookmark.bounds) {
+            this.map.fitBounds(bookmark.bounds, {animate: false});
+        } else if (animate) {
+            this.map.flyTo(bookmark.center, bookmark.zoom, {duration: this.flyDuration});
+        } else {
+            this.map.setView(bookmark.center, bookmark.zoom, {animate: false});
+        }
+        this.toggleLayers(bookmark);
+        this.zoneEmitter.run(() => this.stepSubject.next({bookmark, index}));
+        return true;
+    }
+
+    /**
+     * Starts the tour at the given index
+     */
+    public play(index: number = 0): boolean {
+        if (!this.bookmarks[index]) {
+            return false;
+        }
+        this.clearStepTimeout();
+        if (!this.isPlaying) {
+            this.isPlaying = true;
+            this.zoneEmitter.run(() => this.playingSubject.next(true));
+        }
+        this.step(index);
+        return true;
+    }
+
+    /**
+     * Stops the tour at the current bookmark
+     */
+    public stop(): void {
+        this.clearStepTimeout();
+        if (this.isPlaying) {
+            this.isPlaying = false;
+            this.zoneEmitter.run(() => this.playingSubject.next(false));
+        }
+    }
+
+    /**
+     * Shows the next bookmark. A running tour continues from there.
+     */
+    public next(): boolean {
+        return this.jump(this.stepIndex + 1);
+    }
+
+    /**
+     * Shows the previous bookmark. A running tour continues from there.
+     */
+    public previous(): boolean {
+        return this.jump(this.stepIndex - 1);
+    }
+
+    /**
+     * Stops a running tour and completes the observables
+     */
+    public destroy(): void {
+        this.stop();
+        this.bookmarksSubject.complete();
+        this.stepSubject.complete();
+        this.playingSubject.complete();
+    }
+
+    private jump(index: number): boolean {
+        if (this.isPlaying) {
+            return this.play(index);
+        }
+        return this.goTo(index);
+    }
+
+    private step(index: number): void {
+        // The map fires moveend synchronously, when the bookmark is shown without an animation
+        this.map.on('moveend', this.startStepTimeout, this);
+        this.goTo(index);
+    }
+
+    /**
+     * Starts the duration of the current step, when the map has arrived at the bookmark. The map fires `moveend`
+     * outside of the Angular zone, so the timeout is started inside of it for the next steps.
+     */
+    private startStepTimeout(): void {
+        this.map.off('moveend', this.startStepTimeout, this);
+        this.zoneEmitter.run(() => this.setStepTimeout());
+    }
+
+    private setStepTimeout(): void {
+        const bookmark: IBookmark = this.bookmarks[this.stepIndex];
+        this.stepTimeout = setTimeout(() => {
+            this.stepTimeout = undefined;
+            if (this.stepIndex + 1 < this.bookmarks.length) {
+                this.step(this.stepIndex + 1);
+            } else if (this.loop && this.bookmarks.length) {
+                this.step(0);
+            } else {
+                this.stop();
+            }
+        }, bookmark && bookmark.duration !== undefined ? bookmark.duration : this.stepDuration);
+    }
+
+    private clearStepTimeout(): void {
+        this.map.off('moveend', this.startStepTimeout, this);
+        if (this.stepTimeout) {
+            clearTimeout(this.stepTimeout);
+            this.stepTimeout = undefined;
+        }
+    }
+
+    private toggleLayers(bookmark: IBookmark): void {
+        if (!bookmark.layers) {
+            return;
+        }
+        for (const name of Object.keys(this.tourLayers)) {
+            setLayerDisplay(this.map, this.tourLayers[name], bookmark.layers.indexOf(name) !== -1);
+        }
+    }
+}
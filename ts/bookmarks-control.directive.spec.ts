@@ -0,0 +1,204 @@
+import { expect } from 'chai';
+import { LatLngExpression, point } from 'leaflet';
+import {
+    BookmarksControlDirective,
+    IBookmark,
+    IBookmarkStep,
+    MapComponent,
+} from './index';
+
+describe('Bookmarks-Control Directive', () => {
+    let map: MapComponent;
+    let control: BookmarksControlDirective;
+
+    function click(selector: string, index: number = 0): void {
+        const element: Element = control.getContainer().querySelectorAll(selector)[index];
+        element.dispatchEvent(new MouseEvent('click', {bubbles: true}));
+    }
+    function names(): string[] {
+        return control.bookmarks.map((bookmark: IBookmark) => bookmark.name);
+    }
+
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        map.flyTo = (latlng: LatLngExpression, zoom: number): MapComponent => {
+            return map.setView(latlng, zoom, {animate: false});
+        };
+        control = new BookmarksControlDirective(map);
+    });
+    afterEach(() => {
+        control.stop();
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be topright by default', () => {
+            expect(control.position).to.equal('topright');
+        });
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('[(bookmarks)]', () => {
+        it('should be changed in the service when changing in Angular', () => {
+            control.bookmarks = [{center: map.getCenter(), name: 'a', zoom: 3}];
+            expect(control.bookmarkService.getBookmarks().length).to.equal(1);
+        });
+        it('should render a list item for every bookmark', () => {
+            control.bookmarks = [
+                {center: map.getCenter(), name: 'a', zoom: 3},
+                {center: map.getCenter(), name: 'b', zoom: 4},
+            ];
+            expect(control.getContainer().querySelectorAll('.yaga-bookmarks-control-item').length).to.equal(2);
+            expect(control.getContainer().querySelector('.yaga-bookmarks-control-goto').textContent).to.equal('a');
+        });
+        it('should fire an event when saving a view', (done: MochaDone) => {
+            control.bookmarksChange.subscribe((val: IBookmark[]) => {
+                expect(val[0].name).to.equal('Bookmark 1');
+                done();
+            });
+            control.save();
+        });
+    });
+    describe('[(playing)]', () => {
+        beforeEach(() => {
+            control.stepDuration = 1000;
+            control.bookmarks = [
+                {center: map.getCenter(), name: 'a', zoom: 3},
+                {center: map.getCenter(), name: 'b', zoom: 4},
+            ];
+        });
+        it('should start the tour when changing in Angular', () => {
+            control.playing = true;
+            expect(control.bookmarkService.playing).to.equal(true);
+            expect(map.getZoom()).to.equal(3);
+        });
+        it('should stop the tour when changing in Angular', () => {
+            control.playing = true;
+            control.playing = false;
+            expect(control.bookmarkService.playing).to.equal(false);
+        });
+        it('should fire an event when changing in the service', () => {
+            const values: boolean[] = [];
+            control.playingChange.subscribe((val: boolean) => values.push(val));
+            control.play();
+            control.stop();
+            expect(values).to.deep.equal([true, false]);
+        });
+    });
+    describe('[stepDuration]', () => {
+        it('should be changed in the service when changing in Angular', () => {
+            control.stepDuration = 1234;
+            expect(control.bookmarkService.stepDuration).to.equal(1234);
+        });
+    });
+    describe('[flyDuration]', () => {
+        it('should be changed in the service when changing in Angular', () => {
+            control.flyDuration = 3;
+            expect(control.bookmarkService.flyDuration).to.equal(3);
+        });
+    });
+    describe('[loop]', () => {
+        it('should be changed in the service when changing in Angular', () => {
+            control.loop = true;
+            expect(control.bookmarkService.loop).to.equal(true);
+        });
+    });
+    describe('(stepChange)', () => {
+        it('should fire an event when showing a bookmark', (done: MochaDone) => {
+            control.bookmarks = [{center: map.getCenter(), name: 'a', zoom: 3}];
+            control.stepChange.subscribe((step: IBookmarkStep) => {
+                expect(step.bookmark.name).to.equal('a');
+                done();
+            });
+            control.goTo(0);
+        });
+    });
+
+    describe('Buttons', () => {
+        beforeEach(() => {
+            control.stepDuration = 1000;
+            control.bookmarks = [
+                {center: map.getCenter(), name: 'a', zoom: 3},
+                {center: map.getCenter(), name: 'b', zoom: 4},
+            ];
+        });
+        it('should save the current view with the entered name', () => {
+            map.setView([10, 20], 6, {animate: false});
+            (control.getContainer().querySelector('.yaga-bookmarks-control-name') as HTMLInputElement).value = 'c';
+            click('.yaga-bookmarks-control-save');
+            expect(names()).to.deep.equal(['a', 'b', 'c']);
+            expect(control.bookmarks[2].zoom).to.equal(6);
+        });
+        it('should show a bookmark', () => {
+            click('.yaga-bookmarks-control-goto', 1);
+            expect(map.getZoom()).to.equal(4);
+            expect(control.getContainer().querySelectorAll('.yaga-bookmarks-control-item')[1].className)
+                .to.contain('yaga-bookmarks-control-active');
+        });
+        it('should move bookmarks up and down', () => {
+            click('.yaga-bookmarks-control-up', 1);
+            expect(names()).to.deep.equal(['b', 'a']);
+            click('.yaga-bookmarks-control-down', 0);
+            expect(names()).to.deep.equal(['a', 'b']);
+        });
+        it('should delete a bookmark', () => {
+            click('.yaga-bookmarks-control-delete', 0);
+            expect(names()).to.deep.equal(['b']);
+        });
+        it('should toggle the tour', () => {
+            click('.yaga-bookmarks-control-play');
+            expect(control.playing).to.equal(true);
+            click('.yaga-bookmarks-control-play');
+            expect(control.playing).to.equal(false);
+        });
+    });
+});
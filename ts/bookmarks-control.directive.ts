@@ -0,0 +1,471 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    Layer,
+    LeafletEvent,
+    Map,
+} from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { BookmarkService, IBookmark, IBookmarkStep } from './bookmark.service';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Angular2 directive for a control to save named views of the map and to play them back as a tour.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-bookmarks-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(bookmarks)]="..."
+ *         [(playing)]="..."
+ *
+ *         (stepChange)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [stepDuration]="..."
+ *         [flyDuration]="..."
+ *         [loop]="..."
+ *         [tourLayers]="..."
+ *         >
+ *     </yaga-bookmarks-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The bookmarks are managed by the `bookmarkService` of the control, that can also be used from the code.
+ * * The list of the control has buttons to show, move up, move down and delete a bookmark. New bookmarks are saved
+ * from the current view with the name in the input field.
+ * * In a tour the map flies to every bookmark for `flyDuration` seconds and stays there for the `duration` of the
+ * bookmark or `stepDuration` milliseconds. The layers in `tourLayers` are displayed according to the `layers` of the
+ * bookmark, or they can be toggled in the `(stepChange)` event.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Bookmarks-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/bookmarks-control.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/bookmarkscontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-bookmarks-control',
+})
+export class BookmarksControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-bookmarks-control [(display)]="someValue">`
+     * or `<yaga-bookmarks-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-bookmarks-control [(zIndex)]="someValue">`
+     * or `<yaga-bookmarks-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-bookmarks-control [(position)]="someValue">`
+     * or `<yaga-bookmarks-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+
+    /**
+     * Two-Way bound property for the list of bookmarks.
+     * Use it with `<yaga-bookmarks-control [(bookmarks)]="someValue">`
+     * or `<yaga-bookmarks-control (bookmarksChange)="processEvent($event)">`
+     */
+    @Output() public bookmarksChange: EventEmitter<IBookmark[]> = new EventEmitter();
+    /**
+     * Two-Way bound property for the state of the tour.
+     * Use it with `<yaga-bookmarks-control [(playing)]="someValue">`
+     * or `<yaga-bookmarks-control (playingChange)="processEvent($event)">`
+     */
+    @Output() public playingChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Output for every bookmark that is shown, on its own or in a tour.
+     * Use it with `<yaga-bookmarks-control (stepChange)="processEvent($event)">`
+     */
+    @Output() public stepChange: EventEmitter<IBookmarkStep> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-bookmarks-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-bookmarks-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-bookmarks-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-bookmarks-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-bookmarks-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-bookmarks-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-bookmarks-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Service with the bookmarks and the tour of this control
+     */
+    public bookmarkService: BookmarkService;
+
+    protected container: HTMLElement;
+    protected nameInput: HTMLInputElement;
+    protected playButton: HTMLAnchorElement;
+    protected listElement: HTMLElement;
+    protected zoneEmitter: ZoneEmitter;
+
+    private subscriptions: Subscription[] = [];
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super({position: 'topright'});
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.bookmarkService = new BookmarkService(mapComponent, ngZone);
+
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-bookmarks-control');
+        DomEvent.disableClickPropagation(this.container);
+        const form: HTMLElement = DomUtil.create('div', 'yaga-bookmarks-control-form', this.container);
+        this.nameInput = DomUtil.create('input', 'yaga-bookmarks-control-name', form) as HTMLInputElement;
+        this.nameInput.type = 'text';
+        this.nameInput.placeholder = 'Name';
+        this.createButton('yaga-bookmarks-control-save', 'Save the current view', '+', form, () => {
+            this.save(this.nameInput.value);
+            this.nameInput.value = '';
+        });
+        this.playButton = this.createButton('yaga-bookmarks-control-play', 'Play the tour', '&#9654;', form, () => {
+            this.playing = !this.playing;
+        });
+        this.listElement = DomUtil.create('ul', 'yaga-bookmarks-control-list', this.container);
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            self.zoneEmitter.emit(self.displayChange, true);
+            self.zoneEmitter.emit(self.addEvent, {type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.bookmarkService.stop();
+            self.zoneEmitter.emit(self.displayChange, false);
+            self.zoneEmitter.emit(self.removeEvent, {type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        this.subscriptions.push(this.bookmarkService.bookmarksChange.subscribe((val: IBookmark[]) => {
+            this.render();
+            this.zoneEmitter.emit(this.bookmarksChange, val);
+        }));
+        this.subscriptions.push(this.bookmarkService.playingChange.subscribe((val: boolean) => {
+            if (val) {
+                DomUtil.addClass(this.playButton, 'yaga-bookmarks-control-active');
+            } else {
+                DomUtil.removeClass(this.playButton, 'yaga-bookmarks-control-active');
+            }
+            this.zoneEmitter.emit(this.playingChange, val);
+        }));
+        this.subscriptions.push(this.bookmarkService.stepChange.subscribe((val: IBookmarkStep) => {
+            this.render();
+            this.zoneEmitter.emit(this.stepChange, val);
+        }));
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions = [];
+        this.bookmarkService.destroy();
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.zoneEmitter.emit(this.positionChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to save the current view of the map as bookmark. Without a name it is numbered.
+     */
+    public save(name?: string): IBookmark {
+        return this.bookmarkService.save(name || 'Bookmark ' + (this.bookmarkService.getBookmarks().length + 1));
+    }
+
+    /**
+     * Self written method to fly to the bookmark at the given index
+     */
+    public goTo(index: number): boolean {
+        return this.bookmarkService.goTo(index);
+    }
+
+    /**
+     * Self written method to start the tour at the given index
+     */
+    public play(index: number = 0): boolean {
+        return this.bookmarkService.play(index);
+    }
+
+    /**
+     * Self written method to stop the tour
+     */
+    public stop(): void {
+        this.bookmarkService.stop();
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-bookmarks-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-bookmarks-control [(display)]="someValue">`
+     * or `<yaga-bookmarks-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-bookmarks-control [(position)]="someValue">`
+     * or `<yaga-bookmarks-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-bookmarks-control [(zIndex)]="someValue">`
+     * or `<yaga-bookmarks-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zoneEmitter.emit(this.zIndexChange, zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Two-Way bound property for the list of bookmarks.
+     * Use it with `<yaga-bookmarks-control [(bookmarks)]="someValue">`
+     * or `<yaga-bookmarks-control [bookmarks]="someValue">`
+     */
+    @Input() public set bookmarks(val: IBookmark[]) {
+        this.bookmarkService.setBookmarks(val);
+    }
+    public get bookmarks(): IBookmark[] {
+        return this.bookmarkService.getBookmarks();
+    }
+
+    /**
+     * Two-Way bound property for the state of the tour. Setting it to true starts the tour at the first bookmark.
+     * Use it with `<yaga-bookmarks-control [(playing)]="someValue">`
+     * or `<yaga-bookmarks-control [playing]="someValue">`
+     */
+    @Input() public set playing(val: boolean) {
+        if (val === this.bookmarkService.playing) {
+            return;
+        }
+        if (val) {
+            this.bookmarkService.play();
+            return;
+        }
+        this.bookmarkService.stop();
+    }
+    public get playing(): boolean {
+        return this.bookmarkService.playing;
+    }
+
+    /**
+     * Input for the default milliseconds the tour stays at a bookmark. Default is 5000.
+     * Use it with `<yaga-bookmarks-control [stepDuration]="someValue">`
+     */
+    @Input() public set stepDuration(val: number) {
+        this.bookmarkService.stepDuration = val;
+    }
+    public get stepDuration(): number {
+        return this.bookmarkService.stepDuration;
+    }
+
+    /**
+     * Input for the seconds of the fly animation to a bookmark. Default is 2.
+     * Use it with `<yaga-bookmarks-control [flyDuration]="someValue">`
+     */
+    @Input() public set flyDuration(val: number) {
+        this.bookmarkService.flyDuration = val;
+    }
+    public get flyDuration(): number {
+        return this.bookmarkService.flyDuration;
+    }
+
+    /**
+     * Input to start the tour again after the last bookmark.
+     * Use it with `<yaga-bookmarks-control [loop]="someValue">`
+     */
+    @Input() public set loop(val: boolean) {
+        this.bookmarkService.loop = val;
+    }
+    public get loop(): boolean {
+        return this.bookmarkService.loop;
+    }
+
+    /**
+     * Input for the layers by their names, that are displayed according to the `layers` of the bookmarks.
+     * Use it with `<yaga-bookmarks-control [tourLayers]="{name: layer}">`
+     */
+    @Input() public set tourLayers(val: {[name: string]: Layer}) {
+        this.bookmarkService.tourLayers = val || {};
+    }
+    public get tourLayers(): {[name: string]: Layer} {
+        return this.bookmarkService.tourLayers;
+    }
+
+    /**
+     * Internal method to render the list of bookmarks into the control
+     */
+    protected render(): void {
+        this.listElement.innerHTML = '';
+        this.bookmarkService.getBookmarks().forEach((bookmark: IBookmark, index: number) => {
+            const item: HTMLElement = DomUtil.create('li', 'yaga-bookmarks-control-item', this.listElement);
+            if (index === this.bookmarkService.currentIndex) {
+                DomUtil.addClass(item, 'yaga-bookmarks-control-active');
+            }
+            this.createButton('yaga-bookmarks-control-goto', 'Show the bookmark', '', item, () => {
+                this.bookmarkService.goTo(index);
+            }).textContent = bookmark.name;
+            this.createButton('yaga-bookmarks-control-up', 'Move up', '&#8593;', item, () => {
+                this.bookmarkService.move(index, index - 1);
+            });
+            this.createButton('yaga-bookmarks-control-down', 'Move down', '&#8595;', item, () => {
+                this.bookmarkService.move(index, index + 1);
+            });
+            this.createButton('yaga-bookmarks-control-delete', 'Delete the bookmark', '&#215;', item, () => {
+                this.bookmarkService.remove(index);
+            });
+        });
+    }
+
+    private createButton(
+        className: string,
+        title: string,
+        html: string,
+        parent: HTMLElement,
+        fn: () => void,
+    ): HTMLAnchorElement {
+        const button: HTMLAnchorElement = DomUtil.create('a', className, parent) as HTMLAnchorElement;
+        button.href = '#';
+        button.title = title;
+        button.innerHTML = html;
+        button.setAttribute('role', 'button');
+        DomEvent.on(button, 'click', (event: Event) => {
+            DomEvent.preventDefault(event);
+            fn();
+        });
+        return button;
+    }
+}
@@ -0,0 +1,39 @@
+import {
+    Circle,
+    CRS,
+    LatLng,
+    latLng,
+    Marker,
+} from 'leaflet';
+import { LayerEditor } from './layer-editor';
+
+/**
+ * Editor for circles with a draggable handle for the center and one for the radius.
+ */
+export class CircleEditor extends LayerEditor {
+    protected layer: Circle;
+
+    constructor(layer: Circle) {
+        super(layer);
+    }
+
+    protected createHandles(): void {
+        const centerHandle: Marker = this.createHandle(this.layer.getLatLng(), 'center');
+        const radiusHandle: Marker = this.createHandle(this.getRadiusPosition(), 'radius');
+
+        centerHandle.on('drag', () => {
+            this.layer.setLatLng(centerHandle.getLatLng());
+            radiusHandle.setLatLng(this.getRadiusPosition());
+        });
+        radiusHandle.on('drag', () => {
+            this.layer.setRadius(this.layer.getLatLng().distanceTo(radiusHandle.getLatLng()));
+        });
+    }
+
+    private getRadiusPosition(): LatLng {
+        const center: LatLng = this.layer.getLatLng();
+        const earthRadius: number = (CRS.Earth as any).R;
+        const lngOffset: number = this.layer.getRadius() / (earthRadius * Math.cos(center.lat * Math.PI / 180));
+        return latLng(center.lat, center.lng + lngOffset * 180 / Math.PI);
+    }
+}
@@ -6,6 +6,7 @@ import {
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
     Optional,
     Output,
@@ -25,8 +26,11 @@ import {
     PopupEvent,
     TooltipEvent,
 } from 'leaflet';
+import { CircleEditor } from './circle-editor';
+import { LayerGroupProvider } from './layer-group.provider';
 import { lng2lat } from './lng2lat';
 import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
 
 // Content-Child imports
 import { PopupDirective } from './popup.directive';
@@ -197,61 +201,73 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
      */
     @Optional() @ContentChild(TooltipDirective) public tooltipDirective: TooltipDirective;
 
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected editor: CircleEditor;
     private initialized: boolean = false;
 
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         super([0, 0]);
 
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
         this.feature = this.feature || {type: 'Feature', properties: {}, geometry: {type: 'Point', coordinates: []}};
         this.feature.properties = this.feature.properties || {};
 
         this.on('remove', () => {
-            this.displayChange.emit(false);
+            this.zoneEmitter.emit(this.displayChange, false);
         });
         this.on('add', () => {
-            this.displayChange.emit(true);
+            this.zoneEmitter.emit(this.displayChange, true);
         });
 
-        mapComponent.addLayer(this);
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
 
         // Events
         this.on('add', (event: Event) => {
-            this.addEvent.emit(event);
+            this.zoneEmitter.emit(this.addEvent, event);
         });
         this.on('remove', (event: Event) => {
-            this.removeEvent.emit(event);
+            this.zoneEmitter.emit(this.removeEvent, event);
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event);
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
         });
         this.on('click', (event: MouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event);
         });
         this.on('dbclick', (event: MouseEvent) => {
-            this.dbclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dbclickEvent, event);
         });
         this.on('mousedown', (event: MouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event);
         });
         this.on('mouseover', (event: MouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
         });
         this.on('mouseout', (event: MouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
         });
         this.on('contextmenu', (event: MouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
         });
     }
 
@@ -272,6 +288,9 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
      * Internal method to provide the removal of the layer in Leaflet, when removing it from the Angular template
      */
     public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
         this.removeFrom((this as any)._map);
     }
 
@@ -281,13 +300,16 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
      */
     public setLatLng(val: LatLng | LatLngTuple | LatLngLiteral): this {
         super.setLatLng((val as any));
+        if (this.editor) {
+            this.editor.update();
+        }
         if (!this.initialized) {
             return this;
         }
-        this.positionChange.emit((this as any)._latlng);
-        this.latChange.emit((this as any)._latlng.lat);
-        this.lngChange.emit((this as any)._latlng.lng);
-        this.geoJSONChange.emit(this.geoJSON);
+        this.zoneEmitter.emit(this.positionChange, (this as any)._latlng);
+        this.zoneEmitter.emit(this.latChange, (this as any)._latlng.lat);
+        this.zoneEmitter.emit(this.lngChange, (this as any)._latlng.lng);
+        this.zoneEmitter.emit(this.geoJSONChange, this.geoJSON);
         return this;
     }
     @Input() public set position(val: LatLng | LatLngTuple | LatLngLiteral) {
@@ -316,7 +338,10 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
      */
     public setRadius(val: number): this {
         super.setRadius(val);
-        this.radiusChange.emit(val);
+        if (this.editor) {
+            this.editor.update();
+        }
+        this.zoneEmitter.emit(this.radiusChange, val);
         return this;
     }
 
@@ -353,45 +378,45 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
     public setStyle(style: PathOptions): this {
         super.setStyle(style);
         if (style.hasOwnProperty('stroke')) {
-            this.strokeChange.emit(style.stroke);
+            this.zoneEmitter.emit(this.strokeChange, style.stroke);
         }
         if (style.hasOwnProperty('color')) {
-            this.colorChange.emit(style.color);
+            this.zoneEmitter.emit(this.colorChange, style.color);
         }
         if (style.hasOwnProperty('weight')) {
-            this.weightChange.emit(style.weight);
+            this.zoneEmitter.emit(this.weightChange, style.weight);
         }
         if (style.hasOwnProperty('opacity')) {
-            this.opacityChange.emit(style.opacity);
+            this.zoneEmitter.emit(this.opacityChange, style.opacity);
         }
         if (style.hasOwnProperty('lineCap')) {
-            this.lineCapChange.emit(style.lineCap);
+            this.zoneEmitter.emit(this.lineCapChange, style.lineCap);
         }
         if (style.hasOwnProperty('lineJoin')) {
-            this.lineJoinChange.emit(style.lineJoin);
+            this.zoneEmitter.emit(this.lineJoinChange, style.lineJoin);
         }
         if (style.hasOwnProperty('dashArray')) {
-            this.dashArrayChange.emit(style.dashArray);
+            this.zoneEmitter.emit(this.dashArrayChange, style.dashArray);
         }
         if (style.hasOwnProperty('dashOffset')) {
-            this.dashOffsetChange.emit(style.dashOffset);
+            this.zoneEmitter.emit(this.dashOffsetChange, style.dashOffset);
         }
         if (style.hasOwnProperty('fill')) {
-            this.fillChange.emit(style.fill);
+            this.zoneEmitter.emit(this.fillChange, style.fill);
         }
         if (style.hasOwnProperty('fillColor')) {
-            this.fillColorChange.emit(style.fillColor);
+            this.zoneEmitter.emit(this.fillColorChange, style.fillColor);
         }
         if (style.hasOwnProperty('fillOpacity')) {
-            this.fillOpacityChange.emit(style.fillOpacity);
+            this.zoneEmitter.emit(this.fillOpacityChange, style.fillOpacity);
         }
         if (style.hasOwnProperty('fillRule')) {
-            this.fillRuleChange.emit(style.fillRule);
+            this.zoneEmitter.emit(this.fillRuleChange, style.fillRule);
         }
         if (style.hasOwnProperty('className')) {
-            this.classNameChange.emit(style.className);
+            this.zoneEmitter.emit(this.classNameChange, style.className);
         }
-        this.styleChange.emit(style);
+        this.zoneEmitter.emit(this.styleChange, style);
 
         return this;
     }
@@ -566,7 +591,7 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
             /* istanbul ignore next */
             return;
         }
-        this.displayChange.emit(val);
+        this.zoneEmitter.emit(this.displayChange, val);
         container.style.display = val ? '' : 'none';
     }
     public get display(): boolean {
@@ -601,9 +626,31 @@ export class CircleDirective<T> extends Circle implements OnDestroy, AfterConten
      */
     @Input() public set properties(val: T) {
         this.feature.properties = val;
-        this.geoJSONChange.emit(this.geoJSON);
+        this.zoneEmitter.emit(this.geoJSONChange, this.geoJSON);
     }
     public get properties(): T {
         return (this.feature.properties as T);
     }
+
+    /**
+     * Input for the editable state. An editable circle displays draggable handles for its center and radius.
+     * Changes are emitted with the two-way bindings and the map fires a `draw:edited` event after each edit.
+     * Use it with `<yaga-circle [editable]="someValue">`
+     */
+    @Input() public set editable(val: boolean) {
+        if (!this.editor) {
+            if (!val) {
+                return;
+            }
+            this.editor = new CircleEditor(this);
+        }
+        if (val) {
+            this.editor.enable();
+            return;
+        }
+        this.editor.disable();
+    }
+    public get editable(): boolean {
+        return !!this.editor && this.editor.isEnabled();
+    }
 }
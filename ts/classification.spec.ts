@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import {
+    classify,
+    createClassStyleRules,
+    createLegendClasses,
+    getClassBreaks,
+    getClassColors,
+    getPropertyValues,
+    ILegendClass,
+} from './index';
+
+describe('Classification helper', () => {
+    const VALUES: number[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 100];
+
+    describe('getPropertyValues', () => {
+        it('should get the finite numeric values of a property', () => {
+            expect(getPropertyValues({
+                features: [
+                    {geometry: {coordinates: [0, 0], type: 'Point'}, properties: {value: 1}, type: 'Feature'},
+                    {geometry: {coordinates: [0, 0], type: 'Point'}, properties: {value: 'a'}, type: 'Feature'},
+                    {geometry: {coordinates: [0, 0], type: 'Point'}, properties: {}, type: 'Feature'},
+                    {geometry: {coordinates: [0, 0], type: 'Point'}, properties: {value: 3}, type: 'Feature'},
+                ],
+                type: 'FeatureCollection',
+            }, 'value')).to.deep.equal([1, 3]);
+        });
+        it('should return an empty array without data', () => {
+            expect(getPropertyValues(undefined, 'value')).to.deep.equal([]);
+        });
+    });
+    describe('getClassBreaks', () => {
+        it('should return no breaks without values', () => {
+            expect(getClassBreaks([], 5, 'jenks')).to.deep.equal([]);
+        });
+        it('should calculate equal intervals', () => {
+            expect(getClassBreaks([0, 5, 10, 20], 4, 'equalInterval')).to.deep.equal([0, 5, 10, 15, 20]);
+        });
+        it('should calculate quantiles', () => {
+            expect(getClassBreaks([4, 1, 3, 2, 5], 2, 'quantile')).to.deep.equal([1, 3, 5]);
+        });
+        it('should use quantiles by default', () => {
+            expect(getClassBreaks([4, 1, 3, 2, 5], 2)).to.deep.equal([1, 3, 5]);
+        });
+        it('should calculate natural breaks', () => {
+            expect(getClassBreaks([1, 2, 3, 10, 11, 12, 50, 51], 3, 'jenks')).to.deep.equal([1, 10, 50, 51]);
+        });
+        it('should separate outliers with natural breaks', () => {
+            const breaks: number[] = getClassBreaks(VALUES, 2, 'jenks');
+            expect(breaks).to.deep.equal([1, 100, 100]);
+        });
+        it('should reduce the count of natural breaks to the count of values', () => {
+            expect(getClassBreaks([1, 2], 5, 'jenks').length).to.equal(3);
+        });
+        it('should calculate standard deviation classes', () => {
+            const breaks: number[] = getClassBreaks([2, 4, 4, 4, 5, 5, 7, 9], 4, 'standardDeviation');
+            // mean 5 and standard deviation 2
+            expect(breaks).to.deep.equal([2, 3, 5, 7, 9]);
+        });
+        it('should clamp standard deviation classes to the minimum and maximum', () => {
+            const breaks: number[] = getClassBreaks([2, 4, 4, 4, 5, 5, 7, 9], 8, 'standardDeviation');
+            expect(breaks[1]).to.equal(2);
+            expect(breaks[7]).to.equal(9);
+        });
+    });
+    describe('classify', () => {
+        it('should classify a property of a feature collection', () => {
+            expect(classify({
+                features: [0, 5, 10, 20].map((value: number) => {
+                    return {
+                        geometry: {coordinates: [0, 0], type: 'Point'},
+                        properties: {value},
+                        type: 'Feature',
+                    } as any;
+                }),
+                type: 'FeatureCollection',
+            }, 'value', 2, 'equalInterval')).to.deep.equal([0, 10, 20]);
+        });
+    });
+    describe('getClassColors', () => {
+        it('should use fitting colors directly', () => {
+            expect(getClassColors(['#ff0000', '#00ff00'], 2)).to.deep.equal(['#ff0000', '#00ff00']);
+        });
+        it('should use the colors as ramp', () => {
+            expect(getClassColors(['#000000', '#ffffff'], 3)).to.deep.equal(['#000000', '#808080', '#ffffff']);
+        });
+    });
+    describe('createLegendClasses', () => {
+        it('should create a class between every break', () => {
+            const classes: ILegendClass[] = createLegendClasses([0, 1.234, 10], ['#000000', '#ffffff']);
+            expect(classes).to.deep.equal([
+                {color: '#000000', label: '0 - 1.23', max: 1.234, min: 0},
+                {color: '#ffffff', label: '1.23 - 10', max: 10, min: 1.234},
+            ]);
+        });
+    });
+    describe('createClassStyleRules', () => {
+        it('should create a style rule for every class with an inclusive maximum in the last class', () => {
+            const classes: ILegendClass[] = createLegendClasses([0, 5, 10], ['#000000', '#ffffff']);
+            expect(createClassStyleRules('value', classes)).to.deep.equal([
+                {max: 5, min: 0, property: 'value', style: {fillColor: '#000000'}},
+                {min: 5, property: 'value', style: {fillColor: '#ffffff'}},
+            ]);
+        });
+    });
+});
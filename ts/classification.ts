@@ -0,0 +1,252 @@
+import { GenericGeoJSONFeatureCollection } from '@yaga/generic-geojson';
+import { interpolateStops, IStyleRule } from './style-rules';
+
+/**
+ * Methods to classify numeric values
+ */
+export type ClassificationMethod = 'equalInterval' | 'quantile' | 'jenks' | 'standardDeviation';
+
+/**
+ * Class of a classification with its color, as displayed in a legend
+ */
+export interface ILegendClass {
+    /**
+     * Lower limit of the class (inclusive)
+     */
+    min: number;
+    /**
+     * Upper limit of the class (exclusive, except for the last class)
+     */
+    max: number;
+    color: string;
+    label: string;
+}
+
+/**
+ * Function to get the finite numeric values of a property of all features in a feature collection
+ */
+export function getPropertyValues(
+    collection: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any>,
+    property: string,
+): number[] {
+    const values: number[] = [];
+    if (!collection || !collection.features) {
+        return values;
+    }
+    for (const feature of collection.features) {
+        const value: any = feature.properties ? feature.properties[property] : undefined;
+        if (typeof value === 'number' && isFinite(value)) {
+            values.push(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Function to get sorted copy of values
+ */
+function sortValues(values: number[]): number[] {
+    return values.slice().sort((a: number, b: number) => a - b);
+}
+
+/**
+ * Function to get the class breaks of equal intervals between the minimum and maximum
+ */
+export function equalIntervalBreaks(values: number[], classCount: number): number[] {
+    const sorted: number[] = sortValues(values);
+    const min: number = sorted[0];
+    const max: number = sorted[sorted.length - 1];
+    const breaks: number[] = [min];
+    for (let i: number = 1; i < classCount; i += 1) {
+        breaks.push(min + (max - min) * i / classCount);
+    }
+    breaks.push(max);
+    return breaks;
+}
+
+/**
+ * Function to get the class breaks of classes with (nearly) the same count of values
+ */
+export function quantileBreaks(values: number[], classCount: number): number[] {
+    const sorted: number[] = sortValues(values);
+    const breaks: number[] = [sorted[0]];
+    for (let i: number = 1; i < classCount; i += 1) {
+        const position: number = (sorted.length - 1) * i / classCount;
+        const lower: number = Math.floor(position);
+        const upper: number = Math.ceil(position);
+        breaks.push(sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower));
+    }
+    breaks.push(sorted[sorted.length - 1]);
+    return breaks;
+}
+
+/**
+ * Function to get the class breaks of the Jenks natural breaks optimization, that minimizes the variance within the
+ * classes
+ */
+export function jenksBreaks(values: number[], classCount: number): number[] {
+    const sorted: number[] = sortValues(values);
+    const count: number = sorted.length;
+    classCount = Math.min(classCount, count);
+
+    const lowerClassLimits: number[][] = [];
+    const varianceCombinations: number[][] = [];
+    for (let i: number = 0; i <= count; i += 1) {
+        lowerClassLimits.push([]);
+        varianceCombinations.push([]);
+        for (let j: number = 0; j <= classCount; j += 1) {
+            lowerClassLimits[i].push(0);
+            varianceCombinations[i].push(i >= 2 ? Infinity : 0);
+        }
+    }
+    for (let j: number = 1; j <= classCount; j += 1) {
+        lowerClassLimits[1][j] = 1;
+    }
+
+    for (let l: number = 2; l <= count; l += 1) {
+        let sum: number = 0;
+        let sumSquares: number = 0;
+        let weight: number = 0;
+        let variance: number = 0;
+        for (let m: number = 1; m <= l; m += 1) {
+            const lowerClassLimit: number = l - m + 1;
+            const value: number = sorted[lowerClassLimit - 1];
+            weight += 1;
+            sum += value;
+            sumSquares += value * value;
+            variance = sumSquares - (sum * sum) / weight;
+            const previous: number = lowerClassLimit - 1;
+            if (previous !== 0) {
+                for (let j: number = 2; j <= classCount; j += 1) {
+                    if (varianceCombinations[l][j] >= variance + varianceCombinations[previous][j - 1]) {
+                        lowerClassLimits[l][j] = lowerClassLimit;
+                        varianceCombinations[l][j] = variance + varianceCombinations[previous][j - 1];
+                    }
+                }
+            }
+        }
+        lowerClassLimits[l][1] = 1;
+        varianceCombinations[l][1] = variance;
+    }
+
+    const breaks: number[] = [];
+    breaks[0] = sorted[0];
+    breaks[classCount] = sorted[count - 1];
+    let k: number = count;
+    for (let j: number = classCount; j > 1; j -= 1) {
+        breaks[j - 1] = sorted[lowerClassLimits[k][j] - 1];
+        k = lowerClassLimits[k][j] - 1;
+    }
+    return breaks;
+}
+
+/**
+ * Function to get the class breaks of classes with the width of one standard deviation around the mean. The outer
+ * classes are extended to the minimum and maximum.
+ */
+export function standardDeviationBreaks(values: number[], classCount: number): number[] {
+    const sorted: number[] = sortValues(values);
+    const min: number = sorted[0];
+    const max: number = sorted[sorted.length - 1];
+    const mean: number = sorted.reduce((sum: number, value: number) => sum + value, 0) / sorted.length;
+    const deviation: number = Math.sqrt(
+        sorted.reduce((sum: number, value: number) => sum + (value - mean) * (value - mean), 0) / sorted.length,
+    );
+    const breaks: number[] = [min];
+    for (let i: number = 1; i < classCount; i += 1) {
+        breaks.push(Math.min(max, Math.max(min, mean + (i - classCount / 2) * deviation)));
+    }
+    breaks.push(max);
+    return breaks;
+}
+
+/**
+ * Function to classify values with the given method. The result are the class breaks, starting with the minimum and
+ * ending with the maximum, so there is one break more than classes.
+ */
+export function getClassBreaks(
+    values: number[],
+    classCount: number,
+    method: ClassificationMethod = 'quantile',
+): number[] {
+    if (!values.length) {
+        return [];
+    }
+    classCount = Math.max(1, Math.floor(classCount));
+    switch (method) {
+        case 'equalInterval':
+            return equalIntervalBreaks(values, classCount);
+        case 'jenks':
+            return jenksBreaks(values, classCount);
+        case 'standardDeviation':
+            return standardDeviationBreaks(values, classCount);
+        default:
+            return quantileBreaks(values, classCount);
+    }
+}
+
+/**
+ * Function to classify a numeric property of a feature collection with the given method
+ */
+export function classify(
+    collection: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any>,
+    property: string,
+    classCount: number,
+    method: ClassificationMethod = 'quantile',
+): number[] {
+    return getClassBreaks(getPropertyValues(collection, property), classCount, method);
+}
+
+/**
+ * Function to get a color for every class. The given colors are used as a ramp, when their count does not fit the
+ * count of classes.
+ */
+export function getClassColors(colors: string[], classCount: number): string[] {
+    if (colors.length === classCount || colors.length < 2) {
+        return colors.slice(0, classCount);
+    }
+    const stops: Array<[number, string]> = colors.map((color: string, index: number): [number, string] => {
+        return [index / (colors.length - 1), color];
+    });
+    const classColors: string[] = [];
+    for (let i: number = 0; i < classCount; i += 1) {
+        classColors.push(interpolateStops(stops, classCount > 1 ? i / (classCount - 1) : 0) as string);
+    }
+    return classColors;
+}
+
+/**
+ * Function to create the classes for a legend from class breaks and colors
+ */
+export function createLegendClasses(breaks: number[], colors: string[], precision: number = 2): ILegendClass[] {
+    const classColors: string[] = getClassColors(colors, Math.max(0, breaks.length - 1));
+    const factor: number = Math.pow(10, precision);
+    const format: (value: number) => string = (value: number): string => {
+        return (Math.round(value * factor) / factor).toString();
+    };
+    const classes: ILegendClass[] = [];
+    for (let i: number = 0; i < breaks.length - 1; i += 1) {
+        classes.push({
+            color: classColors[i],
+            label: format(breaks[i]) + ' - ' + format(breaks[i + 1]),
+            max: breaks[i + 1],
+            min: breaks[i],
+        });
+    }
+    return classes;
+}
+
+/**
+ * Function to create style rules for the `[styleRules]` input of the GeoJSON directive from classes. The fill color
+ * of a feature gets the color of its class.
+ */
+export function createClassStyleRules(property: string, classes: ILegendClass[]): IStyleRule[] {
+    return classes.map((legendClass: ILegendClass, index: number): IStyleRule => {
+        const rule: IStyleRule = {min: legendClass.min, property, style: {fillColor: legendClass.color}};
+        // The maximum of the last class is inclusive
+        if (index < classes.length - 1) {
+            rule.max = legendClass.max;
+        }
+        return rule;
+    });
+}
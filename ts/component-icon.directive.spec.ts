@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    ComponentIconDirective,
+    MapComponent,
+    MarkerDirective,
+    Point,
+} from './index';
+
+describe('Component-Icon Directive', () => {
+
+    let map: MapComponent;
+    let icon: ComponentIconDirective;
+    let created: number;
+    let destroyed: number;
+    let node: HTMLElement;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        created = 0;
+        destroyed = 0;
+        const viewContainerRef: any = {
+            createEmbeddedView: (): any => {
+                created += 1;
+                node = document.createElement('span');
+                return {
+                    destroy: () => {
+                        destroyed += 1;
+                    },
+                    detectChanges: (): void => undefined,
+                    rootNodes: [node],
+                };
+            },
+        };
+        icon = new ComponentIconDirective(viewContainerRef);
+        icon.template = ({} as any);
+    });
+
+    // Events
+    describe('(update)', () => {
+        it('should fire event in Angular when changing', (done: MochaDone) => {
+            icon.updateEvent.subscribe((event: any) => {
+                expect(event.target).to.equal(icon);
+                return done();
+            });
+            icon.iconAnchor = point(1, 2);
+        });
+    });
+
+    // Inputs
+    describe('[iconSize]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            const val: Point = point(Math.random() * 100, Math.random() * 100);
+            icon.iconSize = val;
+            expect(icon.options.iconSize).to.equal(val);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: Point = point(Math.random() * 100, Math.random() * 100);
+            icon.iconSize = val;
+            expect(icon.iconSize).to.equal(val);
+        });
+    });
+    describe('[iconAnchor]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            const val: Point = point(Math.random() * 100, Math.random() * 100);
+            icon.iconAnchor = val;
+            expect(icon.options.iconAnchor).to.equal(val);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: Point = point(Math.random() * 100, Math.random() * 100);
+            icon.iconAnchor = val;
+            expect(icon.iconAnchor).to.equal(val);
+        });
+    });
+    describe('[popupAnchor]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            const val: Point = point(Math.random() * 100, Math.random() * 100);
+            icon.popupAnchor = val;
+            expect(icon.options.popupAnchor).to.equal(val);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: Point = point(Math.random() * 100, Math.random() * 100);
+            icon.popupAnchor = val;
+            expect(icon.popupAnchor).to.equal(val);
+        });
+    });
+
+    describe('Icon content', () => {
+        let marker: MarkerDirective;
+        beforeEach(() => {
+            marker = new MarkerDirective(map);
+            (marker as any).componentIconDirective = icon;
+            marker.ngAfterContentInit();
+        });
+        it('should use the nodes of the instantiated template as content', () => {
+            expect(created).to.equal(1);
+            expect(node.parentElement).to.equal(marker.getElement());
+        });
+        it('should have the css-classes of div- and component-icons', () => {
+            expect(marker.getElement().classList.contains('yaga-div-icon')).to.equal(true);
+            expect(marker.getElement().classList.contains('yaga-component-icon')).to.equal(true);
+        });
+        it('should reuse the instantiated template on changes', () => {
+            icon.iconSize = point(20, 20);
+            expect(created).to.equal(1);
+            expect(destroyed).to.equal(0);
+            expect(node.parentElement).to.equal(marker.getElement());
+        });
+        it('should destroy the instantiated template when the marker gets removed', () => {
+            map.removeLayer(marker);
+            expect(destroyed).to.equal(1);
+        });
+        it('should instantiate the template again when the marker gets added again', () => {
+            map.removeLayer(marker);
+            map.addLayer(marker);
+            expect(created).to.equal(2);
+        });
+        it('should destroy the instantiated template when the marker gets another icon', () => {
+            marker.icon = new ComponentIconDirective();
+            expect(destroyed).to.equal(1);
+        });
+        it('should destroy the instantiated template on destroy', () => {
+            icon.ngOnDestroy();
+            expect(destroyed).to.equal(1);
+        });
+    });
+});
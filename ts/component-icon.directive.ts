@@ -0,0 +1,172 @@
+import {
+    ContentChild,
+    Directive,
+    EmbeddedViewRef,
+    EventEmitter,
+    Inject,
+    Input,
+    OnDestroy,
+    Optional,
+    Output,
+    TemplateRef,
+    ViewContainerRef,
+} from '@angular/core';
+import {
+    DivIcon,
+    LeafletEvent,
+    Point,
+} from 'leaflet';
+
+/**
+ * Angular2 directive for Leaflet div-icons with a live Angular view as content.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-marker>
+ *         <yaga-component-icon
+ *             [iconAnchor]="..."
+ *             [iconSize]="..."
+ *             [popupAnchor]="...">
+ *             <ng-template>
+ *                 <my-component [someInput]="..." (someOutput)="..."></my-component>
+ *             </ng-template>
+ *         </yaga-component-icon>
+ *     </yaga-marker>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * All component-icon-directives have the css-classes `yaga-div-icon` and `yaga-component-icon`.
+ * * Unlike the `yaga-div-icon` the content is not cloned. The template is instantiated once when the marker gets
+ * added to the map, is updated in place by the change detection of Angular and gets destroyed when the marker is
+ * removed from the map.
+ * * An icon of this directive can only be used by one marker at the same time.
+ *
+ * @link http://leafletjs.com/reference-1.0.3.html#divicon Original Leaflet documentation
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Component-Icon%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/component-icon.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/componenticondirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-component-icon',
+})
+export class ComponentIconDirective extends DivIcon implements OnDestroy {
+    /**
+     * This is an EventEmitter used to notify on any change in this object. It is mainly created to provide reactions
+     * of the marker directive on changes.
+     */
+    @Output('update') public updateEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+
+    /**
+     * The template for the content of the icon
+     */
+    @ContentChild(TemplateRef) public template: TemplateRef<any>;
+
+    protected viewContainerRef: ViewContainerRef;
+    protected view: EmbeddedViewRef<any>;
+
+    constructor(
+        @Optional() @Inject(ViewContainerRef) viewContainerRef?: ViewContainerRef,
+    ) {
+        super({});
+        this.viewContainerRef = viewContainerRef;
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        this.destroyView();
+    }
+
+    /**
+     * Input for the iconSize.
+     * Use it with `<yaga-component-icon [iconSize]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#divicon-iconsize Original Leaflet documentation
+     */
+    @Input() public set iconSize(val: Point) {
+        this.options.iconSize = val;
+        this.updateEvent.emit({
+            target: this,
+            type: 'update',
+        });
+    }
+    public get iconSize(): Point {
+        return (this.options.iconSize as Point);
+    }
+
+    /**
+     * Input for the iconAnchor.
+     * Use it with `<yaga-component-icon [iconAnchor]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#divicon-iconanchor Original Leaflet documentation
+     */
+    @Input() public set iconAnchor(val: Point) {
+        this.options.iconAnchor = val;
+        this.updateEvent.emit({
+            target: this,
+            type: 'update',
+        });
+    }
+    public get iconAnchor(): Point {
+        return (this.options.iconAnchor as Point);
+    }
+
+    /**
+     * Input for the popupAnchor.
+     * Use it with `<yaga-component-icon [popupAnchor]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#divicon-popupanchor Original Leaflet documentation
+     */
+    @Input() public set popupAnchor(val: Point) {
+        this.options.popupAnchor = val;
+        this.updateEvent.emit({
+            target: this,
+            type: 'update',
+        });
+    }
+    public get popupAnchor(): Point {
+        return (this.options.popupAnchor as Point);
+    }
+
+    /**
+     * This inherited function enhances the directive with own css-classes and moves the nodes of the instantiated
+     * template into the leaflet div icon. An already instantiated template is reused.
+     */
+    public createIcon(oldDivIcon: HTMLElement): HTMLElement {
+        oldDivIcon = super.createIcon(oldDivIcon);
+        const classNames: string[] = oldDivIcon.getAttribute('class').split(' ');
+        for (const className of ['yaga-div-icon', 'yaga-component-icon']) {
+            if (classNames.indexOf(className) === -1) {
+                classNames.push(className);
+            }
+        }
+        oldDivIcon.setAttribute('class', classNames.join(' '));
+
+        if (!this.view && this.template && this.viewContainerRef) {
+            this.view = this.viewContainerRef.createEmbeddedView(this.template);
+            this.view.detectChanges();
+        }
+        if (this.view) {
+            for (const node of this.view.rootNodes) {
+                oldDivIcon.appendChild(node);
+            }
+        }
+        return oldDivIcon;
+    }
+
+    /**
+     * Destroys the instantiated template. It is called by the marker directive when the marker gets removed from the
+     * map.
+     */
+    public destroyView(): void {
+        if (!this.view) {
+            return;
+        }
+        this.view.destroy();
+        this.view = undefined;
+    }
+}
@@ -0,0 +1,140 @@
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    ControlDirective,
+    MapComponent,
+} from './index';
+
+describe('Control Directive', () => {
+    let map: MapComponent;
+    let control: ControlDirective;
+    let element: HTMLElement;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        element = document.createElement('div');
+        element.innerHTML = '<input type="search">';
+        control = new ControlDirective(map, {nativeElement: element});
+    });
+
+    describe('Content', () => {
+        it('should use the element of the directive as container', () => {
+            expect(control.getContainer()).to.equal(element);
+            expect(element.classList.contains('yaga-control')).to.equal(true);
+        });
+        it('should be added to the control corner of the map', () => {
+            expect(map.getContainer().querySelector('.leaflet-top.leaflet-right').firstChild).to.equal(element);
+        });
+        it('should not propagate clicks to the map', () => {
+            map.on('click', () => {
+                throw new Error('Click was propagated to the map');
+            });
+            element.querySelector('input').dispatchEvent(new MouseEvent('click', {bubbles: true}));
+        });
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.position).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.zIndexChange.subscribe((eventVal: number) => {
+                expect(eventVal).to.equal(5);
+                done();
+            });
+            control.zIndex = 5;
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+    describe('(mouseover)', () => {
+        it('should fire an event when hovering the container', (done: MochaDone) => {
+            control.mouseoverEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('mouseover', {}));
+        });
+    });
+
+    describe('Destroying a Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
@@ -0,0 +1,243 @@
+import {
+    Directive,
+    ElementRef,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LeafletEvent,
+    Map,
+} from 'leaflet';
+import { MapComponent } from './map.component';
+
+/**
+ * Angular2 directive for custom controls with projected Angular content.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         >
+ *         <input type="search" [(ngModel)]="..." (keyup.enter)="...">
+ *     </yaga-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The element of this directive is the container of the control, so the projected content keeps its bindings.
+ * * All control-directives have the css-class `yaga-control`.
+ * * Clicks and scrolling within the control do not propagate to the map.
+ *
+ * @link http://leafletjs.com/reference-1.0.3.html#control Original Leaflet documentation
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/controldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-control',
+})
+export class ControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-control [(display)]="someValue">`
+     * or `<yaga-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-control [(zIndex)]="someValue">`
+     * or `<yaga-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-control [(position)]="someValue">`
+     * or `<yaga-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    protected container: HTMLElement;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Inject(ElementRef) elementRef: ElementRef,
+    ) {
+        super();
+        this.container = elementRef.nativeElement;
+        DomUtil.addClass(this.container, 'yaga-control');
+        DomEvent.disableClickPropagation(this.container);
+        DomEvent.disableScrollPropagation(this.container);
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            self.displayChange.emit(true);
+            self.addEvent.emit({type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.displayChange.emit(false);
+            self.removeEvent.emit({type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.clickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.dbclickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.mousedownEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.mouseoverEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.mouseoutEvent.emit(event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.positionChange.emit(val);
+        return this;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-control [(display)]="someValue">`
+     * or `<yaga-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-control [(position)]="someValue">`
+     * or `<yaga-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-control [(zIndex)]="someValue">`
+     * or `<yaga-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zIndexChange.emit(zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+}
@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { LatLng, latLng } from 'leaflet';
+import {
+    formatCoordinates,
+    formatDecimal,
+    formatDMS,
+    formatMGRS,
+    formatUTM,
+    fromUTM,
+    IUTMCoordinate,
+    parseCoordinates,
+    toUTM,
+} from './index';
+
+describe('Coordinate-Format helper', () => {
+    const WASHINGTON: LatLng = latLng(38.8895, -77.0352);
+    const SYDNEY: LatLng = latLng(-33.8568, 151.2153);
+
+    const expectCloseTo: (actual: LatLng, expected: LatLng, delta: number) => void =
+        (actual: LatLng, expected: LatLng, delta: number): void => {
+            expect(actual.lat).to.be.closeTo(expected.lat, delta);
+            expect(actual.lng).to.be.closeTo(expected.lng, delta);
+        };
+
+    describe('formatDecimal', () => {
+        it('should format with five decimal places by default', () => {
+            expect(formatDecimal(WASHINGTON)).to.equal('38.88950, -77.03520');
+        });
+        it('should format with the given precision', () => {
+            expect(formatDecimal(WASHINGTON, 2)).to.equal('38.89, -77.04');
+        });
+    });
+    describe('formatDMS', () => {
+        it('should format degrees, minutes and seconds with hemispheres', () => {
+            expect(formatDMS(WASHINGTON)).to.equal('38° 53\' 22.2" N, 77° 2\' 6.7" W');
+        });
+        it('should carry rounded seconds into minutes', () => {
+            expect(formatDMS(latLng(10.9999999, 0), 0)).to.equal('11° 0\' 0" N, 0° 0\' 0" E');
+        });
+    });
+    describe('toUTM', () => {
+        it('should calculate the zone, band, easting and northing', () => {
+            const utm: IUTMCoordinate = toUTM(WASHINGTON);
+            expect(utm.zone).to.equal(18);
+            expect(utm.band).to.equal('S');
+            expect(utm.easting).to.be.closeTo(323487, 1);
+            expect(utm.northing).to.be.closeTo(4306483, 1);
+        });
+        it('should add the false northing on the southern hemisphere', () => {
+            const utm: IUTMCoordinate = toUTM(SYDNEY);
+            expect(utm.zone).to.equal(56);
+            expect(utm.band).to.equal('H');
+            expect(utm.northing).to.be.closeTo(6252289, 1);
+        });
+        it('should respect the exception of Norway', () => {
+            expect(toUTM(latLng(60, 5)).zone).to.equal(32);
+        });
+        it('should return undefined outside of the UTM area', () => {
+            expect(toUTM(latLng(85, 0))).to.equal(undefined);
+        });
+    });
+    describe('fromUTM', () => {
+        it('should be the inverse of toUTM', () => {
+            expectCloseTo(fromUTM(toUTM(WASHINGTON)), WASHINGTON, 0.000001);
+            expectCloseTo(fromUTM(toUTM(SYDNEY)), SYDNEY, 0.000001);
+        });
+    });
+    describe('formatUTM', () => {
+        it('should format zone, band, easting and northing', () => {
+            expect(formatUTM(WASHINGTON)).to.equal('18S 323487 4306483');
+        });
+        it('should return an empty string outside of the UTM area', () => {
+            expect(formatUTM(latLng(-85, 0))).to.equal('');
+        });
+    });
+    describe('formatMGRS', () => {
+        it('should format with a precision of 1m by default', () => {
+            expect(formatMGRS(WASHINGTON)).to.equal('18SUJ 23486 06483');
+        });
+        it('should truncate to the given count of digits', () => {
+            expect(formatMGRS(WASHINGTON, 2)).to.equal('18SUJ 23 06');
+        });
+        it('should format only the grid square without digits', () => {
+            expect(formatMGRS(WASHINGTON, 0)).to.equal('18SUJ');
+        });
+        it('should format on the southern hemisphere', () => {
+            expect(formatMGRS(SYDNEY)).to.equal('56HLH 34900 52288');
+        });
+    });
+    describe('formatCoordinates', () => {
+        it('should format in decimal degrees by default', () => {
+            expect(formatCoordinates(WASHINGTON)).to.equal(formatDecimal(WASHINGTON));
+        });
+        it('should format in the given format', () => {
+            expect(formatCoordinates(WASHINGTON, 'dms')).to.equal(formatDMS(WASHINGTON));
+            expect(formatCoordinates(WASHINGTON, 'utm')).to.equal(formatUTM(WASHINGTON));
+            expect(formatCoordinates(WASHINGTON, 'mgrs', 3)).to.equal(formatMGRS(WASHINGTON, 3));
+        });
+    });
+    describe('parseCoordinates', () => {
+        it('should parse decimal degrees', () => {
+            expectCloseTo(parseCoordinates('38.8895, -77.0352'), WASHINGTON, 0.0000001);
+            expectCloseTo(parseCoordinates(' 38.8895 -77.0352 '), WASHINGTON, 0.0000001);
+        });
+        it('should parse degrees, minutes and seconds', () => {
+            expectCloseTo(parseCoordinates(formatDMS(WASHINGTON)), WASHINGTON, 0.0001);
+            expectCloseTo(parseCoordinates('33°51\'24.5"S 151°12\'55.1"E'), SYDNEY, 0.0001);
+        });
+        it('should parse UTM', () => {
+            expectCloseTo(parseCoordinates(formatUTM(WASHINGTON)), WASHINGTON, 0.00001);
+            expectCloseTo(parseCoordinates(formatUTM(SYDNEY)), SYDNEY, 0.00001);
+        });
+        it('should parse MGRS', () => {
+            expectCloseTo(parseCoordinates(formatMGRS(WASHINGTON)), WASHINGTON, 0.00001);
+            expectCloseTo(parseCoordinates(formatMGRS(SYDNEY)), SYDNEY, 0.00001);
+            expectCloseTo(parseCoordinates('18SUJ2348606483'), WASHINGTON, 0.00001);
+        });
+        it('should parse MGRS near the edges of the latitude bands', () => {
+            const position: LatLng = latLng(-79.9, 0.5);
+            // one meter are about 0.00005 degrees of longitude at this latitude
+            expectCloseTo(parseCoordinates(formatMGRS(position)), position, 0.0001);
+        });
+        it('should return undefined for unknown formats', () => {
+            expect(parseCoordinates('somewhere')).to.equal(undefined);
+            expect(parseCoordinates('')).to.equal(undefined);
+        });
+        it('should return undefined for positions out of range', () => {
+            expect(parseCoordinates('91, 0')).to.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,380 @@
+import { LatLng, latLng } from 'leaflet';
+
+/**
+ * Formats for the display of coordinates
+ */
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm' | 'mgrs';
+
+/**
+ * Default precision of the coordinate formats. It is the count of decimal places of degrees for `decimal`, of
+ * seconds for `dms` and of meters for `utm`, and the count of digits of the easting and northing for `mgrs`.
+ */
+export const DEFAULT_COORDINATE_PRECISION: {[format: string]: number} = {
+    decimal: 5,
+    dms: 1,
+    mgrs: 5,
+    utm: 0,
+};
+
+/**
+ * Position in the Universal Transverse Mercator coordinate system
+ */
+export interface IUTMCoordinate {
+    zone: number;
+    /**
+     * Latitude band letter (C to X)
+     */
+    band: string;
+    easting: number;
+    northing: number;
+}
+
+const EQUATORIAL_RADIUS: number = 6378137;
+const FLATTENING: number = 1 / 298.257223563;
+const SCALE_FACTOR: number = 0.9996;
+const ECCENTRICITY_SQUARED: number = FLATTENING * (2 - FLATTENING);
+const SECOND_ECCENTRICITY_SQUARED: number = ECCENTRICITY_SQUARED / (1 - ECCENTRICITY_SQUARED);
+const FALSE_EASTING: number = 500000;
+const FALSE_NORTHING: number = 10000000;
+
+const BAND_LETTERS: string = 'CDEFGHJKLMNPQRSTUVWX';
+const MGRS_COLUMN_LETTERS: string[] = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROW_LETTERS: string = 'ABCDEFGHJKLMNPQRSTUV';
+
+/**
+ * Function to get the count of decimal places, that falls back to the default of the format
+ */
+function getPrecision(format: CoordinateFormat, precision?: number): number {
+    return typeof precision === 'number' ? Math.max(0, Math.floor(precision)) : DEFAULT_COORDINATE_PRECISION[format];
+}
+
+/**
+ * Function to get the UTM zone of a position, including the exceptions of Norway and Svalbard
+ */
+function getUTMZone(lat: number, lng: number): number {
+    let zone: number = Math.floor((lng + 180) / 6) + 1;
+    if (zone > 60) {
+        zone = 1;
+    }
+    if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) {
+        return 32;
+    }
+    if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+        return lng < 9 ? 31 : (lng < 21 ? 33 : (lng < 33 ? 35 : 37));
+    }
+    return zone;
+}
+
+/**
+ * Function to get the longitude of the central meridian of a UTM zone
+ */
+function getCentralMeridian(zone: number): number {
+    return (zone - 1) * 6 - 180 + 3;
+}
+
+/**
+ * Function to get the meridional arc from the equator to a latitude (in radians)
+ */
+function getMeridionalArc(phi: number): number {
+    const e2: number = ECCENTRICITY_SQUARED;
+    const e4: number = e2 * e2;
+    const e6: number = e4 * e2;
+    return EQUATORIAL_RADIUS * (
+        (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi -
+        (3 * e2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi) +
+        (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi) -
+        (35 * e6 / 3072) * Math.sin(6 * phi)
+    );
+}
+
+/**
+ * Function to project a position into the given UTM zone
+ */
+function projectUTM(lat: number, lng: number, zone: number): {easting: number, northing: number} {
+    const phi: number = lat * Math.PI / 180;
+    const lambda: number = (lng - getCentralMeridian(zone)) * Math.PI / 180;
+    const sinPhi: number = Math.sin(phi);
+    const cosPhi: number = Math.cos(phi);
+    const n: number = EQUATORIAL_RADIUS / Math.sqrt(1 - ECCENTRICITY_SQUARED * sinPhi * sinPhi);
+    const t: number = Math.tan(phi) * Math.tan(phi);
+    const c: number = SECOND_ECCENTRICITY_SQUARED * cosPhi * cosPhi;
+    const a: number = cosPhi * lambda;
+    const ep2: number = SECOND_ECCENTRICITY_SQUARED;
+
+    const easting: number = SCALE_FACTOR * n * (
+        a +
+        (1 - t + c) * Math.pow(a, 3) / 6 +
+        (5 - 18 * t + t * t + 72 * c - 58 * ep2) * Math.pow(a, 5) / 120
+    ) + FALSE_EASTING;
+    let northing: number = SCALE_FACTOR * (
+        getMeridionalArc(phi) + n * Math.tan(phi) * (
+            a * a / 2 +
+            (5 - t + 9 * c + 4 * c * c) * Math.pow(a, 4) / 24 +
+            (61 - 58 * t + t * t + 600 * c - 330 * ep2) * Math.pow(a, 6) / 720
+        )
+    );
+    if (lat < 0) {
+        northing += FALSE_NORTHING;
+    }
+    return {easting, northing};
+}
+
+/**
+ * Function to convert a position into UTM coordinates. Positions outside of the UTM area (south of 80°S and north of
+ * 84°N) result in `undefined`.
+ */
+export function toUTM(position: LatLng): IUTMCoordinate {
+    const lat: number = position.lat;
+    const lng: number = ((position.lng + 180) % 360 + 360) % 360 - 180;
+    if (lat < -80 || lat > 84) {
+        return undefined;
+    }
+    const zone: number = getUTMZone(lat, lng);
+    const band: string = BAND_LETTERS[Math.min(Math.floor((lat + 80) / 8), BAND_LETTERS.length - 1)];
+    const projected: {easting: number, northing: number} = projectUTM(lat, lng, zone);
+    return {band, easting: projected.easting, northing: projected.northing, zone};
+}
+
+/**
+ * Function to convert UTM coordinates into a position
+ */
+export function fromUTM(coordinate: IUTMCoordinate): LatLng {
+    const e2: number = ECCENTRICITY_SQUARED;
+    const ep2: number = SECOND_ECCENTRICITY_SQUARED;
+    const x: number = coordinate.easting - FALSE_EASTING;
+    const y: number = coordinate.band.toUpperCase() < 'N' ? coordinate.northing - FALSE_NORTHING : coordinate.northing;
+
+    const mu: number = y / SCALE_FACTOR /
+        (EQUATORIAL_RADIUS * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256));
+    const e1: number = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1: number = mu +
+        (3 * e1 / 2 - 27 * Math.pow(e1, 3) / 32) * Math.sin(2 * mu) +
+        (21 * e1 * e1 / 16 - 55 * Math.pow(e1, 4) / 32) * Math.sin(4 * mu) +
+        (151 * Math.pow(e1, 3) / 96) * Math.sin(6 * mu) +
+        (1097 * Math.pow(e1, 4) / 512) * Math.sin(8 * mu);
+
+    const sinPhi1: number = Math.sin(phi1);
+    const cosPhi1: number = Math.cos(phi1);
+    const n1: number = EQUATORIAL_RADIUS / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+    const t1: number = Math.tan(phi1) * Math.tan(phi1);
+    const c1: number = ep2 * cosPhi1 * cosPhi1;
+    const r1: number = EQUATORIAL_RADIUS * (1 - e2) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
+    const d: number = x / (n1 * SCALE_FACTOR);
+
+    const phi: number = phi1 - (n1 * Math.tan(phi1) / r1) * (
+        d * d / 2 -
+        (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * Math.pow(d, 4) / 24 +
+        (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * Math.pow(d, 6) / 720
+    );
+    const lambda: number = (
+        d -
+        (1 + 2 * t1 + c1) * Math.pow(d, 3) / 6 +
+        (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * Math.pow(d, 5) / 120
+    ) / cosPhi1;
+
+    return latLng(phi * 180 / Math.PI, getCentralMeridian(coordinate.zone) + lambda * 180 / Math.PI);
+}
+
+/**
+ * Function to format a position in decimal degrees, like `52.52000, 13.40500`
+ */
+export function formatDecimal(position: LatLng, precision?: number): string {
+    const places: number = getPrecision('decimal', precision);
+    return position.lat.toFixed(places) + ', ' + position.lng.toFixed(places);
+}
+
+/**
+ * Function to format a single angle in degrees, minutes and seconds
+ */
+function formatDMSAngle(value: number, places: number, positive: string, negative: string): string {
+    const factor: number = Math.pow(10, places);
+    const totalSeconds: number = Math.round(Math.abs(value) * 3600 * factor) / factor;
+    const degrees: number = Math.floor(totalSeconds / 3600);
+    const minutes: number = Math.floor((totalSeconds - degrees * 3600) / 60);
+    const seconds: number = totalSeconds - degrees * 3600 - minutes * 60;
+    return degrees + '° ' + minutes + '\' ' + seconds.toFixed(places) + '" ' + (value < 0 ? negative : positive);
+}
+
+/**
+ * Function to format a position in degrees, minutes and seconds, like `52° 31' 12.0" N, 13° 24' 18.0" E`
+ */
+export function formatDMS(position: LatLng, precision?: number): string {
+    const places: number = getPrecision('dms', precision);
+    return formatDMSAngle(position.lat, places, 'N', 'S') + ', ' + formatDMSAngle(position.lng, places, 'E', 'W');
+}
+
+/**
+ * Function to format a position in UTM, like `33U 391775 5820072`
+ */
+export function formatUTM(position: LatLng, precision?: number): string {
+    const utm: IUTMCoordinate = toUTM(position);
+    if (!utm) {
+        return '';
+    }
+    const places: number = getPrecision('utm', precision);
+    return utm.zone + utm.band + ' ' + utm.easting.toFixed(places) + ' ' + utm.northing.toFixed(places);
+}
+
+/**
+ * Function to format a position in the Military Grid Reference System, like `33UUU 91775 20072`
+ */
+export function formatMGRS(position: LatLng, precision?: number): string {
+    const utm: IUTMCoordinate = toUTM(position);
+    if (!utm) {
+        return '';
+    }
+    const digits: number = Math.min(5, getPrecision('mgrs', precision));
+    const column: string = MGRS_COLUMN_LETTERS[(utm.zone - 1) % 3][Math.floor(utm.easting / 100000) - 1];
+    const row: string = MGRS_ROW_LETTERS[
+        (Math.floor(utm.northing / 100000) + (utm.zone % 2 === 0 ? 5 : 0)) % MGRS_ROW_LETTERS.length
+    ];
+    const divisor: number = Math.pow(10, 5 - digits);
+    const pad: (value: number) => string = (value: number): string => {
+        const text: string = Math.floor((value % 100000) / divisor).toString();
+        return digits ? '00000'.substr(0, digits - text.length) + text : '';
+    };
+    const squareId: string = utm.zone + utm.band + column + row;
+    return digits ? squareId + ' ' + pad(utm.easting) + ' ' + pad(utm.northing) : squareId;
+}
+
+/**
+ * Function to format a position in the given format
+ */
+export function formatCoordinates(position: LatLng, format: CoordinateFormat = 'decimal', precision?: number): string {
+    switch (format) {
+        case 'dms':
+            return formatDMS(position, precision);
+        case 'utm':
+            return formatUTM(position, precision);
+        case 'mgrs':
+            return formatMGRS(position, precision);
+        default:
+            return formatDecimal(position, precision);
+    }
+}
+
+/**
+ * Function to parse MGRS coordinates, like `33UUU 91775 20072` or `33UUU9177520072`
+ */
+function parseMGRS(text: string): LatLng {
+    const match: RegExpMatchArray = text.match(
+        /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d{0,5})\s*(\d{0,5})$/i,
+    );
+    if (!match) {
+        return undefined;
+    }
+    const digits: string = match[5] + match[6];
+    const zone: number = parseInt(match[1], 10);
+    if (digits.length % 2 || zone < 1 || zone > 60) {
+        return undefined;
+    }
+    const band: string = match[2].toUpperCase();
+    const columnIndex: number = MGRS_COLUMN_LETTERS[(zone - 1) % 3].indexOf(match[3].toUpperCase());
+    const rowIndex: number = MGRS_ROW_LETTERS.indexOf(match[4].toUpperCase());
+    if (columnIndex === -1) {
+        return undefined;
+    }
+    // The position is the center of the given grid square
+    const half: number = digits.length / 2;
+    const size: number = Math.pow(10, 5 - half);
+    const easting: number = (columnIndex + 1) * 100000 +
+        (half ? parseInt(digits.substr(0, half), 10) * size : 0) + size / 2;
+    let northing: number = ((rowIndex - (zone % 2 === 0 ? 5 : 0) + 20) % 20) * 100000 +
+        (half ? parseInt(digits.substr(half), 10) * size : 0) + size / 2;
+
+    // The row letters repeat every 2000km, so the latitude band decides which repetition is meant. The tolerance of
+    // 100km covers positions at the southern edge of the band, that are truncated into the grid square below.
+    const southLat: number = -80 + BAND_LETTERS.indexOf(band) * 8;
+    const centralMeridian: number = getCentralMeridian(zone);
+    const minNorthing: number = Math.min(
+        projectUTM(southLat, centralMeridian, zone).northing,
+        projectUTM(southLat, centralMeridian - 3, zone).northing,
+    ) - 100000;
+    while (northing < minNorthing) {
+        northing += 2000000;
+    }
+    return fromUTM({band, easting, northing, zone});
+}
+
+/**
+ * Function to parse UTM coordinates, like `33U 391775 5820072`
+ */
+function parseUTM(text: string): LatLng {
+    const match: RegExpMatchArray = text.match(
+        /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:m\s*)?E?[\s,]+(\d+(?:\.\d+)?)\s*(?:m\s*)?N?$/i,
+    );
+    if (!match) {
+        return undefined;
+    }
+    const zone: number = parseInt(match[1], 10);
+    if (zone < 1 || zone > 60) {
+        return undefined;
+    }
+    return fromUTM({
+        band: match[2].toUpperCase(),
+        easting: parseFloat(match[3]),
+        northing: parseFloat(match[4]),
+        zone,
+    });
+}
+
+/**
+ * Function to parse coordinates in degrees, minutes and seconds, like `52° 31' 12.0" N, 13° 24' 18.0" E`
+ */
+function parseDMS(text: string): LatLng {
+    const value: string = '(\\d+(?:\\.\\d+)?)\\s*';
+    const pattern: RegExp = new RegExp(
+        value + '°\\s*(?:' + value + '[\'′]\\s*)?(?:' + value + '(?:"|″|\'\')\\s*)?([NSEW])',
+        'gi',
+    );
+    let lat: number;
+    let lng: number;
+    let match: RegExpExecArray = pattern.exec(text);
+    while (match) {
+        let angle: number = parseFloat(match[1]) +
+            parseFloat(match[2] || '0') / 60 +
+            parseFloat(match[3] || '0') / 3600;
+        const hemisphere: string = match[4].toUpperCase();
+        if (hemisphere === 'S' || hemisphere === 'W') {
+            angle = -angle;
+        }
+        if (hemisphere === 'N' || hemisphere === 'S') {
+            lat = angle;
+        } else {
+            lng = angle;
+        }
+        match = pattern.exec(text);
+    }
+    if (lat === undefined || lng === undefined) {
+        return undefined;
+    }
+    return latLng(lat, lng);
+}
+
+/**
+ * Function to parse coordinates in decimal degrees, like `52.52, 13.405`
+ */
+function parseDecimal(text: string): LatLng {
+    const match: RegExpMatchArray = text.match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) {
+        return undefined;
+    }
+    return latLng(parseFloat(match[1]), parseFloat(match[2]));
+}
+
+/**
+ * Function to parse coordinates in any of the supported formats. The result is `undefined` for unknown formats or
+ * positions out of range.
+ */
+export function parseCoordinates(text: string): LatLng {
+    if (!text) {
+        return undefined;
+    }
+    text = text.trim();
+    const position: LatLng = parseDecimal(text) || parseDMS(text) || parseUTM(text) || parseMGRS(text);
+    if (!position || isNaN(position.lat) || isNaN(position.lng) ||
+        Math.abs(position.lat) > 90 || Math.abs(position.lng) > 180) {
+        return undefined;
+    }
+    return position;
+}
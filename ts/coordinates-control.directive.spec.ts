@@ -0,0 +1,229 @@
+import { expect } from 'chai';
+import { LatLng, latLng, point } from 'leaflet';
+import {
+    CoordinatesControlDirective,
+    MapComponent,
+} from './index';
+
+describe('Coordinates-Control Directive', () => {
+    let map: MapComponent;
+    let control: CoordinatesControlDirective;
+    let valueElement: HTMLElement;
+    let inputElement: HTMLInputElement;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new CoordinatesControlDirective(map);
+        valueElement = control.getContainer().querySelector('.yaga-coordinates-control-value') as HTMLElement;
+        inputElement = control.getContainer().querySelector('.yaga-coordinates-control-input') as HTMLInputElement;
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be bottomleft by default', () => {
+            expect(control.position).to.equal('bottomleft');
+        });
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('topright');
+                done();
+            });
+            control.setPosition('topright');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('Mouse position', () => {
+        it('should display the coordinates of the mousemove event of the map', () => {
+            map.fire('mousemove', {latlng: latLng(38.8895, -77.0352)});
+            expect(valueElement.textContent).to.equal('38.88950, -77.03520');
+        });
+        it('should fire a latLngChange event', (done: MochaDone) => {
+            control.latLngChange.subscribe((val: LatLng) => {
+                expect(val.equals([1, 2])).to.equal(true);
+                expect(control.latLng).to.equal(val);
+                done();
+            });
+            map.fire('mousemove', {latlng: latLng(1, 2)});
+        });
+        it('should not follow the mouse after removing from the map', () => {
+            map.removeControl(control);
+            map.fire('mousemove', {latlng: latLng(1, 2)});
+            expect(control.latLng).to.equal(undefined);
+        });
+    });
+    describe('[(format)]', () => {
+        beforeEach(() => {
+            control.setLatLng(latLng(38.8895, -77.0352));
+        });
+        it('should be decimal by default', () => {
+            expect(control.format).to.equal('decimal');
+        });
+        it('should display in degrees, minutes and seconds', () => {
+            control.format = 'dms';
+            expect(valueElement.textContent).to.equal('38° 53\' 22.2" N, 77° 2\' 6.7" W');
+        });
+        it('should display in UTM', () => {
+            control.format = 'utm';
+            expect(valueElement.textContent).to.equal('18S 323487 4306483');
+        });
+        it('should display in MGRS', () => {
+            control.format = 'mgrs';
+            expect(valueElement.textContent).to.equal('18SUJ 23486 06483');
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.formatChange.subscribe((val: string) => {
+                expect(val).to.equal('utm');
+                done();
+            });
+            control.format = 'utm';
+        });
+    });
+    describe('[precision]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.precision = 2;
+            expect(control.precision).to.equal(2);
+        });
+        it('should be used for the displayed coordinates', () => {
+            control.setLatLng(latLng(38.8895, -77.0352));
+            control.precision = 2;
+            expect(valueElement.textContent).to.equal('38.89, -77.04');
+        });
+    });
+    describe('[showInput]', () => {
+        it('should hide the input', () => {
+            control.showInput = false;
+            expect(inputElement.style.display).to.equal('none');
+            expect(control.showInput).to.equal(false);
+        });
+        it('should show the input again', () => {
+            control.showInput = false;
+            control.showInput = true;
+            expect(control.showInput).to.equal(true);
+        });
+    });
+
+    describe('(copy)', () => {
+        it('should fire an event with the copied text when clicking the coordinates', (done: MochaDone) => {
+            (document as any).execCommand = (): boolean => true;
+            control.setLatLng(latLng(1, 2));
+            control.copyEvent.subscribe((val: string) => {
+                expect(val).to.equal('1.00000, 2.00000');
+                done();
+            });
+            valueElement.click();
+        });
+        it('should use the clipboard API when available', () => {
+            let copied: string;
+            (navigator as any).clipboard = {writeText: (text: string) => { copied = text; }};
+            control.setLatLng(latLng(1, 2));
+            control.copy();
+            delete (navigator as any).clipboard;
+            expect(copied).to.equal('1.00000, 2.00000');
+        });
+        it('should not copy without coordinates', () => {
+            control.copyEvent.subscribe(() => {
+                throw new Error('This should not happen');
+            });
+            control.copy();
+        });
+    });
+    describe('(jump)', () => {
+        it('should move the map to the typed coordinates when pressing enter', (done: MochaDone) => {
+            map.setView = (center: LatLng): any => {
+                expect(center.lat).to.be.closeTo(38.8895, 0.00001);
+                expect(center.lng).to.be.closeTo(-77.0352, 0.00001);
+                done();
+                return map;
+            };
+            inputElement.value = '18SUJ 23486 06483';
+            inputElement.dispatchEvent(new KeyboardEvent('keydown', {keyCode: 13} as any));
+        });
+        it('should fire an event with the position', (done: MochaDone) => {
+            control.jumpEvent.subscribe((val: LatLng) => {
+                expect(val.equals([1, 2])).to.equal(true);
+                done();
+            });
+            control.jumpTo('1, 2');
+        });
+        it('should mark invalid input', () => {
+            expect(control.jumpTo('somewhere')).to.equal(undefined);
+            expect(inputElement.classList.contains('yaga-coordinates-control-invalid')).to.equal(true);
+            control.jumpTo('1, 2');
+            expect(inputElement.classList.contains('yaga-coordinates-control-invalid')).to.equal(false);
+        });
+    });
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('Destroying a Coordinates-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
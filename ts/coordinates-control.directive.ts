@@ -0,0 +1,418 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LatLng,
+    LeafletEvent,
+    LeafletMouseEvent,
+    Map,
+} from 'leaflet';
+import { CoordinateFormat, formatCoordinates, parseCoordinates } from './coordinate-format';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Angular2 directive for a control that displays the coordinates of the mouse cursor on the map.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-coordinates-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(format)]="..."
+ *
+ *         (latLngChange)="..."
+ *         (copy)="..."
+ *         (jump)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [precision]="..."
+ *         [showInput]="..."
+ *         >
+ *     </yaga-coordinates-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The formats are `decimal` (decimal degrees), `dms` (degrees, minutes and seconds), `utm` and `mgrs`. The
+ * precision depends on the format, see `DEFAULT_COORDINATE_PRECISION`.
+ * * A click on the displayed coordinates copies them into the clipboard.
+ * * Coordinates typed into the input in any of the formats move the map there after pressing enter. Unknown input
+ * gets the css-class `yaga-coordinates-control-invalid`.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Coordinates-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/coordinates-control.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/coordinatescontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-coordinates-control',
+})
+export class CoordinatesControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-coordinates-control [(display)]="someValue">`
+     * or `<yaga-coordinates-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-coordinates-control [(zIndex)]="someValue">`
+     * or `<yaga-coordinates-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-coordinates-control [(position)]="someValue">`
+     * or `<yaga-coordinates-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Two-Way bound property for the coordinate format.
+     * Use it with `<yaga-coordinates-control [(format)]="someValue">`
+     * or `<yaga-coordinates-control (formatChange)="processEvent($event)">`
+     */
+    @Output() public formatChange: EventEmitter<CoordinateFormat> = new EventEmitter();
+    /**
+     * Output for the displayed position of the mouse cursor.
+     * Use it with `<yaga-coordinates-control (latLngChange)="processEvent($event)">`
+     */
+    @Output() public latLngChange: EventEmitter<LatLng> = new EventEmitter();
+
+    /**
+     * Fired after the displayed coordinates were copied into the clipboard.
+     * Use it with `<yaga-coordinates-control (copy)="processEvent($event)">`
+     */
+    @Output('copy') public copyEvent: EventEmitter<string> = new EventEmitter();
+    /**
+     * Fired after the map was moved to coordinates of the input.
+     * Use it with `<yaga-coordinates-control (jump)="processEvent($event)">`
+     */
+    @Output('jump') public jumpEvent: EventEmitter<LatLng> = new EventEmitter();
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-coordinates-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-coordinates-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-coordinates-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-coordinates-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-coordinates-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-coordinates-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-coordinates-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    protected container: HTMLElement;
+    protected valueElement: HTMLElement;
+    protected inputElement: HTMLInputElement;
+    protected mapComponent: MapComponent;
+    protected zoneEmitter: ZoneEmitter;
+
+    private coordinateFormat: CoordinateFormat = 'decimal';
+    private coordinatePrecision: number;
+    private lastLatLng: LatLng;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super({position: 'bottomleft'});
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.mapComponent = mapComponent;
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-coordinates-control');
+        DomEvent.disableClickPropagation(this.container);
+        DomEvent.disableScrollPropagation(this.container);
+
+        this.valueElement = DomUtil.create('span', 'yaga-coordinates-control-value', this.container);
+        this.valueElement.title = 'Copy coordinates';
+        DomEvent.on(this.valueElement, 'click', () => {
+            this.copy();
+        });
+
+        this.inputElement = (DomUtil.create('input', 'yaga-coordinates-control-input', this.container) as
+            HTMLInputElement);
+        this.inputElement.type = 'text';
+        this.inputElement.placeholder = 'Go to coordinates';
+        DomEvent.on(this.inputElement, 'keydown', (event: KeyboardEvent) => {
+            if (event.keyCode === 13) {
+                this.jumpTo(this.inputElement.value);
+            }
+        });
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            map.on('mousemove', self.onMouseMove, self);
+            self.zoneEmitter.emit(self.displayChange, true);
+            self.zoneEmitter.emit(self.addEvent, {type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            map.off('mousemove', self.onMouseMove, self);
+            self.zoneEmitter.emit(self.displayChange, false);
+            self.zoneEmitter.emit(self.removeEvent, {type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.zoneEmitter.emit(this.positionChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to display the coordinates of a position
+     */
+    public setLatLng(val: LatLng): this {
+        this.lastLatLng = val;
+        this.render();
+        this.zoneEmitter.emit(this.latLngChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to copy the displayed coordinates into the clipboard
+     */
+    public copy(): string {
+        const text: string = this.valueElement.textContent;
+        if (!text) {
+            return text;
+        }
+        const clipboard: any = (navigator as any).clipboard;
+        if (clipboard && clipboard.writeText) {
+            clipboard.writeText(text);
+        } else {
+            const textArea: HTMLTextAreaElement = (DomUtil.create('textarea', '', document.body) as
+                HTMLTextAreaElement);
+            textArea.value = text;
+            textArea.select();
+            try {
+                document.execCommand('copy');
+            } catch (err) {
+                // The clipboard is not available...
+            }
+            DomUtil.remove(textArea);
+        }
+        this.zoneEmitter.emit(this.copyEvent, text);
+        return text;
+    }
+
+    /**
+     * Self written method to move the map to coordinates in any of the supported formats. It returns the position or
+     * `undefined` for invalid coordinates.
+     */
+    public jumpTo(text: string): LatLng {
+        const latLng: LatLng = parseCoordinates(text);
+        if (!latLng) {
+            DomUtil.addClass(this.inputElement, 'yaga-coordinates-control-invalid');
+            return undefined;
+        }
+        DomUtil.removeClass(this.inputElement, 'yaga-coordinates-control-invalid');
+        this.mapComponent.setView(latLng, this.mapComponent.getZoom());
+        this.zoneEmitter.emit(this.jumpEvent, latLng);
+        return latLng;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-coordinates-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-coordinates-control [(display)]="someValue">`
+     * or `<yaga-coordinates-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-coordinates-control [(position)]="someValue">`
+     * or `<yaga-coordinates-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-coordinates-control [(zIndex)]="someValue">`
+     * or `<yaga-coordinates-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zoneEmitter.emit(this.zIndexChange, zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Two-Way bound property for the coordinate format.
+     * Use it with `<yaga-coordinates-control [(format)]="someValue">`
+     * or `<yaga-coordinates-control [format]="someValue">`
+     */
+    @Input() public set format(val: CoordinateFormat) {
+        this.coordinateFormat = val;
+        this.render();
+        this.zoneEmitter.emit(this.formatChange, val);
+    }
+    public get format(): CoordinateFormat {
+        return this.coordinateFormat;
+    }
+
+    /**
+     * Input for the precision of the coordinates. It falls back to the default precision of the format.
+     * Use it with `<yaga-coordinates-control [precision]="someValue">`
+     */
+    @Input() public set precision(val: number) {
+        this.coordinatePrecision = val;
+        this.render();
+    }
+    public get precision(): number {
+        return this.coordinatePrecision;
+    }
+
+    /**
+     * Input to show or hide the input for coordinates to jump to.
+     * Use it with `<yaga-coordinates-control [showInput]="someValue">`
+     */
+    @Input() public set showInput(val: boolean) {
+        this.inputElement.style.display = val ? '' : 'none';
+    }
+    public get showInput(): boolean {
+        return this.inputElement.style.display !== 'none';
+    }
+
+    /**
+     * The displayed position of the mouse cursor
+     */
+    public get latLng(): LatLng {
+        return this.lastLatLng;
+    }
+
+    /**
+     * Internal handler for the mousemove event of the map
+     */
+    protected onMouseMove(event: LeafletMouseEvent): void {
+        this.setLatLng(event.latlng);
+    }
+
+    /**
+     * Internal method to render the coordinates in the configured format
+     */
+    protected render(): void {
+        this.valueElement.textContent = this.lastLatLng ?
+            formatCoordinates(this.lastLatLng, this.coordinateFormat, this.coordinatePrecision) :
+            '';
+    }
+}
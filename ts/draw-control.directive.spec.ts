@@ -0,0 +1,360 @@
+import { NgZone } from '@angular/core';
+import { expect } from 'chai';
+import { Circle, latLng, Marker, point, Polygon, Polyline, Rectangle, SVG } from 'leaflet';
+import {
+    DrawControlDirective,
+    LayerGroupDirective,
+    MapComponent,
+    PolygonDirective,
+} from './index';
+
+describe('Draw-Control Directive', () => {
+    let map: MapComponent;
+    let control: DrawControlDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        control = new DrawControlDirective(map);
+    });
+
+    function clickMap(lat: number, lng: number): void {
+        map.fire('click', {latlng: latLng(lat, lng)});
+    }
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+    describe('[tools]', () => {
+        it('should display a button for every draw mode by default', () => {
+            expect(control.getContainer().querySelectorAll('.yaga-draw-control-button').length).to.equal(6);
+        });
+        it('should display only the given tools', () => {
+            control.tools = ['polygon', 'delete'];
+            expect(control.getContainer().querySelectorAll('.yaga-draw-control-button').length).to.equal(2);
+            expect(control.getContainer().querySelector('.yaga-draw-control-polygon')).to.not.equal(null);
+        });
+    });
+    describe('[(drawMode)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.drawMode = 'polygon';
+            expect(control.drawMode).to.equal('polygon');
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.drawModeChange.subscribe((val: string) => {
+                expect(val).to.equal('polygon');
+                done();
+            });
+            control.drawMode = 'polygon';
+        });
+        it('should be activated with a click on a tool button', () => {
+            (control.getContainer().querySelector('.yaga-draw-control-circle') as HTMLElement).click();
+            expect(control.drawMode).to.equal('circle');
+        });
+        it('should be deactivated with a click on the active tool button', () => {
+            control.drawMode = 'circle';
+            (control.getContainer().querySelector('.yaga-draw-control-circle') as HTMLElement).click();
+            expect(control.drawMode).to.equal(undefined);
+        });
+        it('should mark the active tool button', () => {
+            control.drawMode = 'circle';
+            expect(control.getContainer().querySelector('.yaga-draw-control-active').getAttribute('data-draw-mode'))
+                .to.equal('circle');
+        });
+        it('should disable the double click zoom while drawing', () => {
+            control.drawMode = 'polyline';
+            expect(map.doubleClickZoom.enabled()).to.equal(false);
+            control.drawMode = undefined;
+            expect(map.doubleClickZoom.enabled()).to.equal(true);
+        });
+    });
+    describe('(created)', () => {
+        it('should fire with a marker after a click in the marker mode', (done: MochaDone) => {
+            control.drawMode = 'marker';
+            control.createdEvent.subscribe((event: any) => {
+                expect(event.layerType).to.equal('marker');
+                expect(event.layer).to.be.instanceOf(Marker);
+                expect(event.layer.getLatLng()).to.deep.equal(latLng(1, 2));
+                expect(control.drawMode).to.equal(undefined);
+                done();
+            });
+            clickMap(1, 2);
+        });
+        it('should fire with a polyline after finishing in the polyline mode', (done: MochaDone) => {
+            control.drawMode = 'polyline';
+            control.createdEvent.subscribe((event: any) => {
+                expect(event.layer).to.be.instanceOf(Polyline);
+                expect(event.layer.getLatLngs()).to.deep.equal([latLng(0, 0), latLng(1, 1)]);
+                done();
+            });
+            clickMap(0, 0);
+            clickMap(1, 1);
+            clickMap(1, 1);
+            map.fire('dblclick', {latlng: latLng(1, 1)});
+        });
+        it('should not finish a polygon with less than three vertices', () => {
+            control.drawMode = 'polygon';
+            clickMap(0, 0);
+            clickMap(1, 1);
+            control.finishDrawing();
+            expect(control.drawMode).to.equal('polygon');
+        });
+        it('should fire with a polygon after finishing in the polygon mode', (done: MochaDone) => {
+            control.drawMode = 'polygon';
+            control.createdEvent.subscribe((event: any) => {
+                expect(event.layer).to.be.instanceOf(Polygon);
+                expect(event.layer.getLatLngs()[0].length).to.equal(3);
+                done();
+            });
+            clickMap(0, 0);
+            clickMap(1, 1);
+            clickMap(2, 0);
+            control.finishDrawing();
+        });
+        it('should fire with a rectangle after two clicks in the rectangle mode', (done: MochaDone) => {
+            control.drawMode = 'rectangle';
+            control.createdEvent.subscribe((event: any) => {
+                expect(event.layer).to.be.instanceOf(Rectangle);
+                expect(event.layer.getBounds().getNorthEast()).to.deep.equal(latLng(2, 3));
+                done();
+            });
+            clickMap(0, 0);
+            clickMap(2, 3);
+        });
+        it('should fire with a circle after two clicks in the circle mode', (done: MochaDone) => {
+            control.drawMode = 'circle';
+            control.createdEvent.subscribe((event: any) => {
+                expect(event.layer).to.be.instanceOf(Circle);
+                expect(event.layer.getRadius()).to.equal(latLng(0, 0).distanceTo(latLng(0, 1)));
+                done();
+            });
+            clickMap(0, 0);
+            clickMap(0, 1);
+        });
+        it('should fire the created event on the map', (done: MochaDone) => {
+            control.drawMode = 'marker';
+            map.on('draw:created', (event: any) => {
+                expect(event.layerType).to.equal('marker');
+                done();
+            });
+            clickMap(1, 2);
+        });
+        it('should display a preview while drawing', () => {
+            control.drawMode = 'rectangle';
+            clickMap(0, 0);
+            map.fire('mousemove', {latlng: latLng(1, 1)});
+            let previews: number = 0;
+            map.eachLayer((layer: any) => {
+                if (layer.options.className === 'yaga-draw-preview') {
+                    previews += 1;
+                }
+            });
+            expect(previews).to.equal(1);
+            control.cancelDrawing();
+            map.eachLayer((layer: any) => {
+                expect(layer.options.className).to.not.equal('yaga-draw-preview');
+            });
+        });
+        it('should update the same preview on mouse moves', () => {
+            control.drawMode = 'polyline';
+            clickMap(0, 0);
+            map.fire('mousemove', {latlng: latLng(1, 1)});
+            const preview: any = (control as any).previewLayer;
+            let removed: number = 0;
+            preview.on('remove', () => removed += 1);
+            map.fire('mousemove', {latlng: latLng(2, 2)});
+            expect((control as any).previewLayer).to.equal(preview);
+            expect(removed).to.equal(0);
+            expect(preview.getLatLngs()).to.deep.equal([latLng(0, 0), latLng(2, 2)]);
+        });
+        it('should update the bounds of a rectangle preview', () => {
+            control.drawMode = 'rectangle';
+            clickMap(0, 0);
+            map.fire('mousemove', {latlng: latLng(1, 1)});
+            map.fire('mousemove', {latlng: latLng(2, 3)});
+            expect((control as any).previewLayer.getBounds().getNorthEast()).to.deep.equal(latLng(2, 3));
+        });
+    });
+    describe('(edited)', () => {
+        it('should fire when an editable layer was edited', (done: MochaDone) => {
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map);
+            control.editedEvent.subscribe((event: any) => {
+                expect(event.layer).to.equal(layer);
+                done();
+            });
+            map.fire('draw:edited', {layer});
+        });
+    });
+    describe('(deleted)', () => {
+        it('should fire on a click on an editable layer in the delete mode', (done: MochaDone) => {
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map);
+            layer.setLatLngs([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            layer.editable = true;
+            control.drawMode = 'delete';
+            control.deletedEvent.subscribe((event: any) => {
+                expect(event.layer).to.equal(layer);
+                done();
+            });
+            layer.fire('click');
+        });
+        it('should remove the layer from the map in the delete mode', () => {
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map);
+            layer.setLatLngs([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            layer.editable = true;
+            control.drawMode = 'delete';
+            layer.fire('click');
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+        it('should remove the layer from its layer group in the delete mode', () => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map, group);
+            layer.setLatLngs([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            layer.editable = true;
+            control.drawMode = 'delete';
+            layer.fire('click');
+            expect(group.hasLayer(layer)).to.equal(false);
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+        it('should not remove the layer in other modes', () => {
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map);
+            layer.editable = true;
+            layer.fire('click');
+            expect(map.hasLayer(layer)).to.equal(true);
+        });
+        it('should delete a layer that is not editable with deleteLayer', (done: MochaDone) => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map, group);
+            control.deletedEvent.subscribe((event: any) => {
+                expect(event.layer).to.equal(layer);
+                expect(group.hasLayer(layer)).to.equal(false);
+                expect(map.hasLayer(layer)).to.equal(false);
+                done();
+            });
+            control.deleteLayer(layer);
+        });
+        it('should not fire on a click on an editable layer in other modes', () => {
+            const layer: PolygonDirective<any> = new PolygonDirective<any>(map);
+            layer.editable = true;
+            control.deletedEvent.subscribe(() => {
+                throw new Error('Deleted without delete mode');
+            });
+            layer.fire('click');
+        });
+    });
+
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('NgZone', () => {
+        let zone: any;
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            control = new DrawControlDirective(map, zone as NgZone);
+            zone.inside = false;
+        });
+        it('should emit the created layer of a map click inside of the zone', () => {
+            let inside: boolean = false;
+            control.drawMode = 'marker';
+            control.createdEvent.subscribe(() => {
+                inside = zone.inside;
+            });
+            clickMap(1, 2);
+            expect(inside).to.equal(true);
+        });
+    });
+
+    describe('Destroying a Draw-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
@@ -0,0 +1,602 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+} from '@angular/core';
+import {
+    Circle,
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LatLng,
+    latLngBounds,
+    Layer,
+    LayerGroup,
+    LeafletEvent,
+    LeafletMouseEvent,
+    Map,
+    Marker,
+    Path,
+    PathOptions,
+    Polygon,
+    Polyline,
+    Rectangle,
+} from 'leaflet';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Interface for the events of the draw-control
+ */
+export interface IDrawEvent extends LeafletEvent {
+    layer: Layer;
+    layerType?: string;
+}
+
+/**
+ * Modes of the draw-control that are available as tools
+ */
+export const DRAW_MODES: string[] = ['polyline', 'polygon', 'rectangle', 'circle', 'marker', 'delete'];
+
+const DRAW_MODE_TITLES: {[mode: string]: string} = {
+    circle: 'Draw a circle',
+    delete: 'Delete a layer',
+    marker: 'Draw a marker',
+    polygon: 'Draw a polygon',
+    polyline: 'Draw a polyline',
+    rectangle: 'Draw a rectangle',
+};
+
+/**
+ * Angular2 directive for a control to draw and delete geometries.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-draw-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(drawMode)]="..."
+ *
+ *         (created)="..."
+ *         (edited)="..."
+ *         (deleted)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [tools]="..."
+ *         [pathOptions]="..."
+ *         >
+ *     </yaga-draw-control>
+ *     <yaga-polygon [(latLngs)]="..." [editable]="true"></yaga-polygon>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * Polylines and polygons are drawn by clicking their vertices and finished with a double click, rectangles and
+ * circles with two clicks, markers with a single click.
+ * * Created layers are not added to the map, add the geometry of the `created` event to the data of your
+ * application.
+ * * Layers are edited with the `[editable]` input of the layer directives. The `edited` event is fired after each edit.
+ * * In the delete mode a click on an editable layer removes it from the map and its layer group and fires the
+ * `deleted` event. Remove the data of the layer in your application as well.
+ * * The delete mode only knows the clicks on layers whose `[editable]` input is enabled. Call `deleteLayer` to
+ * delete any other layer, for example from its `(click)` handler.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Draw-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/draw-control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/drawcontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-draw-control',
+})
+export class DrawControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-draw-control [(display)]="someValue">`
+     * or `<yaga-draw-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-draw-control [(zIndex)]="someValue">`
+     * or `<yaga-draw-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-draw-control [(position)]="someValue">`
+     * or `<yaga-draw-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Two-Way bound property for the active draw mode.
+     * Use it with `<yaga-draw-control [(drawMode)]="someValue">`
+     * or `<yaga-draw-control (drawModeChange)="processEvent($event)">`
+     */
+    @Output() public drawModeChange: EventEmitter<string> = new EventEmitter();
+
+    /**
+     * Fired after drawing a new layer.
+     * Use it with `<yaga-draw-control (created)="processEvent($event)">`
+     */
+    @Output('created') public createdEvent: EventEmitter<IDrawEvent> = new EventEmitter();
+    /**
+     * Fired after editing an editable layer.
+     * Use it with `<yaga-draw-control (edited)="processEvent($event)">`
+     */
+    @Output('edited') public editedEvent: EventEmitter<IDrawEvent> = new EventEmitter();
+    /**
+     * Fired on clicking an editable layer in the delete mode.
+     * Use it with `<yaga-draw-control (deleted)="processEvent($event)">`
+     */
+    @Output('deleted') public deletedEvent: EventEmitter<IDrawEvent> = new EventEmitter();
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-draw-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-draw-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-draw-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-draw-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-draw-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-draw-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-draw-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Input for the style of the drawn paths.
+     * Use it with `<yaga-draw-control [pathOptions]="someValue">`
+     */
+    @Input() public pathOptions: PathOptions = {};
+
+    protected container: HTMLElement;
+    protected drawPoints: LatLng[] = [];
+    protected previewLayer: Path;
+    protected zoneEmitter: ZoneEmitter;
+
+    private activeDrawMode: string;
+    private availableTools: string[] = DRAW_MODES.slice();
+    private doubleClickZoomWasEnabled: boolean;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-draw-control');
+        DomEvent.disableClickPropagation(this.container);
+        this.createButtons();
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            map.on('draw:edited', self.onEdited, self);
+            map.on('draw:editableclick', self.onEditableClick, self);
+            if (self.activeDrawMode) {
+                self.startDrawing(map);
+            }
+            self.zoneEmitter.emit(self.displayChange, true);
+            self.zoneEmitter.emit(self.addEvent, {type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.stopDrawing(map);
+            map.off('draw:edited', self.onEdited, self);
+            map.off('draw:editableclick', self.onEditableClick, self);
+            self.zoneEmitter.emit(self.displayChange, false);
+            self.zoneEmitter.emit(self.removeEvent, {type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.zoneEmitter.emit(this.positionChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to activate a draw mode. Use `undefined` to deactivate drawing.
+     */
+    public setDrawMode(val: string): this {
+        if (val === this.activeDrawMode) {
+            return this;
+        }
+        const map: Map = (this as any)._map;
+        if (map) {
+            this.stopDrawing(map);
+        }
+        this.activeDrawMode = val;
+        this.updateButtons();
+        if (map && val) {
+            this.startDrawing(map);
+        }
+        this.zoneEmitter.emit(this.drawModeChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to finish drawing a polyline or polygon with the vertices drawn so far.
+     */
+    public finishDrawing(): void {
+        if (this.activeDrawMode === 'polyline' && this.drawPoints.length >= 2) {
+            this.create(new Polyline(this.drawPoints, this.pathOptions));
+            return;
+        }
+        if (this.activeDrawMode === 'polygon' && this.drawPoints.length >= 3) {
+            this.create(new Polygon(this.drawPoints, this.pathOptions));
+        }
+    }
+
+    /**
+     * Self written method to cancel the drawing.
+     */
+    public cancelDrawing(): void {
+        this.setDrawMode(undefined);
+    }
+
+    /**
+     * Self written method to remove a layer from its layer groups and the map and to fire the `deleted` event, like a
+     * click on an editable layer in the delete mode.
+     */
+    public deleteLayer(layer: Layer): void {
+        const map: Map = (this as any)._map;
+        // The layer group of a layer directive
+        if ((layer as any).layerGroupProvider) {
+            (layer as any).layerGroupProvider.removeLayer(layer);
+        }
+        // Feature groups, like a GeoJSON layer, are event parents of their layers
+        const parents: {[id: string]: any} = (layer as any)._eventParents || {};
+        for (const id of Object.keys(parents)) {
+            if (parents[id] instanceof LayerGroup && parents[id].hasLayer(layer)) {
+                parents[id].removeLayer(layer);
+            }
+        }
+        if (map) {
+            map.removeLayer(layer);
+            map.fire('draw:deleted', {layer});
+        }
+        this.zoneEmitter.emit(this.deletedEvent, {layer, target: this, type: 'deleted'});
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-draw-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-draw-control [(display)]="someValue">`
+     * or `<yaga-draw-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-draw-control [(position)]="someValue">`
+     * or `<yaga-draw-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-draw-control [(zIndex)]="someValue">`
+     * or `<yaga-draw-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zoneEmitter.emit(this.zIndexChange, zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Two-Way bound property for the active draw mode (`polyline`, `polygon`, `rectangle`, `circle`, `marker`,
+     * `delete` or `undefined`).
+     * Use it with `<yaga-draw-control [(drawMode)]="someValue">`
+     * or `<yaga-draw-control [drawMode]="someValue">`
+     */
+    @Input() public set drawMode(val: string) {
+        this.setDrawMode(val);
+    }
+    public get drawMode(): string {
+        return this.activeDrawMode;
+    }
+
+    /**
+     * Input for the tools that are displayed as buttons. Default are all draw modes.
+     * Use it with `<yaga-draw-control [tools]="['polygon', 'delete']">`
+     */
+    @Input() public set tools(val: string[]) {
+        this.availableTools = val;
+        this.createButtons();
+    }
+    public get tools(): string[] {
+        return this.availableTools;
+    }
+
+    /**
+     * Internal method to (re-)create the buttons of the tools
+     */
+    protected createButtons(): void {
+        this.container.innerHTML = '';
+        for (const mode of this.availableTools) {
+            const button: HTMLAnchorElement = (DomUtil.create(
+                'a',
+                'yaga-draw-control-button yaga-draw-control-' + mode,
+                this.container,
+            ) as HTMLAnchorElement);
+            button.href = '#';
+            button.title = DRAW_MODE_TITLES[mode] || mode;
+            button.setAttribute('data-draw-mode', mode);
+            DomEvent.on(button, 'click', (event: Event) => {
+                DomEvent.preventDefault(event);
+                this.setDrawMode(this.activeDrawMode === mode ? undefined : mode);
+            });
+        }
+        this.updateButtons();
+    }
+
+    /**
+     * Internal method to mark the button of the active draw mode
+     */
+    protected updateButtons(): void {
+        const buttons: NodeListOf<Element> = this.container.querySelectorAll('.yaga-draw-control-button');
+        /* tslint:disable:prefer-for-of */
+        for (let i: number = 0; i < buttons.length; i += 1) {
+            /* tslint:enable */
+            if (buttons[i].getAttribute('data-draw-mode') === this.activeDrawMode) {
+                DomUtil.addClass(buttons[i] as HTMLElement, 'yaga-draw-control-active');
+                continue;
+            }
+            DomUtil.removeClass(buttons[i] as HTMLElement, 'yaga-draw-control-active');
+        }
+    }
+
+    /**
+     * Internal method to listen on the map for drawing
+     */
+    protected startDrawing(map: Map): void {
+        if (this.activeDrawMode === 'delete') {
+            return;
+        }
+        map.on('click', this.onMapClick, this);
+        map.on('mousemove', this.onMapMouseMove, this);
+        map.on('dblclick', this.finishDrawing, this);
+        this.doubleClickZoomWasEnabled = map.doubleClickZoom.enabled();
+        map.doubleClickZoom.disable();
+        DomUtil.addClass(map.getContainer(), 'yaga-drawing');
+    }
+
+    /**
+     * Internal method to stop listening on the map and remove the preview
+     */
+    protected stopDrawing(map: Map): void {
+        map.off('click', this.onMapClick, this);
+        map.off('mousemove', this.onMapMouseMove, this);
+        map.off('dblclick', this.finishDrawing, this);
+        if (this.doubleClickZoomWasEnabled) {
+            map.doubleClickZoom.enable();
+        }
+        this.doubleClickZoomWasEnabled = undefined;
+        DomUtil.removeClass(map.getContainer(), 'yaga-drawing');
+        if (this.previewLayer) {
+            map.removeLayer(this.previewLayer);
+            this.previewLayer = undefined;
+        }
+        this.drawPoints = [];
+    }
+
+    /**
+     * Internal method to fire the created event and leave the draw mode
+     */
+    protected create(layer: Layer): void {
+        const layerType: string = this.activeDrawMode;
+        this.setDrawMode(undefined);
+        (this as any)._map.fire('draw:created', {layer, layerType});
+        this.zoneEmitter.emit(this.createdEvent, {layer, layerType, target: this, type: 'created'});
+    }
+
+    /**
+     * Internal handler for clicks on the map while drawing
+     */
+    protected onMapClick(event: LeafletMouseEvent): void {
+        const last: LatLng = this.drawPoints[this.drawPoints.length - 1];
+        switch (this.activeDrawMode) {
+            case 'marker':
+                this.create(new Marker(event.latlng));
+                return;
+            case 'rectangle':
+                if (last) {
+                    this.create(new Rectangle(latLngBounds(last, event.latlng), this.pathOptions));
+                    return;
+                }
+                break;
+            case 'circle':
+                if (last) {
+                    this.create(new Circle(last, {...this.pathOptions, radius: last.distanceTo(event.latlng)}));
+                    return;
+                }
+                break;
+            default:
+                // The clicks of a double click should not add the same vertex twice
+                if (last && last.equals(event.latlng)) {
+                    return;
+                }
+        }
+        this.drawPoints.push(event.latlng);
+        this.updatePreview(event.latlng);
+    }
+
+    /**
+     * Internal handler for mouse moves on the map while drawing
+     */
+    protected onMapMouseMove(event: LeafletMouseEvent): void {
+        if (this.drawPoints.length) {
+            this.updatePreview(event.latlng);
+        }
+    }
+
+    /**
+     * Internal method to display the layer that is drawn at the moment. The preview is created once per drawing and
+     * only its geometry is updated afterwards.
+     */
+    protected updatePreview(cursor: LatLng): void {
+        const first: LatLng = this.drawPoints[0];
+        if (!this.previewLayer) {
+            this.previewLayer = this.createPreview(first, cursor);
+            (this as any)._map.addLayer(this.previewLayer);
+            return;
+        }
+        switch (this.activeDrawMode) {
+            case 'rectangle':
+                (this.previewLayer as Rectangle).setBounds(latLngBounds(first, cursor));
+                return;
+            case 'circle':
+                (this.previewLayer as Circle).setRadius(first.distanceTo(cursor));
+                return;
+            default:
+                (this.previewLayer as Polyline).setLatLngs(this.drawPoints.concat(cursor));
+        }
+    }
+
+    /**
+     * Internal method to create the preview layer for the active draw mode
+     */
+    protected createPreview(first: LatLng, cursor: LatLng): Path {
+        const options: PathOptions = {...this.pathOptions, className: 'yaga-draw-preview', interactive: false};
+        switch (this.activeDrawMode) {
+            case 'rectangle':
+                return new Rectangle(latLngBounds(first, cursor), options);
+            case 'circle':
+                return new Circle(first, {...options, radius: first.distanceTo(cursor)});
+            case 'polygon':
+                return new Polygon(this.drawPoints.concat(cursor), options);
+            default:
+                return new Polyline(this.drawPoints.concat(cursor), options);
+        }
+    }
+
+    /**
+     * Internal handler for edited layers
+     */
+    protected onEdited(event: IDrawEvent): void {
+        this.zoneEmitter.emit(this.editedEvent, event);
+    }
+
+    /**
+     * Internal handler for clicks on editable layers
+     */
+    protected onEditableClick(event: IDrawEvent): void {
+        if (this.activeDrawMode !== 'delete') {
+            return;
+        }
+        this.deleteLayer(event.layer);
+    }
+}
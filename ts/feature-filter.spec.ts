@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import {
+    IFeatureFilter,
+    matchesFeatureFilter,
+} from './index';
+
+describe('Feature-Filter helper', () => {
+    const properties: any = {built: 1970, demolished: false, landuse: 'residential'};
+
+    it('should match an empty expression', () => {
+        expect(matchesFeatureFilter({}, properties)).to.equal(true);
+    });
+    it('should match by equality', () => {
+        expect(matchesFeatureFilter({equals: 'residential', property: 'landuse'}, properties)).to.equal(true);
+        expect(matchesFeatureFilter({equals: 'commercial', property: 'landuse'}, properties)).to.equal(false);
+    });
+    it('should match by inequality', () => {
+        expect(matchesFeatureFilter({notEquals: 'commercial', property: 'landuse'}, properties)).to.equal(true);
+        expect(matchesFeatureFilter({notEquals: 'residential', property: 'landuse'}, properties)).to.equal(false);
+    });
+    it('should match by a list of values', () => {
+        expect(matchesFeatureFilter({in: ['commercial', 'residential'], property: 'landuse'}, properties))
+            .to.equal(true);
+        expect(matchesFeatureFilter({in: ['commercial'], property: 'landuse'}, properties)).to.equal(false);
+    });
+    it('should match by a range with inclusive minimum and exclusive maximum', () => {
+        expect(matchesFeatureFilter({max: 1990, min: 1970, property: 'built'}, properties)).to.equal(true);
+        expect(matchesFeatureFilter({max: 1970, property: 'built'}, properties)).to.equal(false);
+        expect(matchesFeatureFilter({min: 1980, property: 'built'}, properties)).to.equal(false);
+    });
+    it('should match by existence', () => {
+        expect(matchesFeatureFilter({exists: true, property: 'built'}, properties)).to.equal(true);
+        expect(matchesFeatureFilter({exists: true, property: 'name'}, properties)).to.equal(false);
+        expect(matchesFeatureFilter({exists: false, property: 'name'}, properties)).to.equal(true);
+    });
+    it('should combine expressions with all', () => {
+        const filter: IFeatureFilter = {
+            all: [{equals: 'residential', property: 'landuse'}, {min: 1980, property: 'built'}],
+        };
+        expect(matchesFeatureFilter(filter, properties)).to.equal(false);
+        filter.all[1].min = 1960;
+        expect(matchesFeatureFilter(filter, properties)).to.equal(true);
+    });
+    it('should combine expressions with any', () => {
+        const filter: IFeatureFilter = {
+            any: [{equals: 'commercial', property: 'landuse'}, {min: 1980, property: 'built'}],
+        };
+        expect(matchesFeatureFilter(filter, properties)).to.equal(false);
+        filter.any[1].min = 1960;
+        expect(matchesFeatureFilter(filter, properties)).to.equal(true);
+    });
+    it('should negate expressions with not', () => {
+        expect(matchesFeatureFilter({not: {equals: true, property: 'demolished'}}, properties)).to.equal(true);
+        expect(matchesFeatureFilter({not: {equals: false, property: 'demolished'}}, properties)).to.equal(false);
+    });
+    it('should not match conditions on missing properties', () => {
+        expect(matchesFeatureFilter({equals: 'residential', property: 'landuse'}, undefined)).to.equal(false);
+    });
+});
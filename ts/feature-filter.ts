@@ -0,0 +1,104 @@
+import { GenericGeoJSONFeature } from '@yaga/generic-geojson';
+
+/**
+ * Predicate function as alternative to a declarative filter expression
+ */
+export type FeatureFilterPredicate<T> = (feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>) => boolean;
+
+/**
+ * Declarative filter expression over the properties of a GeoJSON feature.
+ *
+ * All given conditions of an expression have to be fulfilled. Use `all`, `any` and `not` to combine expressions.
+ *
+ * Example:
+ * ```typescript
+ * const filter: IFeatureFilter = {
+ *     all: [
+ *         {in: ['residential', 'commercial'], property: 'landuse'},
+ *         {not: {equals: true, property: 'demolished'}},
+ *         {max: 1990, min: 1950, property: 'built'},
+ *     ],
+ * };
+ * ```
+ */
+export interface IFeatureFilter {
+    /**
+     * Combinator: all of the given expressions have to match
+     */
+    all?: IFeatureFilter[];
+    /**
+     * Combinator: at least one of the given expressions has to match
+     */
+    any?: IFeatureFilter[];
+    /**
+     * Combinator: the given expression must not match
+     */
+    not?: IFeatureFilter;
+    /**
+     * Name of the feature property that is used by the conditions `equals`, `notEquals`, `in`, `min`, `max` and
+     * `exists`
+     */
+    property?: string;
+    /**
+     * Condition: the property value equals the given value
+     */
+    equals?: any;
+    /**
+     * Condition: the property value does not equal the given value
+     */
+    notEquals?: any;
+    /**
+     * Condition: the property value is one of the given values
+     */
+    in?: any[];
+    /**
+     * Condition: the property value is greater than or equal to the given value
+     */
+    min?: number;
+    /**
+     * Condition: the property value is lower than the given value
+     */
+    max?: number;
+    /**
+     * Condition: the property is (or is not) set
+     */
+    exists?: boolean;
+}
+
+/**
+ * Function to check if the properties of a feature match a filter expression
+ */
+export function matchesFeatureFilter(filter: IFeatureFilter, properties: any): boolean {
+    if (filter.all && !filter.all.every((expression: IFeatureFilter) => matchesFeatureFilter(expression, properties))) {
+        return false;
+    }
+    if (filter.any && !filter.any.some((expression: IFeatureFilter) => matchesFeatureFilter(expression, properties))) {
+        return false;
+    }
+    if (filter.not && matchesFeatureFilter(filter.not, properties)) {
+        return false;
+    }
+    if (filter.property === undefined) {
+        return true;
+    }
+    const value: any = properties ? properties[filter.property] : undefined;
+    if (filter.exists !== undefined && (value !== undefined && value !== null) !== filter.exists) {
+        return false;
+    }
+    if (filter.equals !== undefined && value !== filter.equals) {
+        return false;
+    }
+    if (filter.notEquals !== undefined && value === filter.notEquals) {
+        return false;
+    }
+    if (filter.in !== undefined && filter.in.indexOf(value) === -1) {
+        return false;
+    }
+    if (filter.min !== undefined && !(value >= filter.min)) {
+        return false;
+    }
+    if (filter.max !== undefined && !(value < filter.max)) {
+        return false;
+    }
+    return true;
+}
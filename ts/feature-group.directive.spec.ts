@@ -0,0 +1,319 @@
+import { expect } from 'chai';
+import { latLng, point, SVG } from 'leaflet';
+import {
+    FeatureGroupDirective,
+    LayerGroupDirective,
+    MapComponent,
+    PathOptions,
+    PolylineDirective,
+} from './index';
+
+describe('Feature-Group Directive', () => {
+    let map: MapComponent;
+    let layer: FeatureGroupDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+
+        layer = new FeatureGroupDirective(map);
+    });
+
+    describe('child layers', () => {
+        it('should be added to the group instead of the map', () => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            expect(layer.hasLayer(polyline)).to.equal(true);
+            expect((polyline as any)._map).to.equal(map);
+        });
+        it('should be removed from the group on destroy', () => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            polyline.ngOnDestroy();
+            expect(layer.hasLayer(polyline)).to.equal(false);
+            expect(map.hasLayer(polyline)).to.equal(false);
+        });
+        it('should be removed from the map when the group is hidden', () => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            layer.display = false;
+            expect(layer.hasLayer(polyline)).to.equal(true);
+            expect(map.hasLayer(polyline)).to.equal(false);
+        });
+    });
+    describe('nested groups', () => {
+        it('should be added to a parent layer group', () => {
+            const parent: LayerGroupDirective = new LayerGroupDirective(map);
+            const child: FeatureGroupDirective = new FeatureGroupDirective(map, parent);
+            expect(parent.hasLayer(child)).to.equal(true);
+        });
+        it('should be removed from the parent group when hiding and added again when showing', () => {
+            const child: FeatureGroupDirective = new FeatureGroupDirective(map, layer);
+            child.display = false;
+            expect(layer.hasLayer(child)).to.equal(false);
+            child.display = true;
+            expect(layer.hasLayer(child)).to.equal(true);
+        });
+        it('should keep the layers of a hidden child group hidden when showing the parent group again', () => {
+            const child: FeatureGroupDirective = new FeatureGroupDirective(map, layer);
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, child);
+            child.display = false;
+            layer.display = false;
+            layer.display = true;
+            expect(child.display).to.equal(false);
+            expect(map.hasLayer(polyline)).to.equal(false);
+        });
+    });
+    describe('[(display)]', () => {
+        it('should remove the group from the map when not displaying', () => {
+            layer.display = false;
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+        it('should re-add the group to the map when display is true again', () => {
+            layer.display = false;
+            layer.display = true;
+            expect(map.hasLayer(layer)).to.equal(true);
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                expect(layer.display).to.equal(false);
+                done();
+            });
+
+            map.removeLayer(layer);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeLayer(layer);
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                expect(layer.display).to.equal(true);
+                done();
+            });
+
+            map.addLayer(layer);
+        });
+    });
+    describe('[(style)]', () => {
+        const TEST_VALUE: PathOptions = {color: '#f00', weight: 5};
+        it('should be changed in the child layers when changing in Angular', () => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            layer.style = TEST_VALUE;
+            expect(polyline.options.color).to.equal('#f00');
+            expect(polyline.options.weight).to.equal(5);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            layer.style = TEST_VALUE;
+            expect(layer.style).to.equal(TEST_VALUE);
+        });
+        it('should be changed in Angular when changing in Leaflet', () => {
+            layer.setStyle(TEST_VALUE);
+            expect(layer.style).to.equal(TEST_VALUE);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.styleChange.subscribe((eventVal: PathOptions) => {
+                expect(eventVal).to.equal(TEST_VALUE);
+                return done();
+            });
+            layer.style = TEST_VALUE;
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            layer.styleChange.subscribe((eventVal: PathOptions) => {
+                expect(eventVal).to.equal(TEST_VALUE);
+                return done();
+            });
+            layer.setStyle(TEST_VALUE);
+        });
+    });
+    describe('.getBounds()', () => {
+        it('should return the bounds of all child layers', () => {
+            const first: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            const second: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            first.setLatLngs([latLng(0, 0), latLng(1, 1)]);
+            second.setLatLngs([latLng(2, 2), latLng(3, 4)]);
+            expect(layer.getBounds().getSouthWest()).to.deep.equal(latLng(0, 0));
+            expect(layer.getBounds().getNorthEast()).to.deep.equal(latLng(3, 4));
+        });
+    });
+
+    describe('Destroying a Feature-Group Directive', () => {
+        it('should remove the group from the map', () => {
+            layer.ngOnDestroy();
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+    });
+
+    describe('(layeradd)', () => {
+        it('should fire event in Angular when adding a child layer', (done: MochaDone) => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map);
+            layer.layeraddEvent.subscribe((event: any) => {
+                expect(event.layer).to.equal(polyline);
+                return done();
+            });
+            layer.addLayer(polyline);
+        });
+    });
+    describe('(layerremove)', () => {
+        it('should fire event in Angular when removing a child layer', (done: MochaDone) => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            layer.layerremoveEvent.subscribe((event: any) => {
+                expect(event.layer).to.equal(polyline);
+                return done();
+            });
+            polyline.ngOnDestroy();
+        });
+    });
+    describe('(click)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.clickEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('click', testEvent);
+        });
+        it('should fire event in Angular when a child layer fires the event', (done: MochaDone) => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.clickEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                expect(event.layer).to.equal(polyline);
+                return done();
+            });
+            polyline.fire('click', testEvent, true);
+        });
+    });
+    describe('(popupopen)', () => {
+        it('should fire event in Angular when a child layer fires the event', (done: MochaDone) => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.popupopenEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            polyline.fire('popupopen', testEvent, true);
+        });
+    });
+    describe('(add)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.addEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('add', testEvent);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.removeEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('remove', testEvent);
+        });
+    });
+    describe('(popupopen)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.popupopenEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('popupopen', testEvent);
+        });
+    });
+    describe('(popupclose)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.popupcloseEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('popupclose', testEvent);
+        });
+    });
+    describe('(tooltipopen)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.tooltipopenEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('tooltipopen', testEvent);
+        });
+    });
+    describe('(tooltipclose)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.tooltipcloseEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('tooltipclose', testEvent);
+        });
+    });
+    describe('(dbclick)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.dbclickEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('dbclick', testEvent);
+        });
+    });
+    describe('(mousedown)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.mousedownEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('mousedown', testEvent);
+        });
+    });
+    describe('(mouseover)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.mouseoverEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('mouseover', testEvent);
+        });
+    });
+    describe('(mouseout)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.mouseoutEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('mouseout', testEvent);
+        });
+    });
+    describe('(contextmenu)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.contextmenuEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('contextmenu', testEvent);
+        });
+    });
+});
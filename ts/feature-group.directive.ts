@@ -0,0 +1,327 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+    SkipSelf,
+} from '@angular/core';
+import {
+    FeatureGroup,
+    LayerEvent,
+    LeafletEvent,
+    PathOptions,
+    PopupEvent,
+    TooltipEvent,
+} from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Angular2 directive for Leaflet feature-groups.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-feature-group
+ *         [(display)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *         (layeradd)="..."
+ *         (layerremove)="..."
+ *         (popupopen)="..."
+ *         (popupclose)="..."
+ *         (tooltipopen)="..."
+ *         (tooltipclose)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *         (contextmenu)="..."
+ *
+ *         [style]="..."
+ *         [zIndex]="..."
+ *         >
+ *         <yaga-polygon></yaga-polygon>
+ *         <yaga-polyline></yaga-polyline>
+ *     </yaga-feature-group>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * All layer directives within this directive are added to the group instead of the map.
+ * * Events of the layers within the group are propagated to the group.
+ * * The style is applied on all vector layers within the group.
+ *
+ * @link http://leafletjs.com/reference-1.0.3.html#featuregroup Original Leaflet documentation
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Feature-Group%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/feature-group.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/featuregroupdirective.html API documentation
+ */
+@Directive({
+    providers: [{provide: LayerGroupProvider, useExisting: forwardRef(() => FeatureGroupDirective)}],
+    selector: 'yaga-feature-group',
+})
+export class FeatureGroupDirective extends FeatureGroup implements LayerGroupProvider, OnDestroy {
+    /**
+     * Two-Way bound property for the display status of the group.
+     * Use it with `<yaga-feature-group [(display)]="someValue">`
+     * or `<yaga-feature-group (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the style of all vector layers within the group.
+     * Use it with `<yaga-feature-group [(style)]="someValue">`
+     * or `<yaga-feature-group (styleChange)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-setstyle Original Leaflet documentation
+     */
+    @Output() public styleChange: EventEmitter<PathOptions> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-feature-group (add)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-add Original Leaflet documentation
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-feature-group (remove)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-remove Original Leaflet documentation
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired layeradd event.
+     * Use it with `<yaga-feature-group (layeradd)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-layeradd Original Leaflet documentation
+     */
+    @Output('layeradd') public layeraddEvent: EventEmitter<LayerEvent> = new EventEmitter();
+    /**
+     * From leaflet fired layerremove event.
+     * Use it with `<yaga-feature-group (layerremove)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-layerremove Original Leaflet documentation
+     */
+    @Output('layerremove') public layerremoveEvent: EventEmitter<LayerEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated popupopen event.
+     * Use it with `<yaga-feature-group (popupopen)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-popupopen Original Leaflet documentation
+     */
+    @Output('popupopen') public popupopenEvent: EventEmitter<PopupEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated popupclose event.
+     * Use it with `<yaga-feature-group (popupclose)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-popupclose Original Leaflet documentation
+     */
+    @Output('popupclose') public popupcloseEvent: EventEmitter<PopupEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated tooltipopen event.
+     * Use it with `<yaga-feature-group (tooltipopen)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-tooltipopen Original Leaflet documentation
+     */
+    @Output('tooltipopen') public tooltipopenEvent: EventEmitter<TooltipEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated tooltipclose event.
+     * Use it with `<yaga-feature-group (tooltipclose)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-tooltipclose Original Leaflet documentation
+     */
+    @Output('tooltipclose') public tooltipcloseEvent: EventEmitter<TooltipEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated click event.
+     * Use it with `<yaga-feature-group (click)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-click Original Leaflet documentation
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated dbclick event.
+     * Use it with `<yaga-feature-group (dbclick)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-dbclick Original Leaflet documentation
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated mousedown event.
+     * Use it with `<yaga-feature-group (mousedown)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-mousedown Original Leaflet documentation
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated mouseover event.
+     * Use it with `<yaga-feature-group (mouseover)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-mouseover Original Leaflet documentation
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated mouseout event.
+     * Use it with `<yaga-feature-group (mouseout)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-mouseout Original Leaflet documentation
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a layer within the group propagated contextmenu event.
+     * Use it with `<yaga-feature-group (contextmenu)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-contextmenu Original Leaflet documentation
+     */
+    @Output('contextmenu') public contextmenuEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Input for the name of the layer in a layers control.
+     * Use it with `<yaga-feature-group yaga-layer-name="someName">` within a `yaga-layers-control`
+     */
+    @Input('yaga-layer-name') public layerName: string;
+    /**
+     * Input to use this layer as base layer (radio button) instead of an overlay (checkbox) in a layers control.
+     * Use it with `<yaga-feature-group baseLayer>` or `<yaga-feature-group [baseLayer]="someValue">`
+     */
+    @Input() public baseLayer: boolean;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected mapComponent: MapComponent;
+    private groupStyle: PathOptions;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @SkipSelf() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.on('remove', () => {
+            this.zoneEmitter.emit(this.displayChange, false);
+        });
+        this.on('add', () => {
+            this.zoneEmitter.emit(this.displayChange, true);
+        });
+
+        this.mapComponent = mapComponent;
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
+
+        // Events
+        this.on('add', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.addEvent, event);
+        });
+        this.on('remove', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.removeEvent, event);
+        });
+        this.on('layeradd', (event: LayerEvent) => {
+            this.zoneEmitter.emit(this.layeraddEvent, event);
+        });
+        this.on('layerremove', (event: LayerEvent) => {
+            this.zoneEmitter.emit(this.layerremoveEvent, event);
+        });
+        this.on('popupopen', (event: PopupEvent) => {
+            this.zoneEmitter.emit(this.popupopenEvent, event);
+        });
+        this.on('popupclose', (event: PopupEvent) => {
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
+        });
+        this.on('tooltipopen', (event: TooltipEvent) => {
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
+        });
+        this.on('tooltipclose', (event: TooltipEvent) => {
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
+        });
+        this.on('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.on('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.on('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.on('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.on('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+        this.on('contextmenu', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
+        });
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
+        this.removeFrom((this as any)._map);
+    }
+
+    /**
+     * Derived method of the original setStyle method.
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-setstyle Original Leaflet documentation
+     */
+    public setStyle(style: PathOptions): this {
+        this.groupStyle = style;
+        super.setStyle((style as any)); // The typings expect a style function, but Leaflet uses path options
+        this.zoneEmitter.emit(this.styleChange, style);
+        return this;
+    }
+
+    /**
+     * Two-Way bound property for the style of all vector layers within the group.
+     * Use it with `<yaga-feature-group [(style)]="someValue">` or `<yaga-feature-group [style]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-setstyle Original Leaflet documentation
+     */
+    @Input() public set style(val: PathOptions) {
+        this.setStyle(val);
+    }
+    public get style(): PathOptions {
+        return this.groupStyle;
+    }
+
+    /**
+     * Two-Way bound property for the display status of the group.
+     * Hiding a group removes it together with all of its layers from the map and from a parent group. Showing it
+     * again adds it back to the parent group, so it stays hidden as long as the parent group is hidden.
+     * Use it with `<yaga-feature-group [(display)]="someValue">` or `<yaga-feature-group [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (this.display === val) {
+            return;
+        }
+        if (val) {
+            (this.layerGroupProvider || this.mapComponent).addLayer(this);
+            return;
+        }
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+            return;
+        }
+        this.mapComponent.removeLayer(this);
+    }
+    public get display(): boolean {
+        const map: MapComponent = (this as any)._map;
+        return !!map && map.hasLayer(this);
+    }
+
+    /**
+     * Input for the zIndex of all layers in this group.
+     * Use it with `<yaga-feature-group [zIndex]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-setzindex Original Leaflet documentation
+     */
+    @Input() public set zIndex(val: number) {
+        this.setZIndex(val);
+    }
+}
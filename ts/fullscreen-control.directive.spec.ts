@@ -0,0 +1,221 @@
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    FullscreenControlDirective,
+    MapComponent,
+} from './index';
+
+describe('Fullscreen-Control Directive', () => {
+    let map: MapComponent;
+    let control: FullscreenControlDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new FullscreenControlDirective(map);
+    });
+    afterEach(() => {
+        // Remove the listener on the document, so the fullscreenchange events of later tests do not reach this control
+        document.removeEventListener('fullscreenchange', (control as any).documentListener);
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('[(fullscreen)] with pseudo-fullscreen fallback', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.fullscreen = true;
+            expect(control.fullscreen).to.equal(true);
+            control.fullscreen = false;
+            expect(control.fullscreen).to.equal(false);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.fullscreenChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            control.fullscreen = true;
+        });
+        it('should fill the window with the map container', () => {
+            map.getContainer().style.height = '200px';
+            control.fullscreen = true;
+            expect(map.getContainer().style.position).to.equal('fixed');
+            expect(map.getContainer().classList.contains('yaga-pseudo-fullscreen')).to.equal(true);
+            expect(map.getContainer().classList.contains('yaga-fullscreen')).to.equal(true);
+        });
+        it('should restore the style of the map container on exit', () => {
+            map.getContainer().style.height = '200px';
+            control.fullscreen = true;
+            control.fullscreen = false;
+            expect(map.getContainer().style.height).to.equal('200px');
+            expect(map.getContainer().style.position).to.not.equal('fixed');
+            expect(map.getContainer().classList.contains('yaga-fullscreen')).to.equal(false);
+        });
+        it('should invalidate the size of the map', (done: MochaDone) => {
+            map.invalidateSize = (): any => {
+                map.invalidateSize = MapComponent.prototype.invalidateSize;
+                done();
+                return map;
+            };
+            control.fullscreen = true;
+        });
+        it('should be toggled by the button', () => {
+            (control.getContainer().querySelector('.yaga-fullscreen-control-button') as HTMLElement).click();
+            expect(control.fullscreen).to.equal(true);
+        });
+        it('should exit on removing from map', () => {
+            control.fullscreen = true;
+            map.removeControl(control);
+            expect(control.fullscreen).to.equal(false);
+        });
+    });
+    describe('[(fullscreen)] with Fullscreen API', () => {
+        let requested: boolean;
+        let exited: boolean;
+        beforeEach(() => {
+            requested = false;
+            exited = false;
+            (map.getContainer() as any).requestFullscreen = () => {
+                requested = true;
+            };
+            (document as any).exitFullscreen = () => {
+                exited = true;
+            };
+        });
+        afterEach(() => {
+            delete (document as any).exitFullscreen;
+            delete (document as any).fullscreenElement;
+        });
+        it('should request the fullscreen mode', () => {
+            control.fullscreen = true;
+            expect(requested).to.equal(true);
+        });
+        it('should be changed after the fullscreenchange event of the document', () => {
+            control.fullscreen = true;
+            (document as any).fullscreenElement = map.getContainer();
+            document.dispatchEvent(new Event('fullscreenchange'));
+            expect(control.fullscreen).to.equal(true);
+        });
+        it('should exit the fullscreen mode', () => {
+            (document as any).fullscreenElement = map.getContainer();
+            document.dispatchEvent(new Event('fullscreenchange'));
+            control.fullscreen = false;
+            expect(exited).to.equal(true);
+        });
+        it('should be changed when leaving the fullscreen mode in the browser', (done: MochaDone) => {
+            (document as any).fullscreenElement = map.getContainer();
+            document.dispatchEvent(new Event('fullscreenchange'));
+            control.exitFullscreenEvent.subscribe(() => {
+                expect(control.fullscreen).to.equal(false);
+                done();
+            });
+            (document as any).fullscreenElement = null;
+            document.dispatchEvent(new Event('fullscreenchange'));
+        });
+        it('should use the pseudo-fullscreen mode when forced', () => {
+            control.pseudoFullscreen = true;
+            control.fullscreen = true;
+            expect(requested).to.equal(false);
+            expect(control.fullscreen).to.equal(true);
+        });
+    });
+
+    describe('(enterFullscreen)', () => {
+        it('should fire an event when entering the fullscreen mode', (done: MochaDone) => {
+            control.enterFullscreenEvent.subscribe(() => {
+                done();
+            });
+            control.fullscreen = true;
+        });
+    });
+    describe('(exitFullscreen)', () => {
+        it('should fire an event when exiting the fullscreen mode', (done: MochaDone) => {
+            control.fullscreen = true;
+            control.exitFullscreenEvent.subscribe(() => {
+                done();
+            });
+            control.fullscreen = false;
+        });
+    });
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('Destroying a Fullscreen-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
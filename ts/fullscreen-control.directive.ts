@@ -0,0 +1,401 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LeafletEvent,
+    Map,
+} from 'leaflet';
+import { MapComponent } from './map.component';
+
+/**
+ * Names of the fullscreenchange events of the different browser implementations of the Fullscreen API
+ */
+const FULLSCREEN_CHANGE_EVENTS: string[] = [
+    'fullscreenchange',
+    'webkitfullscreenchange',
+    'mozfullscreenchange',
+    'MSFullscreenChange',
+];
+
+/**
+ * Angular2 directive for a control to toggle the fullscreen mode of the map.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-fullscreen-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(fullscreen)]="..."
+ *
+ *         (enterFullscreen)="..."
+ *         (exitFullscreen)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [pseudoFullscreen]="..."
+ *         >
+ *     </yaga-fullscreen-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The map container gets the css-class `yaga-fullscreen` in the fullscreen mode.
+ * * Without the Fullscreen API of the browser (or with `[pseudoFullscreen]="true"`) the map container fills the
+ * window with a fixed position instead and gets the css-class `yaga-pseudo-fullscreen`.
+ * * The size of the map is invalidated after every toggle.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Fullscreen-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/fullscreen-control.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/fullscreencontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-fullscreen-control',
+})
+export class FullscreenControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-fullscreen-control [(display)]="someValue">`
+     * or `<yaga-fullscreen-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-fullscreen-control [(zIndex)]="someValue">`
+     * or `<yaga-fullscreen-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-fullscreen-control [(position)]="someValue">`
+     * or `<yaga-fullscreen-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Two-Way bound property for the fullscreen state of the map.
+     * Use it with `<yaga-fullscreen-control [(fullscreen)]="someValue">`
+     * or `<yaga-fullscreen-control (fullscreenChange)="processEvent($event)">`
+     */
+    @Output() public fullscreenChange: EventEmitter<boolean> = new EventEmitter();
+
+    /**
+     * Fired after the map entered the fullscreen mode.
+     * Use it with `<yaga-fullscreen-control (enterFullscreen)="processEvent($event)">`
+     */
+    @Output('enterFullscreen') public enterFullscreenEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * Fired after the map exited the fullscreen mode.
+     * Use it with `<yaga-fullscreen-control (exitFullscreen)="processEvent($event)">`
+     */
+    @Output('exitFullscreen') public exitFullscreenEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-fullscreen-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-fullscreen-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-fullscreen-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-fullscreen-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-fullscreen-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-fullscreen-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-fullscreen-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Input to use the pseudo-fullscreen mode even if the Fullscreen API is available.
+     * Use it with `<yaga-fullscreen-control [pseudoFullscreen]="true">`
+     */
+    @Input() public pseudoFullscreen: boolean = false;
+
+    protected container: HTMLElement;
+    protected button: HTMLAnchorElement;
+    protected mapComponent: MapComponent;
+
+    private isFullscreen: boolean = false;
+    private isPseudoFullscreen: boolean = false;
+    private styleBeforePseudoFullscreen: string;
+    private documentListener: () => void;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+    ) {
+        super();
+        this.mapComponent = mapComponent;
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-fullscreen-control');
+        DomEvent.disableClickPropagation(this.container);
+        this.button = (DomUtil.create('a', 'yaga-fullscreen-control-button', this.container) as HTMLAnchorElement);
+        this.button.href = '#';
+        this.button.title = 'Toggle fullscreen';
+        this.button.setAttribute('role', 'button');
+        DomEvent.on(this.button, 'click', (event: Event) => {
+            DomEvent.preventDefault(event);
+            this.setFullscreen(!this.isFullscreen);
+        });
+
+        this.documentListener = () => {
+            this.onDocumentFullscreenChange();
+        };
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            for (const eventName of FULLSCREEN_CHANGE_EVENTS) {
+                document.addEventListener(eventName, self.documentListener);
+            }
+            self.displayChange.emit(true);
+            self.addEvent.emit({type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.setFullscreen(false);
+            for (const eventName of FULLSCREEN_CHANGE_EVENTS) {
+                document.removeEventListener(eventName, self.documentListener);
+            }
+            self.displayChange.emit(false);
+            self.removeEvent.emit({type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.clickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.dbclickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.mousedownEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.mouseoverEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.mouseoutEvent.emit(event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.positionChange.emit(val);
+        return this;
+    }
+
+    /**
+     * Self written method to enter or exit the fullscreen mode of the map. The state changes asynchronously when the
+     * Fullscreen API of the browser is used.
+     */
+    public setFullscreen(val: boolean): this {
+        if (val === this.isFullscreen) {
+            return this;
+        }
+        const element: any = this.mapComponent.getContainer();
+        const doc: any = document;
+        if (val) {
+            const request: () => any = this.pseudoFullscreen ? undefined : (
+                element.requestFullscreen ||
+                element.webkitRequestFullscreen ||
+                element.mozRequestFullScreen ||
+                element.msRequestFullscreen
+            );
+            if (request) {
+                request.call(element);
+                return this;
+            }
+            this.isPseudoFullscreen = true;
+            this.styleBeforePseudoFullscreen = element.style.cssText;
+            element.style.position = 'fixed';
+            element.style.top = element.style.left = '0';
+            element.style.width = element.style.height = '100%';
+            element.style.zIndex = '10000';
+            DomUtil.addClass(element, 'yaga-pseudo-fullscreen');
+            this.onFullscreenChange(true);
+            return this;
+        }
+        if (this.isPseudoFullscreen) {
+            this.isPseudoFullscreen = false;
+            element.style.cssText = this.styleBeforePseudoFullscreen;
+            DomUtil.removeClass(element, 'yaga-pseudo-fullscreen');
+            this.onFullscreenChange(false);
+            return this;
+        }
+        const exit: () => any = doc.exitFullscreen ||
+            doc.webkitExitFullscreen ||
+            doc.mozCancelFullScreen ||
+            doc.msExitFullscreen;
+        if (exit) {
+            exit.call(doc);
+        }
+        return this;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-fullscreen-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-fullscreen-control [(display)]="someValue">`
+     * or `<yaga-fullscreen-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-fullscreen-control [(position)]="someValue">`
+     * or `<yaga-fullscreen-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-fullscreen-control [(zIndex)]="someValue">`
+     * or `<yaga-fullscreen-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zIndexChange.emit(zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Two-Way bound property for the fullscreen state of the map.
+     * Use it with `<yaga-fullscreen-control [(fullscreen)]="someValue">`
+     * or `<yaga-fullscreen-control [fullscreen]="someValue">`
+     */
+    @Input() public set fullscreen(val: boolean) {
+        this.setFullscreen(val);
+    }
+    public get fullscreen(): boolean {
+        return this.isFullscreen;
+    }
+
+    /**
+     * Internal handler for the fullscreenchange events of the document, that are also fired on exiting the fullscreen
+     * mode with the escape key
+     */
+    protected onDocumentFullscreenChange(): void {
+        const doc: any = document;
+        const fullscreenElement: HTMLElement = doc.fullscreenElement ||
+            doc.webkitFullscreenElement ||
+            doc.mozFullScreenElement ||
+            doc.msFullscreenElement;
+        const val: boolean = !!fullscreenElement && fullscreenElement === this.mapComponent.getContainer();
+        if (val !== this.isFullscreen) {
+            this.onFullscreenChange(val);
+        }
+    }
+
+    /**
+     * Internal method to apply a changed fullscreen state
+     */
+    protected onFullscreenChange(val: boolean): void {
+        this.isFullscreen = val;
+        const element: HTMLElement = this.mapComponent.getContainer();
+        if (val) {
+            DomUtil.addClass(element, 'yaga-fullscreen');
+            DomUtil.addClass(this.button, 'yaga-fullscreen-control-active');
+        } else {
+            DomUtil.removeClass(element, 'yaga-fullscreen');
+            DomUtil.removeClass(this.button, 'yaga-fullscreen-control-active');
+        }
+        this.mapComponent.invalidateSize();
+        this.fullscreenChange.emit(val);
+        if (val) {
+            this.enterFullscreenEvent.emit({type: 'enterFullscreen', target: this});
+            return;
+        }
+        this.exitFullscreenEvent.emit({type: 'exitFullscreen', target: this});
+    }
+}
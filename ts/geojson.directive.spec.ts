@@ -1,3 +1,4 @@
+import { NgZone } from '@angular/core';
 import { GenericGeoJSONFeature, GenericGeoJSONFeatureCollection } from '@yaga/generic-geojson';
 import { expect } from 'chai';
 import { point, SVG } from 'leaflet';
@@ -229,6 +230,255 @@ describe('GeoJSON Directive', () => {
         });
     });
 
+    describe('[filter]', () => {
+        const FILTER_VALUE: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any> = {
+            features: [
+                {
+                    geometry: {coordinates: [7, 51], type: 'Point'},
+                    properties: {name: 'a', value: 1},
+                    type: 'Feature',
+                },
+                {
+                    geometry: {coordinates: [8, 52], type: 'Point'},
+                    properties: {name: 'b', value: 2},
+                    type: 'Feature',
+                },
+            ],
+            type: 'FeatureCollection',
+        };
+        function getNames(): string[] {
+            return layer.getLayers().map((featureLayer: any) => featureLayer.feature.properties.name).sort();
+        }
+        beforeEach(() => {
+            layer.data = FILTER_VALUE;
+        });
+        it('should filter the existing data with an expression', () => {
+            layer.filter = {equals: 'a', property: 'name'};
+            expect(getNames()).to.deep.equal(['a']);
+        });
+        it('should filter the existing data with a predicate', () => {
+            layer.filter = (feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, any>) => {
+                return feature.properties.value > 1;
+            };
+            expect(getNames()).to.deep.equal(['b']);
+        });
+        it('should show hidden features again when changing the filter', () => {
+            layer.filter = {equals: 'a', property: 'name'};
+            layer.filter = {equals: 'b', property: 'name'};
+            expect(getNames()).to.deep.equal(['b']);
+            layer.filter = undefined;
+            expect(getNames()).to.deep.equal(['a', 'b']);
+        });
+        it('should keep the layers of features that still pass the filter', () => {
+            const before: any = layer.getLayers().filter((featureLayer: any) => {
+                return featureLayer.feature.properties.name === 'a';
+            })[0];
+            layer.filter = {equals: 'a', property: 'name'};
+            expect(layer.getLayers()[0]).to.equal(before);
+        });
+        it('should filter data added afterwards', () => {
+            layer.filter = {equals: 'a', property: 'name'};
+            layer.data = FILTER_VALUE;
+            expect(getNames()).to.deep.equal(['a']);
+        });
+        it('should keep hidden features in the data', () => {
+            layer.filter = {equals: 'a', property: 'name'};
+            expect(layer.data.features.length).to.equal(2);
+        });
+        it('should keep the order of the features in the data', () => {
+            const names: () => string[] = (): string[] => {
+                return layer.data.features.map((feature: any) => feature.properties.name);
+            };
+            layer.filter = {equals: 'b', property: 'name'};
+            expect(names()).to.deep.equal(['a', 'b']);
+            layer.filter = {equals: 'a', property: 'name'};
+            expect(names()).to.deep.equal(['a', 'b']);
+            layer.filter = undefined;
+            expect(names()).to.deep.equal(['a', 'b']);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: any = {equals: 'a', property: 'name'};
+            layer.filter = val;
+            expect(layer.filter).to.equal(val);
+        });
+    });
+
+    describe('[styleRules]', () => {
+        const POLYGON_VALUE: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any> = {
+            features: [
+                {
+                    geometry: {
+                        coordinates: [[[0, 0], [1, 1], [1, 0], [0, 0]]],
+                        type: 'Polygon',
+                    },
+                    properties: {
+                        value: 5,
+                    },
+                    type: 'Feature',
+                },
+            ],
+            type: 'FeatureCollection',
+        };
+        function getPathStyle(): any {
+            let options: any;
+            layer.eachLayer((featureLayer: any) => {
+                options = featureLayer.options;
+            });
+            return options;
+        }
+        it('should style the features by the rules', () => {
+            layer.styleRules = [{min: 0, property: 'value', style: {color: '#ff0000'}}];
+            layer.data = POLYGON_VALUE;
+            expect(getPathStyle().color).to.equal('#ff0000');
+        });
+        it('should re-evaluate the style when changing the rules', () => {
+            layer.data = POLYGON_VALUE;
+            layer.styleRules = [{min: 0, property: 'value', style: {color: '#ff0000'}}];
+            expect(getPathStyle().color).to.equal('#ff0000');
+            layer.styleRules = [{min: 0, property: 'value', style: {color: '#00ff00'}}];
+            expect(getPathStyle().color).to.equal('#00ff00');
+        });
+        it('should re-evaluate zoom dependent rules on zoom changes', () => {
+            layer.data = POLYGON_VALUE;
+            layer.styleRules = [{interpolate: [{input: '$zoom', stops: [[0, 1], [10, 11]], styleProperty: 'weight'}]}];
+            (map as any)._zoom = 4;
+            map.fire('zoomend');
+            expect(getPathStyle().weight).to.equal(5);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: any[] = [{style: {color: '#ff0000'}}];
+            layer.styleRules = val;
+            expect(layer.styleRules).to.equal(val);
+        });
+    });
+
+    describe('[popupTemplate]', () => {
+        let contexts: any[];
+        beforeEach(() => {
+            contexts = [];
+            const viewContainerRef: any = {
+                createEmbeddedView: (template: any, ctx: any): any => {
+                    contexts.push(ctx);
+                    return {destroy: (): void => undefined, detectChanges: (): void => undefined, rootNodes: []};
+                },
+            };
+            layer = new GeoJSONDirective(map, undefined, viewContainerRef);
+            layer.data = TEST_VALUE;
+        });
+        it('should bind a separate popup to every feature', () => {
+            layer.popupTemplate = ({} as any);
+            layer.eachLayer((featureLayer: any) => {
+                expect(featureLayer.getPopup()).to.be.instanceOf(PopupDirective);
+                expect(featureLayer.getPopup().template).to.equal(layer.popupTemplate);
+            });
+        });
+        it('should bind popups to features added afterwards', () => {
+            layer.popupTemplate = ({} as any);
+            layer.addData(TEST_VALUE.features[0]);
+            layer.eachLayer((featureLayer: any) => {
+                expect(featureLayer.getPopup()).to.be.instanceOf(PopupDirective);
+            });
+        });
+        it('should render the template with the feature on opening', () => {
+            layer.popupTemplate = ({} as any);
+            layer.eachLayer((featureLayer: any) => {
+                featureLayer.openPopup();
+            });
+            expect(contexts.length).to.equal(1);
+            expect(contexts[0].properties).to.deep.equal({test: 'OK'});
+        });
+        it('should unbind the popups when removing the template', () => {
+            layer.popupTemplate = ({} as any);
+            layer.popupTemplate = undefined;
+            layer.eachLayer((featureLayer: any) => {
+                expect(featureLayer.getPopup()).to.equal(null);
+            });
+        });
+    });
+    describe('[tooltipTemplate]', () => {
+        let contexts: any[];
+        beforeEach(() => {
+            contexts = [];
+            const viewContainerRef: any = {
+                createEmbeddedView: (template: any, ctx: any): any => {
+                    contexts.push(ctx);
+                    return {destroy: (): void => undefined, detectChanges: (): void => undefined, rootNodes: []};
+                },
+            };
+            layer = new GeoJSONDirective(map, undefined, viewContainerRef);
+            layer.data = TEST_VALUE;
+        });
+        it('should bind a separate tooltip to every feature', () => {
+            layer.tooltipTemplate = ({} as any);
+            layer.eachLayer((featureLayer: any) => {
+                expect(featureLayer.getTooltip()).to.be.instanceOf(TooltipDirective);
+                expect(featureLayer.getTooltip().template).to.equal(layer.tooltipTemplate);
+            });
+        });
+        it('should render the template with the feature on opening', () => {
+            layer.tooltipTemplate = ({} as any);
+            layer.eachLayer((featureLayer: any) => {
+                featureLayer.openTooltip();
+            });
+            expect(contexts.length).to.equal(1);
+            expect(contexts[0].properties).to.deep.equal({test: 'OK'});
+        });
+        it('should unbind the tooltips when removing the template', () => {
+            layer.tooltipTemplate = ({} as any);
+            layer.tooltipTemplate = undefined;
+            layer.eachLayer((featureLayer: any) => {
+                expect(featureLayer.getTooltip()).to.equal(null);
+            });
+        });
+    });
+
+    describe('NgZone', () => {
+        let zone: any;
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            layer = new GeoJSONDirective(map, undefined, undefined, zone as NgZone);
+            zone.inside = false;
+        });
+        it('should only enter the zone for outputs with subscribers', () => {
+            let inside: boolean = false;
+            const entered: number = zone.entered;
+            layer.data = TEST_VALUE;
+            expect(zone.entered).to.equal(entered);
+            layer.onEachFeatureEvent.subscribe(() => {
+                inside = zone.inside;
+            });
+            layer.data = TEST_VALUE;
+            expect(inside).to.equal(true);
+        });
+        it('should create the markers of the features with the zone', () => {
+            let inside: boolean = false;
+            layer.data = TEST_VALUE;
+            layer.eachLayer((marker: any) => {
+                marker.clickEvent.subscribe(() => {
+                    inside = zone.inside;
+                });
+                marker.fire('click', {latlng: marker.getLatLng()});
+            });
+            expect(inside).to.equal(true);
+        });
+    });
+
     describe('Destroying a GeoJSON Directive', () => {
         it('should remove Polyline Directive from map on destroy', () => {
             /* istanbul ignore if */
@@ -6,9 +6,12 @@ import {
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
     Optional,
     Output,
+    TemplateRef,
+    ViewContainerRef,
 } from '@angular/core';
 import {
     GeoJSON,
@@ -19,8 +22,13 @@ import {
     PopupEvent,
     TooltipEvent,
 } from 'leaflet';
+import { FeatureFilterPredicate, IFeatureFilter, matchesFeatureFilter } from './feature-filter';
+import { LayerGroupProvider } from './layer-group.provider';
+import { ILayerTemplateContext } from './layer-template-context';
 import { MapComponent } from './map.component';
 import { MarkerDirective } from './marker.directive';
+import { evaluateStyleRules, IStyleRule } from './style-rules';
+import { ZoneEmitter } from './zone-emitter';
 
 import { GenericGeoJSONFeature, GenericGeoJSONFeatureCollection } from '@yaga/generic-geojson';
 
@@ -28,6 +36,14 @@ import { GenericGeoJSONFeature, GenericGeoJSONFeatureCollection } from '@yaga/ge
 import { PopupDirective } from './popup.directive';
 import { TooltipDirective } from './tooltip.directive';
 
+/**
+ * Feature with its position in the data
+ */
+interface IIndexedFeature<T> {
+    index: number;
+    feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>;
+}
+
 @Directive({
     selector: 'yaga-geojson',
 })
@@ -55,21 +71,65 @@ export class GeoJSONDirective<T> extends GeoJSON implements OnDestroy, AfterView
 
     public defaultStyle: PathOptions = {};
 
+    /**
+     * Input for the name of the layer in a layers control.
+     * Use it with `<yaga-geojson yaga-layer-name="someName">` within a `yaga-layers-control`
+     */
+    @Input('yaga-layer-name') public layerName: string;
+    /**
+     * Input to use this layer as base layer (radio button) instead of an overlay (checkbox) in a layers control.
+     * Use it with `<yaga-geojson baseLayer>` or `<yaga-geojson [baseLayer]="someValue">`
+     */
+    @Input() public baseLayer: boolean;
+
     @Optional() @ContentChild(PopupDirective) public popupDirective: PopupDirective;
     @Optional() @ContentChild(TooltipDirective) public tooltipDirective: TooltipDirective;
 
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected ngZone: NgZone;
     protected mapComponent: MapComponent;
+    protected viewContainerRef: ViewContainerRef;
     protected initialized: boolean = false;
+    protected featurePopupTemplate: TemplateRef<ILayerTemplateContext<T>>;
+    protected featureTooltipTemplate: TemplateRef<ILayerTemplateContext<T>>;
+    protected rules: IStyleRule[];
+    protected featureFilter: IFeatureFilter | FeatureFilterPredicate<T>;
+    /**
+     * Features that are part of the data, but hidden by the filter, by their position in the data
+     */
+    protected hiddenFeatures: {[index: number]: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>} = {};
+    /**
+     * Positions of the displayed features in the data by the ids of their layers
+     */
+    protected featureIndices: {[layerId: number]: number} = {};
+
+    private featureCount: number = 0;
+    private currentFeatureIndex: number;
+    private refilteredFeatureIndex: number;
 
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(ViewContainerRef) viewContainerRef?: ViewContainerRef,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         super(({features: [], type: 'FeatureCollection'} as GeoJSON.GeoJsonObject), {
             filter: (feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>) => {
-                return this.filterFeatures(feature);
+                // Re-filtered features keep their position in the data
+                this.currentFeatureIndex = this.refilteredFeatureIndex !== undefined ?
+                    this.refilteredFeatureIndex : this.featureCount++;
+                if (this.filterFeatures(feature)) {
+                    return true;
+                }
+                this.hiddenFeatures[this.currentFeatureIndex] = feature;
+                return false;
             },
             onEachFeature: (feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>, layer: Layer) => {
-                this.onEachFeatureEvent.emit({feature, layer});
+                this.featureIndices[this.getLayerId(layer)] = this.currentFeatureIndex;
+                this.bindFeaturePopup(layer);
+                this.bindFeatureTooltip(layer);
+                this.zoneEmitter.emit(this.onEachFeatureEvent, {feature, layer});
             },
             pointToLayer: (geoJSON: GenericGeoJSONFeature<GeoJSON.Point, T>, latLng: LatLng): Layer => {
                 return this.pointToLayer(geoJSON, latLng);
@@ -79,45 +139,54 @@ export class GeoJSONDirective<T> extends GeoJSON implements OnDestroy, AfterView
             },
         });
 
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.ngZone = ngZone;
         this.mapComponent = mapComponent;
-        mapComponent.addLayer(this);
+        this.layerGroupProvider = layerGroupProvider;
+        this.viewContainerRef = viewContainerRef;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
 
         // Events
         this.on('add', (event: Event) => {
-            this.addEvent.emit(event);
+            this.zoneEmitter.emit(this.addEvent, event);
         });
         this.on('remove', (event: Event) => {
-            this.removeEvent.emit(event);
+            this.zoneEmitter.emit(this.removeEvent, event);
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event);
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
         });
         this.on('click', (event: MouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event);
         });
         this.on('dbclick', (event: MouseEvent) => {
-            this.dbclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dbclickEvent, event);
         });
         this.on('mousedown', (event: MouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event);
         });
         this.on('mouseover', (event: MouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
         });
         this.on('mouseout', (event: MouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
         });
         this.on('contextmenu', (event: MouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
         });
     }
 
@@ -132,21 +201,79 @@ export class GeoJSONDirective<T> extends GeoJSON implements OnDestroy, AfterView
     }
 
     public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
         this.removeFrom((this as any)._map);
     }
 
     public pointToLayer(geoJSON: GenericGeoJSONFeature<GeoJSON.Point, T>, latLng: LatLng): Layer {
-        const marker: MarkerDirective = new MarkerDirective(this.mapComponent);
+        // The marker joins this layer (and with it a parent marker-cluster) instead of the map
+        const marker: MarkerDirective = new MarkerDirective(this.mapComponent, this, this.ngZone);
         marker.setLatLng(latLng);
         return marker;
     }
 
     public styler(geoJSON: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>, defaultStyle: PathOptions): PathOptions {
-        return defaultStyle;
+        if (!this.rules || !this.rules.length) {
+            return defaultStyle;
+        }
+        return evaluateStyleRules(this.rules, geoJSON, this.mapComponent.getZoom(), defaultStyle);
+    }
+
+    /**
+     * Re-evaluates the style of all features, this happens automatically on changes of the style rules and on zoom
+     * changes while style rules are set.
+     */
+    public refreshStyle(): this {
+        return this.setStyle(this.options.style);
+    }
+
+    /**
+     * Derived method of the Leaflet class, that registers the map events of this layer.
+     */
+    public getEvents(): {[name: string]: (event: LeafletEvent) => void} {
+        return {
+            zoomend: this.onZoomEnd,
+        };
     }
 
     public filterFeatures(geoJSON: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>): boolean {
-        return true;
+        if (!this.featureFilter) {
+            return true;
+        }
+        if (typeof this.featureFilter === 'function') {
+            return this.featureFilter(geoJSON);
+        }
+        return matchesFeatureFilter(this.featureFilter, geoJSON.properties);
+    }
+
+    /**
+     * Re-filters the data in place, this happens automatically on changes of the filter.
+     * Layers of features that still pass the filter are kept, together with their state (like opened popups).
+     */
+    public refreshFilter(): this {
+        const hiddenFeatures: {[index: number]: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>} =
+            this.hiddenFeatures;
+        const layers: Layer[] = this.getLayers();
+        this.hiddenFeatures = {};
+
+        for (const layer of layers) {
+            const feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T> = (layer as any).feature;
+            if (feature && !this.filterFeatures(feature)) {
+                const layerId: number = this.getLayerId(layer);
+                this.hiddenFeatures[this.featureIndices[layerId]] = feature;
+                delete this.featureIndices[layerId];
+                this.removeLayer(layer);
+            }
+        }
+        for (const index of Object.keys(hiddenFeatures)) {
+            // Features that are still filtered get hidden again by the filter option
+            this.refilteredFeatureIndex = parseInt(index, 10);
+            super.addData(hiddenFeatures[index as any]);
+        }
+        this.refilteredFeatureIndex = undefined;
+        return this;
     }
 
     public addData(data: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>): Layer {
@@ -156,14 +283,17 @@ export class GeoJSONDirective<T> extends GeoJSON implements OnDestroy, AfterView
             return returnValue;
         }
 
-        this.dataChange.emit((this.toGeoJSON() as GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, T>));
+        this.zoneEmitter.emit(this.dataChange, this.data);
         return returnValue;
     }
 
     public setData(val: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, T>): this {
         super.clearLayers();
+        this.hiddenFeatures = {};
+        this.featureIndices = {};
+        this.featureCount = 0;
         super.addData(val);
-        this.dataChange.emit((this.toGeoJSON() as GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, T>));
+        this.zoneEmitter.emit(this.dataChange, this.data);
         return this;
     }
 
@@ -171,6 +301,138 @@ export class GeoJSONDirective<T> extends GeoJSON implements OnDestroy, AfterView
         this.setData(val);
     }
     public get data(): GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, T> {
-        return (this.toGeoJSON() as GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, T>);
+        // Features hidden by the filter are still part of the data, at their original position
+        const entries: Array<IIndexedFeature<T>> = [];
+        this.eachLayer((layer: Layer) => {
+            if (!(layer as any).toGeoJSON) {
+                return;
+            }
+            const index: number = this.featureIndices[this.getLayerId(layer)];
+            entries.push({
+                feature: (GeoJSON.asFeature((layer as any).toGeoJSON()) as any),
+                // Layers that were not added as data follow the data
+                index: index !== undefined ? index : this.featureCount + entries.length,
+            });
+        });
+        for (const index of Object.keys(this.hiddenFeatures)) {
+            entries.push({feature: this.hiddenFeatures[index as any], index: parseInt(index, 10)});
+        }
+        entries.sort((a: IIndexedFeature<T>, b: IIndexedFeature<T>) => a.index - b.index);
+        return {
+            features: entries.map((entry: IIndexedFeature<T>) => entry.feature),
+            type: 'FeatureCollection',
+        };
+    }
+
+    /**
+     * Input for a template that is rendered in a separate popup for every feature of this layer. The template gets the
+     * feature and its typed properties as context.
+     * Use it with `<yaga-geojson [popupTemplate]="featurePopup">` and
+     * `<ng-template #featurePopup let-properties="properties">...</ng-template>`
+     * @see ILayerTemplateContext for the available context
+     */
+    @Input() public set popupTemplate(val: TemplateRef<ILayerTemplateContext<T>>) {
+        this.featurePopupTemplate = val;
+        this.eachLayer((layer: Layer) => {
+            this.bindFeaturePopup(layer);
+        });
+    }
+    public get popupTemplate(): TemplateRef<ILayerTemplateContext<T>> {
+        return this.featurePopupTemplate;
+    }
+
+    /**
+     * Input for a template that is rendered in a separate tooltip for every feature of this layer. The template gets
+     * the feature and its typed properties as context.
+     * Use it with `<yaga-geojson [tooltipTemplate]="featureTooltip">` and
+     * `<ng-template #featureTooltip let-properties="properties">...</ng-template>`
+     * @see ILayerTemplateContext for the available context
+     */
+    @Input() public set tooltipTemplate(val: TemplateRef<ILayerTemplateContext<T>>) {
+        this.featureTooltipTemplate = val;
+        this.eachLayer((layer: Layer) => {
+            this.bindFeatureTooltip(layer);
+        });
+    }
+    public get tooltipTemplate(): TemplateRef<ILayerTemplateContext<T>> {
+        return this.featureTooltipTemplate;
+    }
+
+    /**
+     * Internal method to bind a popup with the feature popup template to the layer of a feature
+     */
+    protected bindFeaturePopup(layer: Layer): void {
+        if (layer.getPopup() instanceof PopupDirective) {
+            layer.unbindPopup();
+        }
+        if (!this.featurePopupTemplate) {
+            return;
+        }
+        const popup: PopupDirective = new PopupDirective(
+            this.mapComponent,
+            {nativeElement: document.createElement('div')},
+            this.viewContainerRef,
+            this.ngZone,
+        );
+        popup.template = this.featurePopupTemplate;
+        layer.bindPopup(popup);
+    }
+
+    /**
+     * Internal method to bind a tooltip with the feature tooltip template to the layer of a feature
+     */
+    protected bindFeatureTooltip(layer: Layer): void {
+        if (layer.getTooltip() instanceof TooltipDirective) {
+            layer.unbindTooltip();
+        }
+        if (!this.featureTooltipTemplate) {
+            return;
+        }
+        const tooltip: TooltipDirective = new TooltipDirective(
+            this.mapComponent,
+            {nativeElement: document.createElement('div')},
+            this.viewContainerRef,
+            this.ngZone,
+        );
+        tooltip.template = this.featureTooltipTemplate;
+        layer.bindTooltip(tooltip);
+    }
+
+    /**
+     * Input for declarative style rules, that map the properties of the features to path options.
+     * Assign a new array to re-evaluate the styles after changing the rules.
+     * Use it with `<yaga-geojson [styleRules]="someRules">`
+     * @see IStyleRule for the structure of the rules
+     */
+    @Input() public set styleRules(val: IStyleRule[]) {
+        this.rules = val;
+        this.refreshStyle();
+    }
+    public get styleRules(): IStyleRule[] {
+        return this.rules;
+    }
+
+    /**
+     * Input for a filter of the features, either a predicate function or a declarative filter expression over the
+     * feature properties. The existing data is re-filtered in place on changes.
+     * Assign a new expression to re-filter after changing an expression.
+     * Use it with `<yaga-geojson [filter]="someFilter">`
+     * @see IFeatureFilter for the structure of filter expressions
+     */
+    @Input() public set filter(val: IFeatureFilter | FeatureFilterPredicate<T>) {
+        this.featureFilter = val;
+        this.refreshFilter();
+    }
+    public get filter(): IFeatureFilter | FeatureFilterPredicate<T> {
+        return this.featureFilter;
+    }
+
+    /**
+     * Internal handler for zoom changes of the map, to re-evaluate zoom dependent style rules
+     */
+    protected onZoomEnd(): void {
+        if (this.rules && this.rules.length) {
+            this.refreshStyle();
+        }
     }
 }
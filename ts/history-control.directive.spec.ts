@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    HistoryControlDirective,
+    MapComponent,
+} from './index';
+
+describe('History-Control Directive', () => {
+    let map: MapComponent;
+    let control: HistoryControlDirective;
+    let backButton: HTMLElement;
+    let forwardButton: HTMLElement;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new HistoryControlDirective(map);
+        backButton = control.getContainer().querySelector('.yaga-history-control-back') as HTMLElement;
+        forwardButton = control.getContainer().querySelector('.yaga-history-control-forward') as HTMLElement;
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topright';
+            expect(control.getPosition()).to.equal('topright');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('Buttons', () => {
+        it('should be disabled without previous or next views', () => {
+            expect(backButton.classList.contains('leaflet-disabled')).to.equal(true);
+            expect(forwardButton.classList.contains('leaflet-disabled')).to.equal(true);
+        });
+        it('should enable the back button after moving the map', () => {
+            map.setView([10, 20], 5, {animate: false});
+            expect(backButton.classList.contains('leaflet-disabled')).to.equal(false);
+            expect(forwardButton.classList.contains('leaflet-disabled')).to.equal(true);
+        });
+        it('should go back and forward on click', () => {
+            map.setView([10, 20], 5, {animate: false});
+            backButton.dispatchEvent(new MouseEvent('click', {bubbles: true}));
+            expect(map.getZoom()).to.equal(0);
+            expect(backButton.classList.contains('leaflet-disabled')).to.equal(true);
+            expect(forwardButton.classList.contains('leaflet-disabled')).to.equal(false);
+            forwardButton.dispatchEvent(new MouseEvent('click', {bubbles: true}));
+            expect(map.getZoom()).to.equal(5);
+        });
+        it('should not update the buttons after destroying', () => {
+            control.ngOnDestroy();
+            map.setView([10, 20], 5, {animate: false});
+            expect(backButton.classList.contains('leaflet-disabled')).to.equal(true);
+        });
+    });
+});
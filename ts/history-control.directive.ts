@@ -0,0 +1,280 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LeafletEvent,
+    Map,
+} from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { MapComponent } from './map.component';
+
+/**
+ * Angular2 directive for a control with buttons to the previous and next views in the history of the map.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-history-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         >
+ *     </yaga-history-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The buttons use the `viewHistory` of the map and are disabled when there is no previous or next view.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=History-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/history-control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/historycontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-history-control',
+})
+export class HistoryControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-history-control [(display)]="someValue">`
+     * or `<yaga-history-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-history-control [(zIndex)]="someValue">`
+     * or `<yaga-history-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-history-control [(position)]="someValue">`
+     * or `<yaga-history-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-history-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-history-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-history-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-history-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-history-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-history-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-history-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    protected container: HTMLElement;
+    protected backButton: HTMLAnchorElement;
+    protected forwardButton: HTMLAnchorElement;
+
+    private subscriptions: Subscription[] = [];
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+    ) {
+        super();
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-history-control');
+        DomEvent.disableClickPropagation(this.container);
+        this.backButton = this.createButton('yaga-history-control-back', 'Previous view', '&#8592;', () => {
+            mapComponent.back();
+        });
+        this.forwardButton = this.createButton('yaga-history-control-forward', 'Next view', '&#8594;', () => {
+            mapComponent.forward();
+        });
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            self.displayChange.emit(true);
+            self.addEvent.emit({type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.displayChange.emit(false);
+            self.removeEvent.emit({type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        this.subscriptions.push(mapComponent.viewHistory.canGoBack.subscribe((val: boolean) => {
+            this.setButtonEnabled(this.backButton, val);
+        }));
+        this.subscriptions.push(mapComponent.viewHistory.canGoForward.subscribe((val: boolean) => {
+            this.setButtonEnabled(this.forwardButton, val);
+        }));
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.clickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.dbclickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.mousedownEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.mouseoverEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.mouseoutEvent.emit(event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions = [];
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.positionChange.emit(val);
+        return this;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-history-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-history-control [(display)]="someValue">`
+     * or `<yaga-history-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-history-control [(position)]="someValue">`
+     * or `<yaga-history-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-history-control [(zIndex)]="someValue">`
+     * or `<yaga-history-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zIndexChange.emit(zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    private createButton(className: string, title: string, html: string, fn: () => void): HTMLAnchorElement {
+        const button: HTMLAnchorElement = DomUtil.create('a', className, this.container) as HTMLAnchorElement;
+        button.href = '#';
+        button.title = title;
+        button.innerHTML = html;
+        button.setAttribute('role', 'button');
+        DomEvent.on(button, 'click', (event: Event) => {
+            DomEvent.preventDefault(event);
+            if (!DomUtil.hasClass(button, 'leaflet-disabled')) {
+                fn();
+            }
+        });
+        return button;
+    }
+
+    private setButtonEnabled(button: HTMLAnchorElement, val: boolean): void {
+        if (val) {
+            DomUtil.removeClass(button, 'leaflet-disabled');
+            return;
+        }
+        DomUtil.addClass(button, 'leaflet-disabled');
+    }
+}
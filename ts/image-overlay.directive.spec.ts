@@ -35,6 +35,13 @@ describe('Image-Overlay Directive', () => {
             layer.display = false;
             expect(hasAsChild(layer.getPane(), layer.getElement())).to.equal(false);
         });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.displayChange.subscribe((eventVal: boolean) => {
+                expect(eventVal).to.equal(false);
+                return done();
+            });
+            layer.display = false;
+        });
         it('should re-add DOM container when display is true again', () => {
             layer.display = false;
             layer.display = true;
@@ -4,7 +4,9 @@ import {
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
+    Optional,
     Output,
 } from '@angular/core';
 import {
@@ -19,7 +21,9 @@ import {
     TooltipEvent,
 } from 'leaflet';
 import { TRANSPARENT_PIXEL } from './consts';
+import { LayerGroupProvider } from './layer-group.provider';
 import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
 
 @Directive({
     selector: 'yaga-image-overlay',
@@ -49,61 +53,87 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
     @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
     @Output('contextmenu') public contextmenuEvent: EventEmitter<MouseEvent> = new EventEmitter();
 
+    /**
+     * Input for the name of the layer in a layers control.
+     * Use it with `<yaga-image-overlay yaga-layer-name="someName">` within a `yaga-layers-control`
+     */
+    @Input('yaga-layer-name') public layerName: string;
+    /**
+     * Input to use this layer as base layer (radio button) instead of an overlay (checkbox) in a layers control.
+     * Use it with `<yaga-image-overlay baseLayer>` or `<yaga-image-overlay [baseLayer]="someValue">`
+     */
+    @Input() public baseLayer: boolean;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         // Transparent 1px image:
         super(TRANSPARENT_PIXEL, [[0, 0], [1, 1]], {});
 
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
         this.on('remove', () => {
-            this.displayChange.emit(false);
+            this.zoneEmitter.emit(this.displayChange, false);
         });
         this.on('add', () => {
-            this.displayChange.emit(true);
+            this.zoneEmitter.emit(this.displayChange, true);
         });
 
-        this.addTo(mapComponent);
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            this.addTo(mapComponent);
+        }
 
         // Events
         this.on('add', (event: Event) => {
-            this.addEvent.emit(event);
+            this.zoneEmitter.emit(this.addEvent, event);
         });
         this.on('remove', (event: Event) => {
-            this.removeEvent.emit(event);
+            this.zoneEmitter.emit(this.removeEvent, event);
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event);
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
         });
         this.on('click', (event: MouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event);
         });
         this.on('dbclick', (event: MouseEvent) => {
-            this.dbclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dbclickEvent, event);
         });
         this.on('mousedown', (event: MouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event);
         });
         this.on('mouseover', (event: MouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
         });
         this.on('mouseout', (event: MouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
         });
         this.on('contextmenu', (event: MouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
         });
     }
 
     public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
         this.removeFrom((this as any)._map);
     }
 
@@ -111,7 +141,7 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
         if (this.url === url) {
             return;
         }
-        this.urlChange.emit(url);
+        this.zoneEmitter.emit(this.urlChange, url);
         return super.setUrl(url);
     }
     @Input() public set url(val: string) {
@@ -125,7 +155,7 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
         if (this.opacity === val) {
             return;
         }
-        this.opacityChange.emit(val);
+        this.zoneEmitter.emit(this.opacityChange, val);
         return super.setOpacity(val);
     }
     @Input() public set opacity(val: number) {
@@ -168,6 +198,7 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
                 map.off(eventKey, events[eventKey], this);
             }
         }
+        this.zoneEmitter.emit(this.displayChange, val);
     }
     public get display(): boolean {
         let pane: HTMLElement;
@@ -193,11 +224,11 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
     public setBounds(val: LatLngBoundsExpression): this {
         super.setBounds(latLngBounds((val as any)));
 
-        this.boundsChange.emit(this.bounds);
-        this.northChange.emit(this.north);
-        this.eastChange.emit(this.east);
-        this.southChange.emit(this.south);
-        this.westChange.emit(this.west);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.northChange, this.north);
+        this.zoneEmitter.emit(this.eastChange, this.east);
+        this.zoneEmitter.emit(this.southChange, this.south);
+        this.zoneEmitter.emit(this.westChange, this.west);
 
         return this;
     }
@@ -216,8 +247,8 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
             [val, oldBounds.getEast()],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.northChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.northChange, val);
     }
     public get north(): number {
         return this.getBounds().getNorth();
@@ -229,8 +260,8 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
             [oldBounds.getNorth(), val],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.eastChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.eastChange, val);
     }
     public get east(): number {
         return this.getBounds().getEast();
@@ -242,8 +273,8 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
             [oldBounds.getNorth(), oldBounds.getEast()],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.southChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.southChange, val);
     }
     public get south(): number {
         return this.getBounds().getSouth();
@@ -255,8 +286,8 @@ export class ImageOverlayDirective extends ImageOverlay implements OnDestroy  {
             [oldBounds.getNorth(), oldBounds.getEast()],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.westChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.westChange, val);
     }
     public get west(): number {
         return this.getBounds().getWest();
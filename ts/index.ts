@@ -1,11 +1,13 @@
 export * from './yaga.module';
 export * from './map.component';
+export * from './map.service';
 export * from './tile-layer.directive';
 export * from './image-overlay.directive';
 export * from './popup.directive';
 export * from './wms-layer.directive';
 export * from './icon.directive';
 export * from './div-icon.directive';
+export * from './component-icon.directive';
 export * from './tooltip.directive';
 export * from './marker.directive';
 export * from './polyline.directive';
@@ -14,10 +16,53 @@ export * from './rectangle.directive';
 export * from './geojson.directive';
 export * from './circle.directive';
 export * from './circle-marker.directive';
+export * from './layer-group.provider';
+export * from './layer-group.directive';
+export * from './feature-group.directive';
+export * from './marker-cluster.directive';
 export * from './zoom-control.directive';
 export * from './attribution-control.directive';
 export * from './scale-control.directive';
+export * from './layers-control.directive';
+export * from './control.directive';
+export * from './coordinates-control.directive';
+export * from './draw-control.directive';
+export * from './legend-control.directive';
+export * from './fullscreen-control.directive';
+export * from './locate-control.directive';
+export * from './user-location.directive';
+export * from './measure-control.directive';
+export * from './minimap-control.directive';
+export * from './side-by-side-control.directive';
+export * from './map-hash.directive';
+export * from './history-control.directive';
+export * from './bookmarks-control.directive';
+export * from './marker-value-accessor.directive';
+export * from './polyline-value-accessor.directive';
+export * from './polygon-value-accessor.directive';
+export * from './rectangle-value-accessor.directive';
+export * from './layer-editor';
+export * from './vertex-editor';
+export * from './rectangle-editor';
+export * from './circle-editor';
+export * from './marker-editor';
+export * from './layer-value-accessor';
+export * from './layer-template-context';
+export * from './position-source';
+export * from './map-sync';
+export * from './map-state';
+export * from './view-history';
+export * from './bookmark.service';
+export * from './zone-emitter';
+export * from './classification'; // helper
+export * from './coordinate-format'; // helper
+export * from './feature-filter'; // helper
+export * from './layer-display'; // helper
 export * from './lng2lat'; // helper
+export * from './location-validators'; // helper
+export * from './measurement'; // helper
+export * from './permalink'; // helper
+export * from './style-rules'; // helper
 
 export * from './consts';
 
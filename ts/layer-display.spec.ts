@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { Marker, point, SVG } from 'leaflet';
+import {
+    isLayerDisplayed,
+    LayerGroupDirective,
+    MapComponent,
+    MarkerDirective,
+    setLayerDisplay,
+} from './index';
+
+describe('Layer-Display helper', () => {
+    let map: MapComponent;
+    let group: LayerGroupDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        group = new LayerGroupDirective(map);
+    });
+
+    describe('isLayerDisplayed', () => {
+        it('should check if a layer is on the map', () => {
+            const marker: Marker = new Marker([0, 0]);
+            expect(isLayerDisplayed(map, marker)).to.equal(false);
+            map.addLayer(marker);
+            expect(isLayerDisplayed(map, marker)).to.equal(true);
+        });
+        it('should check the display property of a layer directive', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, group);
+            marker.display = false;
+            expect(isLayerDisplayed(map, marker)).to.equal(false);
+        });
+        it('should be true for a layer within a hidden group', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, group);
+            group.display = false;
+            expect(map.hasLayer(marker)).to.equal(false);
+            expect(isLayerDisplayed(map, marker)).to.equal(true);
+        });
+    });
+    describe('setLayerDisplay', () => {
+        it('should add and remove a layer on the map', () => {
+            const marker: Marker = new Marker([0, 0]);
+            setLayerDisplay(map, marker, true);
+            expect(map.hasLayer(marker)).to.equal(true);
+            setLayerDisplay(map, marker, false);
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should keep a layer directive in its group', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, group);
+            setLayerDisplay(map, marker, false);
+            expect(group.hasLayer(marker)).to.equal(true);
+            expect(marker.display).to.equal(false);
+            setLayerDisplay(map, marker, true);
+            expect(marker.display).to.equal(true);
+        });
+        it('should add a layer directive to its group instead of the map', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, group);
+            group.removeLayer(marker);
+            setLayerDisplay(map, marker, true);
+            expect(group.hasLayer(marker)).to.equal(true);
+            group.display = false;
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should not display a layer within a hidden group', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, group);
+            group.display = false;
+            setLayerDisplay(map, marker, true);
+            expect(map.hasLayer(marker)).to.equal(false);
+            group.display = true;
+            expect(map.hasLayer(marker)).to.equal(true);
+        });
+    });
+});
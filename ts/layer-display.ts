@@ -0,0 +1,41 @@
+import { Layer, Map } from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
+
+/**
+ * Function to get the container of a layer: the layer group of a layer directive or the map
+ */
+function getContainer(map: Map, layer: Layer): LayerGroupProvider {
+    return (layer as any).layerGroupProvider || map;
+}
+
+/**
+ * Function to check if a layer is displayed by itself. A layer within a hidden layer group is displayed, when it is
+ * still in its group and was not hidden with its `display` property.
+ */
+export function isLayerDisplayed(map: Map, layer: Layer): boolean {
+    if (!getContainer(map, layer).hasLayer(layer)) {
+        return false;
+    }
+    // The display state of layer directives is only known while they are on a map
+    if (!(layer as any)._map || !('display' in layer)) {
+        return true;
+    }
+    return !!(layer as any).display;
+}
+
+/**
+ * Function to show or hide a layer. Layer directives are shown and hidden with their `display` property and keep
+ * their place in their layer group. Other layers are added to or removed from their layer group or the map.
+ */
+export function setLayerDisplay(map: Map, layer: Layer, display: boolean): void {
+    const container: LayerGroupProvider = getContainer(map, layer);
+    const hasDisplay: boolean = 'display' in layer && !!(layer as any)._map;
+    if (display && !container.hasLayer(layer)) {
+        container.addLayer(layer);
+    } else if (!display && !hasDisplay && container.hasLayer(layer)) {
+        container.removeLayer(layer);
+    }
+    if ('display' in layer && (layer as any)._map) {
+        (layer as any).display = display;
+    }
+}
@@ -0,0 +1,222 @@
+import { expect } from 'chai';
+import { latLng, LatLng, latLngBounds, Marker, point, SVG } from 'leaflet';
+import {
+    CircleDirective,
+    MapComponent,
+    MarkerDirective,
+    PolygonDirective,
+    PolylineDirective,
+    RectangleDirective,
+} from './index';
+
+describe('Layer Editors', () => {
+    let map: MapComponent;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+    });
+
+    function getHandles(): Marker[] {
+        const handles: Marker[] = [];
+        map.eachLayer((layer: any) => {
+            if (layer instanceof Marker && layer.options.icon.options.className.indexOf('yaga-edit-handle') !== -1) {
+                handles.push(layer);
+            }
+        });
+        return handles;
+    }
+    function dragHandle(handle: Marker, position: LatLng): void {
+        handle.fire('dragstart');
+        handle.setLatLng(position);
+        handle.fire('drag');
+        handle.fire('dragend');
+    }
+
+    describe('Vertex Editor', () => {
+        let layer: PolylineDirective<any>;
+        beforeEach(() => {
+            layer = new PolylineDirective<any>(map);
+            layer.setLatLngs([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+        });
+
+        it('should be enabled and disabled in Angular', () => {
+            expect(layer.editable).to.equal(false);
+            layer.editable = true;
+            expect(layer.editable).to.equal(true);
+            layer.editable = false;
+            expect(layer.editable).to.equal(false);
+        });
+        it('should display a handle for every vertex', () => {
+            layer.editable = true;
+            expect(getHandles().length).to.equal(3);
+        });
+        it('should remove the handles when disabled', () => {
+            layer.editable = true;
+            layer.editable = false;
+            expect(getHandles().length).to.equal(0);
+        });
+        it('should remove the handles when the layer gets removed from the map', () => {
+            layer.editable = true;
+            map.removeLayer(layer);
+            expect(getHandles().length).to.equal(0);
+            map.addLayer(layer);
+            expect(getHandles().length).to.equal(3);
+        });
+        it('should update the handles when changing the latlngs in Angular', () => {
+            layer.editable = true;
+            layer.latLngs = [latLng(0, 0), latLng(1, 1)];
+            expect(getHandles().length).to.equal(2);
+        });
+        it('should emit the latlngs when dragging a vertex', (done: MochaDone) => {
+            layer.editable = true;
+            layer.latLngsChange.subscribe((val: LatLng[]) => {
+                expect(val[1]).to.deep.equal(latLng(5, 5));
+                done();
+            });
+            dragHandle(getHandles()[1], latLng(5, 5));
+        });
+        it('should emit the geoJSON when dragging a vertex', (done: MochaDone) => {
+            layer.editable = true;
+            layer.geoJSONChange.subscribe((val: any) => {
+                expect(val.geometry.coordinates[1]).to.deep.equal([5, 5]);
+                done();
+            });
+            dragHandle(getHandles()[1], latLng(5, 5));
+        });
+        it('should fire the edited event on the map after dragging', (done: MochaDone) => {
+            layer.editable = true;
+            map.on('draw:edited', (event: any) => {
+                expect(event.layer).to.equal(layer);
+                done();
+            });
+            dragHandle(getHandles()[1], latLng(5, 5));
+        });
+        it('should remove a vertex on contextmenu', () => {
+            layer.editable = true;
+            getHandles()[1].fire('contextmenu');
+            expect(layer.getLatLngs()).to.deep.equal([latLng(0, 0), latLng(2, 0)]);
+            expect(getHandles().length).to.equal(2);
+        });
+        it('should not remove the vertices of a polyline below two', () => {
+            layer.setLatLngs([latLng(0, 0), latLng(1, 1)]);
+            layer.editable = true;
+            getHandles()[1].fire('contextmenu');
+            expect(layer.getLatLngs().length).to.equal(2);
+        });
+        it('should edit the vertices of polygon rings', () => {
+            const polygon: PolygonDirective<any> = new PolygonDirective<any>(map);
+            polygon.setLatLngs([
+                [latLng(0, 0), latLng(1, 1), latLng(2, 0)],
+                [latLng(0.5, 0.5), latLng(1, 0.6), latLng(1, 0.4)],
+            ]);
+            polygon.editable = true;
+            expect(getHandles().length).to.equal(6);
+            dragHandle(getHandles()[4], latLng(1.2, 0.6));
+            expect((polygon.getLatLngs() as any)[1][1]).to.deep.equal(latLng(1.2, 0.6));
+        });
+        it('should fire the editableclick event on the map on click', (done: MochaDone) => {
+            layer.editable = true;
+            map.on('draw:editableclick', (event: any) => {
+                expect(event.layer).to.equal(layer);
+                done();
+            });
+            layer.fire('click');
+        });
+    });
+
+    describe('Rectangle Editor', () => {
+        let layer: RectangleDirective<any>;
+        beforeEach(() => {
+            layer = new RectangleDirective<any>(map);
+            layer.ngAfterViewInit();
+            layer.setBounds(latLngBounds([0, 0], [1, 1]));
+            layer.editable = true;
+        });
+        it('should display a handle for every corner', () => {
+            expect(getHandles().length).to.equal(4);
+        });
+        it('should keep the opposite corner when dragging a corner', (done: MochaDone) => {
+            layer.boundsChange.subscribe(() => {
+                expect(layer.getBounds().getSouthWest()).to.deep.equal(latLng(0, 0));
+                expect(layer.getBounds().getNorthEast()).to.deep.equal(latLng(2, 3));
+                done();
+            });
+            // north-east corner
+            dragHandle(getHandles()[2], latLng(2, 3));
+        });
+    });
+
+    describe('Circle Editor', () => {
+        let layer: CircleDirective<any>;
+        beforeEach(() => {
+            layer = new CircleDirective<any>(map);
+            layer.ngAfterContentInit();
+            layer.setLatLng(latLng(0, 0));
+            layer.setRadius(1000);
+            layer.editable = true;
+        });
+        it('should display a handle for the center and the radius', () => {
+            expect(getHandles().length).to.equal(2);
+            expect(getHandles()[1].getLatLng().distanceTo(latLng(0, 0))).to.be.closeTo(1000, 1);
+        });
+        it('should emit the position when dragging the center', (done: MochaDone) => {
+            layer.positionChange.subscribe((val: LatLng) => {
+                expect(val).to.deep.equal(latLng(1, 1));
+                done();
+            });
+            dragHandle(getHandles()[0], latLng(1, 1));
+        });
+        it('should emit the radius when dragging the radius handle', (done: MochaDone) => {
+            layer.radiusChange.subscribe((val: number) => {
+                expect(val).to.be.closeTo(latLng(0, 0).distanceTo(latLng(0, 1)), 1);
+                done();
+            });
+            dragHandle(getHandles()[1], latLng(0, 1));
+        });
+    });
+
+    describe('Marker Editor', () => {
+        let layer: MarkerDirective;
+        beforeEach(() => {
+            layer = new MarkerDirective(map);
+            layer.draggable = false;
+        });
+        it('should make the marker draggable', () => {
+            layer.editable = true;
+            expect(layer.dragging.enabled()).to.equal(true);
+            layer.editable = false;
+            expect(layer.dragging.enabled()).to.equal(false);
+        });
+        it('should keep a draggable marker draggable when disabled', () => {
+            layer.draggable = true;
+            layer.editable = true;
+            layer.editable = false;
+            expect(layer.dragging.enabled()).to.equal(true);
+        });
+        it('should restore the draggable state after the marker was added to the map again', () => {
+            layer.editable = true;
+            map.removeLayer(layer);
+            map.addLayer(layer);
+            expect(layer.dragging.enabled()).to.equal(true);
+            layer.editable = false;
+            expect(layer.dragging.enabled()).to.equal(false);
+        });
+        it('should restore the draggable state when disabled while the marker is not on the map', () => {
+            layer.editable = true;
+            map.removeLayer(layer);
+            layer.editable = false;
+            map.addLayer(layer);
+            expect(layer.dragging.enabled()).to.equal(false);
+        });
+        it('should fire the edited event on the map after dragging', (done: MochaDone) => {
+            layer.editable = true;
+            map.on('draw:edited', (event: any) => {
+                expect(event.layer).to.equal(layer);
+                done();
+            });
+            layer.fire('dragend');
+        });
+    });
+});
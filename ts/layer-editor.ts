@@ -0,0 +1,139 @@
+import {
+    DivIcon,
+    LatLng,
+    Layer,
+    Map,
+    Marker,
+    point,
+} from 'leaflet';
+
+/**
+ * Abstract class for the editors of the layer directives with an `[editable]` input.
+ *
+ * An editor displays draggable handles while it is enabled and its layer is on a map. Changes are applied with the
+ * (derived) setter methods of the layer, so that directives emit them through their two-way bindings. After an edit
+ * the layer fires an `edit` event and the map a `draw:edited` event. A click on an edited layer fires a
+ * `draw:editableclick` event on the map, that is used by the delete mode of the draw-control.
+ */
+export abstract class LayerEditor {
+    protected layer: Layer;
+    protected map: Map;
+    protected handles: Marker[] = [];
+    protected dragging: boolean = false;
+
+    private enabled: boolean = false;
+
+    constructor(layer: Layer) {
+        this.layer = layer;
+        layer.on('add', this.onLayerAdd, this);
+        layer.on('remove', this.onLayerRemove, this);
+    }
+
+    /**
+     * Enables the editing of the layer
+     */
+    public enable(): void {
+        if (this.enabled) {
+            return;
+        }
+        this.enabled = true;
+        if ((this.layer as any)._map) {
+            this.addHooks((this.layer as any)._map);
+        }
+    }
+
+    /**
+     * Disables the editing of the layer
+     */
+    public disable(): void {
+        if (!this.enabled) {
+            return;
+        }
+        this.enabled = false;
+        if (this.map) {
+            this.removeHooks();
+        }
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Re-creates the handles after a change of the layer from outside of the editor
+     */
+    public update(): void {
+        if (!this.map || this.dragging) {
+            return;
+        }
+        this.removeHandles();
+        this.createHandles();
+    }
+
+    /**
+     * Creates all handles for the layer
+     */
+    protected abstract createHandles(): void;
+
+    protected addHooks(map: Map): void {
+        this.map = map;
+        this.createHandles();
+        this.layer.on('click', this.onLayerClick, this);
+    }
+
+    protected removeHooks(): void {
+        this.removeHandles();
+        this.layer.off('click', this.onLayerClick, this);
+        this.map = undefined;
+    }
+
+    protected createHandle(position: LatLng, type: string = 'vertex'): Marker {
+        const handle: Marker = new Marker(position, {
+            draggable: true,
+            icon: new DivIcon({
+                className: 'yaga-edit-handle yaga-edit-handle-' + type,
+                iconSize: point(10, 10),
+            }),
+        });
+        handle.on('dragstart', () => {
+            this.dragging = true;
+        });
+        handle.on('dragend', () => {
+            this.dragging = false;
+            this.fireEdited();
+        });
+        this.handles.push(handle);
+        this.map.addLayer(handle);
+        return handle;
+    }
+
+    protected removeHandles(): void {
+        for (const handle of this.handles) {
+            this.map.removeLayer(handle);
+        }
+        this.handles = [];
+    }
+
+    protected fireEdited(): void {
+        this.layer.fire('edit');
+        if (this.map) {
+            this.map.fire('draw:edited', {layer: this.layer});
+        }
+    }
+
+    private onLayerAdd(): void {
+        if (this.enabled) {
+            this.addHooks((this.layer as any)._map);
+        }
+    }
+
+    private onLayerRemove(): void {
+        if (this.map) {
+            this.removeHooks();
+        }
+    }
+
+    private onLayerClick(): void {
+        this.map.fire('draw:editableclick', {layer: this.layer});
+    }
+}
@@ -0,0 +1,174 @@
+import { expect } from 'chai';
+import { point, SVG } from 'leaflet';
+import {
+    LayerGroupDirective,
+    MapComponent,
+    MarkerDirective,
+    TileLayerDirective,
+} from './index';
+
+describe('Layer-Group Directive', () => {
+    let map: MapComponent;
+    let layer: LayerGroupDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+
+        layer = new LayerGroupDirective(map);
+    });
+
+    describe('child layers', () => {
+        it('should be added to the group instead of the map', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, layer);
+            expect(layer.hasLayer(marker)).to.equal(true);
+            expect((marker as any)._map).to.equal(map);
+        });
+        it('should be removed from the group on destroy', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, layer);
+            marker.ngOnDestroy();
+            expect(layer.hasLayer(marker)).to.equal(false);
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should be removed from the map when the group is hidden', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, layer);
+            layer.display = false;
+            expect(layer.hasLayer(marker)).to.equal(true);
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should be created in a hidden group', () => {
+            layer.display = false;
+            const marker: MarkerDirective = new MarkerDirective(map, layer);
+            expect(layer.hasLayer(marker)).to.equal(true);
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should keep the draggable state of a marker created in a hidden group', () => {
+            layer.display = false;
+            const marker: MarkerDirective = new MarkerDirective(map, layer);
+            marker.draggable = true;
+            layer.display = true;
+            expect(marker.draggable).to.equal(true);
+        });
+        it('should be added to the map again when the group is shown again', () => {
+            const marker: MarkerDirective = new MarkerDirective(map, layer);
+            layer.display = false;
+            layer.display = true;
+            expect(map.hasLayer(marker)).to.equal(true);
+        });
+    });
+    describe('nested groups', () => {
+        it('should be added to the parent group', () => {
+            const child: LayerGroupDirective = new LayerGroupDirective(map, layer);
+            expect(layer.hasLayer(child)).to.equal(true);
+            expect(child.display).to.equal(true);
+        });
+        it('should be removed from the parent group when hiding and added again when showing', () => {
+            const child: LayerGroupDirective = new LayerGroupDirective(map, layer);
+            child.display = false;
+            expect(layer.hasLayer(child)).to.equal(false);
+            child.display = true;
+            expect(layer.hasLayer(child)).to.equal(true);
+        });
+        it('should keep the layers of a hidden child group hidden when showing the parent group again', () => {
+            const child: LayerGroupDirective = new LayerGroupDirective(map, layer);
+            const marker: MarkerDirective = new MarkerDirective(map, child);
+            child.display = false;
+            layer.display = false;
+            layer.display = true;
+            expect(child.display).to.equal(false);
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should stay hidden when showing a child group in a hidden parent group', () => {
+            const child: LayerGroupDirective = new LayerGroupDirective(map, layer);
+            const marker: MarkerDirective = new MarkerDirective(map, child);
+            layer.display = false;
+            child.display = true;
+            expect(layer.hasLayer(child)).to.equal(true);
+            expect(child.display).to.equal(false);
+            expect(map.hasLayer(marker)).to.equal(false);
+            layer.display = true;
+            expect(child.display).to.equal(true);
+            expect(map.hasLayer(marker)).to.equal(true);
+        });
+        it('should be removed from the parent group on destroy', () => {
+            const child: LayerGroupDirective = new LayerGroupDirective(map, layer);
+            child.ngOnDestroy();
+            expect(layer.hasLayer(child)).to.equal(false);
+            expect(map.hasLayer(child)).to.equal(false);
+        });
+    });
+    describe('[(display)]', () => {
+        it('should remove the group from the map when not displaying', () => {
+            layer.display = false;
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+        it('should re-add the group to the map when display is true again', () => {
+            layer.display = false;
+            layer.display = true;
+            expect(map.hasLayer(layer)).to.equal(true);
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                expect(layer.display).to.equal(false);
+                done();
+            });
+
+            map.removeLayer(layer);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeLayer(layer);
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                expect(layer.display).to.equal(true);
+                done();
+            });
+
+            map.addLayer(layer);
+        });
+    });
+    describe('[zIndex]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            const tileLayer: TileLayerDirective = new TileLayerDirective(map, layer);
+            layer.zIndex = 5;
+            expect(tileLayer.zIndex).to.equal(5);
+        });
+    });
+    describe('[yaga-layer-name]', () => {
+        it('should be set in Angular', () => {
+            layer.layerName = 'Test';
+            expect(layer.layerName).to.equal('Test');
+        });
+    });
+
+    describe('Destroying a Layer-Group Directive', () => {
+        it('should remove the group from the map', () => {
+            layer.ngOnDestroy();
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+    });
+
+    describe('(add)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.addEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('add', testEvent);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.removeEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('remove', testEvent);
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+    SkipSelf,
+} from '@angular/core';
+import {
+    LayerGroup,
+    LeafletEvent,
+} from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Angular2 directive for Leaflet layer-groups.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-layer-group
+ *         [(display)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *
+ *         [zIndex]="..."
+ *         >
+ *         <yaga-marker></yaga-marker>
+ *         <yaga-polyline></yaga-polyline>
+ *     </yaga-layer-group>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * All layer directives within this directive are added to the group instead of the map.
+ * * Layer groups can be nested.
+ *
+ * @link http://leafletjs.com/reference-1.0.3.html#layergroup Original Leaflet documentation
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Layer-Group%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/layer-group.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/layergroupdirective.html API documentation
+ */
+@Directive({
+    providers: [{provide: LayerGroupProvider, useExisting: forwardRef(() => LayerGroupDirective)}],
+    selector: 'yaga-layer-group',
+})
+export class LayerGroupDirective extends LayerGroup implements LayerGroupProvider, OnDestroy {
+    /**
+     * Two-Way bound property for the display status of the group.
+     * Use it with `<yaga-layer-group [(display)]="someValue">`
+     * or `<yaga-layer-group (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-layer-group (add)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#layergroup-add Original Leaflet documentation
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-layer-group (remove)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#layergroup-remove Original Leaflet documentation
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+
+    /**
+     * Input for the name of the layer in a layers control.
+     * Use it with `<yaga-layer-group yaga-layer-name="someName">` within a `yaga-layers-control`
+     */
+    @Input('yaga-layer-name') public layerName: string;
+    /**
+     * Input to use this layer as base layer (radio button) instead of an overlay (checkbox) in a layers control.
+     * Use it with `<yaga-layer-group baseLayer>` or `<yaga-layer-group [baseLayer]="someValue">`
+     */
+    @Input() public baseLayer: boolean;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected mapComponent: MapComponent;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @SkipSelf() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.on('remove', () => {
+            this.zoneEmitter.emit(this.displayChange, false);
+        });
+        this.on('add', () => {
+            this.zoneEmitter.emit(this.displayChange, true);
+        });
+
+        this.mapComponent = mapComponent;
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
+
+        // Events
+        this.on('add', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.addEvent, event);
+        });
+        this.on('remove', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.removeEvent, event);
+        });
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
+        this.removeFrom((this as any)._map);
+    }
+
+    /**
+     * Two-Way bound property for the display status of the group.
+     * Hiding a group removes it together with all of its layers from the map and from a parent group. Showing it
+     * again adds it back to the parent group, so it stays hidden as long as the parent group is hidden.
+     * Use it with `<yaga-layer-group [(display)]="someValue">` or `<yaga-layer-group [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (this.display === val) {
+            return;
+        }
+        if (val) {
+            (this.layerGroupProvider || this.mapComponent).addLayer(this);
+            return;
+        }
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+            return;
+        }
+        this.mapComponent.removeLayer(this);
+    }
+    public get display(): boolean {
+        const map: MapComponent = (this as any)._map;
+        return !!map && map.hasLayer(this);
+    }
+
+    /**
+     * Input for the zIndex of all layers in this group.
+     * Use it with `<yaga-layer-group [zIndex]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#layergroup-setzindex Original Leaflet documentation
+     */
+    @Input() public set zIndex(val: number) {
+        this.setZIndex(val);
+    }
+}
@@ -0,0 +1,13 @@
+import { Layer } from 'leaflet';
+
+/**
+ * Abstract class used as injection token for the layer-group directives.
+ *
+ * Layer directives that are nested within a `yaga-layer-group` or a `yaga-feature-group` get the group injected with
+ * this token and add themselves to the group instead of the map.
+ */
+export abstract class LayerGroupProvider {
+    public abstract addLayer(layer: Layer): this;
+    public abstract removeLayer(layer: Layer): this;
+    public abstract hasLayer(layer: Layer): boolean;
+}
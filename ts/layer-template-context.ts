@@ -0,0 +1,42 @@
+import { GenericGeoJSONFeature } from '@yaga/generic-geojson';
+import { LatLng, Layer } from 'leaflet';
+
+/**
+ * Context of an `ng-template` within a `yaga-popup` or a `yaga-tooltip`.
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-popup>
+ *     <ng-template let-properties="properties" let-latLng="latLng">
+ *         {{ properties.name }} at {{ latLng.lat }}, {{ latLng.lng }}
+ *     </ng-template>
+ * </yaga-popup>
+ * ```
+ */
+export interface ILayerTemplateContext<T> {
+    /**
+     * The GeoJSON feature of the layer the popup or tooltip is opened on (same as `feature`)
+     */
+    $implicit: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>;
+    feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T>;
+    properties: T;
+    /**
+     * The position of the popup or tooltip, this is the clicked position for popups opened by a click on a path
+     */
+    latLng: LatLng;
+    layer: Layer;
+}
+
+/**
+ * Function to create the template context for a popup or tooltip opened on the given (source) layer
+ */
+export function createLayerTemplateContext<T>(layer: Layer, latLng: LatLng): ILayerTemplateContext<T> {
+    const feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, T> = layer ? (layer as any).feature : undefined;
+    return {
+        $implicit: feature,
+        feature,
+        latLng,
+        layer,
+        properties: feature ? feature.properties : undefined,
+    };
+}
@@ -0,0 +1,120 @@
+import { NgZone, OnDestroy } from '@angular/core';
+import { ControlValueAccessor } from '@angular/forms';
+import { Layer } from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Abstract class for the value accessors, that bind layer directives with `formControlName`, `formControl` or
+ * `ngModel` in Angular forms.
+ *
+ * Changes of the user, like dragging or editing the layer, are passed to the form control. Values that are written by
+ * the form are set without passing them back. The control is marked as touched after a drag or an edit of the layer.
+ * A disabled control disables the editing of the layer and restores it when the control is enabled again. An empty
+ * value, like after resetting the control, hides the layer until the control gets a value again. The form control is
+ * updated inside of the Angular zone, because drags and edits are handled outside of it.
+ */
+export abstract class LayerValueAccessor<T> implements ControlValueAccessor, OnDestroy {
+    protected layer: Layer & {display: boolean, editable: boolean};
+    protected subscriptions: Subscription[] = [];
+    protected disabled: boolean = false;
+    protected zoneEmitter: ZoneEmitter;
+
+    private writing: boolean = false;
+    private wasEditable: boolean = false;
+    private hiddenByValue: boolean = false;
+    private onChange: (value: T) => void;
+    private onTouched: () => void;
+
+    constructor(layer: Layer & {display: boolean, editable: boolean}, ngZone?: NgZone) {
+        this.layer = layer;
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+        this.onChange = () => undefined;
+        this.onTouched = () => undefined;
+        layer.on('dragend edit', this.markAsTouched, this);
+    }
+
+    /**
+     * Internal method of the `ControlValueAccessor` to set the value of the form control on the layer. The layer is
+     * hidden for `null` or `undefined` and displayed again with the next value.
+     */
+    public writeValue(value: T): void {
+        if (value === null || value === undefined) {
+            if (this.layer.display) {
+                this.hiddenByValue = true;
+                this.layer.display = false;
+            }
+            return;
+        }
+        this.writing = true;
+        try {
+            this.setValue(value);
+        } finally {
+            this.writing = false;
+        }
+        if (this.hiddenByValue) {
+            this.hiddenByValue = false;
+            this.layer.display = true;
+        }
+    }
+
+    /**
+     * Internal method of the `ControlValueAccessor` to register the function for changes of the layer
+     */
+    public registerOnChange(fn: (value: T) => void): void {
+        this.onChange = fn;
+    }
+
+    /**
+     * Internal method of the `ControlValueAccessor` to register the function for touching the layer
+     */
+    public registerOnTouched(fn: () => void): void {
+        this.onTouched = fn;
+    }
+
+    /**
+     * Internal method of the `ControlValueAccessor` to disable or enable the editing of the layer
+     */
+    public setDisabledState(isDisabled: boolean): void {
+        if (isDisabled === this.disabled) {
+            return;
+        }
+        this.disabled = isDisabled;
+        if (isDisabled) {
+            this.wasEditable = this.layer.editable;
+            this.layer.editable = false;
+            return;
+        }
+        this.layer.editable = this.wasEditable;
+    }
+
+    /**
+     * Internal method to stop passing the changes of the layer, when removing the directive from the Angular template
+     */
+    public ngOnDestroy(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions = [];
+        this.layer.off('dragend edit', this.markAsTouched, this);
+    }
+
+    /**
+     * Sets a value of the form control on the layer
+     */
+    protected abstract setValue(value: T): void;
+
+    /**
+     * Passes a change of the layer to the form control, unless it was written by the form control
+     */
+    protected change(value: T): void {
+        if (this.writing) {
+            return;
+        }
+        this.zoneEmitter.run(() => this.onChange(value));
+    }
+
+    protected markAsTouched(): void {
+        this.zoneEmitter.run(() => this.onTouched());
+    }
+}
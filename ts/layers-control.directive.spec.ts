@@ -0,0 +1,411 @@
+import { QueryList } from '@angular/core';
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    ControlPosition,
+    LayersControlDirective,
+    MapComponent,
+    TileLayerDirective,
+    WmsLayerDirective,
+} from './index';
+
+describe('Layers-Control Directive', () => {
+    let map: MapComponent;
+    let control: LayersControlDirective;
+    let osm: TileLayerDirective;
+    let topo: TileLayerDirective;
+    let wms: WmsLayerDirective;
+
+    function getInput(name: string): HTMLInputElement {
+        const labels: NodeListOf<HTMLLabelElement> = control.getContainer().getElementsByTagName('label');
+        /* tslint:disable:prefer-for-of */
+        for (let i: number = 0; i < labels.length; i += 1) {
+            /* tslint:enable */
+            if (labels[i].getElementsByTagName('span')[0].innerHTML === ' ' + name) {
+                return labels[i].getElementsByTagName('input')[0];
+            }
+        }
+    }
+
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new LayersControlDirective(map);
+
+        osm = new TileLayerDirective(map);
+        osm.layerName = 'OSM';
+        osm.baseLayer = true;
+        topo = new TileLayerDirective(map);
+        topo.layerName = 'Topo';
+        topo.baseLayer = ('' as any);
+        wms = new WmsLayerDirective(map);
+        wms.layerName = 'WMS';
+
+        control.tileLayerDirectives = new QueryList<TileLayerDirective>();
+        control.tileLayerDirectives.reset([osm, topo]);
+        control.wmsLayerDirectives = new QueryList<WmsLayerDirective>();
+        control.wmsLayerDirectives.reset([wms]);
+
+        map.removeLayer(topo);
+    });
+
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            const val: ControlPosition = 'topleft';
+            control.position = val;
+            expect(control.getPosition()).to.equal(val);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: ControlPosition = 'topleft';
+            control.position = val;
+            expect(control.position).to.equal(val);
+        });
+        it('should be changed in Angular when changing in Leaflet', () => {
+            const val: ControlPosition = 'topleft';
+            control.setPosition(val);
+            expect(control.position).to.equal(val);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            const val: ControlPosition = 'bottomleft';
+            control.positionChange.subscribe((eventVal: ControlPosition) => {
+                expect(eventVal).to.equal(val);
+                return done();
+            });
+
+            control.position = val;
+        });
+    });
+
+    describe('[(zIndex)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.zIndex = 12;
+            expect(control.getContainer().style.zIndex).to.equal('12');
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 12;
+            expect(control.zIndex).to.equal(12);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.zIndexChange.subscribe((eventVal: number) => {
+                expect(eventVal).to.equal(12);
+                return done();
+            });
+            control.zIndex = 12;
+        });
+    });
+
+    describe('[(display)]', () => {
+        it('should hide the container when changing in Angular', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+            expect(control.display).to.equal(false);
+        });
+        it('should show the container again when changing in Angular', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.equal('');
+            expect(control.display).to.equal(true);
+        });
+    });
+
+    describe('[collapsed]', () => {
+        it('should expand the control when changing in Angular', () => {
+            control.collapsed = false;
+            expect(control.options.collapsed).to.equal(false);
+            expect(control.getContainer().className).to.contain('leaflet-control-layers-expanded');
+        });
+        it('should collapse the control when changing in Angular', () => {
+            control.collapsed = false;
+            control.collapsed = true;
+            expect(control.collapsed).to.equal(true);
+            expect(control.getContainer().className).to.not.contain('leaflet-control-layers-expanded');
+        });
+    });
+
+    describe('[hideSingleBase]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.hideSingleBase = true;
+            expect(control.options.hideSingleBase).to.equal(true);
+            expect(control.hideSingleBase).to.equal(true);
+        });
+    });
+
+    describe('[autoZIndex]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.autoZIndex = false;
+            expect(control.options.autoZIndex).to.equal(false);
+            expect(control.autoZIndex).to.equal(false);
+        });
+    });
+
+    describe('Content layers', () => {
+        it('should add named base layers and overlays after content init', () => {
+            control.ngAfterContentInit();
+            expect(control.baseLayers).to.deep.equal({OSM: osm, Topo: topo});
+            expect(control.overlays).to.deep.equal({WMS: wms});
+        });
+        it('should ignore layers without a name', () => {
+            wms.layerName = undefined;
+            control.ngAfterContentInit();
+            expect(control.overlays).to.deep.equal({});
+        });
+        it('should update the layers on content changes', () => {
+            control.ngAfterContentInit();
+            control.tileLayerDirectives.reset([osm]);
+            control.tileLayerDirectives.notifyOnChanges();
+            expect(control.baseLayers).to.deep.equal({OSM: osm});
+        });
+        it('should create inputs in the DOM of the control', () => {
+            control.ngAfterContentInit();
+            expect(getInput('OSM').type).to.equal('radio');
+            expect(getInput('OSM').checked).to.equal(true);
+            expect(getInput('Topo').checked).to.equal(false);
+            expect(getInput('WMS').type).to.equal('checkbox');
+            expect(getInput('WMS').checked).to.equal(true);
+        });
+    });
+
+    describe('[baseLayers] and [overlays]', () => {
+        it('should add referenced base layers', () => {
+            const other: TileLayerDirective = new TileLayerDirective(map);
+            control.baseLayers = {Other: other};
+            expect(control.baseLayers).to.deep.equal({Other: other});
+        });
+        it('should replace referenced base layers', () => {
+            const other: TileLayerDirective = new TileLayerDirective(map);
+            control.baseLayers = {Other: other};
+            control.baseLayers = {Another: other};
+            expect(control.baseLayers).to.deep.equal({Another: other});
+        });
+        it('should add referenced overlays', () => {
+            const other: TileLayerDirective = new TileLayerDirective(map);
+            control.overlays = {Other: other};
+            expect(control.overlays).to.deep.equal({Other: other});
+        });
+    });
+
+    describe('[(activeBaseLayer)]', () => {
+        beforeEach(() => {
+            control.ngAfterContentInit();
+        });
+        it('should be the name of the base layer on the map', () => {
+            expect(control.activeBaseLayer).to.equal('OSM');
+        });
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.activeBaseLayer = 'Topo';
+            expect(map.hasLayer(topo)).to.equal(true);
+            expect(map.hasLayer(osm)).to.equal(false);
+            expect(map.hasLayer(wms)).to.equal(true);
+            expect(getInput('Topo').checked).to.equal(true);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            control.activeBaseLayer = 'Topo';
+            expect(control.activeBaseLayer).to.equal('Topo');
+        });
+        it('should be changed in Angular when changing the layers in Leaflet', () => {
+            map.removeLayer(osm);
+            map.addLayer(topo);
+            expect(control.activeBaseLayer).to.equal('Topo');
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.activeBaseLayerChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('Topo');
+                return done();
+            });
+            control.activeBaseLayer = 'Topo';
+        });
+        it('should fire an event when changing the layers in Leaflet', (done: MochaDone) => {
+            map.removeLayer(osm);
+            control.activeBaseLayerChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('Topo');
+                return done();
+            });
+            map.addLayer(topo);
+        });
+        it('should fire an event when changing in the DOM', (done: MochaDone) => {
+            control.activeBaseLayerChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('Topo');
+                expect(map.hasLayer(osm)).to.equal(false);
+                return done();
+            });
+            getInput('OSM').checked = false;
+            getInput('Topo').checked = true;
+            (control as any)._onInputClick();
+        });
+    });
+
+    describe('[(activeOverlays)]', () => {
+        beforeEach(() => {
+            control.ngAfterContentInit();
+        });
+        it('should be the names of the overlays on the map', () => {
+            expect(control.activeOverlays).to.deep.equal(['WMS']);
+        });
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.activeOverlays = [];
+            expect(map.hasLayer(wms)).to.equal(false);
+            expect(getInput('WMS').checked).to.equal(false);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            control.activeOverlays = [];
+            expect(control.activeOverlays).to.deep.equal([]);
+        });
+        it('should deactivate all overlays when set to null or undefined', () => {
+            control.activeOverlays = null;
+            expect(map.hasLayer(wms)).to.equal(false);
+            control.activeOverlays = ['WMS'];
+            control.activeOverlays = undefined;
+            expect(control.activeOverlays).to.deep.equal([]);
+        });
+        it('should not contain an overlay that is hidden with its display property', () => {
+            wms.display = false;
+            expect(control.activeOverlays).to.deep.equal([]);
+        });
+        it('should show a hidden overlay again when changing in Angular', () => {
+            wms.display = false;
+            control.activeOverlays = ['WMS'];
+            expect(wms.display).to.equal(true);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.activeOverlaysChange.subscribe((eventVal: string[]) => {
+                expect(eventVal).to.deep.equal([]);
+                return done();
+            });
+            control.activeOverlays = [];
+        });
+        it('should fire an event when changing the layers in Leaflet', (done: MochaDone) => {
+            control.activeOverlaysChange.subscribe((eventVal: string[]) => {
+                expect(eventVal).to.deep.equal([]);
+                return done();
+            });
+            map.removeLayer(wms);
+        });
+        it('should fire an event when changing in the DOM', (done: MochaDone) => {
+            control.activeOverlaysChange.subscribe((eventVal: string[]) => {
+                expect(eventVal).to.deep.equal([]);
+                expect(wms.display).to.equal(false);
+                return done();
+            });
+            getInput('WMS').checked = false;
+            (control as any)._onInputClick();
+        });
+        it('should update the input when changing the display of the layer directive', () => {
+            wms.display = false;
+            expect(getInput('WMS').checked).to.equal(false);
+            wms.display = true;
+            expect(getInput('WMS').checked).to.equal(true);
+        });
+        it('should fire an event when changing the display of the layer directive', (done: MochaDone) => {
+            control.activeOverlaysChange.subscribe((eventVal: string[]) => {
+                expect(eventVal).to.deep.equal([]);
+                return done();
+            });
+            wms.display = false;
+        });
+        it('should not follow the display of a removed layer directive', () => {
+            const values: string[][] = [];
+            control.removeLayer(wms);
+            control.activeOverlaysChange.subscribe((eventVal: string[]) => values.push(eventVal));
+            wms.display = false;
+            expect(values).to.deep.equal([]);
+        });
+        it('should set the display of the layer directive when changing in the DOM', () => {
+            wms.display = false;
+            (control as any)._update();
+            getInput('WMS').checked = true;
+            (control as any)._onInputClick();
+            expect(wms.display).to.equal(true);
+        });
+    });
+
+    // Events
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when firing event from DOM', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new CustomEvent('click'));
+        });
+    });
+    describe('(dbclick)', () => {
+        it('should fire an event when firing event from DOM', (done: MochaDone) => {
+            control.dbclickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new CustomEvent('dbclick'));
+        });
+    });
+    describe('(mousedown)', () => {
+        it('should fire an event when firing event from DOM', (done: MochaDone) => {
+            control.mousedownEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new CustomEvent('mousedown'));
+        });
+    });
+    describe('(mouseover)', () => {
+        it('should fire an event when firing event from DOM', (done: MochaDone) => {
+            control.mouseoverEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new CustomEvent('mouseover'));
+        });
+    });
+    describe('(mouseout)', () => {
+        it('should fire an event when firing event from DOM', (done: MochaDone) => {
+            control.mouseoutEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new CustomEvent('mouseout'));
+        });
+    });
+
+    describe('[opacity]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            const val: number = Math.random();
+            control.opacity = val;
+            expect(control.getContainer().style.opacity).to.equal(val.toString());
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            const val: number = Math.random();
+            control.opacity = val;
+            expect(control.opacity).to.equal(val);
+        });
+    });
+
+    describe('Destroying a Layers Control Directive', () => {
+        it('should remove Layers Control Directive from map on destroy', () => {
+            expect(
+                control.getContainer().parentElement.parentElement.parentElement,
+            ).to.equal(map.getContainer());
+
+            control.ngOnDestroy();
+
+            expect(
+                control.getContainer() &&
+                control.getContainer().parentElement &&
+                control.getContainer().parentElement.parentElement &&
+                control.getContainer().parentElement.parentElement.parentElement,
+            ).to.not.equal(map.getContainer());
+        });
+    });
+});
@@ -0,0 +1,708 @@
+import {
+    AfterContentInit,
+    ContentChildren,
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+    QueryList,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    Layer,
+    LeafletEvent,
+    Map,
+    Util,
+} from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+// Content-Child imports
+import { FeatureGroupDirective } from './feature-group.directive';
+import { GeoJSONDirective } from './geojson.directive';
+import { ImageOverlayDirective } from './image-overlay.directive';
+import { LayerGroupDirective } from './layer-group.directive';
+import { MarkerClusterDirective } from './marker-cluster.directive';
+import { TileLayerDirective } from './tile-layer.directive';
+import { WmsLayerDirective } from './wms-layer.directive';
+
+/**
+ * Item of a layer in the original Leaflet control
+ */
+interface ILayersControlItem {
+    layer: Layer;
+    name: string;
+    overlay: boolean;
+}
+
+/**
+ * Private members of the original Leaflet control that are used or overwritten by the directive
+ */
+interface ILayersControlInternals extends Control.Layers {
+    _form: HTMLFormElement;
+    _handlingClick: boolean;
+    _layers: ILayersControlItem[];
+    _map: Map;
+    _addItem(obj: ILayersControlItem): HTMLLabelElement;
+    _addLayer(layer: Layer, name: string, overlay: boolean): Control.Layers;
+    _getLayer(id: number): ILayersControlItem;
+    _onInputClick(): void;
+    _onLayerChange(event: LeafletEvent): void;
+    _refocusOnMap(): void;
+    _update(): void;
+}
+
+/**
+ * Interface for layer directives that can be discovered by the layers control
+ */
+export interface INamedLayer extends Layer {
+    layerName: string;
+    baseLayer: boolean;
+    display?: boolean;
+    displayChange?: EventEmitter<boolean>;
+}
+
+/**
+ * Angular2 directive for the layers-control of Leaflet.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-layers-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(activeBaseLayer)]="..."
+ *         [(activeOverlays)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [collapsed]="..."
+ *         [autoZIndex]="..."
+ *         [hideSingleBase]="..."
+ *         [baseLayers]="..."
+ *         [overlays]="..."
+ *         >
+ *         <yaga-tile-layer yaga-layer-name="OpenStreetMap" baseLayer></yaga-tile-layer>
+ *         <yaga-wms-layer yaga-layer-name="Topographic map"></yaga-wms-layer>
+ *         <yaga-geojson yaga-layer-name="Features"></yaga-geojson>
+ *     </yaga-layers-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * Child layers of the type `yaga-tile-layer`, `yaga-wms-layer`, `yaga-image-overlay`, `yaga-geojson`,
+ * `yaga-layer-group`, `yaga-feature-group` and `yaga-marker-cluster` are added to the control when they have a
+ * `yaga-layer-name`.
+ * * Other layers can be referenced with the `baseLayers` and `overlays` inputs.
+ * * A layer is active when it is on the map and its `display` state is not `false`. Changes of the `display` state
+ * of a layer directive update the inputs of the control and the active layers.
+ *
+ * @link http://leafletjs.com/reference-1.0.3.html#control-layers Original Leaflet documentation
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Layers-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/layers-control.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/layerscontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-layers-control',
+})
+export class LayersControlDirective extends Control.Layers implements AfterContentInit, OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-layers-control [(display)]="someValue">`
+     * or `<yaga-layers-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-layers-control [(zIndex)]="someValue">`
+     * or `<yaga-layers-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-layers-control [(position)]="someValue">`
+     * or `<yaga-layers-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Two-Way bound property for the name of the active base layer.
+     * Use it with `<yaga-layers-control [(activeBaseLayer)]="someValue">`
+     * or `<yaga-layers-control (activeBaseLayerChange)="processEvent($event)">`
+     */
+    @Output() public activeBaseLayerChange: EventEmitter<string> = new EventEmitter();
+    /**
+     * Two-Way bound property for the names of the active overlays.
+     * Use it with `<yaga-layers-control [(activeOverlays)]="someValue">`
+     * or `<yaga-layers-control (activeOverlaysChange)="processEvent($event)">`
+     */
+    @Output() public activeOverlaysChange: EventEmitter<string[]> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-layers-control (add)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-add Original Leaflet documentation
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-layers-control (remove)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-remove Original Leaflet documentation
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-layers-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-layers-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-layers-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-layers-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-layers-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    @ContentChildren(TileLayerDirective) public tileLayerDirectives: QueryList<TileLayerDirective>;
+    @ContentChildren(WmsLayerDirective) public wmsLayerDirectives: QueryList<WmsLayerDirective>;
+    @ContentChildren(ImageOverlayDirective) public imageOverlayDirectives: QueryList<ImageOverlayDirective>;
+    @ContentChildren(GeoJSONDirective) public geoJSONDirectives: QueryList<GeoJSONDirective<any>>;
+    @ContentChildren(LayerGroupDirective) public layerGroupDirectives: QueryList<LayerGroupDirective>;
+    @ContentChildren(FeatureGroupDirective) public featureGroupDirectives: QueryList<FeatureGroupDirective>;
+    @ContentChildren(MarkerClusterDirective) public markerClusterDirectives: QueryList<MarkerClusterDirective>;
+
+    protected mapComponent: MapComponent;
+    protected contentLayers: Layer[] = [];
+    protected referencedBaseLayers: Layer[] = [];
+    protected referencedOverlays: Layer[] = [];
+    protected zoneEmitter: ZoneEmitter;
+
+    private lastActiveBaseLayer: string;
+    private lastActiveOverlays: string = '[]';
+    private displaySubscriptions: {[id: number]: Subscription} = {};
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+        this.mapComponent = mapComponent;
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        const self: this = this;
+        const internals: ILayersControlInternals = this.getInternals();
+
+        /* tslint:disable:only-arrow-functions */
+        const originalOnRemove: (map: Map) => any = this.onRemove;
+        this.onRemove = function(map: Map): any {
+            originalOnRemove.call(this, map);
+            self.zoneEmitter.emit(self.displayChange, false);
+            self.zoneEmitter.emit(self.removeEvent, {type: 'remove', target: self});
+            return self;
+        };
+
+        const originalOnAdd: (map: Map) => HTMLElement = this.onAdd;
+        this.onAdd = function(map: Map): HTMLElement {
+            const tmp: HTMLElement = originalOnAdd.call(this, map);
+            self.zoneEmitter.emit(self.displayChange, true);
+            self.zoneEmitter.emit(self.addEvent, {type: 'add', target: self});
+            return tmp;
+        };
+
+        const originalAddItem: (obj: ILayersControlItem) => HTMLLabelElement = internals._addItem;
+        internals._addItem = function(obj: ILayersControlItem): HTMLLabelElement {
+            const label: HTMLLabelElement = originalAddItem.call(this, obj);
+            label.getElementsByTagName('input')[0].checked = self.isLayerActive(obj.layer);
+            return label;
+        };
+
+        const originalAddLayer: (layer: Layer, name: string, overlay: boolean) => Control.Layers = internals._addLayer;
+        internals._addLayer = function(layer: Layer, name: string, overlay: boolean): any {
+            self.subscribeDisplay(layer);
+            return originalAddLayer.call(this, layer, name, overlay);
+        };
+
+        const originalOnLayerChange: (event: LeafletEvent) => void = internals._onLayerChange;
+        internals._onLayerChange = function(event: LeafletEvent): void {
+            originalOnLayerChange.call(this, event);
+            if (!internals._handlingClick) {
+                self.emitActiveLayers();
+            }
+        };
+        /* tslint:enable */
+
+        internals._onInputClick = (): void => {
+            const inputs: NodeListOf<HTMLInputElement> = internals._form.getElementsByTagName('input');
+            const activate: Layer[] = [];
+            const deactivate: Layer[] = [];
+
+            for (let i: number = inputs.length - 1; i >= 0; i -= 1) {
+                const layer: Layer = internals._getLayer((inputs[i] as any).layerId).layer;
+                const isActive: boolean = this.isLayerActive(layer);
+                if (inputs[i].checked && !isActive) {
+                    activate.push(layer);
+                } else if (!inputs[i].checked && isActive) {
+                    deactivate.push(layer);
+                }
+            }
+
+            internals._handlingClick = true;
+            // Remove old layers before adding the new ones (see Leaflet issue 2318)
+            for (const layer of deactivate) {
+                this.deactivateLayer(layer);
+            }
+            for (const layer of activate) {
+                this.activateLayer(layer);
+            }
+            internals._handlingClick = false;
+
+            this.emitActiveLayers();
+            internals._refocusOnMap();
+        };
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+    }
+
+    /**
+     * This function gets called from Angular after initializing the content of the directive. It adds the named
+     * child layers to the control and keeps them in sync with changes of the content.
+     * @link https://angular.io/docs/ts/latest/api/core/index/AfterContentInit-class.html
+     */
+    public ngAfterContentInit(): void {
+        this.updateContentLayers();
+
+        const queries: Array<QueryList<INamedLayer>> = [
+            this.tileLayerDirectives,
+            this.wmsLayerDirectives,
+            this.imageOverlayDirectives,
+            this.geoJSONDirectives,
+            this.layerGroupDirectives,
+            this.featureGroupDirectives,
+            this.markerClusterDirectives,
+        ];
+        for (const query of queries) {
+            if (query) {
+                query.changes.subscribe(() => {
+                    this.updateContentLayers();
+                });
+            }
+        }
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        (this.getInternals()._map as MapComponent).removeControl(this);
+        for (const id of Object.keys(this.displaySubscriptions)) {
+            this.displaySubscriptions[id as any].unsubscribe();
+        }
+        this.displaySubscriptions = {};
+    }
+
+    /**
+     * Derived method of the original removeLayer, that stops following the `display` state of the layer.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-removelayer Original Leaflet documentation
+     */
+    public removeLayer(layer: Layer): this {
+        const id: number = Util.stamp(layer);
+        if (this.displaySubscriptions[id]) {
+            this.displaySubscriptions[id].unsubscribe();
+            delete this.displaySubscriptions[id];
+        }
+        return super.removeLayer(layer);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.zoneEmitter.emit(this.positionChange, val);
+        return this;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-layers-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-layers-control [(display)]="someValue">`
+     * or `<yaga-layers-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!this.getInternals()._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return this.getInternals()._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-layers-control [(position)]="someValue">`
+     * or `<yaga-layers-control [position]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-position Original Leaflet documentation
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-layers-control [(zIndex)]="someValue">`
+     * or `<yaga-layers-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zoneEmitter.emit(this.zIndexChange, zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Input for the collapsed state.
+     * Use it with `<yaga-layers-control [collapsed]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-collapsed Original Leaflet documentation
+     */
+    @Input() public set collapsed(val: boolean) {
+        this.options.collapsed = val;
+        if (val) {
+            this.collapse();
+            return;
+        }
+        this.expand();
+    }
+    public get collapsed(): boolean {
+        return this.options.collapsed;
+    }
+
+    /**
+     * Input for the autoZIndex.
+     * Use it with `<yaga-layers-control [autoZIndex]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-autozindex Original Leaflet documentation
+     */
+    @Input() public set autoZIndex(val: boolean) {
+        this.options.autoZIndex = val;
+    }
+    public get autoZIndex(): boolean {
+        return this.options.autoZIndex;
+    }
+
+    /**
+     * Input for the hideSingleBase.
+     * Use it with `<yaga-layers-control [hideSingleBase]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-layers-hidesinglebase Original Leaflet documentation
+     */
+    @Input() public set hideSingleBase(val: boolean) {
+        this.options.hideSingleBase = val;
+        this.getInternals()._update();
+    }
+    public get hideSingleBase(): boolean {
+        return this.options.hideSingleBase;
+    }
+
+    /**
+     * Input for referenced base layers that are not children of the control.
+     * Use it with `<yaga-layers-control [baseLayers]="{'Name': someLayer}">`
+     */
+    @Input() public set baseLayers(val: Control.LayersObject) {
+        for (const layer of this.referencedBaseLayers) {
+            this.removeLayer(layer);
+        }
+        this.referencedBaseLayers = [];
+        for (const name in val) {
+            /* istanbul ignore else */
+            if (val.hasOwnProperty(name)) {
+                this.referencedBaseLayers.push(val[name]);
+                this.addBaseLayer(val[name], name);
+            }
+        }
+        this.emitActiveLayers();
+    }
+    public get baseLayers(): Control.LayersObject {
+        return this.getLayersObject(false);
+    }
+
+    /**
+     * Input for referenced overlays that are not children of the control.
+     * Use it with `<yaga-layers-control [overlays]="{'Name': someLayer}">`
+     */
+    @Input() public set overlays(val: Control.LayersObject) {
+        for (const layer of this.referencedOverlays) {
+            this.removeLayer(layer);
+        }
+        this.referencedOverlays = [];
+        for (const name in val) {
+            /* istanbul ignore else */
+            if (val.hasOwnProperty(name)) {
+                this.referencedOverlays.push(val[name]);
+                this.addOverlay(val[name], name);
+            }
+        }
+        this.emitActiveLayers();
+    }
+    public get overlays(): Control.LayersObject {
+        return this.getLayersObject(true);
+    }
+
+    /**
+     * Two-Way bound property for the name of the active base layer.
+     * Use it with `<yaga-layers-control [(activeBaseLayer)]="someValue">`
+     * or `<yaga-layers-control [activeBaseLayer]="someValue">`
+     */
+    @Input() public set activeBaseLayer(val: string) {
+        const internals: ILayersControlInternals = this.getInternals();
+        internals._handlingClick = true;
+        for (const obj of internals._layers) {
+            if (!obj.overlay && obj.name !== val) {
+                this.deactivateLayer(obj.layer);
+            }
+        }
+        for (const obj of internals._layers) {
+            if (!obj.overlay && obj.name === val) {
+                this.activateLayer(obj.layer);
+            }
+        }
+        internals._handlingClick = false;
+        internals._update();
+        this.emitActiveLayers();
+    }
+    public get activeBaseLayer(): string {
+        for (const obj of this.getInternals()._layers) {
+            if (!obj.overlay && this.isLayerActive(obj.layer)) {
+                return obj.name;
+            }
+        }
+    }
+
+    /**
+     * Two-Way bound property for the names of the active overlays.
+     * Use it with `<yaga-layers-control [(activeOverlays)]="someValue">`
+     * or `<yaga-layers-control [activeOverlays]="someValue">`
+     */
+    @Input() public set activeOverlays(val: string[]) {
+        const internals: ILayersControlInternals = this.getInternals();
+        const names: string[] = val || [];
+        internals._handlingClick = true;
+        for (const obj of internals._layers) {
+            if (!obj.overlay) {
+                continue;
+            }
+            if (names.indexOf(obj.name) === -1) {
+                this.deactivateLayer(obj.layer);
+            } else {
+                this.activateLayer(obj.layer);
+            }
+        }
+        internals._handlingClick = false;
+        internals._update();
+        this.emitActiveLayers();
+    }
+    public get activeOverlays(): string[] {
+        const names: string[] = [];
+        for (const obj of this.getInternals()._layers) {
+            if (obj.overlay && this.isLayerActive(obj.layer)) {
+                names.push(obj.name);
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Self written method to check if a layer is on the map and not hidden by its `display` property
+     */
+    public isLayerActive(layer: Layer): boolean {
+        if (!this.mapComponent.hasLayer(layer)) {
+            return false;
+        }
+        return (layer as INamedLayer).display !== false;
+    }
+
+    /**
+     * Self written method to add a layer to the map or to show a hidden layer directive
+     */
+    protected activateLayer(layer: Layer): void {
+        if (!this.mapComponent.hasLayer(layer)) {
+            this.mapComponent.addLayer(layer);
+            return;
+        }
+        if ((layer as INamedLayer).display === false) {
+            (layer as INamedLayer).display = true;
+        }
+    }
+
+    /**
+     * Self written method to remove a layer from the map
+     */
+    protected deactivateLayer(layer: Layer): void {
+        if (this.mapComponent.hasLayer(layer)) {
+            this.mapComponent.removeLayer(layer);
+        }
+    }
+
+    /**
+     * Self written method to (re-)add all named child layers of the directive to the control
+     */
+    protected updateContentLayers(): void {
+        for (const layer of this.contentLayers) {
+            this.removeLayer(layer);
+        }
+        this.contentLayers = [];
+
+        const queries: Array<QueryList<INamedLayer>> = [
+            this.tileLayerDirectives,
+            this.wmsLayerDirectives,
+            this.imageOverlayDirectives,
+            this.geoJSONDirectives,
+            this.layerGroupDirectives,
+            this.featureGroupDirectives,
+            this.markerClusterDirectives,
+        ];
+        for (const query of queries) {
+            if (!query) {
+                continue;
+            }
+            query.forEach((layer: INamedLayer) => {
+                if (!layer.layerName) {
+                    return;
+                }
+                this.contentLayers.push(layer);
+                // The attribute `baseLayer` without any value results in an empty string
+                if (layer.baseLayer !== undefined && String(layer.baseLayer) !== 'false') {
+                    this.addBaseLayer(layer, layer.layerName);
+                    return;
+                }
+                this.addOverlay(layer, layer.layerName);
+            });
+        }
+        this.emitActiveLayers();
+    }
+
+    /**
+     * Internal method to emit the active layers, only when they have changed
+     */
+    protected emitActiveLayers(): void {
+        const activeBaseLayer: string = this.activeBaseLayer;
+        const activeOverlays: string[] = this.activeOverlays;
+
+        if (activeBaseLayer !== this.lastActiveBaseLayer) {
+            this.lastActiveBaseLayer = activeBaseLayer;
+            this.zoneEmitter.emit(this.activeBaseLayerChange, activeBaseLayer);
+        }
+        if (JSON.stringify(activeOverlays) !== this.lastActiveOverlays) {
+            this.lastActiveOverlays = JSON.stringify(activeOverlays);
+            this.zoneEmitter.emit(this.activeOverlaysChange, activeOverlays);
+        }
+    }
+
+    /**
+     * Internal method to update the inputs and the active layers when the `display` state of a layer directive changes
+     */
+    private subscribeDisplay(layer: Layer): void {
+        const displayChange: EventEmitter<boolean> = (layer as INamedLayer).displayChange;
+        const id: number = Util.stamp(layer);
+        if (!displayChange || this.displaySubscriptions[id]) {
+            return;
+        }
+        this.displaySubscriptions[id] = displayChange.subscribe(() => {
+            const internals: ILayersControlInternals = this.getInternals();
+            if (internals._handlingClick) {
+                return;
+            }
+            if (internals._map) {
+                internals._update();
+            }
+            this.emitActiveLayers();
+        });
+    }
+
+    private getLayersObject(overlay: boolean): Control.LayersObject {
+        const layersObject: Control.LayersObject = {};
+        for (const obj of this.getInternals()._layers) {
+            if (!!obj.overlay === overlay) {
+                layersObject[obj.name] = obj.layer;
+            }
+        }
+        return layersObject;
+    }
+
+    /**
+     * Internal method to access the private members of the original Leaflet control with their types
+     */
+    private getInternals(): ILayersControlInternals {
+        return this as Control.Layers as ILayersControlInternals;
+    }
+}
@@ -0,0 +1,173 @@
+import { GenericGeoJSONFeatureCollection } from '@yaga/generic-geojson';
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    ILegendClass,
+    LegendControlDirective,
+    MapComponent,
+} from './index';
+
+describe('Legend-Control Directive', () => {
+    let map: MapComponent;
+    let control: LegendControlDirective;
+    const TEST_VALUE: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any> = {
+        features: [0, 5, 10, 20].map((value: number) => {
+            return {
+                geometry: {coordinates: [0, 0], type: 'Point'},
+                properties: {value},
+                type: 'Feature',
+            } as any;
+        }),
+        type: 'FeatureCollection',
+    };
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new LegendControlDirective(map);
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('[title]', () => {
+        it('should render the title', () => {
+            control.title = 'Test';
+            expect(control.getContainer().querySelector('.yaga-legend-control-title').textContent).to.equal('Test');
+        });
+    });
+    describe('classification', () => {
+        beforeEach(() => {
+            control.method = 'equalInterval';
+            control.classCount = 2;
+            control.colors = ['#000000', '#ffffff'];
+            control.property = 'value';
+            control.data = TEST_VALUE;
+        });
+        it('should classify the data', () => {
+            expect(control.classes.map((legendClass: ILegendClass) => legendClass.min)).to.deep.equal([0, 10]);
+            expect(control.classes.map((legendClass: ILegendClass) => legendClass.color))
+                .to.deep.equal(['#000000', '#ffffff']);
+        });
+        it('should render a row for every class', () => {
+            const labels: NodeListOf<Element> = control.getContainer().querySelectorAll('.yaga-legend-control-label');
+            expect(labels.length).to.equal(2);
+            expect(labels[0].textContent).to.equal('0 - 10');
+            expect(labels[1].textContent).to.equal('10 - 20');
+        });
+        it('should update the classes when the data changes', () => {
+            control.data = {...TEST_VALUE, features: TEST_VALUE.features.slice(0, 3)};
+            expect(control.classes.map((legendClass: ILegendClass) => legendClass.min)).to.deep.equal([0, 5]);
+        });
+        it('should update the classes when the method changes', () => {
+            control.method = 'quantile';
+            expect(control.classes[1].min).to.equal(7.5);
+        });
+        it('should use explicit breaks', () => {
+            control.breaks = [0, 1, 2, 20];
+            expect(control.classes.length).to.equal(3);
+            control.breaks = undefined;
+            expect(control.classes.length).to.equal(2);
+        });
+        it('should fire an event when the classes change', (done: MochaDone) => {
+            control.classesChange.subscribe((classes: ILegendClass[]) => {
+                expect(classes.length).to.equal(4);
+                done();
+            });
+            control.classCount = 4;
+        });
+        it('should provide style rules for the classes', () => {
+            expect(control.styleRules).to.deep.equal([
+                {max: 10, min: 0, property: 'value', style: {fillColor: '#000000'}},
+                {min: 10, property: 'value', style: {fillColor: '#ffffff'}},
+            ]);
+        });
+        it('should round the labels by the precision', () => {
+            control.breaks = [0, 1.23456, 2];
+            control.precision = 1;
+            expect(control.classes[0].label).to.equal('0 - 1.2');
+        });
+    });
+
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('Destroying a Legend-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
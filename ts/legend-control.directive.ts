@@ -0,0 +1,422 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    Output,
+} from '@angular/core';
+import { GenericGeoJSONFeatureCollection } from '@yaga/generic-geojson';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LeafletEvent,
+    Map,
+} from 'leaflet';
+import {
+    ClassificationMethod,
+    classify,
+    createClassStyleRules,
+    createLegendClasses,
+    ILegendClass,
+} from './classification';
+import { MapComponent } from './map.component';
+import { IStyleRule } from './style-rules';
+
+/**
+ * Angular2 directive for a legend control of classified (choropleth) data.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-legend-control
+ *         #legend
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *
+ *         (classesChange)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [title]="..."
+ *         [data]="..."
+ *         [property]="..."
+ *         [method]="..."
+ *         [classCount]="..."
+ *         [breaks]="..."
+ *         [colors]="..."
+ *         [precision]="..."
+ *         >
+ *     </yaga-legend-control>
+ *     <yaga-geojson [data]="..." [styleRules]="legend.styleRules"></yaga-geojson>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The classes are calculated from the numeric `property` of the features in `data` with the given classification
+ * `method`, unless explicit `breaks` are set.
+ * * The `styleRules` property contains style rules for the fill colors of the classes, that can be used in the
+ * `[styleRules]` input of the GeoJSON directive.
+ * * The classes and the legend are updated on every change of the inputs.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Legend-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/legend-control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/legendcontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-legend-control',
+})
+export class LegendControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-legend-control [(display)]="someValue">`
+     * or `<yaga-legend-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-legend-control [(zIndex)]="someValue">`
+     * or `<yaga-legend-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-legend-control [(position)]="someValue">`
+     * or `<yaga-legend-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Fired after the classes were updated.
+     * Use it with `<yaga-legend-control (classesChange)="processEvent($event)">`
+     */
+    @Output() public classesChange: EventEmitter<ILegendClass[]> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-legend-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-legend-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-legend-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-legend-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-legend-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-legend-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-legend-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    protected container: HTMLElement;
+
+    private legendTitle: string;
+    private legendData: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any>;
+    private legendProperty: string;
+    private legendMethod: ClassificationMethod = 'quantile';
+    private legendClassCount: number = 5;
+    private legendBreaks: number[];
+    private legendColors: string[] = ['#ffffcc', '#800026'];
+    private legendPrecision: number = 2;
+    private legendClasses: ILegendClass[] = [];
+    private classStyleRules: IStyleRule[] = [];
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+    ) {
+        super();
+        this.container = DomUtil.create('div', 'yaga-legend-control');
+        DomEvent.disableClickPropagation(this.container);
+        this.update();
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            self.displayChange.emit(true);
+            self.addEvent.emit({type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.displayChange.emit(false);
+            self.removeEvent.emit({type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.clickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.dbclickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.mousedownEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.mouseoverEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.mouseoutEvent.emit(event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.positionChange.emit(val);
+        return this;
+    }
+
+    /**
+     * Self written method to re-calculate the classes and re-render the legend. This happens automatically on changes
+     * of the inputs.
+     */
+    public update(): this {
+        const breaks: number[] = this.legendBreaks ||
+            (this.legendProperty ?
+                classify(this.legendData, this.legendProperty, this.legendClassCount, this.legendMethod) :
+                []);
+        this.legendClasses = createLegendClasses(breaks, this.legendColors, this.legendPrecision);
+        this.classStyleRules = createClassStyleRules(this.legendProperty, this.legendClasses);
+        this.render();
+        this.classesChange.emit(this.legendClasses);
+        return this;
+    }
+
+    /**
+     * The current classes of the legend
+     */
+    public get classes(): ILegendClass[] {
+        return this.legendClasses;
+    }
+
+    /**
+     * Style rules for the fill colors of the current classes.
+     * Use it with `<yaga-geojson [styleRules]="legend.styleRules">`
+     */
+    public get styleRules(): IStyleRule[] {
+        return this.classStyleRules;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-legend-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-legend-control [(display)]="someValue">`
+     * or `<yaga-legend-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-legend-control [(position)]="someValue">`
+     * or `<yaga-legend-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-legend-control [(zIndex)]="someValue">`
+     * or `<yaga-legend-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zIndexChange.emit(zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Input for the title of the legend.
+     * Use it with `<yaga-legend-control [title]="someValue">`
+     */
+    @Input() public set title(val: string) {
+        this.legendTitle = val;
+        this.render();
+    }
+    public get title(): string {
+        return this.legendTitle;
+    }
+
+    /**
+     * Input for the classified data.
+     * Use it with `<yaga-legend-control [data]="someValue">`
+     */
+    @Input() public set data(val: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any>) {
+        this.legendData = val;
+        this.update();
+    }
+    public get data(): GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any> {
+        return this.legendData;
+    }
+
+    /**
+     * Input for the name of the classified numeric feature property.
+     * Use it with `<yaga-legend-control property="someProperty">`
+     */
+    @Input() public set property(val: string) {
+        this.legendProperty = val;
+        this.update();
+    }
+    public get property(): string {
+        return this.legendProperty;
+    }
+
+    /**
+     * Input for the classification method (`equalInterval`, `quantile`, `jenks` or `standardDeviation`). Default is
+     * `quantile`.
+     * Use it with `<yaga-legend-control method="jenks">`
+     */
+    @Input() public set method(val: ClassificationMethod) {
+        this.legendMethod = val;
+        this.update();
+    }
+    public get method(): ClassificationMethod {
+        return this.legendMethod;
+    }
+
+    /**
+     * Input for the count of classes. Default is 5.
+     * Use it with `<yaga-legend-control [classCount]="someValue">`
+     */
+    @Input() public set classCount(val: number) {
+        this.legendClassCount = val;
+        this.update();
+    }
+    public get classCount(): number {
+        return this.legendClassCount;
+    }
+
+    /**
+     * Input for explicit class breaks, that are used instead of a classification of the data. Set it to `undefined`
+     * to classify the data again.
+     * Use it with `<yaga-legend-control [breaks]="[0, 10, 100, 1000]">`
+     */
+    @Input() public set breaks(val: number[]) {
+        this.legendBreaks = val;
+        this.update();
+    }
+    public get breaks(): number[] {
+        return this.legendBreaks;
+    }
+
+    /**
+     * Input for the colors of the classes. If the count of colors does not fit the count of classes, the colors are
+     * used as a color ramp.
+     * Use it with `<yaga-legend-control [colors]="['#ffffcc', '#800026']">`
+     */
+    @Input() public set colors(val: string[]) {
+        this.legendColors = val;
+        this.update();
+    }
+    public get colors(): string[] {
+        return this.legendColors;
+    }
+
+    /**
+     * Input for the count of decimal places in the labels. Default is 2.
+     * Use it with `<yaga-legend-control [precision]="someValue">`
+     */
+    @Input() public set precision(val: number) {
+        this.legendPrecision = val;
+        this.update();
+    }
+    public get precision(): number {
+        return this.legendPrecision;
+    }
+
+    /**
+     * Internal method to render the title and the classes into the container
+     */
+    protected render(): void {
+        this.container.innerHTML = '';
+        if (this.legendTitle) {
+            DomUtil.create('div', 'yaga-legend-control-title', this.container).textContent = this.legendTitle;
+        }
+        for (const legendClass of this.legendClasses) {
+            const row: HTMLElement = DomUtil.create('div', 'yaga-legend-control-class', this.container);
+            const swatch: HTMLElement = DomUtil.create('i', 'yaga-legend-control-swatch', row);
+            swatch.style.background = legendClass.color;
+            DomUtil.create('span', 'yaga-legend-control-label', row).textContent = legendClass.label;
+        }
+    }
+}
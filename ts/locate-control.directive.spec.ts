@@ -0,0 +1,229 @@
+import { NgZone } from '@angular/core';
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    IPositionSource,
+    LocateControlDirective,
+    MapComponent,
+    UserLocationDirective,
+} from './index';
+
+describe('Locate-Control Directive', () => {
+    let map: MapComponent;
+    let control: LocateControlDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new LocateControlDirective(map);
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('bottomleft');
+                done();
+            });
+            control.setPosition('bottomleft');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('[(tracking)] without user location', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.tracking = true;
+            expect(control.tracking).to.equal(true);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.trackingChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            control.tracking = true;
+        });
+        it('should be toggled by the button', () => {
+            (control.getContainer().querySelector('.yaga-locate-control-button') as HTMLElement).click();
+            expect(control.tracking).to.equal(true);
+        });
+        it('should mark the button as active while tracking', () => {
+            const button: HTMLElement = control.getContainer()
+                .querySelector('.yaga-locate-control-button') as HTMLElement;
+            control.tracking = true;
+            expect(button.classList.contains('yaga-locate-control-active')).to.equal(true);
+            control.tracking = false;
+            expect(button.classList.contains('yaga-locate-control-active')).to.equal(false);
+        });
+    });
+    describe('[userLocation]', () => {
+        let userLocation: UserLocationDirective;
+        beforeEach(() => {
+            const source: IPositionSource = {
+                start: (): void => undefined,
+                stop: (): void => undefined,
+            };
+            userLocation = new UserLocationDirective(map);
+            userLocation.positionSource = source;
+            control.userLocation = userLocation;
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            expect(control.userLocation).to.equal(userLocation);
+        });
+        it('should start the tracking of the user location', () => {
+            control.tracking = true;
+            expect(userLocation.tracking).to.equal(true);
+        });
+        it('should reflect the tracking state of the user location', (done: MochaDone) => {
+            control.trackingChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                expect(control.tracking).to.equal(true);
+                done();
+            });
+            userLocation.tracking = true;
+        });
+        it('should take over the tracking state when linking', () => {
+            const other: LocateControlDirective = new LocateControlDirective(map);
+            userLocation.tracking = true;
+            other.userLocation = userLocation;
+            expect(other.tracking).to.equal(true);
+        });
+        it('should enable the follow-mode when starting with the button', () => {
+            (control.getContainer().querySelector('.yaga-locate-control-button') as HTMLElement).click();
+            expect(userLocation.tracking).to.equal(true);
+            expect(userLocation.follow).to.equal(true);
+        });
+        it('should not enable the follow-mode when starting with the button with followOnStart=false', () => {
+            control.followOnStart = false;
+            (control.getContainer().querySelector('.yaga-locate-control-button') as HTMLElement).click();
+            expect(userLocation.tracking).to.equal(true);
+            expect(userLocation.follow).to.equal(false);
+        });
+        it('should not reflect the tracking state after unlinking', () => {
+            control.userLocation = undefined;
+            userLocation.tracking = true;
+            expect(control.tracking).to.equal(false);
+        });
+    });
+
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('NgZone', () => {
+        let zone: NgZone;
+        let inside: boolean;
+        beforeEach(() => {
+            zone = new NgZone({enableLongStackTrace: false});
+            map.removeControl(control);
+            control = zone.run(() => new LocateControlDirective(map, zone));
+            inside = undefined;
+        });
+        it('should emit (displayChange) inside of the zone when removing the control outside of it', () => {
+            control.displayChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => map.removeControl(control));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (add) inside of the zone when adding the control outside of it', () => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => map.addControl(control));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (remove) inside of the zone when removing the control outside of it', () => {
+            control.removeEvent.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => map.removeControl(control));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (positionChange) inside of the zone when changing the position outside of it', () => {
+            control.positionChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => control.setPosition('bottomleft'));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (zIndexChange) inside of the zone when changing the zIndex outside of it', () => {
+            control.zIndexChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => control.zIndex = 5);
+            expect(inside).to.equal(true);
+        });
+        it('should emit (trackingChange) inside of the zone when changing the tracking outside of it', () => {
+            control.trackingChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => control.tracking = true);
+            expect(inside).to.equal(true);
+        });
+        for (const name of ['click', 'dbclick', 'mousedown', 'mouseover', 'mouseout']) {
+            it(`should emit (${name}) inside of the zone when dispatching the event outside of it`, () => {
+                (control as any)[name + 'Event'].subscribe(() => inside = NgZone.isInAngularZone());
+                zone.runOutsideAngular(() => control.getContainer().dispatchEvent(new MouseEvent(name, {})));
+                expect(inside).to.equal(true);
+            });
+        }
+    });
+
+    describe('Destroying a Locate-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
@@ -0,0 +1,343 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LeafletEvent,
+    Map,
+} from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { MapComponent } from './map.component';
+import { UserLocationDirective } from './user-location.directive';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Angular2 directive for a control to start and stop tracking the position of the user.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-locate-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(tracking)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [userLocation]="userLocation"
+ *         [followOnStart]="..."
+ *         >
+ *     </yaga-locate-control>
+ *     <yaga-user-location #userLocation></yaga-user-location>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The control toggles the tracking of the linked `yaga-user-location` and reflects its tracking state. Without a
+ * linked user location only the two-way bound `[(tracking)]` property changes.
+ * * The button gets the css-class `yaga-locate-control-active` while tracking.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Locate-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/locate-control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/locatecontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-locate-control',
+})
+export class LocateControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-locate-control [(display)]="someValue">`
+     * or `<yaga-locate-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-locate-control [(zIndex)]="someValue">`
+     * or `<yaga-locate-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-locate-control [(position)]="someValue">`
+     * or `<yaga-locate-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Two-Way bound property for the tracking state.
+     * Use it with `<yaga-locate-control [(tracking)]="someValue">`
+     * or `<yaga-locate-control (trackingChange)="processEvent($event)">`
+     */
+    @Output() public trackingChange: EventEmitter<boolean> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-locate-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-locate-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-locate-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-locate-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-locate-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-locate-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-locate-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Input to enable the follow-mode of the linked user location, when the tracking is started with the button.
+     * Use it with `<yaga-locate-control [followOnStart]="false">`
+     */
+    @Input() public followOnStart: boolean = true;
+
+    protected container: HTMLElement;
+    protected button: HTMLAnchorElement;
+    protected mapComponent: MapComponent;
+    protected linkedUserLocation: UserLocationDirective;
+    protected zoneEmitter: ZoneEmitter;
+
+    private isTracking: boolean = false;
+    private trackingSubscription: Subscription;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+        this.mapComponent = mapComponent;
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-locate-control');
+        DomEvent.disableClickPropagation(this.container);
+        this.button = (DomUtil.create('a', 'yaga-locate-control-button', this.container) as HTMLAnchorElement);
+        this.button.href = '#';
+        this.button.title = 'Show my location';
+        this.button.setAttribute('role', 'button');
+        DomEvent.on(this.button, 'click', (event: Event) => {
+            DomEvent.preventDefault(event);
+            const val: boolean = !this.tracking;
+            if (val && this.followOnStart && this.linkedUserLocation) {
+                this.linkedUserLocation.setFollow(true);
+            }
+            this.setTracking(val);
+        });
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            self.zoneEmitter.emit(self.displayChange, true);
+            self.zoneEmitter.emit(self.addEvent, {type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.zoneEmitter.emit(self.displayChange, false);
+            self.zoneEmitter.emit(self.removeEvent, {type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        this.userLocation = undefined;
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.zoneEmitter.emit(this.positionChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to start or stop the tracking. It is delegated to the linked user location.
+     */
+    public setTracking(val: boolean): this {
+        if (this.linkedUserLocation) {
+            this.linkedUserLocation.setTracking(val);
+            return this;
+        }
+        this.onTrackingChange(val);
+        return this;
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-locate-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-locate-control [(display)]="someValue">`
+     * or `<yaga-locate-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-locate-control [(position)]="someValue">`
+     * or `<yaga-locate-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-locate-control [(zIndex)]="someValue">`
+     * or `<yaga-locate-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zoneEmitter.emit(this.zIndexChange, zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Two-Way bound property for the tracking state.
+     * Use it with `<yaga-locate-control [(tracking)]="someValue">`
+     * or `<yaga-locate-control [tracking]="someValue">`
+     */
+    @Input() public set tracking(val: boolean) {
+        this.setTracking(val);
+    }
+    public get tracking(): boolean {
+        return this.isTracking;
+    }
+
+    /**
+     * Input for the user location that is controlled by this control.
+     * Use it with `<yaga-locate-control [userLocation]="someUserLocationDirective">`
+     */
+    @Input() public set userLocation(val: UserLocationDirective) {
+        if (this.trackingSubscription) {
+            this.trackingSubscription.unsubscribe();
+            this.trackingSubscription = undefined;
+        }
+        this.linkedUserLocation = val;
+        if (!val) {
+            return;
+        }
+        this.trackingSubscription = val.trackingChange.subscribe((tracking: boolean) => {
+            this.onTrackingChange(tracking);
+        });
+        this.onTrackingChange(val.tracking);
+    }
+    public get userLocation(): UserLocationDirective {
+        return this.linkedUserLocation;
+    }
+
+    /**
+     * Internal method to apply a changed tracking state
+     */
+    protected onTrackingChange(val: boolean): void {
+        if (val === this.isTracking) {
+            return;
+        }
+        this.isTracking = val;
+        if (val) {
+            DomUtil.addClass(this.button, 'yaga-locate-control-active');
+        } else {
+            DomUtil.removeClass(this.button, 'yaga-locate-control-active');
+        }
+        this.zoneEmitter.emit(this.trackingChange, val);
+    }
+}
@@ -0,0 +1,64 @@
+import { FormControl } from '@angular/forms';
+import { expect } from 'chai';
+import { LatLng, latLng, latLngBounds, LatLngBounds } from 'leaflet';
+import { insideBoundsValidator, maxAreaValidator, measureArea } from './index';
+
+describe('Location-Validators helper', () => {
+    describe('insideBoundsValidator', () => {
+        const BOUNDS: LatLngBounds = latLngBounds([0, 0], [10, 10]);
+        it('should accept empty values', () => {
+            expect(new FormControl(null, insideBoundsValidator(BOUNDS)).valid).to.equal(true);
+        });
+        it('should accept a position inside the bounds', () => {
+            expect(new FormControl(latLng(5, 5), insideBoundsValidator(BOUNDS)).valid).to.equal(true);
+        });
+        it('should reject a position outside the bounds', () => {
+            const control: FormControl = new FormControl(latLng(11, 5), insideBoundsValidator(BOUNDS));
+            expect(control.errors).to.deep.equal({insideBounds: {bounds: BOUNDS}});
+        });
+        it('should check every position of a path', () => {
+            expect(new FormControl([latLng(1, 1), latLng(9, 9)], insideBoundsValidator(BOUNDS)).valid).to.equal(true);
+            expect(new FormControl([latLng(1, 1), latLng(9, 11)], insideBoundsValidator(BOUNDS)).valid)
+                .to.equal(false);
+        });
+        it('should check every position of the rings of a polygon', () => {
+            expect(new FormControl([[latLng(1, 1), latLng(2, 2), latLng(2, 1)], [latLng(-1, 1)]],
+                insideBoundsValidator(BOUNDS)).valid).to.equal(false);
+        });
+        it('should check the corners of bounds', () => {
+            expect(new FormControl(latLngBounds([1, 1], [9, 9]), insideBoundsValidator(BOUNDS)).valid)
+                .to.equal(true);
+            expect(new FormControl(latLngBounds([1, 1], [11, 9]), insideBoundsValidator(BOUNDS)).valid)
+                .to.equal(false);
+        });
+    });
+    describe('maxAreaValidator', () => {
+        const SQUARE: LatLng[] = [latLng(0, 0), latLng(0, 1), latLng(1, 1), latLng(1, 0)];
+        const HOLE: LatLng[] = [latLng(0.25, 0.25), latLng(0.25, 0.75), latLng(0.75, 0.75), latLng(0.75, 0.25)];
+        const AREA: number = measureArea(SQUARE);
+        it('should accept empty values', () => {
+            expect(new FormControl(null, maxAreaValidator(1)).valid).to.equal(true);
+        });
+        it('should accept a polygon that is not larger than the maximum', () => {
+            expect(new FormControl(SQUARE, maxAreaValidator(AREA)).valid).to.equal(true);
+        });
+        it('should reject a polygon that is larger than the maximum', () => {
+            const control: FormControl = new FormControl(SQUARE, maxAreaValidator(AREA - 1));
+            expect(control.errors).to.deep.equal({maxArea: {actual: AREA, maxArea: AREA - 1}});
+        });
+        it('should subtract the holes of a polygon', () => {
+            expect(new FormControl([SQUARE, HOLE], maxAreaValidator(AREA - 1)).valid).to.equal(true);
+        });
+        it('should sum up the areas of multi-polygons', () => {
+            expect(new FormControl([[SQUARE], [SQUARE]], maxAreaValidator(AREA * 2 - 1)).valid).to.equal(false);
+        });
+        it('should measure the area of bounds', () => {
+            const control: FormControl = new FormControl(latLngBounds([0, 0], [1, 1]), maxAreaValidator(AREA - 1));
+            expect(control.errors.maxArea.actual).to.be.closeTo(AREA, 1);
+        });
+        it('should accept positions and paths with less than three positions', () => {
+            expect(new FormControl(latLng(1, 1), maxAreaValidator(0)).valid).to.equal(true);
+            expect(new FormControl([latLng(1, 1), latLng(2, 2)], maxAreaValidator(0)).valid).to.equal(true);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { LatLng, LatLngBounds } from 'leaflet';
+import { measureArea } from './measurement';
+
+/**
+ * Values of the form controls of the layer value accessors
+ */
+export type LocationValue = LatLng | LatLng[] | LatLng[][] | LatLng[][][] | LatLngBounds;
+
+/**
+ * Function to get all positions of a location value
+ */
+function getLatLngs(value: LocationValue): LatLng[] {
+    if (value instanceof LatLngBounds) {
+        return [value.getSouthWest(), value.getNorthEast()];
+    }
+    if (!Array.isArray(value)) {
+        return [value];
+    }
+    let latLngs: LatLng[] = [];
+    for (const item of value as any[]) {
+        latLngs = latLngs.concat(getLatLngs(item));
+    }
+    return latLngs;
+}
+
+/**
+ * Function to get the area of a location value in square meters. Holes of polygons are subtracted and the areas of
+ * multi-polygons are summed up.
+ */
+function getArea(value: LocationValue): number {
+    if (value instanceof LatLngBounds) {
+        return measureArea([value.getSouthWest(), value.getNorthWest(), value.getNorthEast(), value.getSouthEast()]);
+    }
+    if (!Array.isArray(value) || !value.length) {
+        return 0;
+    }
+    if (!Array.isArray(value[0])) {
+        return measureArea(value as LatLng[]);
+    }
+    if (!Array.isArray((value[0] as LatLng[])[0])) {
+        const rings: LatLng[][] = value as LatLng[][];
+        let area: number = measureArea(rings[0]);
+        for (let i: number = 1; i < rings.length; i += 1) {
+            area -= measureArea(rings[i]);
+        }
+        return area;
+    }
+    let sum: number = 0;
+    for (const polygon of value as LatLng[][][]) {
+        sum += getArea(polygon);
+    }
+    return sum;
+}
+
+/**
+ * Validator for the layer value accessors, that fails if a position of the value is outside of the given bounds.
+ * Empty values are valid.
+ *
+ * How to use:
+ * ```typescript
+ * this.form = new FormGroup({
+ *     location: new FormControl(latLng(51, 7), insideBoundsValidator(latLngBounds([50, 6], [52, 8]))),
+ * });
+ * ```
+ */
+export function insideBoundsValidator(bounds: LatLngBounds): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors => {
+        if (!control.value) {
+            return null;
+        }
+        for (const latLng of getLatLngs(control.value)) {
+            if (!bounds.contains(latLng)) {
+                return {insideBounds: {bounds}};
+            }
+        }
+        return null;
+    };
+}
+
+/**
+ * Validator for the layer value accessors, that fails if the geodesic area of the value is larger than the given area
+ * in square meters. Empty values are valid.
+ *
+ * How to use:
+ * ```typescript
+ * this.form = new FormGroup({
+ *     area: new FormControl(undefined, maxAreaValidator(1000000)),
+ * });
+ * ```
+ */
+export function maxAreaValidator(maxArea: number): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors => {
+        if (!control.value) {
+            return null;
+        }
+        const actual: number = getArea(control.value);
+        if (actual > maxArea) {
+            return {maxArea: {actual, maxArea}};
+        }
+        return null;
+    };
+}
@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    IPermalinkState,
+    MapComponent,
+    MapHashDirective,
+    TileLayerDirective,
+} from './index';
+
+describe('Map-Hash Directive', () => {
+    let map: MapComponent;
+    let directive: MapHashDirective;
+    let layer: TileLayerDirective;
+
+    function setUrl(url: string): void {
+        history.replaceState(null, '', location.href.split(/[?#]/)[0] + url);
+    }
+
+    beforeEach(() => {
+        setUrl('');
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        layer = new TileLayerDirective(map);
+        directive = new MapHashDirective(map);
+    });
+    afterEach(() => {
+        directive.ngOnDestroy();
+        setUrl('');
+    });
+
+    describe('Writing the URL', () => {
+        beforeEach(() => {
+            directive.ngOnInit();
+            map.setView([52.52, 13.405], 13, {animate: false});
+        });
+        it('should write the view into the fragment', () => {
+            directive.writeState();
+            expect(location.hash).to.equal('#13/52.52000/13.40500');
+        });
+        it('should keep other parts of the fragment with a hash key', () => {
+            setUrl('#section');
+            directive.hashKey = 'map';
+            directive.writeState();
+            expect(location.hash).to.equal('#section&map=13/52.52000/13.40500');
+            map.setView([52.52, 13.405], 14, {animate: false});
+            directive.writeState();
+            expect(location.hash).to.equal('#section&map=14/52.52000/13.40500');
+        });
+        it('should write the view with the given precision', () => {
+            directive.precision = 2;
+            directive.writeState();
+            expect(location.hash).to.equal('#13/52.52/13.40');
+        });
+        it('should write the view into the query parameters', () => {
+            setUrl('?lang=de');
+            directive.mode = 'query';
+            directive.writeState();
+            expect(location.search).to.equal('?lang=de&zoom=13&lat=52.52000&lng=13.40500');
+        });
+        it('should write the active layers', () => {
+            directive.layers = {osm: layer};
+            directive.writeState();
+            expect(location.hash).to.equal('#13/52.52000/13.40500/osm');
+            map.removeLayer(layer);
+            directive.writeState();
+            expect(location.hash).to.equal('#13/52.52000/13.40500/');
+        });
+        it('should write debounced after changes of the map', (done: MochaDone) => {
+            directive.debounceTime = 0;
+            map.zoomChange.emit(13);
+            map.latChange.emit(52.52);
+            expect(location.hash).to.equal('');
+            setTimeout(() => {
+                expect(location.hash).to.equal('#13/52.52000/13.40500');
+                done();
+            }, 10);
+        });
+        it('should add an entry to the history with pushHistory', () => {
+            const length: number = history.length;
+            directive.pushHistory = true;
+            directive.writeState();
+            expect(history.length).to.equal(length + 1);
+        });
+        it('should not add an entry to the history without changes', () => {
+            directive.pushHistory = true;
+            directive.writeState();
+            const length: number = history.length;
+            directive.writeState();
+            expect(history.length).to.equal(length);
+        });
+    });
+    describe('Restoring from the URL', () => {
+        it('should set the view on initialization', () => {
+            setUrl('#5/10.00000/20.00000');
+            directive.ngOnInit();
+            expect(map.getZoom()).to.equal(5);
+            expect(map.getCenter().lat).to.be.closeTo(10, 0.00001);
+            expect(map.getCenter().lng).to.be.closeTo(20, 0.00001);
+        });
+        it('should set the view from the parameter with the hash key', () => {
+            setUrl('#section&map=5/10/20');
+            directive.hashKey = 'map';
+            directive.ngOnInit();
+            expect(map.getZoom()).to.equal(5);
+            expect(location.hash).to.equal('#section&map=5/10/20');
+        });
+        it('should set the view from the query parameters', () => {
+            setUrl('?zoom=5&lat=10&lng=20');
+            directive.mode = 'query';
+            directive.ngOnInit();
+            expect(map.getZoom()).to.equal(5);
+        });
+        it('should set the active layers', () => {
+            setUrl('#5/10/20/');
+            directive.layers = {osm: layer};
+            directive.ngOnInit();
+            expect(map.hasLayer(layer)).to.equal(false);
+            setUrl('#5/10/20/osm');
+            directive.restore();
+            expect(map.hasLayer(layer)).to.equal(true);
+        });
+        it('should fire an event with the restored state', (done: MochaDone) => {
+            setUrl('#5/10/20');
+            directive.restoreEvent.subscribe((state: IPermalinkState) => {
+                expect(state).to.deep.equal({lat: 10, lng: 20, zoom: 5});
+                done();
+            });
+            directive.ngOnInit();
+        });
+        it('should not change the view without a valid state', () => {
+            setUrl('#section');
+            directive.ngOnInit();
+            expect(directive.restore()).to.equal(false);
+            expect(map.getZoom()).to.equal(0);
+        });
+        it('should restore on navigation', () => {
+            directive.ngOnInit();
+            setUrl('#7/1/2');
+            window.dispatchEvent(new Event('popstate'));
+            expect(map.getZoom()).to.equal(7);
+        });
+        it('should not restore on navigation after destroying', () => {
+            directive.ngOnInit();
+            directive.ngOnDestroy();
+            setUrl('#7/1/2');
+            window.dispatchEvent(new Event('hashchange'));
+            expect(map.getZoom()).to.equal(0);
+        });
+    });
+});
@@ -0,0 +1,247 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    OnInit,
+    Output,
+} from '@angular/core';
+import { Layer } from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { MapComponent } from './map.component';
+import {
+    formatPermalinkHash,
+    formatPermalinkQuery,
+    IPermalinkState,
+    parsePermalinkHash,
+    parsePermalinkQuery,
+    PermalinkMode,
+} from './permalink';
+
+/**
+ * Angular2 directive to store the view of the map in the URL.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-tile-layer #osm [url]="..."></yaga-tile-layer>
+ *     <yaga-map-hash
+ *         (restore)="..."
+ *
+ *         [mode]="..."
+ *         [hashKey]="..."
+ *         [precision]="..."
+ *         [debounceTime]="..."
+ *         [pushHistory]="..."
+ *         [layers]="{osm: osm}"
+ *         >
+ *     </yaga-map-hash>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The view is written after the `zoomChange`, `latChange` and `lngChange` events of the map, debounced by the
+ * `debounceTime` in milliseconds.
+ * * In the `hash` mode the view is stored as fragment `#zoom/lat/lng`, in the `query` mode as the query parameters
+ * `zoom`, `lat` and `lng`. Other query parameters are kept.
+ * * Without a `hashKey` the view replaces the whole fragment. Set a `hashKey` to share the fragment with anchors or
+ * other content, like `#section&map=zoom/lat/lng`. Use the `query` mode with a router that uses the fragment.
+ * * With `[layers]` the names of the active layers are stored and restored, too.
+ * * The view is restored on initialization and on navigation, like the back and forward buttons of the browser.
+ * * The URL is replaced on every change, unless `[pushHistory]` is set to add an entry to the history of the browser.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Map-Hash%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/map-hash.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/maphashdirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-map-hash',
+})
+export class MapHashDirective implements OnInit, OnDestroy {
+    /**
+     * Fired when the view of the map was restored from the URL.
+     * Use it with `<yaga-map-hash (restore)="processEvent($event)">`
+     */
+    @Output('restore') public restoreEvent: EventEmitter<IPermalinkState> = new EventEmitter();
+
+    /**
+     * Input for the part of the URL to store the view in, `hash` or `query`.
+     * Use it with `<yaga-map-hash [mode]="someValue">`
+     */
+    @Input() public mode: PermalinkMode = 'hash';
+    /**
+     * Input for the name of the parameter in the fragment that contains the view in the `hash` mode. Without a key
+     * the view is the whole fragment.
+     * Use it with `<yaga-map-hash [hashKey]="someValue">`
+     */
+    @Input() public hashKey: string;
+    /**
+     * Input for the count of decimal places of the latitude and longitude.
+     * Use it with `<yaga-map-hash [precision]="someValue">`
+     */
+    @Input() public precision: number = 5;
+    /**
+     * Input for the time in milliseconds to wait for further changes before writing the URL.
+     * Use it with `<yaga-map-hash [debounceTime]="someValue">`
+     */
+    @Input() public debounceTime: number = 300;
+    /**
+     * Input to add an entry to the history of the browser on every change instead of replacing the URL.
+     * Use it with `<yaga-map-hash [pushHistory]="someValue">`
+     */
+    @Input() public pushHistory: boolean = false;
+    /**
+     * Input for the layers with their names, whose active state is stored in the URL.
+     * Use it with `<yaga-map-hash [layers]="{someName: someLayer}">`
+     */
+    @Input() public layers: {[name: string]: Layer};
+
+    protected mapComponent: MapComponent;
+
+    private subscriptions: Subscription[] = [];
+    private writeTimeout: any;
+    private navigationListener: () => void;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+    ) {
+        this.mapComponent = mapComponent;
+        this.navigationListener = () => {
+            this.restore();
+        };
+    }
+
+    /**
+     * This function gets called from Angular after initializing the inputs. It restores the view from the URL and
+     * starts to listen on changes of the map and on navigation.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnInit-class.html
+     */
+    public ngOnInit(): void {
+        this.restore();
+        for (const emitter of [
+            this.mapComponent.zoomChange,
+            this.mapComponent.latChange,
+            this.mapComponent.lngChange,
+            this.mapComponent.layeraddEvent,
+            this.mapComponent.layerremoveEvent,
+        ] as Array<EventEmitter<any>>) {
+            this.subscriptions.push(emitter.subscribe(() => {
+                this.scheduleWrite();
+            }));
+        }
+        window.addEventListener('hashchange', this.navigationListener);
+        window.addEventListener('popstate', this.navigationListener);
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions = [];
+        if (this.writeTimeout) {
+            clearTimeout(this.writeTimeout);
+            this.writeTimeout = undefined;
+        }
+        window.removeEventListener('hashchange', this.navigationListener);
+        window.removeEventListener('popstate', this.navigationListener);
+    }
+
+    /**
+     * Self written method to get the current state of the map
+     */
+    public getState(): IPermalinkState {
+        const state: IPermalinkState = {
+            lat: this.mapComponent.lat,
+            lng: this.mapComponent.lng,
+            zoom: this.mapComponent.zoom,
+        };
+        if (this.layers) {
+            state.layers = Object.keys(this.layers).filter((name: string) => {
+                return this.mapComponent.hasLayer(this.layers[name]);
+            });
+        }
+        return state;
+    }
+
+    /**
+     * Self written method to read the state from the URL. It returns `undefined` if the URL contains no valid state.
+     */
+    public readState(): IPermalinkState {
+        if (this.mode === 'query') {
+            return parsePermalinkQuery(location.search);
+        }
+        return parsePermalinkHash(location.hash, this.hashKey);
+    }
+
+    /**
+     * Self written method to write the current state of the map into the URL immediately
+     */
+    public writeState(): void {
+        if (this.writeTimeout) {
+            clearTimeout(this.writeTimeout);
+            this.writeTimeout = undefined;
+        }
+        const state: IPermalinkState = this.getState();
+        const base: string = location.href.split(/[?#]/)[0];
+        let url: string;
+        if (this.mode === 'query') {
+            url = base + formatPermalinkQuery(state, this.precision, location.search) + location.hash;
+        } else {
+            url = base + location.search + formatPermalinkHash(state, this.precision, this.hashKey, location.hash);
+        }
+        if (url === location.href) {
+            return;
+        }
+        if (this.pushHistory) {
+            history.pushState(null, '', url);
+            return;
+        }
+        history.replaceState(null, '', url);
+    }
+
+    /**
+     * Self written method to apply the state from the URL to the map. It returns `false` if the URL contains no
+     * valid state.
+     */
+    public restore(): boolean {
+        const state: IPermalinkState = this.readState();
+        if (!state) {
+            return false;
+        }
+        if (this.layers && state.layers) {
+            for (const name of Object.keys(this.layers)) {
+                const active: boolean = state.layers.indexOf(name) !== -1;
+                if (active && !this.mapComponent.hasLayer(this.layers[name])) {
+                    this.mapComponent.addLayer(this.layers[name]);
+                } else if (!active && this.mapComponent.hasLayer(this.layers[name])) {
+                    this.mapComponent.removeLayer(this.layers[name]);
+                }
+            }
+        }
+        this.mapComponent.setView([state.lat, state.lng], state.zoom);
+        this.restoreEvent.emit(state);
+        return true;
+    }
+
+    /**
+     * Internal method to write the URL after the debounce time
+     */
+    protected scheduleWrite(): void {
+        if (this.writeTimeout) {
+            clearTimeout(this.writeTimeout);
+        }
+        this.writeTimeout = setTimeout(() => {
+            this.writeTimeout = undefined;
+            this.writeState();
+        }, this.debounceTime);
+    }
+}
@@ -0,0 +1,194 @@
+import { expect } from 'chai';
+import { latLngBounds, Marker, point, SVG } from 'leaflet';
+import {
+    GeoJSONDirective,
+    IMapState,
+    IMapStateReferences,
+    LayerGroupDirective,
+    MAP_STATE_VERSION,
+    MapComponent,
+    MarkerDirective,
+    ScaleControlDirective,
+    TileLayerDirective,
+} from './index';
+
+describe('Map-State', () => {
+    let map: MapComponent;
+    let tileLayer: TileLayerDirective;
+    let marker: Marker;
+    let scaleControl: ScaleControlDirective;
+    let drawn: GeoJSONDirective<any>;
+    let references: IMapStateReferences;
+
+    const FEATURES: any = {
+        features: [{geometry: {coordinates: [1, 2], type: 'Point'}, properties: {name: 'a'}, type: 'Feature'}],
+        type: 'FeatureCollection',
+    };
+
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        tileLayer = new TileLayerDirective(map);
+        marker = new Marker([0, 0]);
+        scaleControl = new ScaleControlDirective(map);
+        drawn = new GeoJSONDirective<any>(map);
+        references = {
+            controls: {scale: scaleControl},
+            geoJSON: {drawn},
+            layers: {marker, tiles: tileLayer},
+        };
+    });
+
+    describe('.serializeState', () => {
+        it('should serialize the view with its version', () => {
+            map.setView([10, 20], 5, {animate: false});
+            map.minZoom = 2;
+            map.maxZoom = 12;
+            const state: IMapState = map.serializeState();
+            expect(state.version).to.equal(MAP_STATE_VERSION);
+            expect(state.view.lat).to.be.closeTo(10, 0.0001);
+            expect(state.view.lng).to.be.closeTo(20, 0.0001);
+            expect(state.view.zoom).to.equal(5);
+            expect(state.view.minZoom).to.equal(2);
+            expect(state.view.maxZoom).to.equal(12);
+            expect(state.view.maxBounds).to.equal(undefined);
+        });
+        it('should serialize the maximal bounds', () => {
+            map.maxBounds = latLngBounds([-10, -20], [10, 20]);
+            expect(map.serializeState().view.maxBounds).to.deep.equal([[-10, -20], [10, 20]]);
+        });
+        it('should serialize the state of the layers', () => {
+            tileLayer.opacity = 0.5;
+            tileLayer.zIndex = 3;
+            tileLayer.display = false;
+            const state: IMapState = map.serializeState(references);
+            expect(state.layers.tiles).to.deep.equal({display: false, opacity: 0.5, zIndex: 3});
+            expect(state.layers.marker).to.deep.equal({display: false});
+        });
+        it('should serialize a displayed layer within a hidden group as displayed', () => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            const grouped: MarkerDirective = new MarkerDirective(map, group);
+            group.display = false;
+            const state: IMapState = map.serializeState({layers: {group, grouped}});
+            expect(state.layers.group).to.deep.equal({display: false});
+            expect(state.layers.grouped.display).to.equal(true);
+        });
+        it('should serialize the state of the controls', () => {
+            scaleControl.position = 'topright';
+            expect(map.serializeState(references).controls.scale).to.deep.equal({display: true, position: 'topright'});
+        });
+        it('should serialize the data of GeoJSON layers', () => {
+            drawn.data = FEATURES;
+            expect(map.serializeState(references).geoJSON.drawn.features.length).to.equal(1);
+        });
+        it('should be convertible to JSON', () => {
+            drawn.data = FEATURES;
+            const state: IMapState = map.serializeState(references);
+            expect(JSON.parse(JSON.stringify(state))).to.deep.equal(state);
+        });
+        it('should not serialize zoom limits that are not set in the options', () => {
+            const state: IMapState = map.serializeState();
+            expect(state.view).to.not.have.property('minZoom');
+            expect(state.view).to.not.have.property('maxZoom');
+        });
+    });
+    describe('.restoreState', () => {
+        let state: IMapState;
+        beforeEach(() => {
+            state = {
+                controls: {scale: {display: false, position: 'bottomright'}},
+                geoJSON: {drawn: FEATURES},
+                layers: {marker: {display: true}, tiles: {display: false, opacity: 0.3, zIndex: 7}},
+                version: MAP_STATE_VERSION,
+                view: {lat: 10, lng: 20, maxBounds: [[-50, -50], [50, 50]], maxZoom: 14, minZoom: 1, zoom: 6},
+            };
+        });
+        it('should restore the view', () => {
+            map.restoreState(state);
+            expect(map.getCenter().lat).to.be.closeTo(10, 0.0001);
+            expect(map.getCenter().lng).to.be.closeTo(20, 0.0001);
+            expect(map.zoom).to.equal(6);
+            expect(map.minZoom).to.equal(1);
+            expect(map.maxZoom).to.equal(14);
+            expect(map.maxBounds.equals(latLngBounds([-50, -50], [50, 50]))).to.equal(true);
+        });
+        it('should restore the state of the layers', () => {
+            map.restoreState(state, references);
+            expect(map.hasLayer(marker)).to.equal(true);
+            expect(tileLayer.display).to.equal(false);
+            expect(tileLayer.opacity).to.equal(0.3);
+            expect(tileLayer.zIndex).to.equal(7);
+        });
+        it('should restore a layer into its group instead of the map', () => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            const grouped: MarkerDirective = new MarkerDirective(map, group);
+            group.removeLayer(grouped);
+            group.display = false;
+            state.layers = {grouped: {display: true}};
+            map.restoreState(state, {layers: {grouped}});
+            expect(group.hasLayer(grouped)).to.equal(true);
+            expect(map.hasLayer(grouped)).to.equal(false);
+        });
+        it('should hide a layer directive within its group', () => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            const grouped: MarkerDirective = new MarkerDirective(map, group);
+            state.layers = {grouped: {display: false}};
+            map.restoreState(state, {layers: {grouped}});
+            expect(group.hasLayer(grouped)).to.equal(true);
+            expect(grouped.display).to.equal(false);
+        });
+        it('should restore the state of the controls', () => {
+            map.restoreState(state, references);
+            expect(scaleControl.position).to.equal('bottomright');
+            expect(scaleControl.display).to.equal(false);
+        });
+        it('should restore the data of GeoJSON layers', () => {
+            map.restoreState(state, references);
+            expect(drawn.data.features.length).to.equal(1);
+            expect(drawn.data.features[0].properties.name).to.equal('a');
+        });
+        it('should restore a serialized state', () => {
+            map.setView([10, 20], 5, {animate: false});
+            tileLayer.opacity = 0.5;
+            const serialized: string = JSON.stringify(map.serializeState(references));
+            map.setView([0, 0], 2, {animate: false});
+            tileLayer.opacity = 1;
+            map.restoreState(JSON.parse(serialized), references);
+            expect(map.zoom).to.equal(5);
+            expect(tileLayer.opacity).to.equal(0.5);
+        });
+        it('should keep the zoom levels of the map after a JSON round trip without zoom limits', () => {
+            map.setView([10, 20], 5, {animate: false});
+            const serialized: string = JSON.stringify(map.serializeState(references));
+            map.setView([0, 0], 2, {animate: false});
+            map.restoreState(JSON.parse(serialized), references);
+            expect(map.zoom).to.equal(5);
+            expect(map.options.minZoom).to.equal(undefined);
+            expect(map.options.maxZoom).to.equal(undefined);
+        });
+        it('should keep the zoom limits after a JSON round trip', () => {
+            map.minZoom = 2;
+            map.maxZoom = 12;
+            const serialized: string = JSON.stringify(map.serializeState(references));
+            map.minZoom = 0;
+            map.maxZoom = 18;
+            map.restoreState(JSON.parse(serialized), references);
+            expect(map.minZoom).to.equal(2);
+            expect(map.maxZoom).to.equal(12);
+        });
+        it('should skip zoom limits that are null', () => {
+            map.maxZoom = 12;
+            state.view.minZoom = null;
+            state.view.maxZoom = null;
+            map.restoreState(state);
+            expect(map.maxZoom).to.equal(12);
+            expect(map.zoom).to.equal(6);
+        });
+        it('should throw an error for an unsupported version', () => {
+            state.version = MAP_STATE_VERSION + 1;
+            expect(() => map.restoreState(state)).to.throw('Unsupported map state version');
+        });
+    });
+});
@@ -0,0 +1,210 @@
+import { GenericGeoJSONFeatureCollection } from '@yaga/generic-geojson';
+import {
+    Control,
+    ControlPosition,
+    LatLng,
+    latLngBounds,
+    LatLngBounds,
+    LatLngBoundsLiteral,
+    Layer,
+    Map,
+} from 'leaflet';
+import { GeoJSONDirective } from './geojson.directive';
+import { isLayerDisplayed, setLayerDisplay } from './layer-display';
+
+/**
+ * Version of the document format of `IMapState`. It is increased on incompatible changes of the format.
+ */
+export const MAP_STATE_VERSION: number = 1;
+
+/**
+ * Serialized view of a map. The zoom limits are only stored when they are set in the options of the map.
+ */
+export interface IMapViewState {
+    lat: number;
+    lng: number;
+    zoom: number;
+    minZoom?: number;
+    maxZoom?: number;
+    maxBounds?: LatLngBoundsLiteral;
+}
+
+/**
+ * Serialized state of a layer. Opacity and zIndex are only stored for layers that provide them. The display state of a
+ * layer within a layer group does not depend on the display state of the group.
+ */
+export interface ILayerState {
+    display: boolean;
+    opacity?: number;
+    zIndex?: number;
+}
+
+/**
+ * Serialized state of a control
+ */
+export interface IControlState {
+    display: boolean;
+    position: ControlPosition;
+}
+
+/**
+ * Versioned document with the serialized state of a map, that can be converted to JSON
+ */
+export interface IMapState {
+    version: number;
+    view: IMapViewState;
+    layers: {[name: string]: ILayerState};
+    controls: {[name: string]: IControlState};
+    geoJSON: {[name: string]: GenericGeoJSONFeatureCollection<GeoJSON.GeometryObject, any>};
+}
+
+/**
+ * The layers, controls and GeoJSON layers by their names in a serialized state. Use the same names for serializing
+ * and restoring.
+ */
+export interface IMapStateReferences {
+    layers?: {[name: string]: Layer};
+    controls?: {[name: string]: Control};
+    /**
+     * GeoJSON layers whose data is stored, like the layer with the geometries of the draw control
+     */
+    geoJSON?: {[name: string]: GeoJSONDirective<any>};
+}
+
+/**
+ * Function to check if an object provides a numeric property, like the `opacity` of the layer directives
+ */
+function hasNumber(obj: any, key: string): boolean {
+    return key in obj && typeof obj[key] === 'number' && !isNaN(obj[key]);
+}
+
+/**
+ * Function to check if a value is a finite number. Infinite values are not convertible to JSON and are stored as
+ * `null`.
+ */
+function isFiniteNumber(val: any): boolean {
+    return typeof val === 'number' && isFinite(val);
+}
+
+/**
+ * Function to serialize the view, the given layers, controls and GeoJSON data of a map
+ */
+export function serializeMapState(map: Map, references: IMapStateReferences = {}): IMapState {
+    const center: LatLng = map.getCenter();
+    const maxBounds: LatLngBounds = map.options.maxBounds as LatLngBounds;
+    const state: IMapState = {
+        controls: {},
+        geoJSON: {},
+        layers: {},
+        version: MAP_STATE_VERSION,
+        view: {
+            lat: center.lat,
+            lng: center.lng,
+            zoom: map.getZoom(),
+        },
+    };
+    if (isFiniteNumber(map.options.minZoom)) {
+        state.view.minZoom = map.options.minZoom;
+    }
+    if (isFiniteNumber(map.options.maxZoom)) {
+        state.view.maxZoom = map.options.maxZoom;
+    }
+    if (maxBounds) {
+        state.view.maxBounds = [
+            [maxBounds.getSouth(), maxBounds.getWest()],
+            [maxBounds.getNorth(), maxBounds.getEast()],
+        ];
+    }
+
+    const layers: {[name: string]: Layer} = references.layers || {};
+    for (const name of Object.keys(layers)) {
+        const layer: any = layers[name];
+        state.layers[name] = {
+            display: isLayerDisplayed(map, layer),
+        };
+        if (hasNumber(layer, 'opacity')) {
+            state.layers[name].opacity = layer.opacity;
+        }
+        if (hasNumber(layer, 'zIndex')) {
+            state.layers[name].zIndex = layer.zIndex;
+        }
+    }
+
+    const controls: {[name: string]: Control} = references.controls || {};
+    for (const name of Object.keys(controls)) {
+        const control: any = controls[name];
+        state.controls[name] = {
+            display: !!control._map && ('display' in control ? !!control.display : true),
+            position: control.getPosition(),
+        };
+    }
+
+    const geoJSON: {[name: string]: GeoJSONDirective<any>} = references.geoJSON || {};
+    for (const name of Object.keys(geoJSON)) {
+        state.geoJSON[name] = geoJSON[name].data;
+    }
+    return state;
+}
+
+/**
+ * Function to restore a serialized state onto a map. Layers, controls and GeoJSON layers that are not in the state
+ * are not changed. It throws an error for an unsupported version of the state.
+ */
+export function restoreMapState(map: Map, state: IMapState, references: IMapStateReferences = {}): void {
+    if (!state || state.version !== MAP_STATE_VERSION) {
+        throw new Error('Unsupported map state version: ' + (state && state.version));
+    }
+
+    const view: IMapViewState = state.view;
+    if (isFiniteNumber(view.minZoom)) {
+        map.setMinZoom(view.minZoom);
+    }
+    if (isFiniteNumber(view.maxZoom)) {
+        map.setMaxZoom(view.maxZoom);
+    }
+    map.setMaxBounds(view.maxBounds ? latLngBounds(view.maxBounds) : undefined);
+    map.setView([view.lat, view.lng], view.zoom, {animate: false});
+
+    const layers: {[name: string]: Layer} = references.layers || {};
+    for (const name of Object.keys(layers)) {
+        const layerState: ILayerState = state.layers[name];
+        const layer: any = layers[name];
+        if (!layerState) {
+            continue;
+        }
+        setLayerDisplay(map, layer, layerState.display);
+        if (layerState.opacity !== undefined && 'opacity' in layer) {
+            layer.opacity = layerState.opacity;
+        }
+        if (layerState.zIndex !== undefined && 'zIndex' in layer) {
+            layer.zIndex = layerState.zIndex;
+        }
+    }
+
+    const controls: {[name: string]: Control} = references.controls || {};
+    for (const name of Object.keys(controls)) {
+        const controlState: IControlState = state.controls[name];
+        const control: any = controls[name];
+        if (!controlState) {
+            continue;
+        }
+        if (control.getPosition() !== controlState.position) {
+            control.setPosition(controlState.position);
+        }
+        if (controlState.display && !control._map) {
+            map.addControl(control);
+        }
+        if ('display' in control && control._map) {
+            control.display = controlState.display;
+        } else if (!controlState.display && control._map) {
+            map.removeControl(control);
+        }
+    }
+
+    const geoJSON: {[name: string]: GeoJSONDirective<any>} = references.geoJSON || {};
+    for (const name of Object.keys(geoJSON)) {
+        if (state.geoJSON[name]) {
+            geoJSON[name].data = state.geoJSON[name];
+        }
+    }
+}
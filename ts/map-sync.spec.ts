@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { latLng, Map, point } from 'leaflet';
+import { MapSync } from './index';
+
+describe('Map-Sync', () => {
+    let sync: MapSync;
+    let mapA: Map;
+    let mapB: Map;
+
+    function createMap(): Map {
+        const map: Map = new Map(document.createElement('div'));
+        (map as any)._size = point(100, 100);
+        map.setView([0, 0], 0);
+        return map;
+    }
+
+    beforeEach(() => {
+        sync = new MapSync();
+        mapA = createMap();
+        mapB = createMap();
+    });
+
+    describe('.addMap', () => {
+        it('should add the map to the group', () => {
+            sync.addMap(mapA);
+            expect(sync.hasMap(mapA)).to.equal(true);
+            expect(sync.getMaps()).to.deep.equal([mapA]);
+        });
+        it('should set the view of the group on the added map', () => {
+            mapA.setView([10, 20], 5, {animate: false});
+            sync.addMap(mapA);
+            sync.addMap(mapB);
+            expect(mapB.getCenter().lat).to.be.closeTo(10, 0.0001);
+            expect(mapB.getCenter().lng).to.be.closeTo(20, 0.0001);
+            expect(mapB.getZoom()).to.equal(5);
+        });
+        it('should not add a map twice', () => {
+            sync.addMap(mapA);
+            sync.addMap(mapA);
+            expect(sync.getMaps().length).to.equal(1);
+        });
+    });
+    describe('.removeMap', () => {
+        it('should stop synchronizing the map', () => {
+            sync.addMap(mapA);
+            sync.addMap(mapB);
+            sync.removeMap(mapB);
+            mapA.setView([10, 20], 5, {animate: false});
+            expect(sync.hasMap(mapB)).to.equal(false);
+            expect(mapB.getZoom()).to.equal(0);
+        });
+    });
+    describe('Synchronization', () => {
+        beforeEach(() => {
+            sync.addMap(mapA);
+            sync.addMap(mapB);
+        });
+        it('should synchronize the view of all maps', () => {
+            mapB.setView([10, 20], 5, {animate: false});
+            expect(mapA.getCenter().lat).to.be.closeTo(10, 0.0001);
+            expect(mapA.getCenter().lng).to.be.closeTo(20, 0.0001);
+            expect(mapA.getZoom()).to.equal(5);
+        });
+        it('should not propagate the moves caused by the synchronization', () => {
+            let count: number = 0;
+            const syncFrom: (map: Map) => void = sync.syncFrom.bind(sync);
+            sync.syncFrom = (map: Map): void => {
+                count += 1;
+                syncFrom(map);
+            };
+            mapA.setView([10, 20], 5, {animate: false});
+            expect(count).to.equal(1);
+        });
+        it('should not propagate later moves to the synchronized view', () => {
+            mapA.setView([10, 20], 5, {animate: false});
+            sync.syncFrom = (): void => {
+                throw new Error('This should not happen');
+            };
+            mapB.fire('move');
+        });
+    });
+    describe('Options', () => {
+        it('should apply the zoom offset', () => {
+            sync.addMap(mapA);
+            sync.addMap(mapB, {zoomOffset: -2});
+            mapA.setView([0, 0], 6, {animate: false});
+            expect(mapB.getZoom()).to.equal(4);
+            mapB.setView([0, 0], 1, {animate: false});
+            expect(mapA.getZoom()).to.equal(3);
+        });
+        it('should apply the center offset in pixels', () => {
+            sync.addMap(mapA);
+            sync.addMap(mapB, {offset: point(10, 0)});
+            mapA.setView([0, 0], 5, {animate: false});
+            const expected: number = mapA.unproject(mapA.project(latLng(0, 0), 5).add([10, 0]), 5).lng;
+            expect(mapB.getCenter().lng).to.be.closeTo(expected, 0.0001);
+        });
+        it('should apply changed options', () => {
+            sync.addMap(mapA);
+            sync.addMap(mapB);
+            mapA.setView([0, 0], 6, {animate: false});
+            sync.setOptions(mapB, {zoomOffset: 1});
+            expect(mapB.getZoom()).to.equal(7);
+        });
+    });
+    describe('Cursor', () => {
+        beforeEach(() => {
+            sync.addMap(mapA);
+            sync.addMap(mapB, {cursor: true});
+        });
+        it('should display the cursor of the other maps', () => {
+            mapA.fire('mousemove', {latlng: latLng(1, 2)});
+            let found: boolean = false;
+            mapB.eachLayer((layer: any) => {
+                found = found || (layer.getLatLng && layer.getLatLng().equals([1, 2]));
+            });
+            expect(found).to.equal(true);
+        });
+        it('should not display the cursor on maps without the cursor option', () => {
+            mapB.fire('mousemove', {latlng: latLng(1, 2)});
+            mapA.eachLayer(() => {
+                throw new Error('This should not happen');
+            });
+        });
+        it('should remove the cursor when the mouse leaves the other map', () => {
+            mapA.fire('mousemove', {latlng: latLng(1, 2)});
+            mapA.fire('mouseout', {latlng: latLng(1, 2)});
+            mapB.eachLayer(() => {
+                throw new Error('This should not happen');
+            });
+        });
+    });
+});
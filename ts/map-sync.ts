@@ -0,0 +1,203 @@
+import {
+    DivIcon,
+    LatLng,
+    LeafletEvent,
+    LeafletMouseEvent,
+    Map,
+    Marker,
+    point,
+    Point,
+} from 'leaflet';
+
+/**
+ * Options of a map within a `MapSync` group
+ */
+export interface IMapSyncOptions {
+    /**
+     * Difference of the zoom level of this map to the one of the group
+     */
+    zoomOffset?: number;
+    /**
+     * Offset of the center of this map to the one of the group in pixels
+     */
+    offset?: Point;
+    /**
+     * Display the position of the cursor on the other maps of the group as crosshair on this map
+     */
+    cursor?: boolean;
+}
+
+/**
+ * A member of a `MapSync` group
+ */
+export interface IMapSyncMember {
+    map: Map;
+    options: IMapSyncOptions;
+    cursorMarker?: Marker;
+    /**
+     * The view that was set by the group. A move to this view is an echo of the synchronization and is not
+     * propagated again.
+     */
+    syncedCenter?: LatLng;
+    syncedZoom?: number;
+}
+
+/**
+ * Group of maps that share the same center and zoom level.
+ *
+ * A map that moves sets the view of all other maps of the group without animation. Moves of the other maps, that are
+ * caused by the synchronization, are not propagated again. This also applies to moves, that arrive later with the
+ * same view, like the debounced two-way bindings of the `MapComponent`.
+ */
+export class MapSync {
+    protected members: IMapSyncMember[] = [];
+
+    private syncing: boolean = false;
+
+    /**
+     * Adds a map to the group. The map takes over the view of the group.
+     */
+    public addMap(map: Map, options: IMapSyncOptions = {}): void {
+        if (this.getMember(map)) {
+            this.setOptions(map, options);
+            return;
+        }
+        this.members.push({map, options});
+        map.on('move', this.onMove, this);
+        map.on('mousemove', this.onMouseMove, this);
+        map.on('mouseout', this.onMouseOut, this);
+        if (this.members.length > 1) {
+            this.syncFrom(this.members[0].map);
+        }
+    }
+
+    /**
+     * Removes a map from the group
+     */
+    public removeMap(map: Map): void {
+        const member: IMapSyncMember = this.getMember(map);
+        if (!member) {
+            return;
+        }
+        map.off('move', this.onMove, this);
+        map.off('mousemove', this.onMouseMove, this);
+        map.off('mouseout', this.onMouseOut, this);
+        this.hideCursor(member);
+        this.members.splice(this.members.indexOf(member), 1);
+    }
+
+    /**
+     * Changes the options of a map of the group and applies them to its view
+     */
+    public setOptions(map: Map, options: IMapSyncOptions): void {
+        const member: IMapSyncMember = this.getMember(map);
+        if (!member) {
+            return;
+        }
+        member.options = options;
+        if (!options.cursor) {
+            this.hideCursor(member);
+        }
+        const source: IMapSyncMember = this.members.filter((other: IMapSyncMember) => other !== member)[0];
+        if (source) {
+            this.syncFrom(source.map);
+        }
+    }
+
+    public hasMap(map: Map): boolean {
+        return !!this.getMember(map);
+    }
+
+    public getMaps(): Map[] {
+        return this.members.map((member: IMapSyncMember) => member.map);
+    }
+
+    /**
+     * Sets the view of all other maps of the group to the one of the given map
+     */
+    public syncFrom(map: Map): void {
+        const source: IMapSyncMember = this.getMember(map);
+        if (!source || this.syncing) {
+            return;
+        }
+        const zoom: number = map.getZoom() - (source.options.zoomOffset || 0);
+        const center: LatLng = this.shift(map, map.getCenter(), map.getZoom(), source.options.offset, -1);
+
+        this.syncing = true;
+        for (const member of this.members) {
+            if (member === source) {
+                continue;
+            }
+            const memberZoom: number = zoom + (member.options.zoomOffset || 0);
+            const memberCenter: LatLng = this.shift(member.map, center, memberZoom, member.options.offset, 1);
+            member.map.setView(memberCenter, memberZoom, {animate: false});
+            member.syncedCenter = member.map.getCenter();
+            member.syncedZoom = member.map.getZoom();
+        }
+        this.syncing = false;
+    }
+
+    protected getMember(map: Map): IMapSyncMember {
+        return this.members.filter((member: IMapSyncMember) => member.map === map)[0];
+    }
+
+    protected onMove(event: LeafletEvent): void {
+        const member: IMapSyncMember = this.getMember(event.target);
+        if (this.syncing || !member) {
+            return;
+        }
+        if (
+            member.syncedCenter &&
+            member.syncedCenter.equals(member.map.getCenter()) &&
+            member.syncedZoom === member.map.getZoom()
+        ) {
+            return;
+        }
+        member.syncedCenter = undefined;
+        member.syncedZoom = undefined;
+        this.syncFrom(member.map);
+    }
+
+    protected onMouseMove(event: LeafletMouseEvent): void {
+        for (const member of this.members) {
+            if (member.map === event.target || !member.options.cursor) {
+                continue;
+            }
+            if (!member.cursorMarker) {
+                member.cursorMarker = new Marker(event.latlng, {
+                    icon: new DivIcon({className: 'yaga-map-sync-cursor', iconSize: point(20, 20)}),
+                    interactive: false,
+                    keyboard: false,
+                });
+            }
+            member.cursorMarker.setLatLng(event.latlng);
+            if (!member.map.hasLayer(member.cursorMarker)) {
+                member.map.addLayer(member.cursorMarker);
+            }
+        }
+    }
+
+    protected onMouseOut(event: LeafletMouseEvent): void {
+        for (const member of this.members) {
+            if (member.map !== event.target) {
+                this.hideCursor(member);
+            }
+        }
+    }
+
+    protected hideCursor(member: IMapSyncMember): void {
+        if (member.cursorMarker && member.map.hasLayer(member.cursorMarker)) {
+            member.map.removeLayer(member.cursorMarker);
+        }
+    }
+
+    /**
+     * Shifts a position by an offset in pixels on the given zoom level of a map
+     */
+    private shift(map: Map, latLng: LatLng, zoom: number, offset: Point, direction: number): LatLng {
+        if (!offset) {
+            return latLng;
+        }
+        return map.unproject(map.project(latLng, zoom).add(point(offset).multiplyBy(direction)), zoom);
+    }
+}
@@ -1,6 +1,7 @@
+import { NgZone } from '@angular/core';
 import { expect } from 'chai';
 import { latLng, latLngBounds, point } from 'leaflet';
-import { LatLngBounds, MapComponent } from './index';
+import { LatLngBounds, MapComponent, MapService } from './index';
 
 describe('Map Component', () => {
     let map: MapComponent;
@@ -672,6 +673,285 @@ describe('Map Component', () => {
             map.fire('zoomanim', testEvent);
         });
     });
+    describe('(locationfound)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle, latlng: {lat: 1, lng: 1}, accuracy: 10 };
+            map.locationfoundEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testEvent.testHandle);
+                return done();
+            });
+            map.fire('locationfound', testEvent);
+        });
+    });
+    describe('(locationerror)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle, code: 1, message: 'denied' };
+            map.locationerrorEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testEvent.testHandle);
+                return done();
+            });
+            map.fire('locationerror', testEvent);
+        });
+    });
+    describe('(dragstart)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            map.dragstartEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testEvent.testHandle);
+                return done();
+            });
+            map.fire('dragstart', testEvent);
+        });
+    });
+    describe('(drag)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            map.dragEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testEvent.testHandle);
+                return done();
+            });
+            map.fire('drag', testEvent);
+        });
+    });
+    describe('(dragend)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            map.dragendEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testEvent.testHandle);
+                return done();
+            });
+            map.fire('dragend', testEvent);
+        });
+    });
+
+    describe('[id]', () => {
+        let mapService: MapService;
+        beforeEach(() => {
+            mapService = new MapService();
+            map = new MapComponent({nativeElement: document.createElement('div')}, mapService);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            map.id = 'main';
+            expect(map.id).to.equal('main');
+        });
+        it('should register the map in the map service', () => {
+            map.id = 'main';
+            expect(mapService.get('main')).to.equal(map);
+        });
+        it('should register the map again with a changed id', () => {
+            map.id = 'main';
+            map.id = 'other';
+            expect(mapService.get('main')).to.equal(undefined);
+            expect(mapService.get('other')).to.equal(map);
+        });
+        it('should unregister the map on destroy', () => {
+            map.id = 'main';
+            map.ngOnDestroy();
+            expect(mapService.get('main')).to.equal(undefined);
+        });
+        it('should keep a new map with the same id, when the old map gets destroyed', () => {
+            const newMap: MapComponent = new MapComponent({nativeElement: document.createElement('div')}, mapService);
+            map.id = 'main';
+            newMap.id = 'main';
+            map.ngOnDestroy();
+            expect(mapService.get('main')).to.equal(newMap);
+        });
+        it('should be usable without a map service', () => {
+            map = new MapComponent({nativeElement: document.createElement('div')});
+            map.id = 'main';
+            expect(map.id).to.equal('main');
+        });
+    });
+    describe('[outputThrottle]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            map.outputThrottle = {mousemove: 50};
+            expect(map.outputThrottle).to.deep.equal({mousemove: 50});
+        });
+        it('should throttle the output', () => {
+            let count: number = 0;
+            map.outputThrottle = {mousemove: 1000};
+            map.mousemoveEvent.subscribe(() => {
+                count += 1;
+            });
+            map.fire('mousemove', {latlng: latLng(0, 0)});
+            map.fire('mousemove', {latlng: latLng(1, 1)});
+            map.ngOnDestroy();
+            expect(count).to.equal(1);
+        });
+    });
+    describe('NgZone', () => {
+        let zone: any;
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            map = new MapComponent({nativeElement: document.createElement('div')}, undefined, zone as NgZone);
+            zone.inside = false;
+        });
+        it('should enable the handlers outside of the zone', () => {
+            zone.inside = true;
+            map.dragging.disable();
+            const left: number = zone.left;
+            map.dragging.enable();
+            expect(zone.left).to.equal(left + 1);
+        });
+        it('should handle DOM events of the map once', () => {
+            let count: number = 0;
+            (map as any)._loaded = true;
+            map.on('click', () => {
+                count += 1;
+            });
+            map.getContainer().dispatchEvent(new MouseEvent('click', {bubbles: true}));
+            expect(count).to.equal(1);
+        });
+        it('should handle DOM events of the map outside of the zone', () => {
+            let inside: boolean = true;
+            (map as any)._loaded = true;
+            map.on('click', () => {
+                inside = zone.inside;
+            });
+            map.getContainer().dispatchEvent(new MouseEvent('click', {bubbles: true}));
+            expect(inside).to.equal(false);
+        });
+        it('should fire events outside of the zone', () => {
+            let inside: boolean = true;
+            map.on('moveend', () => {
+                inside = zone.inside;
+            });
+            map.fire('moveend');
+            expect(inside).to.equal(false);
+        });
+        it('should only enter the zone for outputs with subscribers', () => {
+            let inside: boolean = false;
+            const entered: number = zone.entered;
+            map.fire('click', {latlng: latLng(0, 0)});
+            expect(zone.entered).to.equal(entered);
+            map.clickEvent.subscribe(() => {
+                inside = zone.inside;
+            });
+            map.fire('click', {latlng: latLng(0, 0)});
+            expect(inside).to.equal(true);
+        });
+        it('should only enter the zone for frequent outputs with subscribers', () => {
+            let inside: boolean = false;
+            const entered: number = zone.entered;
+            map.fire('mousemove', {latlng: latLng(0, 0)});
+            expect(zone.entered).to.equal(entered);
+            map.mousemoveEvent.subscribe(() => {
+                inside = zone.inside;
+            });
+            map.fire('mousemove', {latlng: latLng(0, 0)});
+            expect(inside).to.equal(true);
+        });
+    });
+    describe('[syncWith]', () => {
+        let otherMap: MapComponent;
+        beforeEach(() => {
+            otherMap = new MapComponent({nativeElement: document.createElement('div')});
+            (map as any)._size = (otherMap as any)._size = point(100, 100);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            map.syncWith = otherMap;
+            expect(map.syncWith).to.equal(otherMap);
+        });
+        it('should take over the view of the other map', () => {
+            otherMap.setView([10, 20], 5, {animate: false});
+            map.syncWith = otherMap;
+            expect(map.getCenter().lat).to.be.closeTo(10, 0.0001);
+            expect(map.getCenter().lng).to.be.closeTo(20, 0.0001);
+            expect(map.getZoom()).to.equal(5);
+        });
+        it('should synchronize the view in both directions', () => {
+            map.syncWith = otherMap;
+            map.setView([10, 20], 5, {animate: false});
+            expect(otherMap.getCenter().lat).to.be.closeTo(10, 0.0001);
+            expect(otherMap.getZoom()).to.equal(5);
+            otherMap.setView([-10, -20], 3, {animate: false});
+            expect(map.getCenter().lat).to.be.closeTo(-10, 0.0001);
+            expect(map.getZoom()).to.equal(3);
+        });
+        it('should share one sync group between maps synchronized with the same map', () => {
+            const thirdMap: MapComponent = new MapComponent({nativeElement: document.createElement('div')});
+            (thirdMap as any)._size = point(100, 100);
+            map.syncWith = otherMap;
+            thirdMap.syncWith = otherMap;
+            map.setView([10, 20], 5, {animate: false});
+            expect(thirdMap.getZoom()).to.equal(5);
+        });
+        it('should stop synchronizing when unsetting', () => {
+            map.syncWith = otherMap;
+            map.syncWith = undefined;
+            map.setView([10, 20], 5, {animate: false});
+            expect(otherMap.getZoom()).to.equal(0);
+        });
+        it('should stop synchronizing on destroy', () => {
+            map.syncWith = otherMap;
+            map.ngOnDestroy();
+            otherMap.setView([10, 20], 5, {animate: false});
+            expect(map.getZoom()).to.equal(0);
+        });
+    });
+    describe('[syncOptions]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            map.syncOptions = {zoomOffset: -2};
+            expect(map.syncOptions.zoomOffset).to.equal(-2);
+        });
+        it('should be applied to the synchronized view', () => {
+            const otherMap: MapComponent = new MapComponent({nativeElement: document.createElement('div')});
+            (map as any)._size = (otherMap as any)._size = point(100, 100);
+            map.syncWith = otherMap;
+            map.syncOptions = {zoomOffset: -2};
+            otherMap.setView([0, 0], 5, {animate: false});
+            expect(map.getZoom()).to.equal(3);
+        });
+    });
+    describe('.back / .forward', () => {
+        beforeEach(() => {
+            map.ngAfterViewInit();
+        });
+        it('should navigate through the views of the map', () => {
+            map.setView([10, 20], 5, {animate: false});
+            expect(map.back()).to.equal(true);
+            expect(map.getZoom()).to.equal(0);
+            expect(map.forward()).to.equal(true);
+            expect(map.getZoom()).to.equal(5);
+            expect(map.forward()).to.equal(false);
+        });
+        it('should not record the views before the initialization of the view', () => {
+            const initialized: MapComponent = new MapComponent({nativeElement: document.createElement('div')});
+            initialized.lat = 10;
+            initialized.lng = 20;
+            initialized.zoom = 5;
+            initialized.ngAfterViewInit();
+            expect(initialized.viewHistory.getEntries().length).to.equal(1);
+            expect(initialized.viewHistory.getEntries()[0].zoom).to.equal(5);
+            expect(initialized.back()).to.equal(false);
+        });
+        it('should stop recording views on destroy', () => {
+            map.ngOnDestroy();
+            map.setView([10, 20], 5, {animate: false});
+            expect(map.back()).to.equal(false);
+        });
+    });
 
     describe('[closePopupOnClick]', () => {
         it('should be changed to false in Leaflet when changing in Angular to false', () => {
@@ -5,9 +5,15 @@ import {
     EventEmitter,
     Inject,
     Input,
+    NgZone,
+    OnDestroy,
+    Optional,
     Output,
 } from '@angular/core';
 import {
+    DragEndEvent,
+    ErrorEvent,
+    Handler,
     LatLng,
     LatLngBounds,
     LatLngBoundsExpression,
@@ -17,6 +23,7 @@ import {
     LeafletEvent,
     LeafletKeyboardEvent,
     LeafletMouseEvent,
+    LocationEvent,
     Map,
     PopupEvent,
     ResizeEvent,
@@ -24,6 +31,16 @@ import {
     ZoomAnimEvent,
 } from 'leaflet';
 import { ANIMATION_DELAY } from './consts';
+import {
+    IMapState,
+    IMapStateReferences,
+    restoreMapState,
+    serializeMapState,
+} from './map-state';
+import { IMapSyncOptions, MapSync } from './map-sync';
+import { MapService } from './map.service';
+import { ViewHistory } from './view-history';
+import { ZoneEmitter } from './zone-emitter';
 
 /**
  * Angular2 root component for a Leaflet map
@@ -72,6 +89,11 @@ import { ANIMATION_DELAY } from './consts';
  *     (keypress)="..."
  *     (preclick)="..."
  *     (zoomanim)="..."
+ *     (locationfound)="..."
+ *     (locationerror)="..."
+ *     (dragstart)="..."
+ *     (drag)="..."
+ *     (dragend)="..."
  *
  *     [closePopupOnClick]="..."
  *     [zoomSnap]="..."
@@ -99,7 +121,11 @@ import { ANIMATION_DELAY } from './consts';
  *     [tapEnabled]="..."
  *     [tapTolerance]="..."
  *     [bounceAtZoomLimits]="..."
- *     [touchZoomEnabled]="...">
+ *     [touchZoomEnabled]="..."
+ *     [syncWith]="..."
+ *     [syncOptions]="..."
+ *     [id]="..."
+ *     [outputThrottle]="...">
  *     <!-- other yaga directives -->
  * </yaga-map>
  * ```
@@ -107,19 +133,43 @@ import { ANIMATION_DELAY } from './consts';
  * You can use the following directives as child of this one:
  *
  * * yaga-attribution-control
+ * * yaga-bookmarks-control
  * * yaga-circle
  * * yaga-circle-marker
+ * * yaga-control
+ * * yaga-coordinates-control
+ * * yaga-draw-control
+ * * yaga-feature-group
+ * * yaga-fullscreen-control
  * * yaga-geojson
+ * * yaga-history-control
  * * yaga-image-overlay
+ * * yaga-layer-group
+ * * yaga-layers-control
+ * * yaga-legend-control
+ * * yaga-locate-control
+ * * yaga-map-hash
  * * yaga-marker
+ * * yaga-marker-cluster
+ * * yaga-measure-control
+ * * yaga-minimap-control
  * * yaga-polygon
  * * yaga-polyline
  * * yaga-rectangle
  * * yaga-scale-control
+ * * yaga-side-by-side
  * * yaga-tile-layer
+ * * yaga-user-location
  * * yaga-wms-layer
  * * yaga-zoom-control
  *
+ * The DOM listeners and handlers of Leaflet run outside of the Angular zone. The outputs of the map and of its layers
+ * only enter the zone when they have subscribers. Frequent outputs, like `mousemove` and `move`, can be throttled with
+ * `outputThrottle`.
+ *
+ * With an `id` the map is registered in the injectable `MapService`, that provides observables of its view, bounds,
+ * clicks and layers for services and components outside of the map.
+ *
  * @link http://leafletjs.com/reference-1.0.3.html#tilelayer Original Leaflet documentation
  * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Tile-Layer%20Directive Unit-Test
  * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/tile-layer.directive.js.html Test coverage
@@ -130,7 +180,7 @@ import { ANIMATION_DELAY } from './consts';
     selector: 'yaga-map',
     template: `<span style="display: none"><ng-content></ng-content></span>`,
 })
-export class MapComponent extends Map implements AfterViewInit {
+export class MapComponent extends Map implements AfterViewInit, OnDestroy {
     /**
      * Two-Way bound property for the zoom.
      * Use it with `<yaga-map [(zoom)]="someValue">` or `<yaga-map (zoomChange)="processEvent($event)">`
@@ -361,30 +411,77 @@ export class MapComponent extends Map implements AfterViewInit {
      * @link http://leafletjs.com/reference-1.0.3.html#map-zoomanim Original Leaflet documentation
      */
     @Output('zoomanim') public zoomanimEvent: EventEmitter<ZoomAnimEvent> = new EventEmitter();
+    /**
+     * From leaflet fired locationfound event.
+     * Use it with `<yaga-map (locationfound)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-locationfound Original Leaflet documentation
+     */
+    @Output('locationfound') public locationfoundEvent: EventEmitter<LocationEvent> = new EventEmitter();
+    /**
+     * From leaflet fired locationerror event.
+     * Use it with `<yaga-map (locationerror)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-locationerror Original Leaflet documentation
+     */
+    @Output('locationerror') public locationerrorEvent: EventEmitter<ErrorEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dragstart event.
+     * Use it with `<yaga-map (dragstart)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-dragstart Original Leaflet documentation
+     */
+    @Output('dragstart') public dragstartEvent: EventEmitter<Event> = new EventEmitter();
+    /**
+     * From leaflet fired drag event.
+     * Use it with `<yaga-map (drag)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-drag Original Leaflet documentation
+     */
+    @Output('drag') public dragEvent: EventEmitter<Event> = new EventEmitter();
+    /**
+     * From leaflet fired dragend event.
+     * Use it with `<yaga-map (dragend)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-dragend Original Leaflet documentation
+     */
+    @Output('dragend') public dragendEvent: EventEmitter<DragEndEvent> = new EventEmitter();
+
+    /**
+     * Navigation history of the views of the map. It starts with the view after the initialization of the component.
+     */
+    public viewHistory: ViewHistory;
 
     protected domRoot: HTMLElement;
     protected mapDomRoot: HTMLElement;
+    protected mapService: MapService;
+    protected zoneEmitter: ZoneEmitter;
 
     private moveTimeout: any;
     private isZooming: boolean = false;
+    private syncGroup: MapSync;
+    private syncMap: MapComponent;
+    private syncOpts: IMapSyncOptions = {};
+    private mapId: string;
 
     constructor(
         @Inject(ElementRef) elementRef: ElementRef,
+        @Optional() @Inject(MapService) mapService?: MapService,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         super(document.createElement('div'), { attributionControl: false, zoomControl: false});
+        this.mapService = mapService;
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+        this.listenOutsideZone();
 
         const moveFn: () => any = () => {
             if (this.isZooming) {
                 this.moveTimeout = setTimeout(moveFn, ANIMATION_DELAY);
                 return;
             }
-            this.latChange.emit(this.lat);
-            this.lngChange.emit(this.lng);
-            this.zoomChange.emit(this.zoom);
+            this.zoneEmitter.emit(this.latChange, this.lat);
+            this.zoneEmitter.emit(this.lngChange, this.lng);
+            this.zoneEmitter.emit(this.zoomChange, this.zoom);
             this.moveTimeout = undefined;
         };
 
         this.setView([0, 0], 0);
+        this.viewHistory = new ViewHistory(this, this.zoneEmitter);
 
         this.domRoot = elementRef.nativeElement;
         this.mapDomRoot = (this as any)._container;
@@ -408,100 +505,115 @@ export class MapComponent extends Map implements AfterViewInit {
         });
 
         this.on('baselayerchange', (event: LayersControlEvent) => {
-            this.baselayerchangeEvent.emit(event);
+            this.zoneEmitter.emit(this.baselayerchangeEvent, event, 'baselayerchange');
         });
         this.on('overlayadd', (event: LayersControlEvent) => {
-            this.overlayaddEvent.emit(event);
+            this.zoneEmitter.emit(this.overlayaddEvent, event, 'overlayadd');
         });
         this.on('overlayremove', (event: LayersControlEvent) => {
-            this.overlayremoveEvent.emit(event);
+            this.zoneEmitter.emit(this.overlayremoveEvent, event, 'overlayremove');
         });
         this.on('layeradd', (event: LayerEvent) => {
-            this.layeraddEvent.emit(event);
+            this.zoneEmitter.emit(this.layeraddEvent, event, 'layeradd');
         });
         this.on('layerremove', (event: LayerEvent) => {
-            this.layerremoveEvent.emit(event);
+            this.zoneEmitter.emit(this.layerremoveEvent, event, 'layerremove');
         });
         this.on('zoomlevelschange', (event: Event) => {
-            this.zoomlevelschangeEvent.emit(event);
+            this.zoneEmitter.emit(this.zoomlevelschangeEvent, event, 'zoomlevelschange');
         });
         this.on('resize', (event: ResizeEvent) => {
-            this.resizeEvent.emit(event);
+            this.zoneEmitter.emit(this.resizeEvent, event, 'resize');
         });
         this.on('unload', (event: Event) => {
-            this.unloadEvent.emit(event);
+            this.zoneEmitter.emit(this.unloadEvent, event, 'unload');
         });
         this.on('viewreset', (event: Event) => {
-            this.viewresetEvent.emit(event);
+            this.zoneEmitter.emit(this.viewresetEvent, event, 'viewreset');
         });
         this.on('load', (event: Event) => {
-            this.loadEvent.emit(event);
+            this.zoneEmitter.emit(this.loadEvent, event, 'load');
         });
         this.on('zoomstart', (event: Event) => {
-            this.zoomstartEvent.emit(event);
+            this.zoneEmitter.emit(this.zoomstartEvent, event, 'zoomstart');
         });
         this.on('movestart', (event: Event) => {
-            this.movestartEvent.emit(event);
+            this.zoneEmitter.emit(this.movestartEvent, event, 'movestart');
         });
         this.on('zoom', (event: Event) => {
-            this.zoomEvent.emit(event);
+            this.zoneEmitter.emit(this.zoomEvent, event, 'zoom');
         });
         this.on('move', (event: Event) => {
-            this.moveEvent.emit(event);
+            this.zoneEmitter.emit(this.moveEvent, event, 'move');
         });
         this.on('zoomend', (event: Event) => {
-            this.zoomendEvent.emit(event);
+            this.zoneEmitter.emit(this.zoomendEvent, event, 'zoomend');
         });
         this.on('moveend', (event: Event) => {
-            this.moveendEvent.emit(event);
+            this.zoneEmitter.emit(this.moveendEvent, event, 'moveend');
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event, 'popupopen');
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event, 'popupclose');
         });
         this.on('autopanstart', (event: Event) => {
-            this.autopanstartEvent.emit(event);
+            this.zoneEmitter.emit(this.autopanstartEvent, event, 'autopanstart');
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event, 'tooltipopen');
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event, 'tooltipclose');
         });
         this.on('click', (event: LeafletMouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event, 'click');
         });
         this.on('dblclick', (event: LeafletMouseEvent) => {
-            this.dblclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dblclickEvent, event, 'dblclick');
         });
         this.on('mousedown', (event: LeafletMouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event, 'mousedown');
         });
         this.on('mouseup', (event: LeafletMouseEvent) => {
-            this.mouseupEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseupEvent, event, 'mouseup');
         });
         this.on('mouseover', (event: LeafletMouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event, 'mouseover');
         });
         this.on('mouseout', (event: LeafletMouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event, 'mouseout');
         });
         this.on('mousemove', (event: LeafletMouseEvent) => {
-            this.mousemoveEvent.emit(event);
+            this.zoneEmitter.emit(this.mousemoveEvent, event, 'mousemove');
         });
         this.on('contextmenu', (event: LeafletMouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event, 'contextmenu');
         });
         this.on('keypress', (event: LeafletKeyboardEvent) => {
-            this.keypressEvent.emit(event);
+            this.zoneEmitter.emit(this.keypressEvent, event, 'keypress');
         });
         this.on('preclick', (event: LeafletMouseEvent) => {
-            this.preclickEvent.emit(event);
+            this.zoneEmitter.emit(this.preclickEvent, event, 'preclick');
         });
         this.on('zoomanim', (event: ZoomAnimEvent) => {
-            this.zoomanimEvent.emit(event);
+            this.zoneEmitter.emit(this.zoomanimEvent, event, 'zoomanim');
+        });
+        this.on('locationfound', (event: LocationEvent) => {
+            this.zoneEmitter.emit(this.locationfoundEvent, event, 'locationfound');
+        });
+        this.on('locationerror', (event: ErrorEvent) => {
+            this.zoneEmitter.emit(this.locationerrorEvent, event, 'locationerror');
+        });
+        this.on('dragstart', (event: Event) => {
+            this.zoneEmitter.emit(this.dragstartEvent, event, 'dragstart');
+        });
+        this.on('drag', (event: Event) => {
+            this.zoneEmitter.emit(this.dragEvent, event, 'drag');
+        });
+        this.on('dragend', (event: DragEndEvent) => {
+            this.zoneEmitter.emit(this.dragendEvent, event, 'dragend');
         });
 
     }
@@ -514,6 +626,49 @@ export class MapComponent extends Map implements AfterViewInit {
         this.domRoot.appendChild(this.mapDomRoot);
 
         this.invalidateSize(false);
+        // Discard the initial view and the views while setting the inputs, so that the history starts here
+        this.viewHistory.clear();
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component. It removes the map from its sync group.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        this.syncWith = undefined;
+        this.id = undefined;
+        this.viewHistory.destroy();
+        this.zoneEmitter.destroy();
+    }
+
+    /**
+     * Self written method to move the map to the previous view of its history
+     */
+    public back(): boolean {
+        return this.viewHistory.back();
+    }
+
+    /**
+     * Self written method to move the map to the next view of its history
+     */
+    public forward(): boolean {
+        return this.viewHistory.forward();
+    }
+
+    /**
+     * Self written method to serialize the view of the map and the state of the given layers, controls and GeoJSON
+     * layers into a versioned document, that can be stored as JSON.
+     */
+    public serializeState(references: IMapStateReferences = {}): IMapState {
+        return serializeMapState(this, references);
+    }
+
+    /**
+     * Self written method to restore a document from `serializeState` onto the map. Use the same names for the
+     * references as for serializing.
+     */
+    public restoreState(state: IMapState, references: IMapStateReferences = {}): void {
+        restoreMapState(this, state, references);
     }
     /*setZoom(zoom: number, options?: ZoomPanOptions): this {
      if (this.zoom === zoom) {
@@ -974,4 +1129,92 @@ export class MapComponent extends Map implements AfterViewInit {
     public get touchZoomEnabled(): boolean {
         return this.touchZoom.enabled();
     }
+
+    /**
+     * Input for the id of the map, with which it is registered in the `MapService`.
+     * Use it with `<yaga-map id="someValue">` or `<yaga-map [id]="someValue">`
+     */
+    @Input() public set id(val: string) {
+        if (this.mapService && this.mapId) {
+            this.mapService.unregister(this.mapId, this);
+        }
+        this.mapId = val;
+        if (this.mapService && val) {
+            this.mapService.register(val, this);
+        }
+    }
+    public get id(): string {
+        return this.mapId;
+    }
+
+    /**
+     * Input for another map to synchronize the center and zoom with. Maps that are synchronized with the same map, or
+     * with each other, share one sync group.
+     * Use it with `<yaga-map [syncWith]="someMapComponent">`
+     */
+    @Input() public set syncWith(val: MapComponent) {
+        if (this.syncGroup) {
+            this.syncGroup.removeMap(this);
+            this.syncGroup = undefined;
+        }
+        this.syncMap = val;
+        if (!val) {
+            return;
+        }
+        if (!val.syncGroup) {
+            val.syncGroup = new MapSync();
+            val.syncGroup.addMap(val, val.syncOpts);
+        }
+        this.syncGroup = val.syncGroup;
+        this.syncGroup.addMap(this, this.syncOpts);
+    }
+    public get syncWith(): MapComponent {
+        return this.syncMap;
+    }
+
+    /**
+     * Input for the options of this map within its sync group, like a zoom offset, a center offset in pixels and the
+     * display of the cursor of the other maps.
+     * Use it with `<yaga-map [syncOptions]="someValue">`
+     */
+    @Input() public set syncOptions(val: IMapSyncOptions) {
+        this.syncOpts = val || {};
+        if (this.syncGroup) {
+            this.syncGroup.setOptions(this, this.syncOpts);
+        }
+    }
+    public get syncOptions(): IMapSyncOptions {
+        return this.syncOpts;
+    }
+
+    /**
+     * Input for throttle times in milliseconds by the names of the outputs, like `mousemove`, `drag` or `move`. A
+     * throttled output emits at most once within its time and always emits the latest value at the end.
+     * Use it with `<yaga-map [outputThrottle]="{mousemove: 50, move: 100}">`
+     */
+    @Input() public set outputThrottle(val: {[output: string]: number}) {
+        this.zoneEmitter.throttleTimes = val || {};
+    }
+    public get outputThrottle(): {[output: string]: number} {
+        return this.zoneEmitter.throttleTimes;
+    }
+
+    /**
+     * Internal method to register the DOM listeners of Leaflet and the listeners of the map handlers, like dragging
+     * and scroll wheel zoom, outside of the Angular zone. The outputs of the map and of its layers enter the zone
+     * again, when they have subscribers.
+     */
+    protected listenOutsideZone(): void {
+        (this as any)._initEvents(true);
+        this.zoneEmitter.runOutside(() => (this as any)._initEvents());
+
+        for (const handler of (this as any)._handlers as Handler[]) {
+            const enable: () => Handler = handler.enable;
+            handler.enable = (): Handler => this.zoneEmitter.runOutside(() => enable.call(handler));
+            if (handler.enabled()) {
+                handler.disable();
+                handler.enable();
+            }
+        }
+    }
 }
@@ -0,0 +1,163 @@
+import { NgZone, Provider } from '@angular/core';
+import { expect } from 'chai';
+import { LatLngBounds, Layer, LeafletMouseEvent, Marker, point } from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import {
+    IMapView,
+    MapComponent,
+    MapService,
+    YagaModule,
+} from './index';
+
+describe('Map-Service', () => {
+    let mapService: MapService;
+    let map: MapComponent;
+
+    function createMap(): MapComponent {
+        const newMap: MapComponent = new MapComponent({nativeElement: document.createElement('div')}, mapService);
+        (newMap as any)._size = point(100, 100);
+        (newMap as any)._pixelOrigin = point(50, 50);
+        return newMap;
+    }
+
+    beforeEach(() => {
+        mapService = new MapService();
+        map = createMap();
+    });
+
+    describe('Providing', () => {
+        it('should only be provided by YagaModule.forRoot', () => {
+            const providers: Provider[] = YagaModule.forRoot().providers;
+            expect(providers).to.deep.equal([MapService]);
+            expect(YagaModule.forRoot().ngModule).to.equal(YagaModule);
+            expect((YagaModule as any).decorators[0].args[0].providers).to.equal(undefined);
+        });
+    });
+    describe('Registry', () => {
+        it('should look up a registered map by its id', () => {
+            mapService.register('main', map);
+            expect(mapService.get('main')).to.equal(map);
+            expect(mapService.getIds()).to.deep.equal(['main']);
+        });
+        it('should return undefined for an unknown id', () => {
+            expect(mapService.get('unknown')).to.equal(undefined);
+        });
+        it('should replace a map with the same id', () => {
+            const values: MapComponent[] = [];
+            const newMap: MapComponent = createMap();
+            mapService.register('main', map);
+            mapService.map$('main').subscribe((val: MapComponent) => values.push(val));
+            mapService.register('main', newMap);
+            expect(mapService.get('main')).to.equal(newMap);
+            expect(values).to.deep.equal([map, newMap]);
+        });
+        it('should keep a replacing map, when the replaced map is unregistered', () => {
+            const newMap: MapComponent = createMap();
+            mapService.register('main', map);
+            mapService.register('main', newMap);
+            mapService.unregister('main', map);
+            expect(mapService.get('main')).to.equal(newMap);
+        });
+        it('should unregister a map', () => {
+            mapService.register('main', map);
+            mapService.unregister('main', map);
+            expect(mapService.get('main')).to.equal(undefined);
+            expect(mapService.getIds()).to.deep.equal([]);
+        });
+        it('should not unregister another map with the same id', () => {
+            mapService.register('main', map);
+            mapService.unregister('main', createMap());
+            expect(mapService.get('main')).to.equal(map);
+        });
+        it('should emit the registered maps', () => {
+            const values: MapComponent[] = [];
+            mapService.map$('main').subscribe((val: MapComponent) => values.push(val));
+            mapService.register('main', map);
+            mapService.unregister('main', map);
+            expect(values).to.deep.equal([undefined, map, undefined]);
+        });
+    });
+    describe('.view$', () => {
+        it('should emit the view inside of the zone', () => {
+            let inside: boolean = false;
+            const zone: any = {
+                run: (fn: () => any): any => {
+                    inside = true;
+                    const result: any = fn();
+                    inside = false;
+                    return result;
+                },
+            };
+            const views: boolean[] = [];
+            mapService = new MapService(zone as NgZone);
+            mapService.register('main', map);
+            mapService.view$('main').subscribe(() => views.push(inside));
+            map.setView([10, 20], 5, {animate: false});
+            expect(views).to.deep.equal([false, true]);
+        });
+        it('should emit the view of the map', () => {
+            const views: IMapView[] = [];
+            mapService.register('main', map);
+            mapService.view$('main').subscribe((view: IMapView) => views.push(view));
+            map.setView([10, 20], 5, {animate: false});
+            expect(views.length).to.equal(2);
+            expect(views[1].zoom).to.equal(5);
+            expect(views[1].center.lat).to.be.closeTo(10, 0.0001);
+        });
+        it('should emit the view of a map that is registered later', () => {
+            const views: IMapView[] = [];
+            mapService.view$('main').subscribe((view: IMapView) => views.push(view));
+            expect(views.length).to.equal(0);
+            map.id = 'main';
+            expect(views.length).to.equal(1);
+        });
+        it('should stop emitting after unsubscribing', () => {
+            const views: IMapView[] = [];
+            mapService.register('main', map);
+            const subscription: Subscription = mapService.view$('main')
+                .subscribe((view: IMapView) => views.push(view));
+            subscription.unsubscribe();
+            map.setView([10, 20], 5, {animate: false});
+            expect(views.length).to.equal(1);
+        });
+        it('should stop emitting for an unregistered map', () => {
+            const views: IMapView[] = [];
+            mapService.register('main', map);
+            mapService.view$('main').subscribe((view: IMapView) => views.push(view));
+            mapService.unregister('main', map);
+            map.setView([10, 20], 5, {animate: false});
+            expect(views.length).to.equal(1);
+        });
+    });
+    describe('.bounds$', () => {
+        it('should emit the bounds of the map', () => {
+            const bounds: LatLngBounds[] = [];
+            mapService.register('main', map);
+            mapService.bounds$('main').subscribe((val: LatLngBounds) => bounds.push(val));
+            map.setView([10, 20], 5, {animate: false});
+            expect(bounds.length).to.equal(2);
+            expect(bounds[1].equals(map.getBounds())).to.equal(true);
+        });
+    });
+    describe('.click$', () => {
+        it('should emit the clicks on the map', (done: MochaDone) => {
+            mapService.register('main', map);
+            mapService.click$('main').subscribe((event: LeafletMouseEvent) => {
+                expect(event.type).to.equal('click');
+                done();
+            });
+            map.fire('click', {latlng: map.getCenter()});
+        });
+    });
+    describe('.layers$', () => {
+        it('should emit the layers of the map', () => {
+            const values: Layer[][] = [];
+            const marker: Marker = new Marker([0, 0]);
+            mapService.register('main', map);
+            mapService.layers$('main').subscribe((layers: Layer[]) => values.push(layers));
+            map.addLayer(marker);
+            map.removeLayer(marker);
+            expect(values).to.deep.equal([[], [marker], []]);
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import { Inject, Injectable, NgZone, Optional } from '@angular/core';
+import { LatLng, LatLngBounds, Layer, LeafletMouseEvent } from 'leaflet';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Observable } from 'rxjs/Observable';
+import { Subscriber } from 'rxjs/Subscriber';
+import { Subscription } from 'rxjs/Subscription';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * View of a map in the `view$` observable of the map service
+ */
+export interface IMapView {
+    center: LatLng;
+    zoom: number;
+}
+
+/**
+ * Injectable registry of the maps in an application.
+ *
+ * A map registers itself with its `id` input, so services and components that are not children of the map can look
+ * it up and subscribe to the observables of its view, bounds, clicks and layers. The observables follow the map with
+ * the given id, also when it is registered after subscribing or replaced by another map with the same id.
+ *
+ * How to use:
+ * ```typescript
+ * constructor(mapService: MapService) {
+ *     mapService.view$('main').subscribe((view: IMapView) => { ... });
+ * }
+ * ```
+ * ```html
+ * <yaga-map id="main"></yaga-map>
+ * ```
+ */
+@Injectable()
+export class MapService {
+    private maps: {[id: string]: BehaviorSubject<MapComponent>} = {};
+    private zoneEmitter: ZoneEmitter;
+
+    constructor(@Optional() @Inject(NgZone) ngZone?: NgZone) {
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+    }
+
+    /**
+     * Registers a map with the given id. A map that is registered with this id before is replaced, like the previous
+     * map of an `*ngIf` or a route, that is destroyed after the new one is created.
+     */
+    public register(id: string, map: MapComponent): void {
+        if (this.get(id) === map) {
+            return;
+        }
+        this.getSubject(id).next(map);
+    }
+
+    /**
+     * Unregisters the given map from the given id. Nothing happens if the id was taken over by another map.
+     */
+    public unregister(id: string, map: MapComponent): void {
+        if (!map || this.get(id) !== map) {
+            return;
+        }
+        this.getSubject(id).next(undefined);
+    }
+
+    /**
+     * Returns the map with the given id or `undefined`
+     */
+    public get(id: string): MapComponent {
+        return this.maps[id] ? this.maps[id].getValue() : undefined;
+    }
+
+    /**
+     * Returns the ids of all registered maps
+     */
+    public getIds(): string[] {
+        return Object.keys(this.maps).filter((id: string) => !!this.maps[id].getValue());
+    }
+
+    /**
+     * Observable of the map with the given id. It emits `undefined` while there is no map with this id.
+     */
+    public map$(id: string): Observable<MapComponent> {
+        return this.getSubject(id).asObservable();
+    }
+
+    /**
+     * Observable of the center and zoom of the map with the given id after every change
+     */
+    public view$(id: string): Observable<IMapView> {
+        return this.fromMap(id, 'moveend', (map: MapComponent): IMapView => {
+            return {center: map.getCenter(), zoom: map.getZoom()};
+        }, true);
+    }
+
+    /**
+     * Observable of the bounds of the map with the given id after every change
+     */
+    public bounds$(id: string): Observable<LatLngBounds> {
+        return this.fromMap(id, 'moveend', (map: MapComponent): LatLngBounds => map.getBounds(), true);
+    }
+
+    /**
+     * Observable of the clicks on the map with the given id
+     */
+    public click$(id: string): Observable<LeafletMouseEvent> {
+        return this.fromMap(id, 'click', (map: MapComponent, event: LeafletMouseEvent): LeafletMouseEvent => event);
+    }
+
+    /**
+     * Observable of the layers of the map with the given id after every added or removed layer
+     */
+    public layers$(id: string): Observable<Layer[]> {
+        return this.fromMap(id, 'layeradd layerremove', (map: MapComponent): Layer[] => {
+            const layers: Layer[] = [];
+            map.eachLayer((layer: Layer) => {
+                layers.push(layer);
+            });
+            return layers;
+        }, true);
+    }
+
+    private getSubject(id: string): BehaviorSubject<MapComponent> {
+        if (!this.maps[id]) {
+            this.maps[id] = new BehaviorSubject(undefined);
+        }
+        return this.maps[id];
+    }
+
+    /**
+     * Creates an observable of the Leaflet events of the map with the given id. With `emitInitial` it emits the
+     * current value whenever a map is registered. The events of the map run outside of the Angular zone, so the values
+     * are emitted inside of the zone again.
+     */
+    private fromMap<T>(
+        id: string,
+        types: string,
+        project: (map: MapComponent, event?: any) => T,
+        emitInitial: boolean = false,
+    ): Observable<T> {
+        return new Observable<T>((subscriber: Subscriber<T>) => {
+            let current: MapComponent;
+            const handler: (event: any) => void = (event: any) => {
+                this.zoneEmitter.run(() => subscriber.next(project(current, event)));
+            };
+            const subscription: Subscription = this.map$(id).subscribe((map: MapComponent) => {
+                if (current) {
+                    current.off(types, handler);
+                }
+                current = map;
+                if (!map) {
+                    return;
+                }
+                map.on(types, handler);
+                if (emitInitial) {
+                    subscriber.next(project(map));
+                }
+            });
+            return () => {
+                subscription.unsubscribe();
+                if (current) {
+                    current.off(types, handler);
+                }
+            };
+        });
+    }
+}
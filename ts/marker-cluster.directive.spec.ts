@@ -0,0 +1,498 @@
+import { QueryList } from '@angular/core';
+import { expect } from 'chai';
+import { latLng, point, SVG, Util } from 'leaflet';
+import {
+    DivIconDirective,
+    GeoJSONDirective,
+    IMarkerCluster,
+    MapComponent,
+    MarkerClusterDirective,
+    MarkerDirective,
+    PolylineDirective,
+} from './index';
+
+describe('Marker-Cluster Directive', () => {
+    let map: MapComponent;
+    let layer: MarkerClusterDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+
+        layer = new MarkerClusterDirective(map);
+    });
+
+    function createMarker(lat: number, lng: number): MarkerDirective {
+        const marker: MarkerDirective = new MarkerDirective(map, layer);
+        marker.setLatLng(latLng(lat, lng));
+        return marker;
+    }
+
+    describe('clustering', () => {
+        it('should add child markers to the cluster instead of the map', () => {
+            const marker: MarkerDirective = createMarker(0, 0);
+            expect(layer.hasLayer(marker)).to.equal(true);
+            expect(layer.getMarkers()).to.deep.equal([marker]);
+        });
+        it('should display a single marker in a grid cell as it is', () => {
+            const marker: MarkerDirective = createMarker(0, 0);
+            layer.refreshClusters();
+            expect(map.hasLayer(marker)).to.equal(true);
+            expect(layer.getClusters().length).to.equal(0);
+        });
+        it('should display markers of the same grid cell as cluster', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 5);
+            layer.refreshClusters();
+            const clusters: IMarkerCluster[] = layer.getClusters();
+            expect(clusters.length).to.equal(1);
+            expect(clusters[0].markers).to.deep.equal([first, second]);
+            expect(map.hasLayer(clusters[0].layer)).to.equal(true);
+            expect(map.hasLayer(first)).to.equal(false);
+            expect(map.hasLayer(second)).to.equal(false);
+        });
+        it('should display markers of different grid cells separately', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 120);
+            layer.refreshClusters();
+            expect(layer.getClusters().length).to.equal(0);
+            expect(map.hasLayer(first)).to.equal(true);
+            expect(map.hasLayer(second)).to.equal(true);
+        });
+        it('should refresh the clusters after moving a marker', (done: MochaDone) => {
+            createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 120);
+            layer.refreshClusters();
+            second.setLatLng(latLng(0, 5));
+            // Runs after the scheduled refresh
+            Util.requestAnimFrame(() => {
+                expect(layer.getClusters().length).to.equal(1);
+                done();
+            });
+        });
+        it('should not add or remove unchanged markers and clusters on a refresh', () => {
+            const single: MarkerDirective = createMarker(0, 120);
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            let changes: number = 0;
+            single.on('add remove', () => changes += 1);
+            cluster.layer.on('add remove', () => changes += 1);
+            layer.refreshClusters();
+            expect(changes).to.equal(0);
+            expect(layer.getClusters()[0]).to.equal(cluster);
+        });
+        it('should replace a cluster when its markers change', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            createMarker(0, 10);
+            layer.refreshClusters();
+            expect(map.hasLayer(cluster.layer)).to.equal(false);
+            expect(layer.getClusters()[0].markers.length).to.equal(3);
+            expect(map.hasLayer(first)).to.equal(false);
+        });
+        it('should leave out hidden markers', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 5);
+            first.display = false;
+            layer.refreshClusters();
+            expect(layer.getClusters().length).to.equal(0);
+            expect(map.hasLayer(first)).to.equal(false);
+            expect(map.hasLayer(second)).to.equal(true);
+        });
+        it('should remove a displayed marker when it gets hidden', (done: MochaDone) => {
+            const marker: MarkerDirective = createMarker(0, 0);
+            layer.refreshClusters();
+            marker.display = false;
+            // Runs after the scheduled refresh
+            Util.requestAnimFrame(() => {
+                expect(map.hasLayer(marker)).to.equal(false);
+                expect(marker.display).to.equal(false);
+                done();
+            });
+        });
+        it('should cluster a hidden marker again when it is shown again', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            createMarker(0, 5);
+            first.display = false;
+            layer.refreshClusters();
+            first.display = true;
+            layer.refreshClusters();
+            expect(layer.getClusters()[0].markers.length).to.equal(2);
+        });
+        it('should display a marker with a two-way bound display again when zooming in', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 5);
+            const values: boolean[] = [];
+            // Simulates `[(display)]="value"`
+            first.displayChange.subscribe((val: boolean) => {
+                values.push(val);
+                first.display = val;
+            });
+            map.setView([0, 2.5], 6, {animate: false});
+            expect(map.hasLayer(first)).to.equal(true);
+            map.setZoom(0, {animate: false});
+            expect(layer.getClusters().length).to.equal(1);
+            expect(map.hasLayer(first)).to.equal(false);
+            map.setZoom(6, {animate: false});
+            expect(layer.getClusters().length).to.equal(0);
+            expect(map.hasLayer(first)).to.equal(true);
+            expect(map.hasLayer(second)).to.equal(true);
+            expect(first.display).to.equal(true);
+            expect(values).to.deep.equal([]);
+        });
+        it('should remove a marker on destroy', () => {
+            const marker: MarkerDirective = createMarker(0, 0);
+            layer.refreshClusters();
+            marker.ngOnDestroy();
+            expect(layer.hasLayer(marker)).to.equal(false);
+            expect(map.hasLayer(marker)).to.equal(false);
+        });
+        it('should display other layers as they are', () => {
+            const polyline: PolylineDirective<any> = new PolylineDirective<any>(map, layer);
+            expect(layer.hasLayer(polyline)).to.equal(true);
+            expect(map.hasLayer(polyline)).to.equal(true);
+        });
+        it('should cluster the point features of a GeoJSON layer', () => {
+            const geoJSON: GeoJSONDirective<any> = new GeoJSONDirective<any>(map, layer);
+            geoJSON.setData({
+                features: [
+                    {geometry: {coordinates: [0, 0], type: 'Point'}, properties: {}, type: 'Feature'},
+                    {geometry: {coordinates: [5, 0], type: 'Point'}, properties: {}, type: 'Feature'},
+                ],
+                type: 'FeatureCollection',
+            });
+            layer.refreshClusters();
+            expect(map.hasLayer(geoJSON)).to.equal(false);
+            expect(layer.getMarkers().length).to.equal(2);
+            expect(layer.getClusters().length).to.equal(1);
+        });
+        it('should remove the point features of a GeoJSON layer on destroy', () => {
+            const geoJSON: GeoJSONDirective<any> = new GeoJSONDirective<any>(map, layer);
+            geoJSON.setData({
+                features: [
+                    {geometry: {coordinates: [0, 0], type: 'Point'}, properties: {}, type: 'Feature'},
+                ],
+                type: 'FeatureCollection',
+            });
+            geoJSON.ngOnDestroy();
+            expect(layer.hasLayer(geoJSON)).to.equal(false);
+            expect(layer.getMarkers().length).to.equal(0);
+        });
+    });
+    describe('[gridSize]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            layer.gridSize = 10;
+            expect(layer.gridSize).to.equal(10);
+        });
+        it('should separate markers with a smaller grid', () => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.gridSize = 1;
+            expect(layer.getClusters().length).to.equal(0);
+        });
+    });
+    describe('[disableClusteringAtZoom]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            layer.disableClusteringAtZoom = 10;
+            expect(layer.disableClusteringAtZoom).to.equal(10);
+        });
+        it('should display all markers when reaching the zoom level', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 5);
+            layer.disableClusteringAtZoom = 0;
+            expect(layer.getClusters().length).to.equal(0);
+            expect(map.hasLayer(first)).to.equal(true);
+            expect(map.hasLayer(second)).to.equal(true);
+        });
+    });
+    describe('cluster icons', () => {
+        it('should have the count of the markers', () => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            const html: string = (layer.getClusters()[0].layer.options.icon.options as any).html;
+            expect(html).to.contain('>2<');
+        });
+        it('should use a child div-icon as template', () => {
+            const content: HTMLElement = document.createElement('div');
+            content.innerHTML = '<b class="yaga-marker-cluster-count"></b> markers';
+            const iconDirective: DivIconDirective = new DivIconDirective({nativeElement: content});
+            layer.iconDirectives = new QueryList<DivIconDirective>();
+            layer.iconDirectives.reset([iconDirective]);
+            layer.ngAfterContentInit();
+
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            const html: string = (layer.getClusters()[0].layer.options.icon.options as any).html;
+            expect(html).to.equal('<b class="yaga-marker-cluster-count">2</b> markers');
+        });
+    });
+    describe('(clusterclick)', () => {
+        it('should fire event in Angular when clicking a cluster', (done: MochaDone) => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            layer.clusterclickEvent.subscribe((event: any) => {
+                expect(event.cluster).to.equal(cluster);
+                done();
+            });
+            cluster.layer.fire('click', {});
+        });
+        it('should zoom to the bounds of the cluster', () => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            layer.getClusters()[0].layer.fire('click', {});
+            expect(map.getZoom()).to.be.above(0);
+        });
+        it('should not zoom when disabled', () => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.zoomToBoundsOnClick = false;
+            layer.spiderfyOnMaxZoom = false;
+            layer.refreshClusters();
+            layer.getClusters()[0].layer.fire('click', {});
+            expect(map.getZoom()).to.equal(0);
+        });
+    });
+    describe('spiderfy', () => {
+        it('should spread markers on the same position on click', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            const second: MarkerDirective = createMarker(0, 0);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            cluster.layer.fire('click', {});
+            expect(map.hasLayer(cluster.layer)).to.equal(false);
+            expect(map.hasLayer(first)).to.equal(true);
+            expect(map.hasLayer(second)).to.equal(true);
+            expect(first.getLatLng()).to.deep.equal(latLng(0, 0));
+        });
+        it('should fire the spiderfied event', (done: MochaDone) => {
+            createMarker(0, 0);
+            createMarker(0, 0);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            layer.spiderfiedEvent.subscribe((event: any) => {
+                expect(event.cluster).to.equal(cluster);
+                done();
+            });
+            layer.spiderfy(cluster);
+        });
+        it('should collapse the markers again', () => {
+            const first: MarkerDirective = createMarker(0, 0);
+            createMarker(0, 0);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            layer.spiderfy(cluster);
+            layer.unspiderfy();
+            expect(map.hasLayer(cluster.layer)).to.equal(true);
+            expect(map.hasLayer(first)).to.equal(false);
+        });
+        it('should fire the unspiderfied event on a click on the map', (done: MochaDone) => {
+            createMarker(0, 0);
+            createMarker(0, 0);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            layer.spiderfy(cluster);
+            layer.unspiderfiedEvent.subscribe((event: any) => {
+                expect(event.cluster).to.equal(cluster);
+                done();
+            });
+            map.fire('click', {});
+        });
+    });
+    describe('[(display)]', () => {
+        it('should remove clusters and markers from the map when not displaying', () => {
+            const marker: MarkerDirective = createMarker(0, 0);
+            createMarker(0, 5);
+            const single: MarkerDirective = createMarker(0, 120);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            layer.display = false;
+            expect(map.hasLayer(layer)).to.equal(false);
+            expect(map.hasLayer(cluster.layer)).to.equal(false);
+            expect(map.hasLayer(single)).to.equal(false);
+            expect(layer.hasLayer(marker)).to.equal(true);
+        });
+        it('should re-add the clusters when display is true again', () => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.display = false;
+            layer.display = true;
+            expect(layer.getClusters().length).to.equal(1);
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                expect(layer.display).to.equal(false);
+                done();
+            });
+
+            map.removeLayer(layer);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeLayer(layer);
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                expect(layer.display).to.equal(true);
+                done();
+            });
+
+            map.addLayer(layer);
+        });
+    });
+
+    describe('Destroying a Marker-Cluster Directive', () => {
+        it('should remove the cluster from the map', () => {
+            createMarker(0, 0);
+            createMarker(0, 5);
+            layer.refreshClusters();
+            const cluster: IMarkerCluster = layer.getClusters()[0];
+            layer.ngOnDestroy();
+            expect(map.hasLayer(layer)).to.equal(false);
+            expect(map.hasLayer(cluster.layer)).to.equal(false);
+        });
+    });
+
+    describe('(click)', () => {
+        it('should fire event in Angular when a marker fires the event', (done: MochaDone) => {
+            const marker: MarkerDirective = createMarker(0, 0);
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.clickEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                expect(event.layer).to.equal(marker);
+                return done();
+            });
+            marker.fire('click', testEvent, true);
+        });
+    });
+    describe('(add)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.addEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('add', testEvent);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.removeEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('remove', testEvent);
+        });
+    });
+    describe('(popupopen)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.popupopenEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('popupopen', testEvent);
+        });
+    });
+    describe('(popupclose)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.popupcloseEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('popupclose', testEvent);
+        });
+    });
+    describe('(tooltipopen)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.tooltipopenEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('tooltipopen', testEvent);
+        });
+    });
+    describe('(tooltipclose)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.tooltipcloseEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('tooltipclose', testEvent);
+        });
+    });
+    describe('(dbclick)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.dbclickEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('dbclick', testEvent);
+        });
+    });
+    describe('(mousedown)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.mousedownEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('mousedown', testEvent);
+        });
+    });
+    describe('(mouseover)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.mouseoverEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('mouseover', testEvent);
+        });
+    });
+    describe('(mouseout)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.mouseoutEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('mouseout', testEvent);
+        });
+    });
+    describe('(contextmenu)', () => {
+        it('should fire event in Angular when firing event in Leaflet', (done: MochaDone) => {
+            const testHandle: any = {};
+            const testEvent: any = { testHandle };
+            layer.contextmenuEvent.subscribe((event: any) => {
+                expect(event.testHandle).to.equal(testHandle);
+                return done();
+            });
+            layer.fire('contextmenu', testEvent);
+        });
+    });
+});
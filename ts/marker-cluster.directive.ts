@@ -0,0 +1,865 @@
+import {
+    AfterContentInit,
+    ContentChildren,
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+    QueryList,
+    SkipSelf,
+} from '@angular/core';
+import {
+    DivIcon,
+    FeatureGroup,
+    LatLng,
+    latLng,
+    LatLngBounds,
+    latLngBounds,
+    Layer,
+    LayerEvent,
+    LayerGroup,
+    LeafletEvent,
+    LeafletMouseEvent,
+    Map,
+    Marker,
+    point,
+    Point,
+    Polyline,
+    PopupEvent,
+    TooltipEvent,
+    Util,
+} from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
+import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
+
+// Content-Child imports
+import { DivIconDirective } from './div-icon.directive';
+
+/**
+ * Interface for a cluster of markers that is displayed on the map instead of its markers
+ */
+export interface IMarkerCluster {
+    bounds: LatLngBounds;
+    latLng: LatLng;
+    layer: Marker;
+    markers: Marker[];
+}
+
+/**
+ * Interface for the events of the marker-cluster directive that belong to a cluster
+ */
+export interface IMarkerClusterEvent extends LeafletEvent {
+    cluster: IMarkerCluster;
+    originalEvent?: MouseEvent;
+}
+
+/**
+ * Interface for markers that are added to or removed from the map by a marker cluster. The flag `clustering` is set
+ * during these changes, so that marker directives can tell them apart from a change of their display state.
+ */
+export interface IClusteredMarker extends Marker {
+    clustering?: boolean;
+}
+
+/**
+ * Angular2 directive for clustering markers.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-marker-cluster
+ *         [(display)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *         (clusterclick)="..."
+ *         (spiderfied)="..."
+ *         (unspiderfied)="..."
+ *         (popupopen)="..."
+ *         (popupclose)="..."
+ *         (tooltipopen)="..."
+ *         (tooltipclose)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *         (contextmenu)="..."
+ *
+ *         [gridSize]="..."
+ *         [disableClusteringAtZoom]="..."
+ *         [zoomToBoundsOnClick]="..."
+ *         [spiderfyOnMaxZoom]="..."
+ *         [spiderfyDistance]="..."
+ *         >
+ *         <yaga-div-icon><span class="yaga-marker-cluster-count"></span></yaga-div-icon>
+ *         <yaga-marker *ngFor="let item of items" [lat]="item.lat" [lng]="item.lng"></yaga-marker>
+ *         <yaga-geojson [data]="..."></yaga-geojson>
+ *     </yaga-marker-cluster>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * All marker directives within this directive are added to the cluster instead of the map.
+ * * The markers of layer groups within this directive, like the point features of a `yaga-geojson`, are clustered too.
+ * Other layers are displayed as they are.
+ * * Markers are clustered in a grid of `gridSize` pixels per zoom level. A cell with more than one marker is displayed
+ * as a cluster marker with the count of its markers.
+ * * A click on a cluster zooms to the bounds of the cluster. When the markers are still not separable, the markers
+ * are spread around the cluster (spiderfied).
+ * * A direct child `yaga-div-icon` is used as template for the cluster icons. All elements with the css-class
+ * `yaga-marker-cluster-count` get the count of the markers as text content.
+ * * Events of the markers within the cluster are propagated to the cluster.
+ * * Markers that are hidden with their `display` property are left out of the clusters.
+ * * Markers do not emit a `displayChange` when the cluster adds them to or removes them from the map, so a two-way
+ * bound `display` of a marker only changes on a change by the user.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Marker-Cluster%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/marker-cluster.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/markerclusterdirective.html API documentation
+ */
+@Directive({
+    providers: [{provide: LayerGroupProvider, useExisting: forwardRef(() => MarkerClusterDirective)}],
+    selector: 'yaga-marker-cluster',
+})
+export class MarkerClusterDirective extends FeatureGroup implements LayerGroupProvider, AfterContentInit, OnDestroy {
+    /**
+     * Two-Way bound property for the display status of the cluster.
+     * Use it with `<yaga-marker-cluster [(display)]="someValue">`
+     * or `<yaga-marker-cluster (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-marker-cluster (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-marker-cluster (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * Fired on adding a layer to the cluster.
+     * Use it with `<yaga-marker-cluster (layeradd)="processEvent($event)">`
+     */
+    @Output('layeradd') public layeraddEvent: EventEmitter<LayerEvent> = new EventEmitter();
+    /**
+     * Fired on removing a layer from the cluster.
+     * Use it with `<yaga-marker-cluster (layerremove)="processEvent($event)">`
+     */
+    @Output('layerremove') public layerremoveEvent: EventEmitter<LayerEvent> = new EventEmitter();
+    /**
+     * Fired on clicking a cluster marker.
+     * Use it with `<yaga-marker-cluster (clusterclick)="processEvent($event)">`
+     */
+    @Output('clusterclick') public clusterclickEvent: EventEmitter<IMarkerClusterEvent> = new EventEmitter();
+    /**
+     * Fired after spreading the markers of a cluster around it.
+     * Use it with `<yaga-marker-cluster (spiderfied)="processEvent($event)">`
+     */
+    @Output('spiderfied') public spiderfiedEvent: EventEmitter<IMarkerClusterEvent> = new EventEmitter();
+    /**
+     * Fired after collapsing the spread markers of a cluster.
+     * Use it with `<yaga-marker-cluster (unspiderfied)="processEvent($event)">`
+     */
+    @Output('unspiderfied') public unspiderfiedEvent: EventEmitter<IMarkerClusterEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated popupopen event.
+     * Use it with `<yaga-marker-cluster (popupopen)="processEvent($event)">`
+     */
+    @Output('popupopen') public popupopenEvent: EventEmitter<PopupEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated popupclose event.
+     * Use it with `<yaga-marker-cluster (popupclose)="processEvent($event)">`
+     */
+    @Output('popupclose') public popupcloseEvent: EventEmitter<PopupEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated tooltipopen event.
+     * Use it with `<yaga-marker-cluster (tooltipopen)="processEvent($event)">`
+     */
+    @Output('tooltipopen') public tooltipopenEvent: EventEmitter<TooltipEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated tooltipclose event.
+     * Use it with `<yaga-marker-cluster (tooltipclose)="processEvent($event)">`
+     */
+    @Output('tooltipclose') public tooltipcloseEvent: EventEmitter<TooltipEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated click event.
+     * Use it with `<yaga-marker-cluster (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated dbclick event.
+     * Use it with `<yaga-marker-cluster (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated mousedown event.
+     * Use it with `<yaga-marker-cluster (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated mouseover event.
+     * Use it with `<yaga-marker-cluster (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated mouseout event.
+     * Use it with `<yaga-marker-cluster (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From a marker within the cluster propagated contextmenu event.
+     * Use it with `<yaga-marker-cluster (contextmenu)="processEvent($event)">`
+     */
+    @Output('contextmenu') public contextmenuEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Input for the name of the layer in a layers control.
+     * Use it with `<yaga-marker-cluster yaga-layer-name="someName">` within a `yaga-layers-control`
+     */
+    @Input('yaga-layer-name') public layerName: string;
+    /**
+     * Input to use this layer as base layer (radio button) instead of an overlay (checkbox) in a layers control.
+     * Use it with `<yaga-marker-cluster baseLayer>` or `<yaga-marker-cluster [baseLayer]="someValue">`
+     */
+    @Input() public baseLayer: boolean;
+    /**
+     * Input to zoom to the bounds of a cluster on click. Default is `true`.
+     * Use it with `<yaga-marker-cluster [zoomToBoundsOnClick]="someValue">`
+     */
+    @Input() public zoomToBoundsOnClick: boolean = true;
+    /**
+     * Input to spread the markers of a cluster around it on click, when they can not be separated by zooming.
+     * Default is `true`.
+     * Use it with `<yaga-marker-cluster [spiderfyOnMaxZoom]="someValue">`
+     */
+    @Input() public spiderfyOnMaxZoom: boolean = true;
+    /**
+     * Input for the distance in pixels between spiderfied markers. Default is `30`.
+     * Use it with `<yaga-marker-cluster [spiderfyDistance]="someValue">`
+     */
+    @Input() public spiderfyDistance: number = 30;
+
+    @ContentChildren(DivIconDirective) public iconDirectives: QueryList<DivIconDirective>;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected mapComponent: MapComponent;
+    protected clusters: IMarkerCluster[] = [];
+    protected renderedMarkers: {[id: number]: Marker} = {};
+    protected hiddenMarkers: {[id: number]: boolean} = {};
+    protected adoptedGroups: LayerGroup[] = [];
+    protected spiderfiedCluster: IMarkerCluster;
+    protected spiderLegs: Polyline[] = [];
+
+    private clusterGridSize: number = 60;
+    private clusteringDisabledAtZoom: number;
+    private refreshPending: boolean = false;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @SkipSelf() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.on('remove', () => {
+            this.zoneEmitter.emit(this.displayChange, false);
+        });
+        this.on('add', () => {
+            this.zoneEmitter.emit(this.displayChange, true);
+        });
+
+        this.mapComponent = mapComponent;
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
+
+        // Events
+        this.on('add', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.addEvent, event);
+        });
+        this.on('remove', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.removeEvent, event);
+        });
+        this.on('layeradd', (event: LayerEvent) => {
+            this.zoneEmitter.emit(this.layeraddEvent, event);
+        });
+        this.on('layerremove', (event: LayerEvent) => {
+            this.zoneEmitter.emit(this.layerremoveEvent, event);
+        });
+        this.on('clusterclick', (event: IMarkerClusterEvent) => {
+            this.zoneEmitter.emit(this.clusterclickEvent, event);
+        });
+        this.on('spiderfied', (event: IMarkerClusterEvent) => {
+            this.zoneEmitter.emit(this.spiderfiedEvent, event);
+        });
+        this.on('unspiderfied', (event: IMarkerClusterEvent) => {
+            this.zoneEmitter.emit(this.unspiderfiedEvent, event);
+        });
+        this.on('popupopen', (event: PopupEvent) => {
+            this.zoneEmitter.emit(this.popupopenEvent, event);
+        });
+        this.on('popupclose', (event: PopupEvent) => {
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
+        });
+        this.on('tooltipopen', (event: TooltipEvent) => {
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
+        });
+        this.on('tooltipclose', (event: TooltipEvent) => {
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
+        });
+        this.on('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.on('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.on('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.on('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.on('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+        this.on('contextmenu', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
+        });
+    }
+
+    /**
+     * This function gets called from Angular after initializing the content of the directive. It uses the first
+     * child div-icon as template for the cluster icons.
+     * @link https://angular.io/docs/ts/latest/api/core/index/AfterContentInit-class.html
+     */
+    public ngAfterContentInit(): void {
+        if (this.iconDirectives && this.iconDirectives.first) {
+            this.iconDirectives.first.updateEvent.subscribe(() => {
+                // The icons of all clusters have to be created again
+                if ((this as any)._map) {
+                    this.unspiderfy();
+                    this.clearRendered((this as any)._map);
+                }
+                this.refreshClusters();
+            });
+        }
+        this.refreshClusters();
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
+        this.removeFrom((this as any)._map);
+    }
+
+    /**
+     * Derived method of the original addLayer method. Markers are clustered, the layers of layer groups are adopted
+     * and all other layers are displayed as they are.
+     */
+    public addLayer(layer: Layer): this {
+        if (this.hasLayer(layer)) {
+            return this;
+        }
+        if (layer instanceof LayerGroup) {
+            this.adoptedGroups.push(layer);
+            layer.on('layeradd', this.onAdoptedLayerAdd, this);
+            layer.on('layerremove', this.onAdoptedLayerRemove, this);
+            layer.eachLayer((child: Layer) => {
+                this.addLayer(child);
+            });
+            return this;
+        }
+
+        (this as any)._layers[this.getLayerId(layer)] = layer;
+        layer.addEventParent(this);
+        if (layer instanceof Marker) {
+            layer.on('move', this.scheduleRefresh, this);
+            layer.on('displaychange', this.onMarkerDisplayChange, this);
+            this.scheduleRefresh();
+        } else if ((this as any)._map) {
+            (this as any)._map.addLayer(layer);
+        }
+        return this.fire('layeradd', {layer});
+    }
+
+    /**
+     * Derived method of the original removeLayer method.
+     */
+    public removeLayer(layer: Layer): this {
+        const groupIndex: number = this.adoptedGroups.indexOf(layer as LayerGroup);
+        if (groupIndex !== -1) {
+            this.adoptedGroups.splice(groupIndex, 1);
+            layer.off('layeradd', this.onAdoptedLayerAdd, this);
+            layer.off('layerremove', this.onAdoptedLayerRemove, this);
+            (layer as LayerGroup).eachLayer((child: Layer) => {
+                this.removeLayer(child);
+            });
+            return this;
+        }
+        if (!this.hasLayer(layer)) {
+            return this;
+        }
+
+        delete (this as any)._layers[this.getLayerId(layer)];
+        layer.removeEventParent(this);
+        if (layer instanceof Marker) {
+            layer.off('move', this.scheduleRefresh, this);
+            layer.off('displaychange', this.onMarkerDisplayChange, this);
+            delete this.renderedMarkers[this.getLayerId(layer)];
+            delete this.hiddenMarkers[this.getLayerId(layer)];
+            this.scheduleRefresh();
+        }
+        if ((this as any)._map) {
+            (this as any)._map.removeLayer(layer);
+        }
+        return this.fire('layerremove', {layer});
+    }
+
+    /**
+     * Derived method of the original hasLayer method, that also knows the adopted layer groups.
+     */
+    public hasLayer(layer: Layer): boolean {
+        return super.hasLayer(layer) || this.adoptedGroups.indexOf(layer as LayerGroup) !== -1;
+    }
+
+    /**
+     * Derived method of the original onAdd method. It displays the clusters and all layers that are not clustered.
+     */
+    public onAdd(map: Map): this {
+        this.eachLayer((layer: Layer) => {
+            if (!(layer instanceof Marker)) {
+                map.addLayer(layer);
+            }
+        });
+        map.on('zoomend', this.refreshClusters, this);
+        map.on('zoomstart click', this.unspiderfy, this);
+        this.refreshClusters();
+        return this;
+    }
+
+    /**
+     * Derived method of the original onRemove method.
+     */
+    public onRemove(map: Map): this {
+        map.off('zoomend', this.refreshClusters, this);
+        map.off('zoomstart click', this.unspiderfy, this);
+        this.unspiderfy();
+        this.clearRendered(map);
+        this.eachLayer((layer: Layer) => {
+            if (!(layer instanceof Marker)) {
+                map.removeLayer(layer);
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Self written method to (re-)calculate and display the clusters for the current zoom level. Only the markers and
+     * clusters whose membership changed are added to or removed from the map. Hidden markers are left out.
+     */
+    public refreshClusters(): void {
+        const map: Map = (this as any)._map;
+        if (!map) {
+            return;
+        }
+        this.unspiderfy();
+
+        const markers: Marker[] = this.getMarkers().filter((marker: Marker) => {
+            return !this.hiddenMarkers[this.getLayerId(marker)];
+        });
+        const zoom: number = map.getZoom();
+        if (this.clusteringDisabledAtZoom !== undefined && zoom >= this.clusteringDisabledAtZoom) {
+            this.renderMarkers(map, markers);
+            this.renderClusters(map, []);
+            return;
+        }
+
+        const keys: string[] = [];
+        const cells: {[key: string]: Marker[]} = {};
+        for (const marker of markers) {
+            const position: Point = map.project(marker.getLatLng(), zoom);
+            const key: string = Math.floor(position.x / this.clusterGridSize) + ':' +
+                Math.floor(position.y / this.clusterGridSize);
+            if (!cells[key]) {
+                cells[key] = [];
+                keys.push(key);
+            }
+            cells[key].push(marker);
+        }
+        const singleMarkers: Marker[] = [];
+        const clusteredMarkers: Marker[][] = [];
+        for (const key of keys) {
+            if (cells[key].length === 1) {
+                singleMarkers.push(cells[key][0]);
+                continue;
+            }
+            clusteredMarkers.push(cells[key]);
+        }
+        this.renderMarkers(map, singleMarkers);
+        this.renderClusters(map, clusteredMarkers);
+    }
+
+    /**
+     * Self written method to get all clusters that are displayed at the moment.
+     */
+    public getClusters(): IMarkerCluster[] {
+        return this.clusters.slice();
+    }
+
+    /**
+     * Self written method to get all clustered markers.
+     */
+    public getMarkers(): Marker[] {
+        const markers: Marker[] = [];
+        this.eachLayer((layer: Layer) => {
+            if (layer instanceof Marker) {
+                markers.push(layer);
+            }
+        });
+        return markers;
+    }
+
+    /**
+     * Self written method to create the icon of a cluster. Overwrite it to get your own cluster icons.
+     */
+    public createClusterIcon(markers: Marker[]): DivIcon {
+        const count: number = markers.length;
+        if (this.iconDirectives && this.iconDirectives.first) {
+            const template: DivIconDirective = this.iconDirectives.first;
+            const content: HTMLElement = (template.contentHtml.cloneNode(true) as HTMLElement);
+            const countElements: NodeListOf<Element> = content.querySelectorAll('.yaga-marker-cluster-count');
+            /* tslint:disable:prefer-for-of */
+            for (let i: number = 0; i < countElements.length; i += 1) {
+                /* tslint:enable */
+                countElements[i].textContent = count.toString();
+            }
+            return new DivIcon({
+                className: 'yaga-div-icon yaga-marker-cluster-icon',
+                html: content.innerHTML,
+                iconAnchor: template.iconAnchor,
+                iconSize: template.iconSize,
+                popupAnchor: template.popupAnchor,
+            });
+        }
+
+        let size: string = 'large';
+        if (count < 10) {
+            size = 'small';
+        } else if (count < 100) {
+            size = 'medium';
+        }
+        return new DivIcon({
+            className: 'yaga-marker-cluster-icon yaga-marker-cluster-icon-' + size,
+            html: '<div><span class="yaga-marker-cluster-count">' + count + '</span></div>',
+            iconSize: point(40, 40),
+        });
+    }
+
+    /**
+     * Self written method to spread the markers of a cluster around it.
+     */
+    public spiderfy(cluster: IMarkerCluster): void {
+        const map: Map = (this as any)._map;
+        if (!map || this.clusters.indexOf(cluster) === -1) {
+            return;
+        }
+        this.unspiderfy();
+        map.removeLayer(cluster.layer);
+
+        const center: Point = map.latLngToLayerPoint(cluster.latLng);
+        const count: number = cluster.markers.length;
+        const radius: number = Math.max(this.spiderfyDistance * count / (2 * Math.PI), this.spiderfyDistance);
+        cluster.markers.forEach((marker: Marker, index: number) => {
+            const angle: number = 2 * Math.PI * index / count;
+            const position: Point = center.add(point(radius * Math.cos(angle), radius * Math.sin(angle)));
+            const leg: Polyline = new Polyline([cluster.latLng, map.layerPointToLatLng(position)], {
+                className: 'yaga-marker-cluster-spider-leg',
+                interactive: false,
+            });
+            this.spiderLegs.push(leg);
+            map.addLayer(leg);
+            this.addClusteredMarker(map, marker);
+            // Only move the icon, the marker keeps its position
+            (marker as any)._setPos(position);
+        });
+        this.spiderfiedCluster = cluster;
+        this.fire('spiderfied', {cluster});
+    }
+
+    /**
+     * Self written method to collapse the spread markers of a cluster.
+     */
+    public unspiderfy(): void {
+        const cluster: IMarkerCluster = this.spiderfiedCluster;
+        const map: Map = (this as any)._map;
+        if (!cluster || !map) {
+            return;
+        }
+        this.spiderfiedCluster = undefined;
+        for (const leg of this.spiderLegs) {
+            map.removeLayer(leg);
+        }
+        this.spiderLegs = [];
+        for (const marker of cluster.markers) {
+            this.removeClusteredMarker(map, marker);
+        }
+        map.addLayer(cluster.layer);
+        this.fire('unspiderfied', {cluster});
+    }
+
+    /**
+     * Input for the size of the grid cells in pixels that are used for clustering. Default is `60`.
+     * Use it with `<yaga-marker-cluster [gridSize]="someValue">`
+     */
+    @Input() public set gridSize(val: number) {
+        this.clusterGridSize = val;
+        this.refreshClusters();
+    }
+    public get gridSize(): number {
+        return this.clusterGridSize;
+    }
+
+    /**
+     * Input for the zoom level from which on all markers are displayed without clustering.
+     * Use it with `<yaga-marker-cluster [disableClusteringAtZoom]="someValue">`
+     */
+    @Input() public set disableClusteringAtZoom(val: number) {
+        this.clusteringDisabledAtZoom = val;
+        this.refreshClusters();
+    }
+    public get disableClusteringAtZoom(): number {
+        return this.clusteringDisabledAtZoom;
+    }
+
+    /**
+     * Two-Way bound property for the display status of the cluster.
+     * Use it with `<yaga-marker-cluster [(display)]="someValue">` or `<yaga-marker-cluster [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (this.display === val) {
+            return;
+        }
+        if (val) {
+            (this.layerGroupProvider || this.mapComponent).addLayer(this);
+            return;
+        }
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+            return;
+        }
+        this.mapComponent.removeLayer(this);
+    }
+    public get display(): boolean {
+        const map: MapComponent = (this as any)._map;
+        return !!map && map.hasLayer(this);
+    }
+
+    /**
+     * Internal method to refresh the clusters only once for many changes of the markers
+     */
+    protected scheduleRefresh(): void {
+        if (this.refreshPending) {
+            return;
+        }
+        this.refreshPending = true;
+        Util.requestAnimFrame(() => {
+            this.refreshPending = false;
+            this.refreshClusters();
+        });
+    }
+
+    /**
+     * Internal method to remove all displayed markers and clusters from the map
+     */
+    protected clearRendered(map: Map): void {
+        for (const id of Object.keys(this.renderedMarkers)) {
+            this.removeClusteredMarker(map, this.renderedMarkers[id as any]);
+        }
+        for (const cluster of this.clusters) {
+            map.removeLayer(cluster.layer);
+        }
+        this.renderedMarkers = {};
+        this.clusters = [];
+    }
+
+    /**
+     * Internal method to display the given markers as they are. Only markers that were not displayed before are added
+     * to the map and only markers that are not displayed anymore are removed.
+     */
+    protected renderMarkers(map: Map, markers: Marker[]): void {
+        const rendered: {[id: number]: Marker} = {};
+        for (const marker of markers) {
+            rendered[this.getLayerId(marker)] = marker;
+        }
+        for (const id of Object.keys(this.renderedMarkers)) {
+            if (!rendered[id as any]) {
+                this.removeClusteredMarker(map, this.renderedMarkers[id as any]);
+            }
+        }
+        for (const id of Object.keys(rendered)) {
+            if (!this.renderedMarkers[id as any]) {
+                this.addClusteredMarker(map, rendered[id as any]);
+            }
+        }
+        this.renderedMarkers = rendered;
+    }
+
+    /**
+     * Internal method to add a marker to the map for displaying it as it is
+     */
+    protected addClusteredMarker(map: Map, marker: IClusteredMarker): void {
+        marker.clustering = true;
+        map.addLayer(marker);
+        marker.clustering = false;
+    }
+
+    /**
+     * Internal method to remove a marker from the map, when it gets clustered or the cluster gets hidden
+     */
+    protected removeClusteredMarker(map: Map, marker: IClusteredMarker): void {
+        marker.clustering = true;
+        map.removeLayer(marker);
+        marker.clustering = false;
+    }
+
+    /**
+     * Internal method to display a cluster marker for every list of markers. Clusters with the same markers as before
+     * are kept on the map and only moved to their new center.
+     */
+    protected renderClusters(map: Map, clusteredMarkers: Marker[][]): void {
+        const previous: {[key: string]: IMarkerCluster} = {};
+        for (const cluster of this.clusters) {
+            previous[this.getClusterKey(cluster.markers)] = cluster;
+        }
+        const clusters: IMarkerCluster[] = [];
+        for (const markers of clusteredMarkers) {
+            const key: string = this.getClusterKey(markers);
+            let cluster: IMarkerCluster = previous[key];
+            if (cluster) {
+                delete previous[key];
+                this.updateCluster(cluster);
+            } else {
+                cluster = this.createCluster(markers);
+                map.addLayer(cluster.layer);
+            }
+            clusters.push(cluster);
+        }
+        for (const key of Object.keys(previous)) {
+            map.removeLayer(previous[key].layer);
+        }
+        this.clusters = clusters;
+    }
+
+    /**
+     * Internal method to create a cluster marker for the given markers
+     */
+    protected createCluster(markers: Marker[]): IMarkerCluster {
+        const cluster: IMarkerCluster = {
+            bounds: undefined,
+            latLng: undefined,
+            layer: new Marker([0, 0], {icon: this.createClusterIcon(markers)}),
+            markers,
+        };
+        this.updateCluster(cluster);
+        cluster.layer.on('click', (event: LeafletMouseEvent) => {
+            this.onClusterClick(cluster, event.originalEvent);
+        });
+        return cluster;
+    }
+
+    /**
+     * Internal method to move a cluster marker to the center of its markers
+     */
+    protected updateCluster(cluster: IMarkerCluster): void {
+        let lat: number = 0;
+        let lng: number = 0;
+        for (const marker of cluster.markers) {
+            lat += marker.getLatLng().lat;
+            lng += marker.getLatLng().lng;
+        }
+        const center: LatLng = latLng(lat / cluster.markers.length, lng / cluster.markers.length);
+        cluster.bounds = latLngBounds(cluster.markers.map((marker: Marker) => marker.getLatLng()));
+        if (!cluster.latLng || !cluster.latLng.equals(center)) {
+            cluster.latLng = center;
+            cluster.layer.setLatLng(center);
+        }
+    }
+
+    /**
+     * Internal method to zoom into a cluster or spiderfy it on click
+     */
+    protected onClusterClick(cluster: IMarkerCluster, originalEvent?: MouseEvent): void {
+        const map: Map = (this as any)._map;
+        this.fire('clusterclick', {cluster, originalEvent});
+        if (!map) {
+            return;
+        }
+        // Markers on the same position can not be separated by zooming
+        const separable: boolean = !cluster.bounds.getSouthWest().equals(cluster.bounds.getNorthEast());
+        if (this.zoomToBoundsOnClick && separable && map.getZoom() < map.getBoundsZoom(cluster.bounds)) {
+            map.fitBounds(cluster.bounds);
+            return;
+        }
+        if (this.spiderfyOnMaxZoom) {
+            this.spiderfy(cluster);
+        }
+    }
+
+    /**
+     * Internal handler to leave out hidden markers
+     */
+    protected onMarkerDisplayChange(event: LeafletEvent & {display: boolean}): void {
+        const id: number = this.getLayerId(event.target);
+        if (event.display) {
+            delete this.hiddenMarkers[id];
+        } else {
+            this.hiddenMarkers[id] = true;
+        }
+        this.scheduleRefresh();
+    }
+
+    /**
+     * Internal handler for layers added to an adopted layer group
+     */
+    protected onAdoptedLayerAdd(event: LayerEvent): void {
+        this.addLayer(event.layer);
+    }
+
+    /**
+     * Internal handler for layers removed from an adopted layer group
+     */
+    protected onAdoptedLayerRemove(event: LayerEvent): void {
+        this.removeLayer(event.layer);
+    }
+
+    /**
+     * Identifies a cluster by the ids of its markers
+     */
+    private getClusterKey(markers: Marker[]): string {
+        return markers.map((marker: Marker) => this.getLayerId(marker)).join(',');
+    }
+}
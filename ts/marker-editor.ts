@@ -0,0 +1,55 @@
+import {
+    Map,
+    Marker,
+} from 'leaflet';
+import { LayerEditor } from './layer-editor';
+
+/**
+ * Editor for markers that makes them draggable. The draggable state from before is restored when the editor gets
+ * disabled.
+ */
+export class MarkerEditor extends LayerEditor {
+    protected layer: Marker;
+
+    private wasDraggable: boolean = false;
+
+    constructor(layer: Marker) {
+        super(layer);
+        layer.on('dragend', () => {
+            if (this.isEnabled()) {
+                this.fireEdited();
+            }
+        });
+    }
+
+    public enable(): void {
+        if (!this.isEnabled()) {
+            this.wasDraggable = this.layer.dragging ? this.layer.dragging.enabled() : !!this.layer.options.draggable;
+        }
+        super.enable();
+    }
+
+    public disable(): void {
+        if (!this.isEnabled()) {
+            return;
+        }
+        super.disable();
+        if (this.wasDraggable) {
+            return;
+        }
+        if (this.layer.dragging) {
+            this.layer.dragging.disable();
+            return;
+        }
+        this.layer.options.draggable = false;
+    }
+
+    protected createHandles(): void {
+        // The marker itself is the handle
+    }
+
+    protected addHooks(map: Map): void {
+        super.addHooks(map);
+        this.layer.dragging.enable();
+    }
+}
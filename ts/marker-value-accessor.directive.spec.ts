@@ -0,0 +1,160 @@
+import { NgZone } from '@angular/core';
+import { expect } from 'chai';
+import { latLng, LatLng, point } from 'leaflet';
+import {
+    MapComponent,
+    MarkerDirective,
+    MarkerValueAccessorDirective,
+} from './index';
+
+describe('Marker-Value-Accessor Directive', () => {
+    let map: MapComponent;
+    let layer: MarkerDirective;
+    let accessor: MarkerValueAccessorDirective;
+    let values: LatLng[];
+    let touched: number;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        layer = new MarkerDirective(map);
+        layer.ngAfterContentInit();
+        accessor = new MarkerValueAccessorDirective(layer);
+        values = [];
+        touched = 0;
+        accessor.registerOnChange((val: LatLng) => values.push(val));
+        accessor.registerOnTouched(() => touched += 1);
+    });
+    afterEach(() => {
+        accessor.ngOnDestroy();
+    });
+
+    describe('writeValue', () => {
+        it('should set the position of the marker', () => {
+            accessor.writeValue(latLng(1, 2));
+            expect(layer.getLatLng()).to.deep.equal(latLng(1, 2));
+        });
+        it('should not pass the written value back to the form', () => {
+            accessor.writeValue(latLng(1, 2));
+            expect(values.length).to.equal(0);
+        });
+    });
+    describe('reset', () => {
+        it('should hide the layer for an empty value', () => {
+            accessor.writeValue(latLng(1, 2));
+            accessor.writeValue(null);
+            expect(layer.display).to.equal(false);
+        });
+        it('should display the layer again with the next value', () => {
+            accessor.writeValue(null);
+            accessor.writeValue(latLng(1, 2));
+            expect(layer.display).to.equal(true);
+            expect(layer.getLatLng()).to.deep.equal(latLng(1, 2));
+        });
+        it('should not pass an empty value back to the form', () => {
+            accessor.writeValue(undefined);
+            expect(values.length).to.equal(0);
+        });
+        it('should keep a layer hidden, that was not hidden by an empty value', () => {
+            layer.display = false;
+            accessor.writeValue(null);
+            accessor.writeValue(latLng(1, 2));
+            expect(layer.display).to.equal(false);
+        });
+    });
+    describe('changes', () => {
+        it('should pass a dragged position to the form', () => {
+            (layer as any)._latlng = latLng(3, 4);
+            layer.fire('drag');
+            expect(values).to.deep.equal([latLng(3, 4)]);
+        });
+        it('should pass a position set in Leaflet to the form', () => {
+            layer.setLatLng(latLng(3, 4));
+            expect(values).to.deep.equal([latLng(3, 4)]);
+        });
+        it('should mark the form control as touched after dragging', () => {
+            layer.fire('dragend');
+            expect(touched).to.equal(1);
+        });
+        it('should not pass changes after destroying', () => {
+            accessor.ngOnDestroy();
+            layer.setLatLng(latLng(3, 4));
+            layer.fire('dragend');
+            expect(values.length).to.equal(0);
+            expect(touched).to.equal(0);
+        });
+    });
+    describe('setDisabledState', () => {
+        it('should disable dragging and editing', () => {
+            layer.draggable = true;
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            expect(layer.draggable).to.equal(false);
+            expect(layer.editable).to.equal(false);
+        });
+        it('should restore dragging and editing when enabled again', () => {
+            layer.draggable = true;
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            expect(layer.draggable).to.equal(true);
+            expect(layer.editable).to.equal(true);
+        });
+        it('should keep a not draggable marker not draggable after editing', () => {
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            layer.editable = false;
+            expect(layer.draggable).to.equal(false);
+        });
+        it('should keep a not draggable marker not draggable when enabled again', () => {
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            expect(layer.draggable).to.equal(false);
+            expect(layer.editable).to.equal(false);
+        });
+    });
+
+    describe('NgZone', () => {
+        let zone: any;
+        let inside: boolean[];
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const wasInside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = wasInside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const wasInside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = wasInside;
+                return result;
+            };
+            accessor.ngOnDestroy();
+            accessor = new MarkerValueAccessorDirective(layer, zone as NgZone);
+            inside = [];
+            accessor.registerOnChange(() => inside.push(zone.inside));
+            accessor.registerOnTouched(() => inside.push(zone.inside));
+            zone.inside = false;
+        });
+        it('should pass a dragged position to the form inside of the zone', () => {
+            (layer as any)._latlng = latLng(3, 4);
+            layer.fire('drag');
+            expect(inside).to.deep.equal([true]);
+        });
+        it('should mark the form control as touched after dragging inside of the zone', () => {
+            layer.fire('dragend');
+            expect(inside).to.deep.equal([true]);
+        });
+        it('should mark the form control as touched after editing inside of the zone', () => {
+            layer.fire('edit');
+            expect(inside).to.deep.equal([true]);
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import {
+    Directive,
+    forwardRef,
+    Inject,
+    NgZone,
+    Optional,
+} from '@angular/core';
+import { NG_VALUE_ACCESSOR } from '@angular/forms';
+import { LatLng } from 'leaflet';
+import { LayerValueAccessor } from './layer-value-accessor';
+import { MarkerDirective } from './marker.directive';
+
+/**
+ * Angular2 directive to bind the position of a marker with Angular forms.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule` and the `FormsModule` or
+ * `ReactiveFormsModule` of Angular.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-marker formControlName="location" [draggable]="true"></yaga-marker>
+ *     <yaga-marker [(ngModel)]="location" [draggable]="true"></yaga-marker>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The value is the position of the marker as `LatLng`. It changes while the marker is dragged or edited.
+ * * A disabled control disables the dragging and editing of the marker.
+ * * An empty value, like after resetting the control, hides the marker until it gets a value again.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Marker-Value-Accessor%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/marker-value-accessor.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/markervalueaccessordirective.html API documentation
+ */
+@Directive({
+    providers: [{
+        multi: true,
+        provide: NG_VALUE_ACCESSOR,
+        useExisting: forwardRef(() => MarkerValueAccessorDirective),
+    }],
+    selector: 'yaga-marker[formControlName],yaga-marker[formControl],yaga-marker[ngModel]',
+})
+export class MarkerValueAccessorDirective extends LayerValueAccessor<LatLng> {
+    protected marker: MarkerDirective;
+
+    private wasDraggable: boolean = false;
+
+    constructor(
+        @Inject(forwardRef(() => MarkerDirective)) marker: MarkerDirective,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super(marker, ngZone);
+        this.marker = marker;
+        this.subscriptions.push(marker.positionChange.subscribe((val: LatLng) => {
+            this.change(val);
+        }));
+    }
+
+    /**
+     * Internal method of the `ControlValueAccessor` to disable or enable the dragging and editing of the marker
+     */
+    public setDisabledState(isDisabled: boolean): void {
+        if (isDisabled === this.disabled) {
+            return;
+        }
+        // The editor restores the dragging of the marker, so it is disabled after the editing and restored before it
+        if (isDisabled) {
+            super.setDisabledState(isDisabled);
+            this.wasDraggable = this.marker.draggable;
+            this.marker.draggable = false;
+            return;
+        }
+        this.marker.draggable = this.wasDraggable;
+        super.setDisabledState(isDisabled);
+    }
+
+    protected setValue(value: LatLng): void {
+        this.marker.setLatLng(value);
+    }
+}
@@ -1,8 +1,10 @@
+import { NgZone } from '@angular/core';
 import { expect } from 'chai';
 import { latLng, point } from 'leaflet';
 import {
     IconDirective,
     LatLng,
+    LayerGroupDirective,
     MapComponent,
     MarkerDirective,
     PopupDirective,
@@ -43,6 +45,21 @@ describe('Marker Directive', () => {
 
             expect(hasAsChild(layer.getPane(), layer.getElement())).to.equal(true);
         });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.displayChange.subscribe((eventVal: boolean) => {
+                expect(eventVal).to.equal(false);
+                return done();
+            });
+            layer.display = false;
+        });
+        it('should stay hidden when added to the map again', () => {
+            layer.display = false;
+            map.removeLayer(layer);
+            map.addLayer(layer);
+
+            expect(layer.display).to.equal(false);
+            expect(hasAsChild(layer.getPane(), layer.getElement())).to.equal(false);
+        });
         it('should remove EventListeners when not displaying', (done: MochaDone) => {
             const zoomEvents: Array<{fn: () => any}> = (map as any)._events.zoom;
             const length: number = zoomEvents.length;
@@ -300,6 +317,50 @@ describe('Marker Directive', () => {
             layer.draggable = true;
             expect(layer.draggable).to.equal(true);
         });
+        it('should be applied on adding to the map, when created in a hidden group', () => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            group.display = false;
+            const groupedLayer: MarkerDirective = new MarkerDirective(map, group);
+            groupedLayer.draggable = true;
+            expect(groupedLayer.draggable).to.equal(true);
+            group.display = true;
+            expect(groupedLayer.dragging.enabled()).to.equal(true);
+        });
+        it('should fire an event when enabled in Leaflet after created in a hidden group', (done: MochaDone) => {
+            const group: LayerGroupDirective = new LayerGroupDirective(map);
+            group.display = false;
+            const groupedLayer: MarkerDirective = new MarkerDirective(map, group);
+            group.display = true;
+            groupedLayer.draggableChange.subscribe((eventVal: boolean) => {
+                expect(eventVal).to.equal(true);
+                return done();
+            });
+            groupedLayer.dragging.enable();
+        });
+        it('should fire an event when enabled in Leaflet after adding to the map again', (done: MochaDone) => {
+            map.removeLayer(layer);
+            map.addLayer(layer);
+            layer.draggableChange.subscribe((eventVal: boolean) => {
+                expect(eventVal).to.equal(true);
+                return done();
+            });
+            layer.dragging.enable();
+        });
+        it('should keep its state when added to the map again', () => {
+            layer.draggable = true;
+            map.removeLayer(layer);
+            expect(layer.draggable).to.equal(true);
+            map.addLayer(layer);
+            expect(layer.dragging.enabled()).to.equal(true);
+        });
+        it('should not fire an event when added to the map again', () => {
+            const values: boolean[] = [];
+            layer.draggable = true;
+            layer.draggableChange.subscribe((eventVal: boolean) => values.push(eventVal));
+            map.removeLayer(layer);
+            map.addLayer(layer);
+            expect(values).to.deep.equal([]);
+        });
     });
 
     // Events
@@ -552,6 +613,66 @@ describe('Marker Directive', () => {
 
     });
 
+    describe('NgZone', () => {
+        let zone: any;
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            layer = new MarkerDirective(map, undefined, zone as NgZone);
+            zone.inside = false;
+        });
+        it('should only enter the zone for outputs with subscribers', () => {
+            let inside: boolean = false;
+            const entered: number = zone.entered;
+            layer.fire('click', {latlng: latLng(0, 0)});
+            expect(zone.entered).to.equal(entered);
+            layer.clickEvent.subscribe(() => {
+                inside = zone.inside;
+            });
+            layer.fire('click', {latlng: latLng(0, 0)});
+            expect(inside).to.equal(true);
+        });
+        it('should emit the position inside of the zone while dragging', () => {
+            let inside: boolean = false;
+            layer.positionChange.subscribe(() => {
+                inside = zone.inside;
+            });
+            layer.setLatLng([1, 2]);
+            layer.fire('drag');
+            expect(inside).to.equal(true);
+        });
+        it('should enable the drag handler outside of the zone', () => {
+            zone.inside = true;
+            const left: number = zone.left;
+            layer.draggable = true;
+            expect(zone.left).to.equal(left + 1);
+        });
+        it('should enable the drag handler of a draggable marker outside of the zone, when it is added', () => {
+            layer.draggable = true;
+            map.removeLayer(layer);
+            zone.inside = true;
+            const left: number = zone.left;
+            map.addLayer(layer);
+            expect(zone.left).to.equal(left + 1);
+            expect(layer.dragging.enabled()).to.equal(true);
+        });
+    });
+
     describe('Destroying a Marker Directive', () => {
         it('should remove Marker Directive from map on destroy', () => {
             expect(map.hasLayer(layer)).to.equal(true);
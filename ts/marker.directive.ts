@@ -6,7 +6,9 @@ import {
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
+    Optional,
     Output,
 } from '@angular/core';
 import {
@@ -23,9 +25,13 @@ import {
     PopupEvent,
     TooltipEvent,
 } from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
 import { MapComponent } from './map.component';
+import { MarkerEditor } from './marker-editor';
+import { ZoneEmitter } from './zone-emitter';
 
 // Content-Child imports
+import { ComponentIconDirective } from './component-icon.directive';
 import { DivIconDirective } from './div-icon.directive';
 import { IconDirective } from './icon.directive';
 import { PopupDirective } from './popup.directive';
@@ -69,92 +75,122 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
     @ContentChild(TooltipDirective) public tooltipDirective: TooltipDirective;
     @ContentChild(IconDirective) public iconDirective: IconDirective;
     @ContentChild(DivIconDirective) public divIconDirective: DivIconDirective;
+    @ContentChild(ComponentIconDirective) public componentIconDirective: ComponentIconDirective;
 
+    /**
+     * Flag that is set by a marker cluster while it adds the marker to or removes it from the map. These changes are
+     * not emitted as changes of the display state.
+     */
+    public clustering: boolean = false;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected editor: MarkerEditor;
     private initialized: boolean = false;
+    private hidden: boolean = false;
 
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         super([0, 0]);
-        mapComponent.addLayer(this);
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
 
         this.on('remove', () => {
-            this.displayChange.emit(false);
+            // Leaflet creates a new drag handler from the draggable option, when the marker gets added again
+            if (this.dragging) {
+                this.options.draggable = this.dragging.enabled();
+                this.dragging = undefined;
+            }
+            if (!this.clustering) {
+                this.zoneEmitter.emit(this.displayChange, false);
+            }
+            // The Angular view of a component icon lives only as long as the marker is on the map
+            if (this.options.icon instanceof ComponentIconDirective) {
+                this.options.icon.destroyView();
+            }
         });
         this.on('add', () => {
-            this.displayChange.emit(true);
+            this.wrapDragging();
+            if (this.hidden) {
+                // A hidden marker stays hidden when it gets added to the map again
+                this.hidden = false;
+                this.display = false;
+                return;
+            }
+            if (!this.clustering) {
+                this.zoneEmitter.emit(this.displayChange, true);
+            }
         });
         this.on('drag', (event: DragEndEvent) => {
-            this.latChange.emit(this.getLatLng().lat);
-            this.lngChange.emit(this.getLatLng().lng);
-            this.positionChange.emit(this.getLatLng());
+            this.zoneEmitter.emit(this.latChange, this.getLatLng().lat);
+            this.zoneEmitter.emit(this.lngChange, this.getLatLng().lng);
+            this.zoneEmitter.emit(this.positionChange, this.getLatLng());
         });
 
         // Events
         this.on('dragend', (event: DragEndEvent) => {
-            this.dragendEvent.emit(event);
+            this.zoneEmitter.emit(this.dragendEvent, event);
         });
         this.on('dragstart', (event: LeafletEvent) => {
-            this.dragstartEvent.emit(event);
+            this.zoneEmitter.emit(this.dragstartEvent, event);
         });
         this.on('movestart', (event: LeafletEvent) => {
-            this.movestartEvent.emit(event);
+            this.zoneEmitter.emit(this.movestartEvent, event);
         });
         this.on('drag', (event: LeafletEvent) => {
-            this.dragEvent.emit(event);
+            this.zoneEmitter.emit(this.dragEvent, event);
         });
         this.on('moveend', (event: LeafletEvent) => {
-            this.moveendEvent.emit(event);
+            this.zoneEmitter.emit(this.moveendEvent, event);
         });
         this.on('add', (event: LeafletEvent) => {
-            this.addEvent.emit(event);
+            this.zoneEmitter.emit(this.addEvent, event);
         });
         this.on('remove', (event: LeafletEvent) => {
-            this.removeEvent.emit(event);
+            this.zoneEmitter.emit(this.removeEvent, event);
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event);
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
         });
         this.on('click', (event: MouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event);
         });
         this.on('dbclick', (event: MouseEvent) => {
-            this.dbclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dbclickEvent, event);
         });
         this.on('mousedown', (event: MouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event);
         });
         this.on('mouseover', (event: MouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
         });
         this.on('mouseout', (event: MouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
         });
         this.on('contextmenu', (event: MouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
         });
-        const oldDraggingEnable: () => any = this.dragging.enable;
-        const oldDraggingDisable: () => any = this.dragging.disable;
-
-        this.dragging.enable = (): Handler => {
-            const val: Handler = oldDraggingEnable.call(this.dragging);
-            this.draggableChange.emit(true);
-            return val;
-        };
-        this.dragging.disable = (): Handler => {
-            const val: Handler = oldDraggingDisable.call(this.dragging);
-            this.draggableChange.emit(false);
-            return val;
-        };
+        // The drag handler only exists when the marker was added to a map directly (and not to a hidden group).
+        // Otherwise it gets wrapped when the marker is added to the map.
+        this.wrapDragging();
         // TODO: this.addIcon(IconDirective / DivIconDirective)
     }
 
@@ -170,6 +206,11 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
             this.divIconDirective.updateEvent.subscribe((event: LeafletEvent) => {
                 this.setIcon(event.target);
             });
+        } else if (this.componentIconDirective) {
+            this.setIcon(this.componentIconDirective);
+            this.componentIconDirective.updateEvent.subscribe((event: LeafletEvent) => {
+                this.setIcon(event.target);
+            });
         }
         if (this.popupDirective) {
             this.bindPopup(this.popupDirective);
@@ -180,11 +221,19 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
     }
 
     public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
         this.removeFrom((this as any)._map);
     }
 
     @Input() public set display(val: boolean) {
         const isDisplayed: boolean = this.display;
+        if (this.hidden === val) {
+            this.hidden = !val;
+            // Marker clusters listen to this event to leave out hidden markers
+            this.fire('displaychange', {display: val});
+        }
         if (isDisplayed === val) {
             return;
         }
@@ -216,6 +265,7 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
                 map.off(eventKey, events[eventKey], this);
             }
         }
+        this.zoneEmitter.emit(this.displayChange, val);
     }
     public get display(): boolean {
         let pane: HTMLElement;
@@ -241,9 +291,9 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
     public setLatLng(val: LatLng | LatLngLiteral | LatLngTuple): this {
         super.setLatLng((val as any));
         if (this.initialized) {
-            this.positionChange.emit(this.getLatLng());
-            this.latChange.emit(this.getLatLng().lat);
-            this.lngChange.emit(this.getLatLng().lng);
+            this.zoneEmitter.emit(this.positionChange, this.getLatLng());
+            this.zoneEmitter.emit(this.latChange, this.getLatLng().lat);
+            this.zoneEmitter.emit(this.lngChange, this.getLatLng().lng);
         }
         return this;
     }
@@ -271,7 +321,7 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
         if (this.opacity === val) {
             return;
         }
-        this.opacityChange.emit(val);
+        this.zoneEmitter.emit(this.opacityChange, val);
         return super.setOpacity(val);
     }
     @Input() public set opacity(val: number) {
@@ -282,8 +332,11 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
     }
 
     public setIcon(val: Icon | DivIcon): this {
+        if (this.options.icon !== val && this.options.icon instanceof ComponentIconDirective) {
+            this.options.icon.destroyView();
+        }
         super.setIcon(val);
-        this.iconChange.emit(val);
+        this.zoneEmitter.emit(this.iconChange, val);
         return this;
     }
     @Input() public set icon(val: Icon | DivIcon) {
@@ -293,6 +346,12 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
         return this.options.icon;
     }
     @Input() public set draggable(val: boolean) {
+        if (!this.dragging) {
+            // Leaflet creates the drag handler with this option, when the marker gets added to the map
+            this.options.draggable = val;
+            this.zoneEmitter.emit(this.draggableChange, val);
+            return;
+        }
         if (val) {
             this.dragging.enable();
             return;
@@ -301,6 +360,9 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
         return;
     }
     public get draggable(): boolean {
+        if (!this.dragging) {
+            return !!this.options.draggable;
+        }
         return this.dragging.enabled();
     }
 
@@ -318,4 +380,61 @@ export class MarkerDirective extends Marker implements AfterContentInit, OnDestr
     public get alt(): string {
         return this.getElement().getAttribute('alt');
     }
+
+    /**
+     * Input for the editable state. An editable marker is draggable.
+     * Changes are emitted with the two-way bindings and the map fires a `draw:edited` event after each edit.
+     * Use it with `<yaga-marker [editable]="someValue">`
+     */
+    @Input() public set editable(val: boolean) {
+        if (!this.editor) {
+            if (!val) {
+                return;
+            }
+            this.editor = new MarkerEditor(this);
+        }
+        if (val) {
+            this.editor.enable();
+            return;
+        }
+        this.editor.disable();
+    }
+    public get editable(): boolean {
+        return !!this.editor && this.editor.isEnabled();
+    }
+
+    /**
+     * Internal method to emit the `draggableChange` when the drag handler of Leaflet gets enabled or disabled
+     */
+    private wrapDragging(): void {
+        if (!this.dragging) {
+            return;
+        }
+        const dragging: Handler = this.dragging;
+        const oldDraggingEnable: () => Handler = dragging.enable;
+        const oldDraggingDisable: () => Handler = dragging.disable;
+
+        // The DOM listeners of the drag handler run outside of the Angular zone, like the ones of the map
+        dragging.enable = (): Handler => {
+            const wasEnabled: boolean = dragging.enabled();
+            const val: Handler = this.zoneEmitter.runOutside(() => oldDraggingEnable.call(dragging));
+            if (!wasEnabled) {
+                this.zoneEmitter.emit(this.draggableChange, true);
+            }
+            return val;
+        };
+        dragging.disable = (): Handler => {
+            const wasEnabled: boolean = dragging.enabled();
+            const val: Handler = oldDraggingDisable.call(dragging);
+            if (wasEnabled) {
+                this.zoneEmitter.emit(this.draggableChange, false);
+            }
+            return val;
+        };
+        if (dragging.enabled()) {
+            // Leaflet enables the handler before it can be wrapped
+            oldDraggingDisable.call(dragging);
+            this.zoneEmitter.runOutside(() => oldDraggingEnable.call(dragging));
+        }
+    }
 }
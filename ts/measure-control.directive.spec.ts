@@ -0,0 +1,264 @@
+import { expect } from 'chai';
+import { LatLng, latLng, point, Polygon, Polyline, SVG } from 'leaflet';
+import {
+    MapComponent,
+    measureArea,
+    MeasureControlDirective,
+    measureDistance,
+} from './index';
+
+describe('Measure-Control Directive', () => {
+    let map: MapComponent;
+    let control: MeasureControlDirective;
+    let button: HTMLElement;
+    let result: HTMLElement;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        control = new MeasureControlDirective(map);
+        button = control.getContainer().querySelector('.yaga-measure-control-button') as HTMLElement;
+        result = control.getContainer().querySelector('.yaga-measure-control-result') as HTMLElement;
+    });
+
+    function clickMap(lat: number, lng: number): void {
+        map.fire('click', {latlng: latLng(lat, lng)});
+    }
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('topright');
+                done();
+            });
+            control.setPosition('topright');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('[(active)]', () => {
+        it('should be inactive by default', () => {
+            expect(control.active).to.equal(false);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.activeChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            control.active = true;
+        });
+        it('should be toggled with a click on the button', () => {
+            button.click();
+            expect(control.active).to.equal(true);
+            expect(button.classList.contains('yaga-measure-control-active')).to.equal(true);
+            button.click();
+            expect(control.active).to.equal(false);
+            expect(button.classList.contains('yaga-measure-control-active')).to.equal(false);
+        });
+        it('should disable the double click zoom while measuring', () => {
+            control.active = true;
+            expect(map.doubleClickZoom.enabled()).to.equal(false);
+            control.active = false;
+            expect(map.doubleClickZoom.enabled()).to.equal(true);
+        });
+        it('should not measure while inactive', () => {
+            clickMap(0, 0);
+            expect(control.latLngs.length).to.equal(0);
+        });
+        it('should remove the measured path when deactivating', () => {
+            control.active = true;
+            clickMap(0, 0);
+            clickMap(0, 1);
+            control.active = false;
+            expect(control.latLngs.length).to.equal(0);
+            expect(result.textContent).to.equal('');
+            map.eachLayer((layer: any) => {
+                expect(layer).to.not.be.instanceOf(Polyline);
+            });
+        });
+    });
+    describe('[metric], [imperial] and [nautical]', () => {
+        beforeEach(() => {
+            control.active = true;
+            clickMap(0, 0);
+            clickMap(0, 0.01);
+        });
+        it('should display metric and imperial units by default', () => {
+            expect(result.children.length).to.equal(2);
+            expect(result.children[0].textContent).to.equal('1.11 km');
+            expect(result.children[1].textContent).to.equal('3648 ft');
+        });
+        it('should hide the imperial units', () => {
+            control.imperial = false;
+            expect(control.imperial).to.equal(false);
+            expect(result.children.length).to.equal(1);
+        });
+        it('should display nautical units', () => {
+            control.metric = false;
+            control.imperial = false;
+            control.nautical = true;
+            expect(result.children.length).to.equal(1);
+            expect(result.children[0].textContent).to.equal('0.6 nm');
+        });
+        it('should display the area from three positions on', () => {
+            control.imperial = false;
+            clickMap(0.01, 0.01);
+            expect(result.children[0].textContent).to.equal('2.22 km / 61.8 ha');
+        });
+    });
+    describe('(distanceChange) and (areaChange)', () => {
+        beforeEach(() => {
+            control.active = true;
+            clickMap(0, 0);
+            clickMap(0, 1);
+        });
+        it('should fire the distance including the position of the mouse', (done: MochaDone) => {
+            control.distanceChange.subscribe((val: number) => {
+                expect(val).to.equal(measureDistance([latLng(0, 0), latLng(0, 1), latLng(1, 1)]));
+                done();
+            });
+            map.fire('mousemove', {latlng: latLng(1, 1)});
+        });
+        it('should fire the area including the position of the mouse', (done: MochaDone) => {
+            control.areaChange.subscribe((val: number) => {
+                expect(val).to.equal(measureArea([latLng(0, 0), latLng(0, 1), latLng(1, 1)]));
+                done();
+            });
+            map.fire('mousemove', {latlng: latLng(1, 1)});
+        });
+    });
+    describe('(measureStart)', () => {
+        it('should fire with the first position', (done: MochaDone) => {
+            control.active = true;
+            control.measureStartEvent.subscribe((val: LatLng) => {
+                expect(val.equals([1, 2])).to.equal(true);
+                done();
+            });
+            clickMap(1, 2);
+        });
+    });
+    describe('(measureEnd)', () => {
+        beforeEach(() => {
+            control.active = true;
+        });
+        it('should fire with a line string after a double click', (done: MochaDone) => {
+            control.measureEndEvent.subscribe((val: any) => {
+                expect(val.geometry.type).to.equal('LineString');
+                expect(val.geometry.coordinates).to.deep.equal([[0, 0], [1, 0]]);
+                expect(val.properties.distance).to.equal(measureDistance([latLng(0, 0), latLng(0, 1)]));
+                done();
+            });
+            clickMap(0, 0);
+            clickMap(0, 1);
+            // the clicks of the double click
+            clickMap(0, 1);
+            map.fire('dblclick', {latlng: latLng(0, 1)});
+        });
+        it('should fire with a polygon after a click on the first position', (done: MochaDone) => {
+            control.measureEndEvent.subscribe((val: any) => {
+                expect(val.geometry.type).to.equal('Polygon');
+                expect(val.geometry.coordinates).to.deep.equal([[[0, 0], [1, 0], [1, 1], [0, 0]]]);
+                expect(val.properties.area).to.be.greaterThan(0);
+                done();
+            });
+            clickMap(0, 0);
+            clickMap(0, 1);
+            clickMap(1, 1);
+            clickMap(0, 0);
+        });
+        it('should not fire with less than two positions', () => {
+            control.measureEndEvent.subscribe(() => {
+                throw new Error('This should not happen');
+            });
+            clickMap(0, 0);
+            expect(control.finishMeasurement()).to.equal(undefined);
+        });
+        it('should keep the finished path on the map until the next measurement', () => {
+            clickMap(0, 0);
+            clickMap(0, 1);
+            clickMap(1, 1);
+            control.finishMeasurement(true);
+            let found: boolean = false;
+            map.eachLayer((layer: any) => {
+                found = found || layer instanceof Polygon;
+            });
+            expect(found).to.equal(true);
+            clickMap(5, 5);
+            expect(control.latLngs.length).to.equal(1);
+        });
+    });
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('Destroying a Measure-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
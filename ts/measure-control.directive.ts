@@ -0,0 +1,553 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+} from '@angular/core';
+import { GenericGeoJSONFeature } from '@yaga/generic-geojson';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LatLng,
+    LeafletEvent,
+    LeafletMouseEvent,
+    Map,
+    Path,
+    PathOptions,
+    Polygon,
+    Polyline,
+} from 'leaflet';
+import { MapComponent } from './map.component';
+import {
+    createMeasurementFeature,
+    formatArea,
+    formatDistance,
+    IMeasurementProperties,
+    measureArea,
+    measureDistance,
+    MeasurementUnit,
+} from './measurement';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Distance in pixels to the first position, within a click closes the measured path to a polygon
+ */
+const CLOSE_TOLERANCE: number = 10;
+
+/**
+ * Angular2 directive for a control to measure distances and areas on the map.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-measure-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *         [(active)]="..."
+ *
+ *         (distanceChange)="..."
+ *         (areaChange)="..."
+ *         (measureStart)="..."
+ *         (measureEnd)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [metric]="..."
+ *         [imperial]="..."
+ *         [nautical]="..."
+ *         [pathOptions]="..."
+ *         >
+ *     </yaga-measure-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * While active, every click on the map adds a position to the measured path. A double click finishes the path,
+ * a click on the first position closes it to a polygon.
+ * * The distance and area are geodesic. The area is the one of the path closed to a polygon.
+ * * The result is displayed in every enabled unit system, like in the scale control.
+ * * The finished measurement is emitted as a GeoJSON feature with the `distance` in meters and the `area` in square
+ * meters as properties.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Measure-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/measure-control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/measurecontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-measure-control',
+})
+export class MeasureControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-measure-control [(display)]="someValue">`
+     * or `<yaga-measure-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-measure-control [(zIndex)]="someValue">`
+     * or `<yaga-measure-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-measure-control [(position)]="someValue">`
+     * or `<yaga-measure-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+    /**
+     * Two-Way bound property for the measuring mode.
+     * Use it with `<yaga-measure-control [(active)]="someValue">`
+     * or `<yaga-measure-control (activeChange)="processEvent($event)">`
+     */
+    @Output() public activeChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Output for the running distance in meters.
+     * Use it with `<yaga-measure-control (distanceChange)="processEvent($event)">`
+     */
+    @Output() public distanceChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Output for the running area in square meters.
+     * Use it with `<yaga-measure-control (areaChange)="processEvent($event)">`
+     */
+    @Output() public areaChange: EventEmitter<number> = new EventEmitter();
+
+    /**
+     * Fired on the first position of a new measurement.
+     * Use it with `<yaga-measure-control (measureStart)="processEvent($event)">`
+     */
+    @Output('measureStart') public measureStartEvent: EventEmitter<LatLng> = new EventEmitter();
+    /**
+     * Fired with the finished measurement as GeoJSON feature.
+     * Use it with `<yaga-measure-control (measureEnd)="processEvent($event)">`
+     */
+    @Output('measureEnd') public measureEndEvent: EventEmitter<
+        GenericGeoJSONFeature<GeoJSON.LineString | GeoJSON.Polygon, IMeasurementProperties>
+    > = new EventEmitter();
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-measure-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-measure-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-measure-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-measure-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-measure-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-measure-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-measure-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * Input for the style of the measured path.
+     * Use it with `<yaga-measure-control [pathOptions]="someValue">`
+     */
+    @Input() public pathOptions: PathOptions = {};
+
+    protected container: HTMLElement;
+    protected button: HTMLAnchorElement;
+    protected resultElement: HTMLElement;
+    protected measurePoints: LatLng[] = [];
+    protected measureLayer: Path;
+    protected zoneEmitter: ZoneEmitter;
+
+    private isActive: boolean = false;
+    private isFinished: boolean = false;
+    private units: {[unit: string]: boolean} = {imperial: true, metric: true, nautical: false};
+    private doubleClickZoomWasEnabled: boolean;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-measure-control');
+        DomEvent.disableClickPropagation(this.container);
+        this.button = (DomUtil.create('a', 'yaga-measure-control-button', this.container) as HTMLAnchorElement);
+        this.button.href = '#';
+        this.button.title = 'Measure distances and areas';
+        this.button.setAttribute('role', 'button');
+        DomEvent.on(this.button, 'click', (event: Event) => {
+            DomEvent.preventDefault(event);
+            this.setActive(!this.isActive);
+        });
+        this.resultElement = DomUtil.create('div', 'yaga-measure-control-result', this.container);
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            if (self.isActive) {
+                self.startMeasuring(map);
+            }
+            self.zoneEmitter.emit(self.displayChange, true);
+            self.zoneEmitter.emit(self.addEvent, {type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            self.stopMeasuring(map);
+            self.zoneEmitter.emit(self.displayChange, false);
+            self.zoneEmitter.emit(self.removeEvent, {type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.clickEvent, event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.dbclickEvent, event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mousedownEvent, event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.zoneEmitter.emit(this.positionChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to start or stop the measuring mode. Stopping removes the measured path from the map.
+     */
+    public setActive(val: boolean): this {
+        if (val === this.isActive) {
+            return this;
+        }
+        this.isActive = val;
+        const map: Map = (this as any)._map;
+        if (map && val) {
+            this.startMeasuring(map);
+        } else if (map) {
+            this.stopMeasuring(map);
+        }
+        if (val) {
+            DomUtil.addClass(this.button, 'yaga-measure-control-active');
+        } else {
+            DomUtil.removeClass(this.button, 'yaga-measure-control-active');
+        }
+        this.zoneEmitter.emit(this.activeChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to finish the measurement with the positions measured so far. It returns the measurement as
+     * GeoJSON feature or `undefined` when there are less than two positions.
+     */
+    public finishMeasurement(
+        closed: boolean = false,
+    ): GenericGeoJSONFeature<GeoJSON.LineString | GeoJSON.Polygon, IMeasurementProperties> {
+        if (this.isFinished || this.measurePoints.length < 2) {
+            return undefined;
+        }
+        closed = closed && this.measurePoints.length >= 3;
+        this.isFinished = true;
+        this.updateMeasurement(undefined, closed);
+        const feature: GenericGeoJSONFeature<GeoJSON.LineString | GeoJSON.Polygon, IMeasurementProperties> =
+            createMeasurementFeature(this.measurePoints, closed);
+        this.zoneEmitter.emit(this.measureEndEvent, feature);
+        return feature;
+    }
+
+    /**
+     * Self written method to remove the measured path without finishing it
+     */
+    public clearMeasurement(): void {
+        const map: Map = (this as any)._map;
+        if (this.measureLayer && map) {
+            map.removeLayer(this.measureLayer);
+        }
+        this.measureLayer = undefined;
+        this.measurePoints = [];
+        this.isFinished = false;
+        this.resultElement.innerHTML = '';
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-measure-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-measure-control [(display)]="someValue">`
+     * or `<yaga-measure-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-measure-control [(position)]="someValue">`
+     * or `<yaga-measure-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-measure-control [(zIndex)]="someValue">`
+     * or `<yaga-measure-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zoneEmitter.emit(this.zIndexChange, zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Two-Way bound property for the measuring mode.
+     * Use it with `<yaga-measure-control [(active)]="someValue">`
+     * or `<yaga-measure-control [active]="someValue">`
+     */
+    @Input() public set active(val: boolean) {
+        this.setActive(val);
+    }
+    public get active(): boolean {
+        return this.isActive;
+    }
+
+    /**
+     * Input to display the result in metric units (m, km, m², ha and km²).
+     * Use it with `<yaga-measure-control [metric]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-scale-metric Original Leaflet documentation
+     */
+    @Input() public set metric(val: boolean) {
+        this.units.metric = val;
+        this.updateMeasurement();
+    }
+    public get metric(): boolean {
+        return this.units.metric;
+    }
+
+    /**
+     * Input to display the result in imperial units (ft, mi, ft², ac and mi²).
+     * Use it with `<yaga-measure-control [imperial]="someValue">`
+     * @link http://leafletjs.com/reference-1.0.3.html#control-scale-imperial Original Leaflet documentation
+     */
+    @Input() public set imperial(val: boolean) {
+        this.units.imperial = val;
+        this.updateMeasurement();
+    }
+    public get imperial(): boolean {
+        return this.units.imperial;
+    }
+
+    /**
+     * Input to display the result in nautical units (nm and nm²).
+     * Use it with `<yaga-measure-control [nautical]="someValue">`
+     */
+    @Input() public set nautical(val: boolean) {
+        this.units.nautical = val;
+        this.updateMeasurement();
+    }
+    public get nautical(): boolean {
+        return this.units.nautical;
+    }
+
+    /**
+     * The measured positions
+     */
+    public get latLngs(): LatLng[] {
+        return this.measurePoints.slice();
+    }
+
+    /**
+     * Internal method to listen on the map for measuring
+     */
+    protected startMeasuring(map: Map): void {
+        map.on('click', this.onMapClick, this);
+        map.on('mousemove', this.onMapMouseMove, this);
+        map.on('dblclick', this.onMapDoubleClick, this);
+        this.doubleClickZoomWasEnabled = map.doubleClickZoom.enabled();
+        map.doubleClickZoom.disable();
+        DomUtil.addClass(map.getContainer(), 'yaga-measuring');
+    }
+
+    /**
+     * Internal method to stop listening on the map and remove the measured path
+     */
+    protected stopMeasuring(map: Map): void {
+        map.off('click', this.onMapClick, this);
+        map.off('mousemove', this.onMapMouseMove, this);
+        map.off('dblclick', this.onMapDoubleClick, this);
+        if (this.doubleClickZoomWasEnabled) {
+            map.doubleClickZoom.enable();
+        }
+        this.doubleClickZoomWasEnabled = undefined;
+        DomUtil.removeClass(map.getContainer(), 'yaga-measuring');
+        this.clearMeasurement();
+    }
+
+    /**
+     * Internal handler for clicks on the map while measuring
+     */
+    protected onMapClick(event: LeafletMouseEvent): void {
+        if (this.isFinished) {
+            this.clearMeasurement();
+        }
+        const map: Map = (this as any)._map;
+        const first: LatLng = this.measurePoints[0];
+        const last: LatLng = this.measurePoints[this.measurePoints.length - 1];
+        // The clicks of a double click should not add the same position twice
+        if (last && last.equals(event.latlng)) {
+            return;
+        }
+        if (
+            this.measurePoints.length >= 3 &&
+            map.latLngToContainerPoint(first).distanceTo(map.latLngToContainerPoint(event.latlng)) <= CLOSE_TOLERANCE
+        ) {
+            this.finishMeasurement(true);
+            return;
+        }
+        this.measurePoints.push(event.latlng);
+        if (this.measurePoints.length === 1) {
+            this.zoneEmitter.emit(this.measureStartEvent, event.latlng);
+        }
+        this.updateMeasurement();
+    }
+
+    /**
+     * Internal handler for double clicks on the map while measuring
+     */
+    protected onMapDoubleClick(): void {
+        this.finishMeasurement();
+    }
+
+    /**
+     * Internal handler for mouse moves on the map while measuring
+     */
+    protected onMapMouseMove(event: LeafletMouseEvent): void {
+        if (this.measurePoints.length && !this.isFinished) {
+            this.updateMeasurement(event.latlng);
+        }
+    }
+
+    /**
+     * Internal method to display the measured path and its distance and area. The position of the cursor is included
+     * as the next position while measuring.
+     */
+    protected updateMeasurement(cursor?: LatLng, closed: boolean = false): void {
+        const map: Map = (this as any)._map;
+        if (!map || !this.measurePoints.length) {
+            return;
+        }
+        const latLngs: LatLng[] = cursor ? this.measurePoints.concat(cursor) : this.measurePoints;
+        const distance: number = measureDistance(latLngs, closed);
+        const area: number = measureArea(latLngs);
+
+        if (this.measureLayer) {
+            map.removeLayer(this.measureLayer);
+        }
+        const options: PathOptions = {...this.pathOptions, className: 'yaga-measure-path', interactive: false};
+        this.measureLayer = closed ? new Polygon(latLngs, options) : new Polyline(latLngs, options);
+        map.addLayer(this.measureLayer);
+
+        const lines: string[] = [];
+        for (const unit of ['metric', 'imperial', 'nautical'] as MeasurementUnit[]) {
+            if (!this.units[unit]) {
+                continue;
+            }
+            lines.push(formatDistance(distance, unit) + (latLngs.length >= 3 ? ' / ' + formatArea(area, unit) : ''));
+        }
+        this.resultElement.innerHTML = '';
+        for (const line of lines) {
+            DomUtil.create('div', 'yaga-measure-control-line', this.resultElement).textContent = line;
+        }
+        this.zoneEmitter.emit(this.distanceChange, distance);
+        this.zoneEmitter.emit(this.areaChange, area);
+    }
+}
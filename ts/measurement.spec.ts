@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { LatLng, latLng } from 'leaflet';
+import {
+    createMeasurementFeature,
+    formatArea,
+    formatDistance,
+    measureArea,
+    measureDistance,
+} from './index';
+
+describe('Measurement helper', () => {
+    // about 111km on each side at the equator
+    const SQUARE: LatLng[] = [latLng(0, 0), latLng(0, 1), latLng(1, 1), latLng(1, 0)];
+
+    describe('measureDistance', () => {
+        it('should be zero for less than two positions', () => {
+            expect(measureDistance([])).to.equal(0);
+            expect(measureDistance([latLng(0, 0)])).to.equal(0);
+        });
+        it('should sum up the distances between the positions', () => {
+            expect(measureDistance(SQUARE)).to.be.closeTo(3 * 111195, 100);
+        });
+        it('should include the way back to the first position for closed paths', () => {
+            expect(measureDistance(SQUARE, true)).to.be.closeTo(4 * 111195, 100);
+        });
+    });
+    describe('measureArea', () => {
+        it('should be zero for less than three positions', () => {
+            expect(measureArea(SQUARE.slice(0, 2))).to.equal(0);
+        });
+        it('should calculate the geodesic area', () => {
+            expect(measureArea(SQUARE)).to.be.closeTo(12364000000, 10000000);
+        });
+        it('should not depend on the direction of the path', () => {
+            expect(measureArea(SQUARE.slice().reverse())).to.be.closeTo(measureArea(SQUARE), 1);
+        });
+    });
+    describe('formatDistance', () => {
+        it('should format in metric units by default', () => {
+            expect(formatDistance(512)).to.equal('512 m');
+            expect(formatDistance(1234)).to.equal('1.23 km');
+        });
+        it('should format in imperial units', () => {
+            expect(formatDistance(100, 'imperial')).to.equal('328 ft');
+            expect(formatDistance(16093.44, 'imperial')).to.equal('10 mi');
+        });
+        it('should format in nautical units', () => {
+            expect(formatDistance(1852, 'nautical')).to.equal('1 nm');
+        });
+    });
+    describe('formatArea', () => {
+        it('should format in metric units by default', () => {
+            expect(formatArea(500)).to.equal('500 m²');
+            expect(formatArea(25000)).to.equal('2.5 ha');
+            expect(formatArea(12345678)).to.equal('12.3 km²');
+        });
+        it('should format in imperial units', () => {
+            expect(formatArea(100, 'imperial')).to.equal('1076 ft²');
+            expect(formatArea(40468.564224, 'imperial')).to.equal('10 ac');
+            expect(formatArea(2589988.110336 * 2, 'imperial')).to.equal('2 mi²');
+        });
+        it('should format in nautical units', () => {
+            expect(formatArea(1852 * 1852 * 3, 'nautical')).to.equal('3 nm²');
+        });
+    });
+    describe('createMeasurementFeature', () => {
+        it('should create a line string for open paths', () => {
+            const feature: any = createMeasurementFeature(SQUARE);
+            expect(feature.type).to.equal('Feature');
+            expect(feature.geometry.type).to.equal('LineString');
+            expect(feature.geometry.coordinates).to.deep.equal([[0, 0], [1, 0], [1, 1], [0, 1]]);
+            expect(feature.properties.distance).to.equal(measureDistance(SQUARE));
+            expect(feature.properties.area).to.equal(measureArea(SQUARE));
+        });
+        it('should create a closed polygon for closed paths', () => {
+            const feature: any = createMeasurementFeature(SQUARE, true);
+            expect(feature.geometry.type).to.equal('Polygon');
+            expect(feature.geometry.coordinates).to.deep.equal([[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]);
+            expect(feature.properties.distance).to.equal(measureDistance(SQUARE, true));
+        });
+    });
+});
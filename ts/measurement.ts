@@ -0,0 +1,140 @@
+import { GenericGeoJSONFeature } from '@yaga/generic-geojson';
+import { LatLng } from 'leaflet';
+
+/**
+ * Unit systems of measurements, like the `metric` and `imperial` options of the scale control
+ */
+export type MeasurementUnit = 'metric' | 'imperial' | 'nautical';
+
+/**
+ * Properties of a measured GeoJSON feature
+ */
+export interface IMeasurementProperties {
+    /**
+     * Geodesic length of the path in meters
+     */
+    distance: number;
+    /**
+     * Geodesic area of the path closed to a polygon in square meters
+     */
+    area: number;
+}
+
+/**
+ * Radius of the earth in meters, the same as used by `L.CRS.Earth` for distances
+ */
+const EARTH_RADIUS: number = 6371000;
+const METERS_PER_FOOT: number = 0.3048;
+const FEET_PER_MILE: number = 5280;
+const SQUARE_FEET_PER_ACRE: number = 43560;
+const ACRES_PER_SQUARE_MILE: number = 640;
+const METERS_PER_NAUTICAL_MILE: number = 1852;
+
+/**
+ * Function to round a value to a readable count of decimal places
+ */
+function formatNumber(value: number): string {
+    const places: number = value < 10 ? 2 : (value < 100 ? 1 : 0);
+    const factor: number = Math.pow(10, places);
+    return (Math.round(value * factor) / factor).toString();
+}
+
+/**
+ * Function to get the geodesic length of a path in meters. A closed path includes the way back to the first position.
+ */
+export function measureDistance(latLngs: LatLng[], closed: boolean = false): number {
+    let distance: number = 0;
+    for (let i: number = 1; i < latLngs.length; i += 1) {
+        distance += latLngs[i - 1].distanceTo(latLngs[i]);
+    }
+    if (closed && latLngs.length > 2) {
+        distance += latLngs[latLngs.length - 1].distanceTo(latLngs[0]);
+    }
+    return distance;
+}
+
+/**
+ * Function to get the geodesic area of a polygon on the sphere in square meters
+ */
+export function measureArea(latLngs: LatLng[]): number {
+    if (latLngs.length < 3) {
+        return 0;
+    }
+    const toRadians: number = Math.PI / 180;
+    let area: number = 0;
+    for (let i: number = 0; i < latLngs.length; i += 1) {
+        const current: LatLng = latLngs[i];
+        const next: LatLng = latLngs[(i + 1) % latLngs.length];
+        area += (next.lng - current.lng) * toRadians *
+            (2 + Math.sin(current.lat * toRadians) + Math.sin(next.lat * toRadians));
+    }
+    return Math.abs(area * EARTH_RADIUS * EARTH_RADIUS / 2);
+}
+
+/**
+ * Function to format a distance in meters in a unit system, like `1.5 km`, `820 ft` or `2.3 nm`
+ */
+export function formatDistance(meters: number, unit: MeasurementUnit = 'metric'): string {
+    switch (unit) {
+        case 'imperial':
+            const feet: number = meters / METERS_PER_FOOT;
+            return feet < FEET_PER_MILE ? formatNumber(feet) + ' ft' : formatNumber(feet / FEET_PER_MILE) + ' mi';
+        case 'nautical':
+            return formatNumber(meters / METERS_PER_NAUTICAL_MILE) + ' nm';
+        default:
+            return meters < 1000 ? formatNumber(meters) + ' m' : formatNumber(meters / 1000) + ' km';
+    }
+}
+
+/**
+ * Function to format an area in square meters in a unit system, like `2.5 ha`, `3.1 ac` or `1.2 nm²`
+ */
+export function formatArea(squareMeters: number, unit: MeasurementUnit = 'metric'): string {
+    switch (unit) {
+        case 'imperial':
+            const squareFeet: number = squareMeters / METERS_PER_FOOT / METERS_PER_FOOT;
+            const acres: number = squareFeet / SQUARE_FEET_PER_ACRE;
+            if (acres < 1) {
+                return formatNumber(squareFeet) + ' ft²';
+            }
+            return acres < ACRES_PER_SQUARE_MILE ?
+                formatNumber(acres) + ' ac' :
+                formatNumber(acres / ACRES_PER_SQUARE_MILE) + ' mi²';
+        case 'nautical':
+            return formatNumber(squareMeters / METERS_PER_NAUTICAL_MILE / METERS_PER_NAUTICAL_MILE) + ' nm²';
+        default:
+            if (squareMeters < 10000) {
+                return formatNumber(squareMeters) + ' m²';
+            }
+            return squareMeters < 1000000 ?
+                formatNumber(squareMeters / 10000) + ' ha' :
+                formatNumber(squareMeters / 1000000) + ' km²';
+    }
+}
+
+/**
+ * Function to create a GeoJSON feature of a measured path with the distance and area as properties. A closed path
+ * results in a polygon, otherwise in a line string.
+ */
+export function createMeasurementFeature(
+    latLngs: LatLng[],
+    closed: boolean = false,
+): GenericGeoJSONFeature<GeoJSON.LineString | GeoJSON.Polygon, IMeasurementProperties> {
+    const coordinates: GeoJSON.Position[] = latLngs.map((latLng: LatLng) => [latLng.lng, latLng.lat]);
+    const properties: IMeasurementProperties = {
+        area: measureArea(latLngs),
+        distance: measureDistance(latLngs, closed),
+    };
+    if (closed) {
+        return {
+            geometry: {coordinates: [coordinates.concat([coordinates[0]])], type: 'Polygon'},
+            properties,
+            type: 'Feature',
+        };
+    }
+    return {
+        geometry: {coordinates, type: 'LineString'},
+        properties,
+        type: 'Feature',
+    };
+}
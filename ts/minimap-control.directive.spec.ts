@@ -0,0 +1,228 @@
+import { expect } from 'chai';
+import { LatLng, latLng, LatLngBounds, latLngBounds, point, TileLayer } from 'leaflet';
+import {
+    MapComponent,
+    MinimapControlDirective,
+    TileLayerDirective,
+} from './index';
+
+describe('Minimap-Control Directive', () => {
+    let map: MapComponent;
+    let control: MinimapControlDirective;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        control = new MinimapControlDirective(map);
+        (control.minimap as any)._size = point(150, 150);
+    });
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(position)]', () => {
+        it('should be bottomright by default', () => {
+            expect(control.position).to.equal('bottomright');
+        });
+        it('should be changed in Leaflet when changing in Angular', () => {
+            control.position = 'topleft';
+            expect(control.getPosition()).to.equal('topleft');
+        });
+        it('should fire an event when changing in Leaflet', (done: MochaDone) => {
+            control.positionChange.subscribe((eventVal: string) => {
+                expect(eventVal).to.equal('topright');
+                done();
+            });
+            control.setPosition('topright');
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('[tileLayer]', () => {
+        let tileLayer: TileLayerDirective;
+        beforeEach(() => {
+            tileLayer = new TileLayerDirective(map);
+            tileLayer.url = 'http://{s}.example.com/{z}/{x}/{y}.png';
+            tileLayer.maxZoom = 12;
+            control.tileLayer = tileLayer;
+        });
+        it('should display a copy of the tile layer on the minimap', () => {
+            let mirror: TileLayer;
+            control.minimap.eachLayer((layer: any) => {
+                if (layer instanceof TileLayer) {
+                    mirror = layer;
+                }
+            });
+            expect(mirror).to.not.equal(tileLayer);
+            expect((mirror as any)._url).to.equal('http://{s}.example.com/{z}/{x}/{y}.png');
+            expect(mirror.options.maxZoom).to.equal(12);
+        });
+        it('should apply changes of the URL', () => {
+            tileLayer.url = 'http://other.example.com/{z}/{x}/{y}.png';
+            control.minimap.eachLayer((layer: any) => {
+                if (layer instanceof TileLayer) {
+                    expect((layer as any)._url).to.equal('http://other.example.com/{z}/{x}/{y}.png');
+                }
+            });
+        });
+        it('should remove the copy when unsetting', () => {
+            control.tileLayer = undefined;
+            expect(control.tileLayer).to.equal(undefined);
+            control.minimap.eachLayer((layer: any) => {
+                expect(layer).to.not.be.instanceOf(TileLayer);
+            });
+        });
+    });
+    describe('[zoomOffset]', () => {
+        it('should be -5 by default', () => {
+            expect(control.zoomOffset).to.equal(-5);
+        });
+        it('should set the zoom of the minimap relative to the main map', () => {
+            map.setView([0, 0], 10, {animate: false});
+            control.zoomOffset = -3;
+            expect(control.minimap.getZoom()).to.equal(7);
+        });
+        it('should not zoom the minimap below zero', () => {
+            map.setView([0, 0], 2, {animate: false});
+            control.update();
+            expect(control.minimap.getZoom()).to.equal(0);
+        });
+    });
+    describe('[width] and [height]', () => {
+        it('should be 150px by default', () => {
+            expect(control.width).to.equal(150);
+            expect(control.height).to.equal(150);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            control.width = 200;
+            control.height = 100;
+            expect(control.width).to.equal(200);
+            expect(control.height).to.equal(100);
+        });
+    });
+    describe('[viewportStyle]', () => {
+        it('should be applied to the viewport rectangle', () => {
+            control.viewportStyle = {color: '#ff0000'};
+            expect(control.viewport.options.color).to.equal('#ff0000');
+        });
+    });
+
+    describe('Synchronization with the main map', () => {
+        it('should follow the center of the main map', () => {
+            map.setView([10, 20], 8, {animate: false});
+            expect(control.minimap.getCenter().lat).to.be.closeTo(10, 0.001);
+            expect(control.minimap.getCenter().lng).to.be.closeTo(20, 0.001);
+            expect(control.minimap.getZoom()).to.equal(3);
+        });
+        it('should display the viewport of the main map as rectangle', () => {
+            map.setView([10, 20], 8, {animate: false});
+            expect(control.viewport.getBounds().equals(map.getBounds())).to.equal(true);
+            expect(control.minimap.hasLayer(control.viewport)).to.equal(true);
+        });
+        it('should not follow the main map after removing from it', () => {
+            map.removeControl(control);
+            map.setView([10, 20], 8, {animate: false});
+            expect(control.minimap.getZoom()).to.equal(0);
+        });
+    });
+    describe('Dragging the viewport', () => {
+        beforeEach(() => {
+            map.setView([0, 0], 8, {animate: false});
+            control.viewport.setBounds(latLngBounds([-1, -1], [1, 1]));
+            control.viewport.fire('mousedown', {latlng: latLng(0, 0)});
+        });
+        it('should move the rectangle', () => {
+            control.minimap.fire('mousemove', {latlng: latLng(2, 3)});
+            expect(control.viewport.getBounds().equals(latLngBounds([1, 2], [3, 4]))).to.equal(true);
+        });
+        it('should pan the main map to the rectangle', (done: MochaDone) => {
+            map.panTo = (center: LatLng): any => {
+                expect(center.equals([2, 3])).to.equal(true);
+                done();
+                return map;
+            };
+            control.minimap.fire('mousemove', {latlng: latLng(2, 3)});
+            control.minimap.fire('mouseup', {latlng: latLng(2, 3)});
+        });
+        it('should fire an event with the new center', (done: MochaDone) => {
+            control.viewportDragEndEvent.subscribe((val: LatLng) => {
+                expect(val.equals([2, 3])).to.equal(true);
+                done();
+            });
+            control.minimap.fire('mousemove', {latlng: latLng(2, 3)});
+            control.minimap.fire('mouseup', {latlng: latLng(2, 3)});
+        });
+        it('should stop moving the rectangle after releasing', () => {
+            control.minimap.fire('mouseup', {latlng: latLng(0, 0)});
+            const bounds: LatLngBounds = control.viewport.getBounds();
+            control.minimap.fire('mousemove', {latlng: latLng(2, 3)});
+            expect(control.viewport.getBounds().equals(bounds)).to.equal(true);
+        });
+    });
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+    describe('(click)', () => {
+        it('should fire an event when clicking the container', (done: MochaDone) => {
+            control.clickEvent.subscribe(() => {
+                done();
+            });
+            control.getContainer().dispatchEvent(new MouseEvent('click', {}));
+        });
+    });
+
+    describe('Destroying a Minimap-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
@@ -0,0 +1,444 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    ControlPosition,
+    DomEvent,
+    DomUtil,
+    LatLng,
+    latLngBounds,
+    LatLngBounds,
+    LeafletEvent,
+    LeafletMouseEvent,
+    Map,
+    PathOptions,
+    Rectangle,
+    SVG,
+    TileLayer,
+} from 'leaflet';
+import { Subscription } from 'rxjs/Subscription';
+import { MapComponent } from './map.component';
+import { TileLayerDirective } from './tile-layer.directive';
+
+/**
+ * Angular2 directive for an overview map inside of a control.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-tile-layer #baseLayer [url]="..."></yaga-tile-layer>
+ *     <yaga-minimap-control
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(position)]="..."
+ *
+ *         (viewportDragEnd)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (click)="..."
+ *         (dbclick)="..."
+ *         (mousedown)="..."
+ *         (mouseover)="..."
+ *         (mouseout)="..."
+ *
+ *         [opacity]="..."
+ *         [tileLayer]="baseLayer"
+ *         [zoomOffset]="..."
+ *         [width]="..."
+ *         [height]="..."
+ *         [viewportStyle]="..."
+ *         >
+ *     </yaga-minimap-control>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The minimap displays a copy of the given tile layer with its current URL and options.
+ * * The viewport of the main map is displayed as rectangle. Dragging the rectangle pans the main map.
+ * * The minimap itself can not be dragged or zoomed, it follows the main map.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Minimap-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/minimap-control.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/minimapcontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-minimap-control',
+})
+export class MinimapControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-minimap-control [(display)]="someValue">`
+     * or `<yaga-minimap-control (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-minimap-control [(zIndex)]="someValue">`
+     * or `<yaga-minimap-control (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the control.
+     * Use it with `<yaga-minimap-control [(position)]="someValue">`
+     * or `<yaga-minimap-control (positionChange)="processEvent($event)">`
+     */
+    @Output() public positionChange: EventEmitter<ControlPosition> = new EventEmitter();
+
+    /**
+     * Fired with the new center of the main map after dragging the viewport rectangle.
+     * Use it with `<yaga-minimap-control (viewportDragEnd)="processEvent($event)">`
+     */
+    @Output('viewportDragEnd') public viewportDragEndEvent: EventEmitter<LatLng> = new EventEmitter();
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-minimap-control (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-minimap-control (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired click event.
+     * Use it with `<yaga-minimap-control (click)="processEvent($event)">`
+     */
+    @Output('click') public clickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired dbclick event.
+     * Use it with `<yaga-minimap-control (dbclick)="processEvent($event)">`
+     */
+    @Output('dbclick') public dbclickEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mousedown event.
+     * Use it with `<yaga-minimap-control (mousedown)="processEvent($event)">`
+     */
+    @Output('mousedown') public mousedownEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseover event.
+     * Use it with `<yaga-minimap-control (mouseover)="processEvent($event)">`
+     */
+    @Output('mouseover') public mouseoverEvent: EventEmitter<MouseEvent> = new EventEmitter();
+    /**
+     * From leaflet fired mouseout event.
+     * Use it with `<yaga-minimap-control (mouseout)="processEvent($event)">`
+     */
+    @Output('mouseout') public mouseoutEvent: EventEmitter<MouseEvent> = new EventEmitter();
+
+    /**
+     * The Leaflet map of the overview
+     */
+    public minimap: Map;
+    /**
+     * The rectangle of the viewport of the main map on the minimap
+     */
+    public viewport: Rectangle;
+
+    protected container: HTMLElement;
+    protected mapContainer: HTMLElement;
+    protected mirrorLayer: TileLayer;
+
+    private offset: number = -5;
+    private mirroredTileLayer: TileLayerDirective;
+    private urlSubscription: Subscription;
+    private dragStart: LatLng;
+    private dragStartBounds: LatLngBounds;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+    ) {
+        super({position: 'bottomright'});
+        this.container = DomUtil.create('div', 'leaflet-bar yaga-minimap-control');
+        DomEvent.disableClickPropagation(this.container);
+        DomEvent.disableScrollPropagation(this.container);
+        this.mapContainer = DomUtil.create('div', 'yaga-minimap-control-map', this.container);
+        this.mapContainer.style.width = '150px';
+        this.mapContainer.style.height = '150px';
+
+        this.minimap = new Map(this.mapContainer, {
+            attributionControl: false,
+            boxZoom: false,
+            doubleClickZoom: false,
+            dragging: false,
+            keyboard: false,
+            renderer: new SVG(),
+            scrollWheelZoom: false,
+            touchZoom: false,
+            zoomControl: false,
+        });
+        this.minimap.setView([0, 0], 0);
+        this.viewport = new Rectangle(latLngBounds([0, 0], [0, 0]), {className: 'yaga-minimap-viewport'});
+        this.viewport.on('mousedown', this.onViewportMouseDown, this);
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            map.on('moveend', self.update, self);
+            self.displayChange.emit(true);
+            self.addEvent.emit({type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            map.off('moveend', self.update, self);
+            self.displayChange.emit(false);
+            self.removeEvent.emit({type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+
+        // Events
+        this.getContainer().addEventListener('click', (event: MouseEvent) => {
+            this.clickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('dbclick', (event: MouseEvent) => {
+            this.dbclickEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mousedown', (event: MouseEvent) => {
+            this.mousedownEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseover', (event: MouseEvent) => {
+            this.mouseoverEvent.emit(event);
+        });
+        this.getContainer().addEventListener('mouseout', (event: MouseEvent) => {
+            this.mouseoutEvent.emit(event);
+        });
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template.
+     * It also removes the minimap and the subscription to the mirrored tile layer.
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+        if (this.urlSubscription) {
+            this.urlSubscription.unsubscribe();
+        }
+        this.minimap.remove();
+    }
+
+    /**
+     * Derived method of the original addTo. The minimap gets synchronized after its container was attached to the DOM.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-addto Original Leaflet documentation
+     */
+    public addTo(map: Map): this {
+        super.addTo(map);
+        this.minimap.invalidateSize();
+        this.update();
+        return this;
+    }
+
+    /**
+     * Derived method of the original setPosition.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-setposition Original Leaflet documentation
+     */
+    public setPosition(val: ControlPosition): this {
+        super.setPosition(val);
+        this.positionChange.emit(val);
+        return this;
+    }
+
+    /**
+     * Self written method to synchronize the minimap and the viewport rectangle with the main map
+     */
+    public update(): void {
+        const map: Map = (this as any)._map;
+        if (!map || this.dragStart) {
+            return;
+        }
+        this.minimap.setView(map.getCenter(), Math.max(map.getZoom() + this.offset, 0), {animate: false});
+        this.viewport.setBounds(map.getBounds());
+        if (!this.minimap.hasLayer(this.viewport)) {
+            this.minimap.addLayer(this.viewport);
+        }
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-minimap-control [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-minimap-control [(display)]="someValue">`
+     * or `<yaga-minimap-control [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Two-Way bound property for the position.
+     * Use it with `<yaga-minimap-control [(position)]="someValue">`
+     * or `<yaga-minimap-control [position]="someValue">`
+     */
+    @Input() public set position(val: ControlPosition) {
+        this.setPosition(val);
+    }
+    public get position(): ControlPosition {
+        return this.getPosition();
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-minimap-control [(zIndex)]="someValue">`
+     * or `<yaga-minimap-control [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zIndexChange.emit(zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Input for the tile layer that is mirrored on the minimap. Changes of its URL are applied to the mirror.
+     * Use it with `<yaga-minimap-control [tileLayer]="someTileLayerDirective">`
+     */
+    @Input() public set tileLayer(val: TileLayerDirective) {
+        if (this.urlSubscription) {
+            this.urlSubscription.unsubscribe();
+            this.urlSubscription = undefined;
+        }
+        if (this.mirrorLayer) {
+            this.minimap.removeLayer(this.mirrorLayer);
+            this.mirrorLayer = undefined;
+        }
+        this.mirroredTileLayer = val;
+        if (!val) {
+            return;
+        }
+        this.mirrorLayer = new TileLayer(val.url, {...val.options});
+        this.minimap.addLayer(this.mirrorLayer);
+        this.urlSubscription = val.urlChange.subscribe((url: string) => {
+            this.mirrorLayer.setUrl(url);
+        });
+    }
+    public get tileLayer(): TileLayerDirective {
+        return this.mirroredTileLayer;
+    }
+
+    /**
+     * Input for the difference of the zoom level of the minimap to the one of the main map.
+     * Use it with `<yaga-minimap-control [zoomOffset]="someValue">`
+     */
+    @Input() public set zoomOffset(val: number) {
+        this.offset = val;
+        this.update();
+    }
+    public get zoomOffset(): number {
+        return this.offset;
+    }
+
+    /**
+     * Input for the width of the minimap in pixels.
+     * Use it with `<yaga-minimap-control [width]="someValue">`
+     */
+    @Input() public set width(val: number) {
+        this.mapContainer.style.width = val + 'px';
+        this.minimap.invalidateSize();
+        this.update();
+    }
+    public get width(): number {
+        return parseInt(this.mapContainer.style.width, 10);
+    }
+
+    /**
+     * Input for the height of the minimap in pixels.
+     * Use it with `<yaga-minimap-control [height]="someValue">`
+     */
+    @Input() public set height(val: number) {
+        this.mapContainer.style.height = val + 'px';
+        this.minimap.invalidateSize();
+        this.update();
+    }
+    public get height(): number {
+        return parseInt(this.mapContainer.style.height, 10);
+    }
+
+    /**
+     * Input for the style of the viewport rectangle.
+     * Use it with `<yaga-minimap-control [viewportStyle]="someValue">`
+     */
+    @Input() public set viewportStyle(val: PathOptions) {
+        this.viewport.setStyle(val);
+    }
+    public get viewportStyle(): PathOptions {
+        return this.viewport.options;
+    }
+
+    /**
+     * Internal handler to start dragging the viewport rectangle
+     */
+    protected onViewportMouseDown(event: LeafletMouseEvent): void {
+        this.dragStart = event.latlng;
+        this.dragStartBounds = this.viewport.getBounds();
+        this.minimap.on('mousemove', this.onMinimapMouseMove, this);
+        this.minimap.on('mouseup', this.onMinimapMouseUp, this);
+    }
+
+    /**
+     * Internal handler to move the viewport rectangle while dragging
+     */
+    protected onMinimapMouseMove(event: LeafletMouseEvent): void {
+        const latDelta: number = event.latlng.lat - this.dragStart.lat;
+        const lngDelta: number = event.latlng.lng - this.dragStart.lng;
+        const southWest: LatLng = this.dragStartBounds.getSouthWest();
+        const northEast: LatLng = this.dragStartBounds.getNorthEast();
+        this.viewport.setBounds(latLngBounds(
+            [southWest.lat + latDelta, southWest.lng + lngDelta],
+            [northEast.lat + latDelta, northEast.lng + lngDelta],
+        ));
+    }
+
+    /**
+     * Internal handler to pan the main map to the dragged viewport rectangle
+     */
+    protected onMinimapMouseUp(): void {
+        this.minimap.off('mousemove', this.onMinimapMouseMove, this);
+        this.minimap.off('mouseup', this.onMinimapMouseUp, this);
+        this.dragStart = undefined;
+        this.dragStartBounds = undefined;
+        const center: LatLng = this.viewport.getBounds().getCenter();
+        const map: Map = (this as any)._map;
+        if (map) {
+            map.panTo(center);
+        }
+        this.viewportDragEndEvent.emit(center);
+    }
+}
@@ -1,3 +1,4 @@
+import { NgZone } from '@angular/core';
 import { expect } from 'chai';
 import { point, SVG } from 'leaflet';
 import {
@@ -783,5 +784,41 @@ export function createPathTests(Constr: any): void {
                 expect(layer.interactive).to.equal(true);
             });
         });
+
+        describe('NgZone', () => {
+            let zone: any;
+            beforeEach(() => {
+                zone = {entered: 0, inside: true, left: 0};
+                zone.run = (fn: () => any): any => {
+                    const inside: boolean = zone.inside;
+                    zone.entered += 1;
+                    zone.inside = true;
+                    const result: any = fn();
+                    zone.inside = inside;
+                    return result;
+                };
+                zone.runOutsideAngular = (fn: () => any): any => {
+                    const inside: boolean = zone.inside;
+                    zone.left += 1;
+                    zone.inside = false;
+                    const result: any = fn();
+                    zone.inside = inside;
+                    return result;
+                };
+                layer = new Constr(map, undefined, zone as NgZone);
+                zone.inside = false;
+            });
+            it('should only enter the zone for outputs with subscribers', () => {
+                let inside: boolean = false;
+                const entered: number = zone.entered;
+                layer.fire('click', {latlng: map.getCenter()});
+                expect(zone.entered).to.equal(entered);
+                layer.clickEvent.subscribe(() => {
+                    inside = zone.inside;
+                });
+                layer.fire('click', {latlng: map.getCenter()});
+                expect(inside).to.equal(true);
+            });
+        });
     });
 }
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import {
+    formatPermalink,
+    formatPermalinkHash,
+    formatPermalinkQuery,
+    parsePermalink,
+    parsePermalinkHash,
+    parsePermalinkQuery,
+} from './index';
+
+describe('Permalink helper', () => {
+    describe('formatPermalink', () => {
+        it('should format zoom, latitude and longitude', () => {
+            expect(formatPermalink({lat: 52.52, lng: 13.405, zoom: 13})).to.equal('13/52.52000/13.40500');
+        });
+        it('should format with the given precision', () => {
+            expect(formatPermalink({lat: 52.52, lng: 13.405, zoom: 13}, 2)).to.equal('13/52.52/13.40');
+        });
+        it('should round fractional zoom levels', () => {
+            expect(formatPermalink({lat: 0, lng: 0, zoom: 4.56789}, 0)).to.equal('4.57/0/0');
+        });
+        it('should append the names of the layers', () => {
+            expect(formatPermalink({lat: 0, lng: 0, layers: ['osm', 'a,b'], zoom: 1}, 0)).to.equal('1/0/0/osm,a%2Cb');
+        });
+    });
+    describe('parsePermalink', () => {
+        it('should parse zoom, latitude and longitude', () => {
+            expect(parsePermalink('#13/52.52000/13.40500')).to.deep.equal({lat: 52.52, lng: 13.405, zoom: 13});
+        });
+        it('should parse the names of the layers', () => {
+            expect(parsePermalink('1/0/0/osm,a%2Cb').layers).to.deep.equal(['osm', 'a,b']);
+            expect(parsePermalink('1/0/0/').layers).to.deep.equal([]);
+        });
+        it('should return undefined for invalid values', () => {
+            expect(parsePermalink('')).to.equal(undefined);
+            expect(parsePermalink('#section')).to.equal(undefined);
+            expect(parsePermalink('1/a/b')).to.equal(undefined);
+            expect(parsePermalink('1/91/0')).to.equal(undefined);
+        });
+    });
+    describe('formatPermalinkHash', () => {
+        it('should format the whole fragment without a key', () => {
+            expect(formatPermalinkHash({lat: 1, lng: 2, zoom: 3}, 0, undefined, '#section')).to.equal('#3/1/2');
+        });
+        it('should keep other parts of the fragment and replace old values with a key', () => {
+            expect(formatPermalinkHash({lat: 1, lng: 2, zoom: 3}, 0, 'map', '#section&map=9/0/0'))
+                .to.equal('#section&map=3/1/2');
+            expect(formatPermalinkHash({lat: 1, lng: 2, zoom: 3}, 0, 'map')).to.equal('#map=3/1/2');
+        });
+    });
+    describe('parsePermalinkHash', () => {
+        it('should parse the whole fragment without a key', () => {
+            expect(parsePermalinkHash('#3/1/2')).to.deep.equal({lat: 1, lng: 2, zoom: 3});
+        });
+        it('should parse the parameter with the key', () => {
+            expect(parsePermalinkHash('#section&map=3/1/2', 'map')).to.deep.equal({lat: 1, lng: 2, zoom: 3});
+        });
+        it('should return undefined for a missing parameter', () => {
+            expect(parsePermalinkHash('#section', 'map')).to.equal(undefined);
+            expect(parsePermalinkHash('#3/1/2', 'map')).to.equal(undefined);
+        });
+    });
+    describe('formatPermalinkQuery', () => {
+        it('should format the parameters', () => {
+            expect(formatPermalinkQuery({lat: 1, lng: 2, zoom: 3}, 1)).to.equal('?zoom=3&lat=1.0&lng=2.0');
+        });
+        it('should keep other parameters and replace old values', () => {
+            expect(formatPermalinkQuery({lat: 1, lng: 2, layers: ['osm'], zoom: 3}, 0, '?lang=de&zoom=9'))
+                .to.equal('?lang=de&zoom=3&lat=1&lng=2&layers=osm');
+        });
+    });
+    describe('parsePermalinkQuery', () => {
+        it('should parse the parameters', () => {
+            expect(parsePermalinkQuery('?lang=de&zoom=3&lat=1.5&lng=2.5&layers=osm'))
+                .to.deep.equal({lat: 1.5, layers: ['osm'], lng: 2.5, zoom: 3});
+        });
+        it('should return undefined for missing parameters', () => {
+            expect(parsePermalinkQuery('?lang=de&zoom=3')).to.equal(undefined);
+            expect(parsePermalinkQuery('')).to.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * State of a map view that is stored in a permalink
+ */
+export interface IPermalinkState {
+    zoom: number;
+    lat: number;
+    lng: number;
+    /**
+     * Names of the active layers. `undefined` when the permalink does not contain layers.
+     */
+    layers?: string[];
+}
+
+/**
+ * Part of the URL that contains the permalink: the fragment (`#zoom/lat/lng`) or the query parameters
+ * (`?zoom=...&lat=...&lng=...`)
+ */
+export type PermalinkMode = 'hash' | 'query';
+
+/**
+ * Function to round the values of a state to their precision in a permalink
+ */
+function formatValues(state: IPermalinkState, precision: number): string[] {
+    return [
+        (Math.round(state.zoom * 100) / 100).toString(),
+        state.lat.toFixed(precision),
+        state.lng.toFixed(precision),
+    ];
+}
+
+/**
+ * Function to check the parsed values of a permalink
+ */
+function isValid(zoom: number, lat: number, lng: number): boolean {
+    return !isNaN(zoom) && !isNaN(lat) && !isNaN(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/**
+ * Function to format a state as fragment, like `13/52.52000/13.40500` or `13/52.52000/13.40500/osm,roads` with the
+ * names of the active layers
+ */
+export function formatPermalink(state: IPermalinkState, precision: number = 5): string {
+    const parts: string[] = formatValues(state, precision);
+    if (state.layers) {
+        parts.push(state.layers.map(encodeURIComponent).join(','));
+    }
+    return parts.join('/');
+}
+
+/**
+ * Function to parse a fragment that was created with `formatPermalink`. A leading `#` is ignored. It returns
+ * `undefined` for invalid fragments.
+ */
+export function parsePermalink(value: string): IPermalinkState {
+    const parts: string[] = value.replace(/^#/, '').split('/');
+    if (parts.length < 3) {
+        return undefined;
+    }
+    const zoom: number = parseFloat(parts[0]);
+    const lat: number = parseFloat(parts[1]);
+    const lng: number = parseFloat(parts[2]);
+    if (!isValid(zoom, lat, lng)) {
+        return undefined;
+    }
+    const state: IPermalinkState = {lat, lng, zoom};
+    if (parts.length > 3) {
+        state.layers = parts[3] ? parts[3].split(',').map(decodeURIComponent) : [];
+    }
+    return state;
+}
+
+/**
+ * Function to set the state in a fragment. Without a key the state is the whole fragment, with a key it is stored as
+ * the parameter `key=zoom/lat/lng` and the other `&`-separated parts of the fragment are kept.
+ */
+export function formatPermalinkHash(
+    state: IPermalinkState,
+    precision: number = 5,
+    key?: string,
+    hash: string = '',
+): string {
+    const value: string = formatPermalink(state, precision);
+    if (!key) {
+        return '#' + value;
+    }
+    const parts: string[] = hash.replace(/^#/, '').split('&').filter((part: string) => {
+        return part && part.split('=')[0] !== key;
+    });
+    parts.push(key + '=' + value);
+    return '#' + parts.join('&');
+}
+
+/**
+ * Function to parse the state from a fragment that was created with `formatPermalinkHash` and the same key. It
+ * returns `undefined` when the state is missing or invalid.
+ */
+export function parsePermalinkHash(hash: string, key?: string): IPermalinkState {
+    if (!key) {
+        return parsePermalink(hash);
+    }
+    for (const part of hash.replace(/^#/, '').split('&')) {
+        const separator: number = part.indexOf('=');
+        if (separator > 0 && part.substr(0, separator) === key) {
+            return parsePermalink(part.substr(separator + 1));
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Function to set the state as parameters in a query string. Other parameters of the query string are kept.
+ */
+export function formatPermalinkQuery(state: IPermalinkState, precision: number = 5, query: string = ''): string {
+    const values: string[] = formatValues(state, precision);
+    const permalinkParams: {[key: string]: string} = {lat: values[1], lng: values[2], zoom: values[0]};
+    if (state.layers) {
+        permalinkParams.layers = state.layers.map(encodeURIComponent).join(',');
+    }
+    const params: string[] = query.replace(/^\?/, '').split('&').filter((param: string) => {
+        return param && !['zoom', 'lat', 'lng', 'layers'].some((key: string) => param.split('=')[0] === key);
+    });
+    for (const key of ['zoom', 'lat', 'lng', 'layers']) {
+        if (permalinkParams[key] !== undefined) {
+            params.push(key + '=' + permalinkParams[key]);
+        }
+    }
+    return '?' + params.join('&');
+}
+
+/**
+ * Function to parse the state from the parameters of a query string. It returns `undefined` when the parameters are
+ * missing or invalid.
+ */
+export function parsePermalinkQuery(query: string): IPermalinkState {
+    const params: {[key: string]: string} = {};
+    for (const param of query.replace(/^\?/, '').split('&')) {
+        const separator: number = param.indexOf('=');
+        if (separator > 0) {
+            params[param.substr(0, separator)] = param.substr(separator + 1);
+        }
+    }
+    const zoom: number = parseFloat(params.zoom);
+    const lat: number = parseFloat(params.lat);
+    const lng: number = parseFloat(params.lng);
+    if (!isValid(zoom, lat, lng)) {
+        return undefined;
+    }
+    const state: IPermalinkState = {lat, lng, zoom};
+    if (params.layers !== undefined) {
+        state.layers = params.layers ? params.layers.split(',').map(decodeURIComponent) : [];
+    }
+    return state;
+}
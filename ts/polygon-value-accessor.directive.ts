@@ -0,0 +1,64 @@
+import {
+    Directive,
+    forwardRef,
+    Inject,
+    NgZone,
+    Optional,
+} from '@angular/core';
+import { NG_VALUE_ACCESSOR } from '@angular/forms';
+import { LatLng } from 'leaflet';
+import { LayerValueAccessor } from './layer-value-accessor';
+import { PolygonDirective } from './polygon.directive';
+
+/**
+ * Angular2 directive to bind the geometry of a polygon with Angular forms.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule` and the `FormsModule` or
+ * `ReactiveFormsModule` of Angular.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-polygon formControlName="area" [editable]="true"></yaga-polygon>
+ *     <yaga-polygon [(ngModel)]="area" [editable]="true"></yaga-polygon>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The value is the geometry of the polygon as an array of `LatLng`, or as an array of rings for polygons with
+ *   holes. It changes while the polygon is edited.
+ * * A disabled control disables the editing of the polygon.
+ * * An empty value, like after resetting the control, hides the polygon until it gets a value again.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Polygon-Value-Accessor%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/polygon-value-accessor.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/polygonvalueaccessordirective.html API documentation
+ */
+@Directive({
+    providers: [{
+        multi: true,
+        provide: NG_VALUE_ACCESSOR,
+        useExisting: forwardRef(() => PolygonValueAccessorDirective),
+    }],
+    selector: 'yaga-polygon[formControlName],yaga-polygon[formControl],yaga-polygon[ngModel]',
+})
+export class PolygonValueAccessorDirective extends LayerValueAccessor<LatLng[] | LatLng[][]> {
+    protected polygon: PolygonDirective<any>;
+
+    constructor(
+        @Inject(forwardRef(() => PolygonDirective)) polygon: PolygonDirective<any>,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super(polygon, ngZone);
+        this.polygon = polygon;
+        this.subscriptions.push(polygon.latLngsChange.subscribe((val: LatLng[] | LatLng[][]) => {
+            this.change(val);
+        }));
+    }
+
+    protected setValue(value: LatLng[] | LatLng[][]): void {
+        this.polygon.setLatLngs(value);
+    }
+}
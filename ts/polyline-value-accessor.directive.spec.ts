@@ -0,0 +1,103 @@
+import { expect } from 'chai';
+import { latLng, LatLng, point, SVG } from 'leaflet';
+import {
+    MapComponent,
+    PolylineDirective,
+    PolylineValueAccessorDirective,
+} from './index';
+
+describe('Polyline-Value-Accessor Directive', () => {
+    let map: MapComponent;
+    let layer: PolylineDirective<any>;
+    let accessor: PolylineValueAccessorDirective;
+    let values: LatLng[][];
+    let touched: number;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        layer = new PolylineDirective<any>(map);
+        accessor = new PolylineValueAccessorDirective(layer);
+        values = [];
+        touched = 0;
+        accessor.registerOnChange((val: LatLng[]) => values.push(val));
+        accessor.registerOnTouched(() => touched += 1);
+    });
+    afterEach(() => {
+        accessor.ngOnDestroy();
+    });
+
+    describe('writeValue', () => {
+        it('should set the geometry of the polyline', () => {
+            accessor.writeValue([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            expect(layer.latLngs).to.deep.equal([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+        });
+        it('should not pass the written value back to the form', () => {
+            accessor.writeValue([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            expect(values.length).to.equal(0);
+        });
+    });
+    describe('reset', () => {
+        it('should hide the layer for an empty value', () => {
+            accessor.writeValue([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            accessor.writeValue(null);
+            expect(layer.display).to.equal(false);
+        });
+        it('should display the layer again with the next value', () => {
+            accessor.writeValue(null);
+            accessor.writeValue([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            expect(layer.display).to.equal(true);
+            expect(layer.latLngs).to.deep.equal([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+        });
+        it('should not pass an empty value back to the form', () => {
+            accessor.writeValue(undefined);
+            expect(values.length).to.equal(0);
+        });
+        it('should keep a layer hidden, that was not hidden by an empty value', () => {
+            layer.display = false;
+            accessor.writeValue(null);
+            accessor.writeValue([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+            expect(layer.display).to.equal(false);
+        });
+    });
+    describe('changes', () => {
+        it('should pass a geometry set in Leaflet to the form', () => {
+            layer.setLatLngs([latLng(0, 0), latLng(3, 3)]);
+            expect(values.length).to.equal(1);
+            expect(values[0]).to.deep.equal([latLng(0, 0), latLng(3, 3)]);
+        });
+        it('should mark the form control as touched after an edit', () => {
+            layer.fire('edit');
+            expect(touched).to.equal(1);
+        });
+        it('should not pass changes after destroying', () => {
+            accessor.ngOnDestroy();
+            layer.setLatLngs([latLng(0, 0), latLng(3, 3)]);
+            layer.fire('edit');
+            expect(values.length).to.equal(0);
+            expect(touched).to.equal(0);
+        });
+    });
+    describe('setDisabledState', () => {
+        beforeEach(() => {
+            layer.setLatLngs([latLng(0, 0), latLng(1, 1), latLng(2, 0)]);
+        });
+        it('should disable editing', () => {
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            expect(layer.editable).to.equal(false);
+        });
+        it('should restore editing when enabled again', () => {
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            expect(layer.editable).to.equal(true);
+        });
+        it('should keep a not editable polyline not editable when enabled again', () => {
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            expect(layer.editable).to.equal(false);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import {
+    Directive,
+    forwardRef,
+    Inject,
+    NgZone,
+    Optional,
+} from '@angular/core';
+import { NG_VALUE_ACCESSOR } from '@angular/forms';
+import { LatLng } from 'leaflet';
+import { LayerValueAccessor } from './layer-value-accessor';
+import { PolylineDirective } from './polyline.directive';
+
+/**
+ * Angular2 directive to bind the geometry of a polyline with Angular forms.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule` and the `FormsModule` or
+ * `ReactiveFormsModule` of Angular.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-polyline formControlName="area" [editable]="true"></yaga-polyline>
+ *     <yaga-polyline [(ngModel)]="area" [editable]="true"></yaga-polyline>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The value is the geometry of the polyline as an array of `LatLng`. It changes while the polyline is edited.
+ * * A disabled control disables the editing of the polyline.
+ * * An empty value, like after resetting the control, hides the polyline until it gets a value again.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Polyline-Value-Accessor%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/polyline-value-accessor.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/polylinevalueaccessordirective.html API documentation
+ */
+@Directive({
+    providers: [{
+        multi: true,
+        provide: NG_VALUE_ACCESSOR,
+        useExisting: forwardRef(() => PolylineValueAccessorDirective),
+    }],
+    selector: 'yaga-polyline[formControlName],yaga-polyline[formControl],yaga-polyline[ngModel]',
+})
+export class PolylineValueAccessorDirective extends LayerValueAccessor<LatLng[]> {
+    protected polyline: PolylineDirective<any>;
+
+    constructor(
+        @Inject(forwardRef(() => PolylineDirective)) polyline: PolylineDirective<any>,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super(polyline, ngZone);
+        this.polyline = polyline;
+        this.subscriptions.push(polyline.latLngsChange.subscribe((val: LatLng[]) => {
+            this.change(val);
+        }));
+    }
+
+    protected setValue(value: LatLng[]): void {
+        this.polyline.setLatLngs(value);
+    }
+}
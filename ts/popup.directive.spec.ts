@@ -1,5 +1,6 @@
+import { NgZone } from '@angular/core';
 import { expect } from 'chai';
-import { latLng, point } from 'leaflet';
+import { latLng, Marker, point } from 'leaflet';
 import {
     EXAMPLE_CONTENT,
     LatLng,
@@ -404,6 +405,121 @@ describe('Popup Directive', () => {
         });
     });
 
+    describe('ng-template content', () => {
+        let context: any;
+        let destroyed: boolean;
+        let layer: Marker;
+        beforeEach(() => {
+            context = undefined;
+            destroyed = false;
+            const viewContainerRef: any = {
+                createEmbeddedView: (template: any, ctx: any): any => {
+                    context = ctx;
+                    const node: HTMLElement = document.createElement('span');
+                    node.textContent = ctx.properties.name;
+                    return {
+                        destroy: () => {
+                            destroyed = true;
+                        },
+                        detectChanges: (): void => undefined,
+                        rootNodes: [node],
+                    };
+                },
+            };
+            popup = new PopupDirective(map, {nativeElement: document.createElement('div')}, viewContainerRef);
+            popup.template = ({} as any);
+            layer = new Marker(latLng(1, 2));
+            (layer as any).feature = {geometry: {coordinates: [2, 1], type: 'Point'}, properties: {name: 'test'}};
+            map.addLayer(layer);
+            layer.bindPopup(popup);
+        });
+        it('should not instantiate the template before opening', () => {
+            expect(context).to.equal(undefined);
+        });
+        it('should instantiate the template with the feature of the source layer on opening', () => {
+            layer.openPopup();
+            expect(context.feature).to.equal((layer as any).feature);
+            expect(context.$implicit).to.equal((layer as any).feature);
+            expect(context.properties).to.deep.equal({name: 'test'});
+            expect(context.layer).to.equal(layer);
+            expect(context.latLng).to.deep.equal(latLng(1, 2));
+        });
+        it('should use the instantiated template as content', () => {
+            layer.openPopup();
+            expect((popup.getContent() as HTMLElement).textContent).to.equal('test');
+        });
+        it('should destroy the instantiated template on closing', () => {
+            layer.openPopup();
+            layer.closePopup();
+            expect(destroyed).to.equal(true);
+        });
+        it('should destroy the instantiated template on destroy', () => {
+            layer.openPopup();
+            popup.ngOnDestroy();
+            expect(destroyed).to.equal(true);
+        });
+        it('should create and destroy the instantiated template inside of the Angular zone', () => {
+            const calls: string[] = [];
+            const zone: any = {inside: false};
+            zone.run = (fn: () => any): any => {
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = false;
+                return result;
+            };
+            const viewContainerRef: any = {
+                createEmbeddedView: (): any => {
+                    calls.push('create ' + zone.inside);
+                    return {
+                        destroy: () => calls.push('destroy ' + zone.inside),
+                        detectChanges: () => calls.push('detectChanges ' + zone.inside),
+                        rootNodes: [],
+                    };
+                },
+            };
+            popup = new PopupDirective(map, {nativeElement: document.createElement('div')}, viewContainerRef, zone);
+            popup.template = ({} as any);
+            layer.bindPopup(popup);
+            layer.openPopup();
+            layer.closePopup();
+            expect(calls).to.deep.equal(['create true', 'detectChanges true', 'destroy true']);
+        });
+    });
+
+    describe('NgZone', () => {
+        let zone: any;
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            popup = new PopupDirective(map, {nativeElement: document.createElement('div')}, undefined, zone as NgZone);
+            zone.inside = false;
+        });
+        it('should emit the opened state inside of the zone', () => {
+            let inside: boolean = false;
+            popup.openedChange.subscribe(() => {
+                inside = zone.inside;
+            });
+            popup.setLatLng(latLng(0, 0));
+            popup.openOn(map);
+            expect(inside).to.equal(true);
+        });
+    });
+
     describe('Remove from source element on destroy', () => {
         it('should call unbindPopup on destroy', (done: MochaDone) => {
             (popup as any)._source = {
@@ -0,0 +1,59 @@
+import {
+    ErrorEvent,
+    LocateOptions,
+    LocationEvent,
+    Map,
+} from 'leaflet';
+
+/**
+ * Source of the position of the user for the `yaga-user-location` directive.
+ *
+ * Implement this interface to drive the user location with something else than the Geolocation API of the browser,
+ * like a GPS receiver, a recorded track or a fake provider in tests.
+ */
+export interface IPositionSource {
+    /**
+     * Starts watching the position. The callbacks are called on every found position or error until `stop` is called.
+     */
+    start(onLocationFound: (event: LocationEvent) => void, onLocationError: (event: ErrorEvent) => void): void;
+    /**
+     * Stops watching the position
+     */
+    stop(): void;
+}
+
+/**
+ * Position source that uses the `locate` method of a Leaflet map, that is based on the Geolocation API of the browser
+ * @link http://leafletjs.com/reference-1.0.3.html#map-locate Original Leaflet documentation
+ */
+export class MapPositionSource implements IPositionSource {
+    protected map: Map;
+    protected options: LocateOptions;
+    protected onLocationFound: (event: LocationEvent) => void;
+    protected onLocationError: (event: ErrorEvent) => void;
+
+    constructor(map: Map, options: LocateOptions = {}) {
+        this.map = map;
+        this.options = options;
+    }
+
+    public start(onLocationFound: (event: LocationEvent) => void, onLocationError: (event: ErrorEvent) => void): void {
+        this.stop();
+        this.onLocationFound = onLocationFound;
+        this.onLocationError = onLocationError;
+        this.map.on('locationfound', this.onLocationFound);
+        this.map.on('locationerror', this.onLocationError);
+        this.map.locate({...this.options, setView: false, watch: true});
+    }
+
+    public stop(): void {
+        if (!this.onLocationFound) {
+            return;
+        }
+        this.map.stopLocate();
+        this.map.off('locationfound', this.onLocationFound);
+        this.map.off('locationerror', this.onLocationError);
+        this.onLocationFound = undefined;
+        this.onLocationError = undefined;
+    }
+}
@@ -0,0 +1,46 @@
+import {
+    LatLng,
+    LatLngBounds,
+    latLngBounds,
+    Marker,
+    Rectangle,
+} from 'leaflet';
+import { LayerEditor } from './layer-editor';
+
+/**
+ * Editor for rectangles with a draggable handle on every corner. The opposite corner keeps its position.
+ */
+export class RectangleEditor extends LayerEditor {
+    protected layer: Rectangle;
+
+    constructor(layer: Rectangle) {
+        super(layer);
+    }
+
+    protected createHandles(): void {
+        const corners: LatLng[] = this.getCorners(this.layer.getBounds());
+        corners.forEach((corner: LatLng, index: number) => {
+            const handle: Marker = this.createHandle(corner, 'corner');
+            let opposite: LatLng;
+            handle.on('dragstart', () => {
+                opposite = this.getCorners(this.layer.getBounds())[(index + 2) % 4];
+            });
+            handle.on('drag', () => {
+                this.layer.setBounds(latLngBounds(opposite, handle.getLatLng()));
+                const newCorners: LatLng[] = this.getCorners(this.layer.getBounds());
+                this.handles.forEach((otherHandle: Marker, otherIndex: number) => {
+                    if (otherHandle !== handle) {
+                        otherHandle.setLatLng(newCorners[otherIndex]);
+                    }
+                });
+            });
+            handle.on('dragend', () => {
+                this.update();
+            });
+        });
+    }
+
+    private getCorners(bounds: LatLngBounds): LatLng[] {
+        return [bounds.getSouthWest(), bounds.getNorthWest(), bounds.getNorthEast(), bounds.getSouthEast()];
+    }
+}
@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import { latLngBounds, LatLngBounds, point, SVG } from 'leaflet';
+import {
+    MapComponent,
+    RectangleDirective,
+    RectangleValueAccessorDirective,
+} from './index';
+
+describe('Rectangle-Value-Accessor Directive', () => {
+    let map: MapComponent;
+    let layer: RectangleDirective<any>;
+    let accessor: RectangleValueAccessorDirective;
+    let values: LatLngBounds[];
+    let touched: number;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        layer = new RectangleDirective<any>(map);
+        layer.ngAfterViewInit();
+        accessor = new RectangleValueAccessorDirective(layer);
+        values = [];
+        touched = 0;
+        accessor.registerOnChange((val: LatLngBounds) => values.push(val));
+        accessor.registerOnTouched(() => touched += 1);
+    });
+    afterEach(() => {
+        accessor.ngOnDestroy();
+    });
+
+    describe('writeValue', () => {
+        it('should set the bounds of the rectangle', () => {
+            accessor.writeValue(latLngBounds([0, 0], [1, 1]));
+            expect(layer.getBounds()).to.deep.equal(latLngBounds([0, 0], [1, 1]));
+        });
+        it('should not pass the written value back to the form', () => {
+            accessor.writeValue(latLngBounds([0, 0], [1, 1]));
+            expect(values.length).to.equal(0);
+        });
+    });
+    describe('reset', () => {
+        it('should hide the layer for an empty value', () => {
+            accessor.writeValue(latLngBounds([0, 0], [1, 1]));
+            accessor.writeValue(null);
+            expect(layer.display).to.equal(false);
+        });
+        it('should display the layer again with the next value', () => {
+            accessor.writeValue(null);
+            accessor.writeValue(latLngBounds([0, 0], [1, 1]));
+            expect(layer.display).to.equal(true);
+            expect(layer.getBounds()).to.deep.equal(latLngBounds([0, 0], [1, 1]));
+        });
+        it('should not pass an empty value back to the form', () => {
+            accessor.writeValue(undefined);
+            expect(values.length).to.equal(0);
+        });
+        it('should keep a layer hidden, that was not hidden by an empty value', () => {
+            layer.display = false;
+            accessor.writeValue(null);
+            accessor.writeValue(latLngBounds([0, 0], [1, 1]));
+            expect(layer.display).to.equal(false);
+        });
+    });
+    describe('changes', () => {
+        it('should pass a bounds set in Leaflet to the form', () => {
+            layer.setBounds(latLngBounds([0, 0], [2, 3]));
+            expect(values.length).to.equal(1);
+            expect(values[0]).to.deep.equal(latLngBounds([0, 0], [2, 3]));
+        });
+        it('should mark the form control as touched after an edit', () => {
+            layer.fire('edit');
+            expect(touched).to.equal(1);
+        });
+        it('should not pass changes after destroying', () => {
+            accessor.ngOnDestroy();
+            layer.setBounds(latLngBounds([0, 0], [2, 3]));
+            layer.fire('edit');
+            expect(values.length).to.equal(0);
+            expect(touched).to.equal(0);
+        });
+    });
+    describe('setDisabledState', () => {
+        beforeEach(() => {
+            layer.setBounds(latLngBounds([0, 0], [1, 1]));
+        });
+        it('should disable editing', () => {
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            expect(layer.editable).to.equal(false);
+        });
+        it('should restore editing when enabled again', () => {
+            layer.editable = true;
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            expect(layer.editable).to.equal(true);
+        });
+        it('should keep a not editable rectangle not editable when enabled again', () => {
+            accessor.setDisabledState(true);
+            accessor.setDisabledState(false);
+            expect(layer.editable).to.equal(false);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import {
+    Directive,
+    forwardRef,
+    Inject,
+    NgZone,
+    Optional,
+} from '@angular/core';
+import { NG_VALUE_ACCESSOR } from '@angular/forms';
+import { LatLngBounds } from 'leaflet';
+import { LayerValueAccessor } from './layer-value-accessor';
+import { RectangleDirective } from './rectangle.directive';
+
+/**
+ * Angular2 directive to bind the bounds of a rectangle with Angular forms.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule` and the `FormsModule` or
+ * `ReactiveFormsModule` of Angular.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-rectangle formControlName="area" [editable]="true"></yaga-rectangle>
+ *     <yaga-rectangle [(ngModel)]="area" [editable]="true"></yaga-rectangle>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The value is the bounds of the rectangle as `LatLngBounds`. It changes while the rectangle is edited.
+ * * A disabled control disables the editing of the rectangle.
+ * * An empty value, like after resetting the control, hides the rectangle until it gets a value again.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Rectangle-Value-Accessor%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/rectangle-value-accessor.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/rectanglevalueaccessordirective.html API documentation
+ */
+@Directive({
+    providers: [{
+        multi: true,
+        provide: NG_VALUE_ACCESSOR,
+        useExisting: forwardRef(() => RectangleValueAccessorDirective),
+    }],
+    selector: 'yaga-rectangle[formControlName],yaga-rectangle[formControl],yaga-rectangle[ngModel]',
+})
+export class RectangleValueAccessorDirective extends LayerValueAccessor<LatLngBounds> {
+    protected rectangle: RectangleDirective<any>;
+
+    constructor(
+        @Inject(forwardRef(() => RectangleDirective)) rectangle: RectangleDirective<any>,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super(rectangle, ngZone);
+        this.rectangle = rectangle;
+        this.subscriptions.push(rectangle.boundsChange.subscribe((val: LatLngBounds) => {
+            this.change(val);
+        }));
+    }
+
+    protected setValue(value: LatLngBounds): void {
+        this.rectangle.setBounds(value);
+    }
+}
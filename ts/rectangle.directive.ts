@@ -6,6 +6,7 @@ import {
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
     Optional,
     Output,
@@ -28,8 +29,11 @@ import {
     Rectangle,
     TooltipEvent,
 } from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
 import { lng2lat } from './lng2lat';
 import { MapComponent } from './map.component';
+import { RectangleEditor } from './rectangle-editor';
+import { ZoneEmitter } from './zone-emitter';
 
 // Content-Child imports
 import { PopupDirective } from './popup.directive';
@@ -83,61 +87,73 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
     @Optional() @ContentChild(PopupDirective) public popupDirective: PopupDirective;
     @Optional() @ContentChild(TooltipDirective) public tooltipDirective: TooltipDirective;
 
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+    protected editor: RectangleEditor;
     private initialized: boolean = false;
 
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         super(latLngBounds([0, 0], [0, 0]));
 
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
         this.feature = this.feature || {type: 'Feature', properties: {}, geometry: {type: 'Polygon', coordinates: []}};
         this.feature.properties = this.feature.properties || {};
 
         this.on('remove', () => {
-            this.displayChange.emit(false);
+            this.zoneEmitter.emit(this.displayChange, false);
         });
         this.on('add', () => {
-            this.displayChange.emit(true);
+            this.zoneEmitter.emit(this.displayChange, true);
         });
 
-        mapComponent.addLayer(this);
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
 
         // Events
         this.on('add', (event: Event) => {
-            this.addEvent.emit(event);
+            this.zoneEmitter.emit(this.addEvent, event);
         });
         this.on('remove', (event: Event) => {
-            this.removeEvent.emit(event);
+            this.zoneEmitter.emit(this.removeEvent, event);
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event);
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
         });
         this.on('click', (event: MouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event);
         });
         this.on('dbclick', (event: MouseEvent) => {
-            this.dbclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dbclickEvent, event);
         });
         this.on('mousedown', (event: MouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event);
         });
         this.on('mouseover', (event: MouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
         });
         this.on('mouseout', (event: MouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
         });
         this.on('contextmenu', (event: MouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
         });
     }
 
@@ -152,6 +168,9 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
     }
 
     public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
         this.removeFrom((this as any)._map);
     }
 
@@ -160,11 +179,11 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
         if (!this.initialized) {
             return this;
         }
-        this.boundsChange.emit(this.getBounds());
-        this.northChange.emit(this.getBounds().getNorth());
-        this.eastChange.emit(this.getBounds().getEast());
-        this.southChange.emit(this.getBounds().getSouth());
-        this.westChange.emit(this.getBounds().getWest());
+        this.zoneEmitter.emit(this.boundsChange, this.getBounds());
+        this.zoneEmitter.emit(this.northChange, this.getBounds().getNorth());
+        this.zoneEmitter.emit(this.eastChange, this.getBounds().getEast());
+        this.zoneEmitter.emit(this.southChange, this.getBounds().getSouth());
+        this.zoneEmitter.emit(this.westChange, this.getBounds().getWest());
         return this;
     }
 
@@ -183,8 +202,8 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
             [val, oldBounds.getEast()],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.northChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.northChange, val);
     }
     public get north(): number {
         return this.getBounds().getNorth();
@@ -196,8 +215,8 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
             [oldBounds.getNorth(), val],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.eastChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.eastChange, val);
     }
     public get east(): number {
         return this.getBounds().getEast();
@@ -209,8 +228,8 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
             [oldBounds.getNorth(), oldBounds.getEast()],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.southChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.southChange, val);
     }
     public get south(): number {
         return this.getBounds().getSouth();
@@ -222,8 +241,8 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
             [oldBounds.getNorth(), oldBounds.getEast()],
         ]));
 
-        this.boundsChange.emit(this.bounds);
-        this.westChange.emit(val);
+        this.zoneEmitter.emit(this.boundsChange, this.bounds);
+        this.zoneEmitter.emit(this.westChange, val);
     }
     public get west(): number {
         return this.getBounds().getWest();
@@ -235,16 +254,22 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
         Array<Array<Array<(LatLng | LatLngTuple | LatLngExpression)>>>)): this {
 
         super.setLatLngs((val as any));
-        this.latLngsChange.emit((this as any)._latlngs);
-        this.geoJSONChange.emit(this.geoJSON);
+        if (this.editor) {
+            this.editor.update();
+        }
+        this.zoneEmitter.emit(this.latLngsChange, (this as any)._latlngs);
+        this.zoneEmitter.emit(this.geoJSONChange, this.geoJSON);
         return this;
     }
     public addLatLng(
         val: (LatLng | LatLngTuple | LatLngExpression) |Array<(LatLng | LatLngTuple | LatLngExpression)>,
     ): this {
         super.addLatLng((val as any));
-        this.latLngsChange.emit((this as any)._latlngs);
-        this.geoJSONChange.emit(this.geoJSON);
+        if (this.editor) {
+            this.editor.update();
+        }
+        this.zoneEmitter.emit(this.latLngsChange, (this as any)._latlngs);
+        this.zoneEmitter.emit(this.geoJSONChange, this.geoJSON);
         return this;
     }
     @Input() public set latLngs(val: LatLng[] | LatLng[][] | LatLng[][][]) {
@@ -272,45 +297,45 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
     public setStyle(style: PathOptions): this {
         super.setStyle(style);
         if (style.hasOwnProperty('stroke')) {
-            this.strokeChange.emit(style.stroke);
+            this.zoneEmitter.emit(this.strokeChange, style.stroke);
         }
         if (style.hasOwnProperty('color')) {
-            this.colorChange.emit(style.color);
+            this.zoneEmitter.emit(this.colorChange, style.color);
         }
         if (style.hasOwnProperty('weight')) {
-            this.weightChange.emit(style.weight);
+            this.zoneEmitter.emit(this.weightChange, style.weight);
         }
         if (style.hasOwnProperty('opacity')) {
-            this.opacityChange.emit(style.opacity);
+            this.zoneEmitter.emit(this.opacityChange, style.opacity);
         }
         if (style.hasOwnProperty('lineCap')) {
-            this.lineCapChange.emit(style.lineCap);
+            this.zoneEmitter.emit(this.lineCapChange, style.lineCap);
         }
         if (style.hasOwnProperty('lineJoin')) {
-            this.lineJoinChange.emit(style.lineJoin);
+            this.zoneEmitter.emit(this.lineJoinChange, style.lineJoin);
         }
         if (style.hasOwnProperty('dashArray')) {
-            this.dashArrayChange.emit(style.dashArray);
+            this.zoneEmitter.emit(this.dashArrayChange, style.dashArray);
         }
         if (style.hasOwnProperty('dashOffset')) {
-            this.dashOffsetChange.emit(style.dashOffset);
+            this.zoneEmitter.emit(this.dashOffsetChange, style.dashOffset);
         }
         if (style.hasOwnProperty('fill')) {
-            this.fillChange.emit(style.fill);
+            this.zoneEmitter.emit(this.fillChange, style.fill);
         }
         if (style.hasOwnProperty('fillColor')) {
-            this.fillColorChange.emit(style.fillColor);
+            this.zoneEmitter.emit(this.fillColorChange, style.fillColor);
         }
         if (style.hasOwnProperty('fillOpacity')) {
-            this.fillOpacityChange.emit(style.fillOpacity);
+            this.zoneEmitter.emit(this.fillOpacityChange, style.fillOpacity);
         }
         if (style.hasOwnProperty('fillRule')) {
-            this.fillRuleChange.emit(style.fillRule);
+            this.zoneEmitter.emit(this.fillRuleChange, style.fillRule);
         }
         if (style.hasOwnProperty('className')) {
-            this.classNameChange.emit(style.className);
+            this.zoneEmitter.emit(this.classNameChange, style.className);
         }
-        this.styleChange.emit(style);
+        this.zoneEmitter.emit(this.styleChange, style);
 
         return this;
     }
@@ -411,7 +436,7 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
             /* istanbul ignore next */
             return;
         }
-        this.displayChange.emit(val);
+        this.zoneEmitter.emit(this.displayChange, val);
         container.style.display = val ? '' : 'none';
     }
     public get display(): boolean {
@@ -452,9 +477,31 @@ export class RectangleDirective<T> extends Rectangle implements OnDestroy, After
 
     @Input() public set properties(val: T) {
         this.feature.properties = val;
-        this.geoJSONChange.emit(this.geoJSON);
+        this.zoneEmitter.emit(this.geoJSONChange, this.geoJSON);
     }
     public get properties(): T {
         return (this.feature.properties as T);
     }
+
+    /**
+     * Input for the editable state. An editable rectangle displays draggable handles for its corners.
+     * Changes are emitted with the two-way bindings and the map fires a `draw:edited` event after each edit.
+     * Use it with `<yaga-rectangle [editable]="someValue">`
+     */
+    @Input() public set editable(val: boolean) {
+        if (!this.editor) {
+            if (!val) {
+                return;
+            }
+            this.editor = new RectangleEditor(this);
+        }
+        if (val) {
+            this.editor.enable();
+            return;
+        }
+        this.editor.disable();
+    }
+    public get editable(): boolean {
+        return !!this.editor && this.editor.isEnabled();
+    }
 }
@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { point } from 'leaflet';
+import {
+    MapComponent,
+    SideBySideControlDirective,
+    TileLayerDirective,
+} from './index';
+
+describe('Side-By-Side-Control Directive', () => {
+    let map: MapComponent;
+    let control: SideBySideControlDirective;
+    let leftLayer: TileLayerDirective;
+    let rightLayer: TileLayerDirective;
+    let divider: HTMLElement;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        leftLayer = new TileLayerDirective(map);
+        rightLayer = new TileLayerDirective(map);
+        control = new SideBySideControlDirective(map);
+        divider = control.getContainer().querySelector('.yaga-side-by-side-divider') as HTMLElement;
+    });
+
+    function clipOf(layer: TileLayerDirective): string {
+        return layer.getContainer().style.clip.replace(/\s/g, '');
+    }
+
+    describe('[(display)]', () => {
+        it('should set DOM container style to display:none when not displaying', () => {
+            control.display = false;
+            expect(control.getContainer().style.display).to.equal('none');
+        });
+        it('should reset DOM container style when display is true again', () => {
+            control.display = false;
+            control.display = true;
+            expect(control.getContainer().style.display).to.not.equal('none');
+        });
+        it('should set to false by removing from map', (done: MochaDone) => {
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            map.removeControl(control);
+        });
+        it('should set to true when adding to map again', (done: MochaDone) => {
+            map.removeControl(control);
+            control.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('[(zIndex)]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.zIndex = 5;
+            expect(control.zIndex).to.equal(5);
+        });
+    });
+    describe('[opacity]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            control.opacity = 0.5;
+            expect(control.opacity).to.equal(0.5);
+        });
+    });
+
+    describe('Placement', () => {
+        it('should span the whole map instead of a corner', () => {
+            expect(control.getContainer().parentElement).to.equal((map as any)._controlContainer);
+        });
+    });
+    describe('[(ratio)]', () => {
+        it('should be 0.5 by default', () => {
+            expect(control.ratio).to.equal(0.5);
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            control.ratio = 0.3;
+            expect(control.ratio).to.equal(0.3);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            control.ratioChange.subscribe((val: number) => {
+                expect(val).to.equal(0.3);
+                done();
+            });
+            control.ratio = 0.3;
+        });
+        it('should be limited between 0 and 1', () => {
+            control.ratio = 2;
+            expect(control.ratio).to.equal(1);
+            control.ratio = -1;
+            expect(control.ratio).to.equal(0);
+        });
+        it('should move the divider', () => {
+            control.ratio = 0.3;
+            expect(divider.style.left).to.equal('30px');
+        });
+    });
+    describe('[leftLayers] and [rightLayers]', () => {
+        beforeEach(() => {
+            control.leftLayers = [leftLayer];
+            control.rightLayers = [rightLayer];
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            expect(control.leftLayers).to.deep.equal([leftLayer]);
+            expect(control.rightLayers).to.deep.equal([rightLayer]);
+        });
+        it('should clip the left layers to the left of the divider', () => {
+            expect(clipOf(leftLayer)).to.equal('rect(0px,50px,100px,0px)');
+        });
+        it('should clip the right layers to the right of the divider', () => {
+            expect(clipOf(rightLayer)).to.equal('rect(0px,100px,100px,50px)');
+        });
+        it('should clip the layers to a changed ratio', () => {
+            control.ratio = 0.25;
+            expect(clipOf(leftLayer)).to.equal('rect(0px,25px,100px,0px)');
+            expect(clipOf(rightLayer)).to.equal('rect(0px,100px,100px,25px)');
+        });
+        it('should reset the clip of layers that are no longer compared', () => {
+            control.leftLayers = [];
+            expect(clipOf(leftLayer)).to.equal('');
+        });
+        it('should reset the clip when removing from map', () => {
+            map.removeControl(control);
+            expect(clipOf(leftLayer)).to.equal('');
+            expect(clipOf(rightLayer)).to.equal('');
+        });
+    });
+    describe('Dragging the divider', () => {
+        afterEach(() => {
+            document.dispatchEvent(new MouseEvent('mouseup', {}));
+        });
+        it('should change the ratio', (done: MochaDone) => {
+            control.ratioChange.subscribe((val: number) => {
+                expect(val).to.equal(0.2);
+                done();
+            });
+            divider.dispatchEvent(new MouseEvent('mousedown', {}));
+            document.dispatchEvent(new MouseEvent('mousemove', {clientX: 20} as any));
+        });
+        it('should stop changing the ratio after releasing', () => {
+            divider.dispatchEvent(new MouseEvent('mousedown', {}));
+            document.dispatchEvent(new MouseEvent('mouseup', {}));
+            document.dispatchEvent(new MouseEvent('mousemove', {clientX: 20} as any));
+            expect(control.ratio).to.equal(0.5);
+        });
+    });
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeControl(control);
+            control.addEvent.subscribe(() => {
+                done();
+            });
+            map.addControl(control);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            control.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeControl(control);
+        });
+    });
+
+    describe('Destroying a Side-By-Side-Control Directive', () => {
+        it('should remove the control from the map', () => {
+            control.ngOnDestroy();
+            expect(control.getContainer().parentElement).to.equal(null);
+        });
+    });
+});
@@ -0,0 +1,322 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    OnDestroy,
+    Output,
+} from '@angular/core';
+import {
+    Control,
+    DomEvent,
+    DomUtil,
+    GridLayer,
+    LeafletEvent,
+    Map,
+    Point,
+} from 'leaflet';
+import { MapComponent } from './map.component';
+
+/**
+ * Angular2 directive for a control to compare two sets of layers with a draggable vertical divider.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-tile-layer #oldImagery [url]="..."></yaga-tile-layer>
+ *     <yaga-tile-layer #newImagery [url]="..."></yaga-tile-layer>
+ *     <yaga-side-by-side
+ *         [(display)]="..."
+ *         [(zIndex)]="..."
+ *         [(ratio)]="..."
+ *
+ *         (add)="..."
+ *         (remove)="..."
+ *
+ *         [opacity]="..."
+ *         [leftLayers]="[oldImagery]"
+ *         [rightLayers]="[newImagery]"
+ *         >
+ *     </yaga-side-by-side>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The left layers are clipped to the left of the divider, the right layers to the right of it.
+ * * The control is displayed over the whole map and not in one of the corners, so it has no position.
+ * * Every layer that is based on a `GridLayer`, like tile and WMS layers, can be compared.
+ *
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=Side-By-Side-Control%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/side-by-side-control.directive.js.html
+ * Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/sidebysidecontroldirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-side-by-side',
+})
+export class SideBySideControlDirective extends Control implements OnDestroy  {
+    /**
+     * Two-Way bound property for the display status of the control.
+     * Use it with `<yaga-side-by-side [(display)]="someValue">`
+     * or `<yaga-side-by-side (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the zIndex of the control.
+     * Use it with `<yaga-side-by-side [(zIndex)]="someValue">`
+     * or `<yaga-side-by-side (zIndexChange)="processEvent($event)">`
+     */
+    @Output() public zIndexChange: EventEmitter<number> = new EventEmitter();
+    /**
+     * Two-Way bound property for the position of the divider as ratio of the width of the map.
+     * Use it with `<yaga-side-by-side [(ratio)]="someValue">`
+     * or `<yaga-side-by-side (ratioChange)="processEvent($event)">`
+     */
+    @Output() public ratioChange: EventEmitter<number> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-side-by-side (add)="processEvent($event)">`
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-side-by-side (remove)="processEvent($event)">`
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+
+    protected container: HTMLElement;
+    protected divider: HTMLElement;
+    protected left: GridLayer[] = [];
+    protected right: GridLayer[] = [];
+
+    private dividerRatio: number = 0.5;
+    private dragging: boolean = false;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+    ) {
+        super();
+        this.container = DomUtil.create('div', 'yaga-side-by-side');
+        this.divider = DomUtil.create('div', 'yaga-side-by-side-divider', this.container);
+        DomUtil.create('div', 'yaga-side-by-side-handle', this.divider);
+        DomEvent.disableClickPropagation(this.divider);
+        DomEvent.on(this.divider, 'mousedown touchstart', this.onDragStart, this);
+
+        const self: this = this;
+
+        /* tslint:disable:only-arrow-functions */
+        this.onAdd = function(map: Map): HTMLElement {
+            map.on('move', self.update, self);
+            map.on('layeradd resize', self.update, self);
+            self.displayChange.emit(true);
+            self.addEvent.emit({type: 'add', target: self});
+            return self.container;
+        };
+
+        this.onRemove = function(map: Map): any {
+            map.off('move', self.update, self);
+            map.off('layeradd resize', self.update, self);
+            self.onDragEnd();
+            self.resetClip(self.left.concat(self.right));
+            self.displayChange.emit(false);
+            self.removeEvent.emit({type: 'remove', target: self});
+            return self;
+        };
+        /* tslint:enable */
+
+        mapComponent.addControl(this);
+    }
+
+    /**
+     * Internal method to provide the removal of the control in Leaflet, when removing it from the Angular template
+     */
+    public ngOnDestroy(): void {
+        ((this as any)._map as MapComponent).removeControl(this);
+    }
+
+    /**
+     * Derived method of the original addTo. The control is moved from its corner to the container of all controls,
+     * so that it can span the whole map.
+     * @link http://leafletjs.com/reference-1.0.3.html#control-addto Original Leaflet documentation
+     */
+    public addTo(map: Map): this {
+        super.addTo(map);
+        (map as any)._controlContainer.appendChild(this.container);
+        this.update();
+        return this;
+    }
+
+    /**
+     * Self written method to clip the layers to the current divider position
+     */
+    public update(): void {
+        const map: Map = (this as any)._map;
+        if (!map) {
+            return;
+        }
+        const size: Point = map.getSize();
+        const dividerX: number = size.x * this.dividerRatio;
+        this.divider.style.left = dividerX + 'px';
+
+        const nw: Point = map.containerPointToLayerPoint([0, 0]);
+        const se: Point = map.containerPointToLayerPoint(size);
+        const clipX: number = nw.x + dividerX;
+        this.setClip(this.left, 'rect(' + [nw.y, clipX, se.y, nw.x].join('px,') + 'px)');
+        this.setClip(this.right, 'rect(' + [nw.y, se.x, se.y, clipX].join('px,') + 'px)');
+    }
+
+    /**
+     * Two-Way bound property for the display state.
+     * Use it with `<yaga-side-by-side [(display)]="someValue">`
+     * or `<yaga-side-by-side [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (!(this as any)._map) {
+            // No map available...
+            return;
+        }
+        if (val) {
+            this.getContainer().style.display = '';
+            return;
+        }
+        this.getContainer().style.display = 'none';
+        return;
+    }
+    public get display(): boolean {
+        return (this as any)._map && this.getContainer().style.display !== 'none';
+    }
+
+    /**
+     * Input for the opacity.
+     * Use it with `<yaga-side-by-side [opacity]="someValue">`
+     */
+    @Input() public set opacity(val: number) {
+        this.getContainer().style.opacity = val.toString();
+    }
+    public get opacity(): number {
+        return parseFloat(this.getContainer().style.opacity);
+    }
+
+    /**
+     * Two-Way bound property for the zIndex.
+     * Use it with `<yaga-side-by-side [(zIndex)]="someValue">`
+     * or `<yaga-side-by-side [zIndex]="someValue">`
+     */
+    @Input() public set zIndex(zIndex: number) {
+        if ( !zIndex ) {
+            zIndex = 0;
+        }
+        this.getContainer().style.zIndex = zIndex.toString();
+        this.zIndexChange.emit(zIndex);
+    }
+    public get zIndex(): number {
+        return parseInt(this.getContainer().style.zIndex, 10);
+    }
+
+    /**
+     * Self written method to set the position of the divider as ratio between 0 (left) and 1 (right)
+     */
+    public setRatio(val: number): this {
+        val = Math.min(Math.max(val, 0), 1);
+        if (val === this.dividerRatio) {
+            return this;
+        }
+        this.dividerRatio = val;
+        this.update();
+        this.ratioChange.emit(val);
+        return this;
+    }
+
+    /**
+     * Two-Way bound property for the position of the divider as ratio of the width of the map.
+     * Use it with `<yaga-side-by-side [(ratio)]="someValue">`
+     * or `<yaga-side-by-side [ratio]="someValue">`
+     */
+    @Input() public set ratio(val: number) {
+        this.setRatio(val);
+    }
+    public get ratio(): number {
+        return this.dividerRatio;
+    }
+
+    /**
+     * Input for the layers on the left side of the divider.
+     * Use it with `<yaga-side-by-side [leftLayers]="[someLayerDirective]">`
+     */
+    @Input() public set leftLayers(val: GridLayer[]) {
+        this.resetClip(this.left);
+        this.left = val || [];
+        this.update();
+    }
+    public get leftLayers(): GridLayer[] {
+        return this.left;
+    }
+
+    /**
+     * Input for the layers on the right side of the divider.
+     * Use it with `<yaga-side-by-side [rightLayers]="[someLayerDirective]">`
+     */
+    @Input() public set rightLayers(val: GridLayer[]) {
+        this.resetClip(this.right);
+        this.right = val || [];
+        this.update();
+    }
+    public get rightLayers(): GridLayer[] {
+        return this.right;
+    }
+
+    /**
+     * Internal handler to start dragging the divider
+     */
+    protected onDragStart(event: Event): void {
+        DomEvent.preventDefault(event);
+        this.dragging = true;
+        DomEvent.on(document as any, 'mousemove touchmove', this.onDrag, this);
+        DomEvent.on(document as any, 'mouseup touchend', this.onDragEnd, this);
+    }
+
+    /**
+     * Internal handler to move the divider with the mouse or finger
+     */
+    protected onDrag(event: MouseEvent | TouchEvent): void {
+        const map: Map = (this as any)._map;
+        if (!this.dragging || !map) {
+            return;
+        }
+        const pointer: MouseEvent | Touch = (event as TouchEvent).touches ?
+            (event as TouchEvent).touches[0] :
+            event as MouseEvent;
+        const position: Point = DomEvent.getMousePosition(pointer as MouseEvent, map.getContainer());
+        this.setRatio(position.x / map.getSize().x);
+    }
+
+    /**
+     * Internal handler to stop dragging the divider
+     */
+    protected onDragEnd(): void {
+        if (!this.dragging) {
+            return;
+        }
+        this.dragging = false;
+        DomEvent.off(document as any, 'mousemove touchmove', this.onDrag, this);
+        DomEvent.off(document as any, 'mouseup touchend', this.onDragEnd, this);
+    }
+
+    private setClip(layers: GridLayer[], clip: string): void {
+        for (const layer of layers) {
+            const container: HTMLElement = layer.getContainer();
+            if (container) {
+                container.style.clip = clip;
+            }
+        }
+    }
+
+    private resetClip(layers: GridLayer[]): void {
+        this.setClip(layers, '');
+    }
+}
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import {
+    evaluateStyleRules,
+    interpolateStops,
+    interpolateValue,
+    IStyleRule,
+    matchesStyleRule,
+} from './index';
+
+describe('Style-Rules helper', () => {
+    describe('matchesStyleRule', () => {
+        it('should match a rule without conditions', () => {
+            expect(matchesStyleRule({}, {})).to.equal(true);
+        });
+        it('should match by value', () => {
+            const rule: IStyleRule = {equals: 'a', property: 'type'};
+            expect(matchesStyleRule(rule, {type: 'a'})).to.equal(true);
+            expect(matchesStyleRule(rule, {type: 'b'})).to.equal(false);
+        });
+        it('should match by a list of values', () => {
+            const rule: IStyleRule = {oneOf: ['a', 'b'], property: 'type'};
+            expect(matchesStyleRule(rule, {type: 'b'})).to.equal(true);
+            expect(matchesStyleRule(rule, {type: 'c'})).to.equal(false);
+        });
+        it('should match by a numeric range with inclusive minimum and exclusive maximum', () => {
+            const rule: IStyleRule = {max: 20, min: 10, property: 'value'};
+            expect(matchesStyleRule(rule, {value: 10})).to.equal(true);
+            expect(matchesStyleRule(rule, {value: 15})).to.equal(true);
+            expect(matchesStyleRule(rule, {value: 20})).to.equal(false);
+            expect(matchesStyleRule(rule, {value: 5})).to.equal(false);
+        });
+        it('should not match a missing property', () => {
+            expect(matchesStyleRule({min: 10, property: 'value'}, {})).to.equal(false);
+            expect(matchesStyleRule({min: 10, property: 'value'}, undefined)).to.equal(false);
+        });
+        it('should match by zoom level', () => {
+            const rule: IStyleRule = {maxZoom: 10, minZoom: 5};
+            expect(matchesStyleRule(rule, {}, 5)).to.equal(true);
+            expect(matchesStyleRule(rule, {}, 10)).to.equal(true);
+            expect(matchesStyleRule(rule, {}, 11)).to.equal(false);
+            expect(matchesStyleRule(rule, {}, undefined)).to.equal(false);
+        });
+    });
+    describe('interpolateValue', () => {
+        it('should interpolate numbers', () => {
+            expect(interpolateValue(2, 4, 0.5)).to.equal(3);
+        });
+        it('should interpolate hex colors', () => {
+            expect(interpolateValue('#000000', '#ffffff', 0.5)).to.equal('#808080');
+            expect(interpolateValue('#000', '#f00', 1)).to.equal('#ff0000');
+        });
+        it('should take the lower value of other values', () => {
+            expect(interpolateValue('red', 'blue', 0.5)).to.equal('red');
+        });
+    });
+    describe('interpolateStops', () => {
+        const stops: Array<[number, number]> = [[0, 1], [10, 2], [20, 4]];
+        it('should use the value of the nearest stop outside of the stops', () => {
+            expect(interpolateStops(stops, -5)).to.equal(1);
+            expect(interpolateStops(stops, 25)).to.equal(4);
+        });
+        it('should interpolate between the stops', () => {
+            expect(interpolateStops(stops, 5)).to.equal(1.5);
+            expect(interpolateStops(stops, 15)).to.equal(3);
+        });
+        it('should return undefined without stops', () => {
+            expect(interpolateStops([], 5)).to.equal(undefined);
+        });
+    });
+    describe('evaluateStyleRules', () => {
+        const feature: any = {
+            geometry: {coordinates: [0, 0], type: 'Point'},
+            properties: {type: 'a', value: 5},
+            type: 'Feature',
+        };
+        it('should extend a copy of the default style', () => {
+            const defaultStyle: any = {color: 'red', weight: 1};
+            const style: any = evaluateStyleRules([{equals: 'a', property: 'type', style: {weight: 3}}], feature, 0,
+                defaultStyle);
+            expect(style).to.deep.equal({color: 'red', weight: 3});
+            expect(defaultStyle).to.deep.equal({color: 'red', weight: 1});
+        });
+        it('should merge the styles of all matching rules in order', () => {
+            const style: any = evaluateStyleRules([
+                {style: {color: 'red', weight: 1}},
+                {equals: 'b', property: 'type', style: {color: 'blue'}},
+                {equals: 'a', property: 'type', style: {color: 'green'}},
+            ], feature);
+            expect(style).to.deep.equal({color: 'green', weight: 1});
+        });
+        it('should interpolate by feature properties', () => {
+            const style: any = evaluateStyleRules([{
+                interpolate: [{input: 'value', stops: [[0, '#000000'], [10, '#ffffff']], styleProperty: 'fillColor'}],
+            }], feature);
+            expect(style.fillColor).to.equal('#808080');
+        });
+        it('should interpolate by zoom level', () => {
+            const style: any = evaluateStyleRules([{
+                interpolate: [{input: '$zoom', stops: [[0, 1], [10, 11]], styleProperty: 'weight'}],
+            }], feature, 4);
+            expect(style.weight).to.equal(5);
+        });
+        it('should skip interpolations without numeric input', () => {
+            const style: any = evaluateStyleRules([{
+                interpolate: [{input: 'type', stops: [[0, 1], [10, 11]], styleProperty: 'weight'}],
+            }], feature, 4);
+            expect(style.weight).to.equal(undefined);
+        });
+    });
+});
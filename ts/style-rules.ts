@@ -0,0 +1,190 @@
+import { GenericGeoJSONFeature } from '@yaga/generic-geojson';
+import { PathOptions } from 'leaflet';
+
+/**
+ * Name of the input of a style interpolation that stands for the zoom level of the map instead of a feature property
+ */
+export const ZOOM_STYLE_INPUT: string = '$zoom';
+
+/**
+ * Interpolation of a single path option (like `fillColor` or `weight`) between stops.
+ *
+ * Numbers and hex colors (`#rgb` or `#rrggbb`) are interpolated linearly, all other values are taken from the
+ * nearest stop below the input value.
+ */
+export interface IStyleInterpolation {
+    /**
+     * Name of the path option that gets the interpolated value
+     */
+    styleProperty: string;
+    /**
+     * Name of a numeric feature property or `$zoom` for the zoom level of the map
+     */
+    input: string;
+    /**
+     * Pairs of input values and the related style values in ascending order of the input values
+     */
+    stops: Array<[number, number | string]>;
+}
+
+/**
+ * Declarative rule that maps the properties of a GeoJSON feature to path options.
+ *
+ * A rule matches, when all of its given conditions are fulfilled. A rule without conditions always matches. The
+ * styles of all matching rules are merged in the order of the rules, so that later rules override earlier ones.
+ */
+export interface IStyleRule {
+    /**
+     * Name of the feature property that is used by the conditions `equals`, `oneOf`, `min` and `max`
+     */
+    property?: string;
+    /**
+     * Condition: the property value equals the given value
+     */
+    equals?: any;
+    /**
+     * Condition: the property value is one of the given values
+     */
+    oneOf?: any[];
+    /**
+     * Condition: the property value is greater than or equal to the given value
+     */
+    min?: number;
+    /**
+     * Condition: the property value is lower than the given value
+     */
+    max?: number;
+    /**
+     * Condition: the zoom level of the map is greater than or equal to the given value
+     */
+    minZoom?: number;
+    /**
+     * Condition: the zoom level of the map is lower than or equal to the given value
+     */
+    maxZoom?: number;
+    /**
+     * Static path options for matching features
+     */
+    style?: PathOptions;
+    /**
+     * Interpolated path options for matching features
+     */
+    interpolate?: IStyleInterpolation[];
+}
+
+/**
+ * Function to check if a style rule matches the properties of a feature at the given zoom level
+ */
+export function matchesStyleRule(rule: IStyleRule, properties: any, zoom?: number): boolean {
+    if (rule.minZoom !== undefined && !(zoom >= rule.minZoom)) {
+        return false;
+    }
+    if (rule.maxZoom !== undefined && !(zoom <= rule.maxZoom)) {
+        return false;
+    }
+    if (rule.property === undefined) {
+        return true;
+    }
+    const value: any = properties ? properties[rule.property] : undefined;
+    if (rule.equals !== undefined && value !== rule.equals) {
+        return false;
+    }
+    if (rule.oneOf !== undefined && rule.oneOf.indexOf(value) === -1) {
+        return false;
+    }
+    if (rule.min !== undefined && !(value >= rule.min)) {
+        return false;
+    }
+    if (rule.max !== undefined && !(value < rule.max)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Function to parse a hex color (`#rgb` or `#rrggbb`) into its red, green and blue values
+ */
+function parseHexColor(color: string): number[] {
+    let hex: string = color.slice(1);
+    if (hex.length === 3) {
+        hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+    }
+    return [0, 2, 4].map((index: number) => parseInt(hex.substr(index, 2), 16));
+}
+
+/**
+ * Function to check if a value is a hex color
+ */
+function isHexColor(value: any): boolean {
+    return typeof value === 'string' && /^#([0-9a-f]{3}){1,2}$/i.test(value);
+}
+
+/**
+ * Function to interpolate linearly between two numbers or hex colors with a ratio between 0 and 1
+ */
+export function interpolateValue(from: number | string, to: number | string, ratio: number): number | string {
+    if (typeof from === 'number' && typeof to === 'number') {
+        return from + (to - from) * ratio;
+    }
+    if (isHexColor(from) && isHexColor(to)) {
+        const fromColor: number[] = parseHexColor(from as string);
+        const toColor: number[] = parseHexColor(to as string);
+        return '#' + fromColor.map((channel: number, index: number) => {
+            const hex: string = Math.round(channel + (toColor[index] - channel) * ratio).toString(16);
+            return hex.length === 1 ? '0' + hex : hex;
+        }).join('');
+    }
+    return ratio < 1 ? from : to;
+}
+
+/**
+ * Function to get the value of stops for an input value. Input values outside of the stops get the value of the
+ * nearest stop.
+ */
+export function interpolateStops(stops: Array<[number, number | string]>, input: number): number | string {
+    if (!stops.length) {
+        return undefined;
+    }
+    if (input <= stops[0][0]) {
+        return stops[0][1];
+    }
+    for (let i: number = 1; i < stops.length; i += 1) {
+        if (input < stops[i][0]) {
+            const ratio: number = (input - stops[i - 1][0]) / (stops[i][0] - stops[i - 1][0]);
+            return interpolateValue(stops[i - 1][1], stops[i][1], ratio);
+        }
+    }
+    return stops[stops.length - 1][1];
+}
+
+/**
+ * Function to evaluate style rules for a GeoJSON feature. The result is a copy of the default style extended with the
+ * styles of all matching rules.
+ */
+export function evaluateStyleRules(
+    rules: IStyleRule[],
+    feature: GenericGeoJSONFeature<GeoJSON.GeometryObject, any>,
+    zoom?: number,
+    defaultStyle: PathOptions = {},
+): PathOptions {
+    let style: PathOptions = {...defaultStyle};
+    const properties: any = feature ? feature.properties : undefined;
+    for (const rule of rules) {
+        if (!matchesStyleRule(rule, properties, zoom)) {
+            continue;
+        }
+        if (rule.style) {
+            style = {...style, ...rule.style};
+        }
+        for (const interpolation of rule.interpolate || []) {
+            const input: number = interpolation.input === ZOOM_STYLE_INPUT ?
+                zoom :
+                (properties ? properties[interpolation.input] : undefined);
+            if (typeof input !== 'number' || isNaN(input)) {
+                continue;
+            }
+            (style as any)[interpolation.styleProperty] = interpolateStops(interpolation.stops, input);
+        }
+    }
+    return style;
+}
@@ -1,5 +1,5 @@
 import { expect } from 'chai';
-import { latLng, point } from 'leaflet';
+import { latLng, Marker, point } from 'leaflet';
 import {
     Direction,
     EXAMPLE_CONTENT,
@@ -366,6 +366,87 @@ describe('Tooltip Directive', () => {
         });
     });
 
+    describe('ng-template content', () => {
+        let context: any;
+        let destroyed: boolean;
+        let layer: Marker;
+        beforeEach(() => {
+            context = undefined;
+            destroyed = false;
+            const viewContainerRef: any = {
+                createEmbeddedView: (template: any, ctx: any): any => {
+                    context = ctx;
+                    const node: HTMLElement = document.createElement('span');
+                    node.textContent = ctx.properties.name;
+                    return {
+                        destroy: () => {
+                            destroyed = true;
+                        },
+                        detectChanges: (): void => undefined,
+                        rootNodes: [node],
+                    };
+                },
+            };
+            tooltip = new TooltipDirective(map, {nativeElement: document.createElement('div')}, viewContainerRef);
+            tooltip.template = ({} as any);
+            layer = new Marker(latLng(1, 2));
+            (layer as any).feature = {geometry: {coordinates: [2, 1], type: 'Point'}, properties: {name: 'test'}};
+            map.addLayer(layer);
+            layer.bindTooltip(tooltip);
+        });
+        it('should not instantiate the template before opening', () => {
+            expect(context).to.equal(undefined);
+        });
+        it('should instantiate the template with the feature of the source layer on opening', () => {
+            layer.openTooltip();
+            expect(context.feature).to.equal((layer as any).feature);
+            expect(context.$implicit).to.equal((layer as any).feature);
+            expect(context.properties).to.deep.equal({name: 'test'});
+            expect(context.layer).to.equal(layer);
+            expect(context.latLng).to.deep.equal(latLng(1, 2));
+        });
+        it('should use the instantiated template as content', () => {
+            layer.openTooltip();
+            expect((tooltip.getContent() as HTMLElement).textContent).to.equal('test');
+        });
+        it('should destroy the instantiated template on closing', () => {
+            layer.openTooltip();
+            layer.closeTooltip();
+            expect(destroyed).to.equal(true);
+        });
+        it('should destroy the instantiated template on destroy', () => {
+            layer.openTooltip();
+            tooltip.ngOnDestroy();
+            expect(destroyed).to.equal(true);
+        });
+        it('should create and destroy the instantiated template inside of the Angular zone', () => {
+            const calls: string[] = [];
+            const zone: any = {inside: false};
+            zone.run = (fn: () => any): any => {
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = false;
+                return result;
+            };
+            const viewContainerRef: any = {
+                createEmbeddedView: (): any => {
+                    calls.push('create ' + zone.inside);
+                    return {
+                        destroy: () => calls.push('destroy ' + zone.inside),
+                        detectChanges: () => calls.push('detectChanges ' + zone.inside),
+                        rootNodes: [],
+                    };
+                },
+            };
+            tooltip = new TooltipDirective(map, {nativeElement: document.createElement('div')}, viewContainerRef, zone);
+            tooltip.template = ({} as any);
+            layer.bindTooltip(tooltip);
+            layer.openTooltip();
+            layer.closeTooltip();
+            expect(calls).to.deep.equal(['create true', 'detectChanges true', 'destroy true']);
+        });
+    });
+
     describe('Remove from source element on destroy', () => {
         it('should call unbindPopup on destroy', (done: MochaDone) => {
             (tooltip as any)._source = {
@@ -1,12 +1,18 @@
 import {
+    ContentChild,
     Directive,
     ElementRef,
+    EmbeddedViewRef,
     EventEmitter,
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
+    Optional,
     Output,
+    TemplateRef,
+    ViewContainerRef,
 } from '@angular/core';
 import {
     Content,
@@ -15,10 +21,13 @@ import {
     latLng,
     LatLngExpression,
     LeafletEvent,
+    Map,
     Point,
     Tooltip,
 } from 'leaflet';
+import { createLayerTemplateContext, ILayerTemplateContext } from './layer-template-context';
 import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
 
 @Directive({
     selector: 'yaga-tooltip',
@@ -34,24 +43,40 @@ export class TooltipDirective extends Tooltip implements OnDestroy {
     @Output('open') public openEvent: EventEmitter<LeafletEvent> = new EventEmitter();
     @Output('close') public closeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
 
+    /**
+     * Optional template for the content of the tooltip. It is instantiated lazily when the tooltip gets opened and
+     * destroyed when it gets closed.
+     * Use it with `<yaga-tooltip><ng-template let-properties="properties">...</ng-template></yaga-tooltip>`
+     * @see ILayerTemplateContext for the available context
+     */
+    @ContentChild(TemplateRef) public template: TemplateRef<ILayerTemplateContext<any>>;
+
     protected map: MapComponent;
+    protected zoneEmitter: ZoneEmitter;
+    protected viewContainerRef: ViewContainerRef;
+    protected templateView: EmbeddedViewRef<ILayerTemplateContext<any>>;
 
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
         @Inject(ElementRef) elementRef: ElementRef,
+        @Optional() @Inject(ViewContainerRef) viewContainerRef?: ViewContainerRef,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         super();
 
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
         this.map = mapComponent;
+        this.viewContainerRef = viewContainerRef;
         this.setContent(elementRef.nativeElement);
 
         this.on('add', (event: Event): void => {
-            this.openEvent.emit(event);
-            this.openedChange.emit(true);
+            this.zoneEmitter.emit(this.openEvent, event);
+            this.zoneEmitter.emit(this.openedChange, true);
         });
         this.on('remove', (event: Event): void => {
-            this.closeEvent.emit(event);
-            this.openedChange.emit(false);
+            this.zoneEmitter.emit(this.closeEvent, event);
+            this.zoneEmitter.emit(this.openedChange, false);
         });
     }
 
@@ -59,10 +84,29 @@ export class TooltipDirective extends Tooltip implements OnDestroy {
         if ((this as any)._source) {
             (this as any)._source.unbindTooltip();
         }
+        this.destroyTemplateView();
+    }
+
+    /**
+     * Derived method of the Leaflet class, that renders the template (if there is one) after opening
+     */
+    public onAdd(map: Map): this {
+        super.onAdd(map);
+        this.renderTemplateView();
+        return this;
+    }
+
+    /**
+     * Derived method of the Leaflet class, that destroys the rendered template after closing
+     */
+    public onRemove(map: Map): this {
+        super.onRemove(map);
+        this.destroyTemplateView();
+        return this;
     }
 
     public setContent(content: any): this { // Content
-        this.contentChange.emit((content));
+        this.zoneEmitter.emit(this.contentChange, (content));
         return super.setContent((content as HTMLElement));
     }
     @Input() public set content(val: Content) {
@@ -85,9 +129,9 @@ export class TooltipDirective extends Tooltip implements OnDestroy {
 
     public setLatLng(latlng: LatLngExpression): this {
         super.setLatLng(latlng);
-        this.latChange.emit(this.lat);
-        this.lngChange.emit(this.lng);
-        this.positionChange.emit(latLng(this.lat, this.lng));
+        this.zoneEmitter.emit(this.latChange, this.lat);
+        this.zoneEmitter.emit(this.lngChange, this.lng);
+        this.zoneEmitter.emit(this.positionChange, latLng(this.lat, this.lng));
         return this;
     }
     @Input() public set lat(val: number) {
@@ -113,7 +157,7 @@ export class TooltipDirective extends Tooltip implements OnDestroy {
 
     public setOpacity(val: number): void {
         super.setOpacity(val);
-        this.opacityChange.emit(val);
+        this.zoneEmitter.emit(this.opacityChange, val);
     }
     @Input() public set opacity(val: number) {
         this.setOpacity(val);
@@ -172,4 +216,40 @@ export class TooltipDirective extends Tooltip implements OnDestroy {
     public get offset(): Point {
         return (this.options.offset as Point);
     }
+
+    /**
+     * Internal method to instantiate the template with the context of the layer the tooltip is opened on. The view is
+     * created within the Angular zone, because opening is triggered by map events outside of it.
+     */
+    protected renderTemplateView(): void {
+        if (!this.template || !this.viewContainerRef) {
+            return;
+        }
+        this.destroyTemplateView();
+        this.zoneEmitter.run(() => {
+            this.templateView = this.viewContainerRef.createEmbeddedView(
+                this.template,
+                createLayerTemplateContext((this as any)._source, this.getLatLng()),
+            );
+            this.templateView.detectChanges();
+        });
+
+        const container: HTMLElement = document.createElement('div');
+        for (const node of this.templateView.rootNodes) {
+            container.appendChild(node);
+        }
+        this.setContent(container);
+    }
+
+    /**
+     * Internal method to destroy an instantiated template
+     */
+    protected destroyTemplateView(): void {
+        if (!this.templateView) {
+            return;
+        }
+        const templateView: EmbeddedViewRef<ILayerTemplateContext<any>> = this.templateView;
+        this.templateView = undefined;
+        this.zoneEmitter.run(() => templateView.destroy());
+    }
 }
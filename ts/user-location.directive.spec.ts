@@ -0,0 +1,293 @@
+import { NgZone } from '@angular/core';
+import { expect } from 'chai';
+import {
+    ErrorEvent,
+    latLng,
+    LatLng,
+    LocationEvent,
+    point,
+    SVG,
+} from 'leaflet';
+import {
+    IPositionSource,
+    MapComponent,
+    MapPositionSource,
+    UserLocationDirective,
+} from './index';
+
+class FakePositionSource implements IPositionSource {
+    public running: boolean = false;
+    private onLocationFound: (event: LocationEvent) => void;
+    private onLocationError: (event: ErrorEvent) => void;
+
+    public start(onLocationFound: (event: LocationEvent) => void, onLocationError: (event: ErrorEvent) => void): void {
+        this.running = true;
+        this.onLocationFound = onLocationFound;
+        this.onLocationError = onLocationError;
+    }
+    public stop(): void {
+        this.running = false;
+    }
+    public locate(lat: number, lng: number, accuracy: number): void {
+        this.onLocationFound({
+            accuracy,
+            latlng: latLng(lat, lng),
+            type: 'locationfound',
+        } as LocationEvent);
+    }
+    public fail(message: string): void {
+        this.onLocationError({code: 1, message, type: 'locationerror'} as ErrorEvent);
+    }
+}
+
+describe('User-Location Directive', () => {
+    let map: MapComponent;
+    let layer: UserLocationDirective;
+    let source: FakePositionSource;
+    beforeEach(() => {
+        map = new MapComponent({nativeElement: document.createElement('div')});
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        (map as any)._renderer = (map as any)._renderer || new SVG();
+        layer = new UserLocationDirective(map);
+        source = new FakePositionSource();
+        layer.positionSource = source;
+    });
+
+    describe('[(display)]', () => {
+        it('should remove the layer from the map when not displaying', () => {
+            layer.display = false;
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+        it('should add the layer to the map again when displaying', () => {
+            layer.display = false;
+            layer.display = true;
+            expect(map.hasLayer(layer)).to.equal(true);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.displayChange.subscribe((val: boolean) => {
+                expect(val).to.equal(false);
+                done();
+            });
+            layer.display = false;
+        });
+    });
+    describe('[(tracking)]', () => {
+        it('should start the position source when changing in Angular', () => {
+            layer.tracking = true;
+            expect(layer.tracking).to.equal(true);
+            expect(source.running).to.equal(true);
+        });
+        it('should stop the position source when changing in Angular', () => {
+            layer.tracking = true;
+            layer.tracking = false;
+            expect(layer.tracking).to.equal(false);
+            expect(source.running).to.equal(false);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.trackingChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            layer.tracking = true;
+        });
+        it('should not fire an event when not changed', () => {
+            layer.tracking = true;
+            layer.trackingChange.subscribe(() => {
+                throw new Error('This should not happen');
+            });
+            layer.tracking = true;
+        });
+        it('should remove the marker and the accuracy circle when stopping', () => {
+            layer.tracking = true;
+            source.locate(10, 20, 100);
+            layer.tracking = false;
+            expect(layer.hasLayer(layer.positionMarker)).to.equal(false);
+            expect(layer.hasLayer(layer.accuracyCircle)).to.equal(false);
+            expect(layer.latLng).to.equal(undefined);
+        });
+    });
+    describe('[positionSource]', () => {
+        it('should be changed in Angular when changing in Angular', () => {
+            expect(layer.positionSource).to.equal(source);
+        });
+        it('should restart a running tracking with the new source', () => {
+            const newSource: FakePositionSource = new FakePositionSource();
+            layer.tracking = true;
+            layer.positionSource = newSource;
+            expect(source.running).to.equal(false);
+            expect(newSource.running).to.equal(true);
+        });
+        it('should use the locate method of the map by default', () => {
+            layer = new UserLocationDirective(map);
+            layer.tracking = true;
+            expect(layer.positionSource).to.be.instanceOf(MapPositionSource);
+            layer.tracking = false;
+        });
+    });
+    describe('Found positions', () => {
+        beforeEach(() => {
+            layer.tracking = true;
+        });
+        it('should show the marker and the accuracy circle on the position', () => {
+            source.locate(10, 20, 100);
+            expect(layer.hasLayer(layer.positionMarker)).to.equal(true);
+            expect(layer.hasLayer(layer.accuracyCircle)).to.equal(true);
+            expect(layer.positionMarker.getLatLng().equals([10, 20])).to.equal(true);
+            expect(layer.accuracyCircle.getLatLng().equals([10, 20])).to.equal(true);
+            expect(layer.accuracyCircle.getRadius()).to.equal(100);
+        });
+        it('should not show anything before the first position', () => {
+            expect(layer.hasLayer(layer.positionMarker)).to.equal(false);
+        });
+        it('should be available as latLng and accuracy', () => {
+            source.locate(10, 20, 100);
+            expect(layer.latLng.equals([10, 20])).to.equal(true);
+            expect(layer.accuracy).to.equal(100);
+        });
+        it('should fire a latLngChange event', (done: MochaDone) => {
+            layer.latLngChange.subscribe((val: LatLng) => {
+                expect(val.equals([10, 20])).to.equal(true);
+                done();
+            });
+            source.locate(10, 20, 100);
+        });
+        it('should fire an accuracyChange event', (done: MochaDone) => {
+            layer.accuracyChange.subscribe((val: number) => {
+                expect(val).to.equal(100);
+                done();
+            });
+            source.locate(10, 20, 100);
+        });
+        it('should fire a locationfound event', (done: MochaDone) => {
+            layer.locationfoundEvent.subscribe((event: LocationEvent) => {
+                expect(event.accuracy).to.equal(100);
+                done();
+            });
+            source.locate(10, 20, 100);
+        });
+        it('should fire a locationerror event on errors of the source', (done: MochaDone) => {
+            layer.locationerrorEvent.subscribe((event: ErrorEvent) => {
+                expect(event.message).to.equal('denied');
+                done();
+            });
+            source.fail('denied');
+        });
+        it('should not recenter the map without follow-mode', () => {
+            source.locate(10, 20, 100);
+            expect(map.getCenter().equals([0, 0])).to.equal(true);
+        });
+    });
+    describe('[(follow)]', () => {
+        beforeEach(() => {
+            layer.tracking = true;
+        });
+        it('should be changed in Angular when changing in Angular', () => {
+            layer.follow = true;
+            expect(layer.follow).to.equal(true);
+        });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.followChange.subscribe((val: boolean) => {
+                expect(val).to.equal(true);
+                done();
+            });
+            layer.follow = true;
+        });
+        it('should recenter the map on found positions', (done: MochaDone) => {
+            layer.follow = true;
+            map.setView = (center: LatLng): any => {
+                expect(center.equals([10, 20])).to.equal(true);
+                done();
+                return map;
+            };
+            source.locate(10, 20, 100);
+        });
+        it('should recenter the map on the last position when enabled', (done: MochaDone) => {
+            source.locate(10, 20, 100);
+            map.setView = (center: LatLng): any => {
+                expect(center.equals([10, 20])).to.equal(true);
+                done();
+                return map;
+            };
+            layer.follow = true;
+        });
+        it('should end when dragging the map', () => {
+            layer.follow = true;
+            map.fire('dragstart');
+            expect(layer.follow).to.equal(false);
+        });
+    });
+
+    describe('(add)', () => {
+        it('should fire an event when adding to map', (done: MochaDone) => {
+            map.removeLayer(layer);
+            layer.addEvent.subscribe(() => {
+                done();
+            });
+            map.addLayer(layer);
+        });
+    });
+    describe('(remove)', () => {
+        it('should fire an event when removing from map', (done: MochaDone) => {
+            layer.removeEvent.subscribe(() => {
+                done();
+            });
+            map.removeLayer(layer);
+        });
+    });
+
+    describe('NgZone', () => {
+        let zone: any;
+        beforeEach(() => {
+            zone = {entered: 0, inside: true, left: 0};
+            zone.run = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.entered += 1;
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            zone.runOutsideAngular = (fn: () => any): any => {
+                const inside: boolean = zone.inside;
+                zone.left += 1;
+                zone.inside = false;
+                const result: any = fn();
+                zone.inside = inside;
+                return result;
+            };
+            layer.ngOnDestroy();
+            layer = new UserLocationDirective(map, undefined, zone as NgZone);
+            layer.positionSource = source;
+            layer.tracking = true;
+            zone.inside = false;
+        });
+        it('should emit the end of the follow-mode by dragging the map inside of the zone', () => {
+            let inside: boolean = false;
+            layer.follow = true;
+            layer.followChange.subscribe(() => {
+                inside = zone.inside;
+            });
+            map.fire('dragstart');
+            expect(layer.follow).to.equal(false);
+            expect(inside).to.equal(true);
+        });
+        it('should emit found positions inside of the zone', () => {
+            let inside: boolean = false;
+            layer.latLngChange.subscribe(() => {
+                inside = zone.inside;
+            });
+            source.locate(10, 20, 100);
+            expect(inside).to.equal(true);
+        });
+    });
+
+    describe('Destroying a User-Location Directive', () => {
+        it('should stop the tracking and remove the layer from the map', () => {
+            layer.tracking = true;
+            layer.ngOnDestroy();
+            expect(source.running).to.equal(false);
+            expect(map.hasLayer(layer)).to.equal(false);
+        });
+    });
+});
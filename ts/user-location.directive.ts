@@ -0,0 +1,404 @@
+import {
+    Directive,
+    EventEmitter,
+    forwardRef,
+    Inject,
+    Input,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Output,
+    SkipSelf,
+} from '@angular/core';
+import {
+    Circle,
+    CircleMarker,
+    CircleMarkerOptions,
+    ErrorEvent,
+    FeatureGroup,
+    LatLng,
+    LeafletEvent,
+    LocationEvent,
+    PathOptions,
+} from 'leaflet';
+import { LayerGroupProvider } from './layer-group.provider';
+import { MapComponent } from './map.component';
+import { IPositionSource, MapPositionSource } from './position-source';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * Angular2 directive for the position of the user on the map, drawn as a marker with a circle for the accuracy.
+ *
+ * *You can use this directive in an Angular2 template after importing `YagaModule`.*
+ *
+ * How to use in a template:
+ * ```html
+ * <yaga-map>
+ *     <yaga-user-location
+ *         [(display)]="..."
+ *         [(tracking)]="..."
+ *         [(follow)]="..."
+ *
+ *         (latLngChange)="..."
+ *         (accuracyChange)="..."
+ *         (add)="..."
+ *         (remove)="..."
+ *         (locationfound)="..."
+ *         (locationerror)="..."
+ *
+ *         [positionSource]="..."
+ *         [markerStyle]="..."
+ *         [accuracyStyle]="..."
+ *         >
+ *     </yaga-user-location>
+ * </yaga-map>
+ * ```
+ *
+ * Notes:
+ *
+ * * The position is watched only while tracking. The marker and the accuracy circle are shown from the first found
+ * position until the tracking stops.
+ * * In follow-mode the map is recentered on every found position. Dragging the map ends the follow-mode.
+ * * Without a `[positionSource]` the position is taken from the Geolocation API of the browser with the `locate`
+ * method of the map. Implement `IPositionSource` to use another source.
+ *
+ * @link http://leafletjs.com/reference-1.0.3.html#map-locate Original Leaflet documentation
+ * @link https://leaflet-ng2.yagajs.org/latest/browser-test?grep=User-Location%20Directive Unit-Test
+ * @link https://leaflet-ng2.yagajs.org/latest/coverage/lcov-report/lib/user-location.directive.js.html Test coverage
+ * @link https://leaflet-ng2.yagajs.org/latest/typedoc/classes/userlocationdirective.html API documentation
+ */
+@Directive({
+    selector: 'yaga-user-location',
+})
+export class UserLocationDirective extends FeatureGroup implements OnDestroy {
+    /**
+     * Two-Way bound property for the display status of the layer.
+     * Use it with `<yaga-user-location [(display)]="someValue">`
+     * or `<yaga-user-location (displayChange)="processEvent($event)">`
+     */
+    @Output() public displayChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the tracking state.
+     * Use it with `<yaga-user-location [(tracking)]="someValue">`
+     * or `<yaga-user-location (trackingChange)="processEvent($event)">`
+     */
+    @Output() public trackingChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Two-Way bound property for the follow-mode.
+     * Use it with `<yaga-user-location [(follow)]="someValue">`
+     * or `<yaga-user-location (followChange)="processEvent($event)">`
+     */
+    @Output() public followChange: EventEmitter<boolean> = new EventEmitter();
+    /**
+     * Output for the last found position of the user.
+     * Use it with `<yaga-user-location (latLngChange)="processEvent($event)">`
+     */
+    @Output() public latLngChange: EventEmitter<LatLng> = new EventEmitter();
+    /**
+     * Output for the accuracy of the last found position in meters.
+     * Use it with `<yaga-user-location (accuracyChange)="processEvent($event)">`
+     */
+    @Output() public accuracyChange: EventEmitter<number> = new EventEmitter();
+
+    /**
+     * From leaflet fired add event.
+     * Use it with `<yaga-user-location (add)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-add Original Leaflet documentation
+     */
+    @Output('add') public addEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From leaflet fired remove event.
+     * Use it with `<yaga-user-location (remove)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#featuregroup-remove Original Leaflet documentation
+     */
+    @Output('remove') public removeEvent: EventEmitter<LeafletEvent> = new EventEmitter();
+    /**
+     * From the position source fired locationfound event.
+     * Use it with `<yaga-user-location (locationfound)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-locationfound Original Leaflet documentation
+     */
+    @Output('locationfound') public locationfoundEvent: EventEmitter<LocationEvent> = new EventEmitter();
+    /**
+     * From the position source fired locationerror event.
+     * Use it with `<yaga-user-location (locationerror)="processEvent($event)">`
+     * @link http://leafletjs.com/reference-1.0.3.html#map-locationerror Original Leaflet documentation
+     */
+    @Output('locationerror') public locationerrorEvent: EventEmitter<ErrorEvent> = new EventEmitter();
+
+    /**
+     * The marker on the position of the user
+     */
+    public positionMarker: CircleMarker;
+    /**
+     * The circle around the position of the user with the accuracy as radius
+     */
+    public accuracyCircle: Circle;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected mapComponent: MapComponent;
+    protected source: IPositionSource;
+    protected zoneEmitter: ZoneEmitter;
+
+    private isTracking: boolean = false;
+    private isFollowing: boolean = false;
+    private lastLocation: LocationEvent;
+
+    constructor(
+        @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @SkipSelf() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
+    ) {
+        super();
+
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
+        this.positionMarker = new CircleMarker([0, 0], {
+            color: '#ffffff',
+            fillColor: '#2a93ee',
+            fillOpacity: 1,
+            interactive: false,
+            radius: 7,
+            weight: 2,
+        } as CircleMarkerOptions);
+        this.accuracyCircle = new Circle([0, 0], {
+            color: '#2a93ee',
+            fillOpacity: 0.15,
+            interactive: false,
+            radius: 0,
+            weight: 1,
+        } as CircleMarkerOptions);
+
+        this.on('remove', () => {
+            this.zoneEmitter.emit(this.displayChange, false);
+        });
+        this.on('add', () => {
+            this.zoneEmitter.emit(this.displayChange, true);
+        });
+
+        this.mapComponent = mapComponent;
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            mapComponent.addLayer(this);
+        }
+
+        // Events
+        this.on('add', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.addEvent, event);
+        });
+        this.on('remove', (event: LeafletEvent) => {
+            this.zoneEmitter.emit(this.removeEvent, event);
+        });
+    }
+
+    /**
+     * This function gets called from Angular on destroy of the html-component.
+     * @link https://angular.io/docs/ts/latest/api/core/index/OnDestroy-class.html
+     */
+    public ngOnDestroy(): void {
+        this.setTracking(false);
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
+        this.removeFrom((this as any)._map);
+    }
+
+    /**
+     * Derived method of the Leaflet class, that registers the map events of this layer.
+     */
+    public getEvents(): {[name: string]: (event: LeafletEvent) => void} {
+        return {
+            dragstart: this.onMapDragStart,
+        };
+    }
+
+    /**
+     * Self written method to start or stop watching the position of the user
+     */
+    public setTracking(val: boolean): this {
+        if (val === this.isTracking) {
+            return this;
+        }
+        this.isTracking = val;
+        if (val) {
+            this.startSource();
+        } else {
+            this.source.stop();
+            this.lastLocation = undefined;
+            this.clearLayers();
+        }
+        this.zoneEmitter.emit(this.trackingChange, val);
+        return this;
+    }
+
+    /**
+     * Self written method to start or stop recentering the map on the position of the user
+     */
+    public setFollow(val: boolean): this {
+        if (val === this.isFollowing) {
+            return this;
+        }
+        this.isFollowing = val;
+        if (val && this.lastLocation) {
+            this.recenter();
+        }
+        this.zoneEmitter.emit(this.followChange, val);
+        return this;
+    }
+
+    /**
+     * Two-Way bound property for the display status of the layer.
+     * Use it with `<yaga-user-location [(display)]="someValue">` or `<yaga-user-location [display]="someValue">`
+     */
+    @Input() public set display(val: boolean) {
+        if (this.display === val) {
+            return;
+        }
+        if (val) {
+            (this.layerGroupProvider || this.mapComponent).addLayer(this);
+            return;
+        }
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+            return;
+        }
+        this.mapComponent.removeLayer(this);
+    }
+    public get display(): boolean {
+        const map: MapComponent = (this as any)._map;
+        return !!map && map.hasLayer(this);
+    }
+
+    /**
+     * Two-Way bound property for the tracking state.
+     * Use it with `<yaga-user-location [(tracking)]="someValue">` or `<yaga-user-location [tracking]="someValue">`
+     */
+    @Input() public set tracking(val: boolean) {
+        this.setTracking(val);
+    }
+    public get tracking(): boolean {
+        return this.isTracking;
+    }
+
+    /**
+     * Two-Way bound property for the follow-mode.
+     * Use it with `<yaga-user-location [(follow)]="someValue">` or `<yaga-user-location [follow]="someValue">`
+     */
+    @Input() public set follow(val: boolean) {
+        this.setFollow(val);
+    }
+    public get follow(): boolean {
+        return this.isFollowing;
+    }
+
+    /**
+     * Input for the source of the position. A running tracking is restarted with the new source.
+     * Use it with `<yaga-user-location [positionSource]="someValue">`
+     */
+    @Input() public set positionSource(val: IPositionSource) {
+        if (this.isTracking) {
+            this.source.stop();
+        }
+        this.source = val;
+        if (this.isTracking) {
+            this.startSource();
+        }
+    }
+    public get positionSource(): IPositionSource {
+        return this.source;
+    }
+
+    /**
+     * Input for the style of the position marker.
+     * Use it with `<yaga-user-location [markerStyle]="someValue">`
+     */
+    @Input() public set markerStyle(val: PathOptions) {
+        this.positionMarker.setStyle(val);
+    }
+    public get markerStyle(): PathOptions {
+        return this.positionMarker.options;
+    }
+
+    /**
+     * Input for the style of the accuracy circle.
+     * Use it with `<yaga-user-location [accuracyStyle]="someValue">`
+     */
+    @Input() public set accuracyStyle(val: PathOptions) {
+        this.accuracyCircle.setStyle(val);
+    }
+    public get accuracyStyle(): PathOptions {
+        return this.accuracyCircle.options;
+    }
+
+    /**
+     * The last found position of the user, or undefined while not tracking
+     */
+    public get latLng(): LatLng {
+        return this.lastLocation ? this.lastLocation.latlng : undefined;
+    }
+
+    /**
+     * The accuracy of the last found position in meters, or undefined while not tracking
+     */
+    public get accuracy(): number {
+        return this.lastLocation ? this.lastLocation.accuracy : undefined;
+    }
+
+    /**
+     * Internal method to start the position source, that falls back to the Geolocation API of the browser
+     */
+    protected startSource(): void {
+        if (!this.source) {
+            this.source = new MapPositionSource(this.mapComponent);
+        }
+        this.source.start(
+            (event: LocationEvent) => this.onLocationFound(event),
+            (event: ErrorEvent) => this.onLocationError(event),
+        );
+    }
+
+    /**
+     * Internal handler for found positions
+     */
+    protected onLocationFound(event: LocationEvent): void {
+        if (!this.isTracking) {
+            return;
+        }
+        this.lastLocation = event;
+        this.positionMarker.setLatLng(event.latlng);
+        this.accuracyCircle.setLatLng(event.latlng);
+        this.accuracyCircle.setRadius(event.accuracy || 0);
+        if (!this.hasLayer(this.accuracyCircle)) {
+            this.addLayer(this.accuracyCircle);
+            this.addLayer(this.positionMarker);
+        }
+        if (this.isFollowing) {
+            this.recenter();
+        }
+        this.zoneEmitter.emit(this.latLngChange, event.latlng);
+        this.zoneEmitter.emit(this.accuracyChange, event.accuracy);
+        this.zoneEmitter.emit(this.locationfoundEvent, event);
+    }
+
+    /**
+     * Internal handler for errors of the position source
+     */
+    protected onLocationError(event: ErrorEvent): void {
+        this.zoneEmitter.emit(this.locationerrorEvent, event);
+    }
+
+    /**
+     * Internal handler for the dragstart event of the map, that ends the follow-mode
+     */
+    protected onMapDragStart(): void {
+        this.setFollow(false);
+    }
+
+    /**
+     * Internal method to center the map on the last found position
+     */
+    protected recenter(): void {
+        this.mapComponent.setView(this.lastLocation.latlng, this.mapComponent.getZoom());
+    }
+}
@@ -0,0 +1,57 @@
+import {
+    LatLng,
+    Marker,
+    Polygon,
+    Polyline,
+} from 'leaflet';
+import { LayerEditor } from './layer-editor';
+
+/**
+ * Editor for polylines and polygons with a draggable handle for every vertex. A right click (contextmenu) on a handle
+ * removes the vertex.
+ */
+export class VertexEditor extends LayerEditor {
+    protected layer: Polyline<any>;
+
+    constructor(layer: Polyline<any>) {
+        super(layer);
+    }
+
+    protected createHandles(): void {
+        this.createVertexHandles(this.layer.getLatLngs() as any[], []);
+    }
+
+    private createVertexHandles(latLngs: any[], path: number[]): void {
+        latLngs.forEach((item: LatLng | any[], index: number) => {
+            if (Array.isArray(item)) {
+                this.createVertexHandles(item, path.concat(index));
+                return;
+            }
+            const handle: Marker = this.createHandle(item as LatLng);
+            // Leaflet converts the arrays on every call of setLatLngs, so we remember the path to the vertex
+            handle.on('drag', () => {
+                const all: any[] = this.layer.getLatLngs() as any[];
+                this.getRing(all, path)[index] = handle.getLatLng();
+                this.layer.setLatLngs(all);
+            });
+            handle.on('contextmenu', () => {
+                const all: any[] = this.layer.getLatLngs() as any[];
+                const ring: LatLng[] = this.getRing(all, path);
+                if (ring.length <= (this.layer instanceof Polygon ? 3 : 2)) {
+                    return;
+                }
+                ring.splice(index, 1);
+                this.layer.setLatLngs(all);
+                this.update();
+                this.fireEdited();
+            });
+        });
+    }
+
+    private getRing(latLngs: any[], path: number[]): LatLng[] {
+        for (const index of path) {
+            latLngs = latLngs[index];
+        }
+        return latLngs;
+    }
+}
@@ -0,0 +1,127 @@
+import { NgZone } from '@angular/core';
+import { expect } from 'chai';
+import { Map, point } from 'leaflet';
+import { ViewHistory, ZoneEmitter } from './index';
+
+describe('View-History', () => {
+    let map: Map;
+    let viewHistory: ViewHistory;
+
+    beforeEach(() => {
+        map = new Map(document.createElement('div'));
+        (map as any)._size = point(100, 100);
+        (map as any)._pixelOrigin = point(50, 50);
+        map.setView([0, 0], 0, {animate: false});
+        viewHistory = new ViewHistory(map);
+    });
+    afterEach(() => {
+        viewHistory.destroy();
+    });
+
+    describe('Recording', () => {
+        it('should record the initial view', () => {
+            expect(viewHistory.getEntries().length).to.equal(1);
+            expect(viewHistory.getIndex()).to.equal(0);
+        });
+        it('should record a view after moving the map', () => {
+            map.setView([10, 20], 5, {animate: false});
+            expect(viewHistory.getEntries().length).to.equal(2);
+            expect(viewHistory.getEntries()[1].zoom).to.equal(5);
+            expect(viewHistory.getEntries()[1].center.lat).to.be.closeTo(10, 0.0001);
+        });
+        it('should not record the same view twice', () => {
+            map.setView([10, 20], 5, {animate: false});
+            map.fire('moveend');
+            map.fire('zoomend');
+            expect(viewHistory.getEntries().length).to.equal(2);
+        });
+        it('should discard the oldest views above the maximal size', () => {
+            viewHistory.maxSize = 3;
+            map.setView([1, 1], 1, {animate: false});
+            map.setView([2, 2], 2, {animate: false});
+            map.setView([3, 3], 3, {animate: false});
+            expect(viewHistory.getEntries().length).to.equal(3);
+            expect(viewHistory.getEntries()[0].zoom).to.equal(1);
+            expect(viewHistory.getIndex()).to.equal(2);
+        });
+        it('should not record after destroying', () => {
+            viewHistory.destroy();
+            map.setView([10, 20], 5, {animate: false});
+            expect(viewHistory.getEntries().length).to.equal(1);
+        });
+    });
+    describe('Navigation', () => {
+        beforeEach(() => {
+            map.setView([10, 20], 5, {animate: false});
+            map.setView([30, 40], 7, {animate: false});
+        });
+        it('should go back to the previous view', () => {
+            expect(viewHistory.back()).to.equal(true);
+            expect(map.getZoom()).to.equal(5);
+            expect(map.getCenter().lat).to.be.closeTo(10, 0.0001);
+            expect(viewHistory.getIndex()).to.equal(1);
+            expect(viewHistory.getEntries().length).to.equal(3);
+        });
+        it('should go forward to the next view', () => {
+            viewHistory.back();
+            expect(viewHistory.forward()).to.equal(true);
+            expect(map.getZoom()).to.equal(7);
+            expect(viewHistory.getIndex()).to.equal(2);
+        });
+        it('should return false without a previous or next view', () => {
+            expect(viewHistory.forward()).to.equal(false);
+            viewHistory.back();
+            viewHistory.back();
+            expect(viewHistory.back()).to.equal(false);
+            expect(map.getZoom()).to.equal(0);
+        });
+        it('should discard the next views on a new view', () => {
+            viewHistory.back();
+            map.setView([50, 60], 9, {animate: false});
+            expect(viewHistory.getEntries().length).to.equal(3);
+            expect(viewHistory.getEntries()[2].zoom).to.equal(9);
+            expect(viewHistory.forward()).to.equal(false);
+        });
+        it('should keep only the current view when clearing', () => {
+            viewHistory.back();
+            viewHistory.clear();
+            expect(viewHistory.getEntries().length).to.equal(1);
+            expect(viewHistory.getEntries()[0].zoom).to.equal(5);
+            expect(viewHistory.getIndex()).to.equal(0);
+        });
+    });
+    describe('Observables', () => {
+        it('should emit if it is possible to go back', () => {
+            const values: boolean[] = [];
+            viewHistory.canGoBack.subscribe((val: boolean) => values.push(val));
+            map.setView([10, 20], 5, {animate: false});
+            map.setView([30, 40], 7, {animate: false});
+            viewHistory.back();
+            viewHistory.back();
+            expect(values).to.deep.equal([false, true, false]);
+        });
+        it('should emit if it is possible to go forward', () => {
+            const values: boolean[] = [];
+            viewHistory.canGoForward.subscribe((val: boolean) => values.push(val));
+            map.setView([10, 20], 5, {animate: false});
+            viewHistory.back();
+            viewHistory.forward();
+            expect(values).to.deep.equal([false, true, false]);
+        });
+        it('should emit inside of the zone of the zone emitter', () => {
+            const zone: any = {inside: false};
+            zone.run = (fn: () => any): any => {
+                zone.inside = true;
+                const result: any = fn();
+                zone.inside = false;
+                return result;
+            };
+            viewHistory.destroy();
+            viewHistory = new ViewHistory(map, new ZoneEmitter(zone as NgZone));
+            const inside: boolean[] = [];
+            viewHistory.canGoBack.subscribe(() => inside.push(zone.inside));
+            map.setView([10, 20], 5, {animate: false});
+            expect(inside).to.deep.equal([false, true]);
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { LatLng, Map } from 'leaflet';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import { Observable } from 'rxjs/Observable';
+import { ZoneEmitter } from './zone-emitter';
+
+/**
+ * A view in the history of a map
+ */
+export interface IViewHistoryEntry {
+    center: LatLng;
+    zoom: number;
+}
+
+/**
+ * Navigation history of the views of a map.
+ *
+ * A view is recorded after every `moveend` and `zoomend` event of the map, unless it equals the current view of the
+ * history. Recording a new view discards the views in front of the current one, like the history of a browser.
+ * Moves that are caused by `back` and `forward` are not recorded. The observables emit through the zone emitter of the
+ * map, because the views are recorded by map events outside of the Angular zone.
+ */
+export class ViewHistory {
+    /**
+     * Maximal count of recorded views. The oldest views are discarded first.
+     */
+    public maxSize: number = 50;
+
+    protected map: Map;
+    protected entries: IViewHistoryEntry[] = [];
+    protected index: number = -1;
+    protected zoneEmitter: ZoneEmitter;
+
+    private canGoBackSubject: BehaviorSubject<boolean> = new BehaviorSubject(false);
+    private canGoForwardSubject: BehaviorSubject<boolean> = new BehaviorSubject(false);
+    private navigating: boolean = false;
+
+    constructor(map: Map, zoneEmitter: ZoneEmitter = new ZoneEmitter()) {
+        this.map = map;
+        this.zoneEmitter = zoneEmitter;
+        map.on('moveend zoomend', this.record, this);
+        if ((map as any)._loaded) {
+            this.record();
+        }
+    }
+
+    /**
+     * Observable that emits whether there is a previous view
+     */
+    public get canGoBack(): Observable<boolean> {
+        return this.canGoBackSubject.asObservable();
+    }
+
+    /**
+     * Observable that emits whether there is a next view
+     */
+    public get canGoForward(): Observable<boolean> {
+        return this.canGoForwardSubject.asObservable();
+    }
+
+    /**
+     * Moves the map to the previous view. It returns `false` if there is no previous view.
+     */
+    public back(): boolean {
+        return this.go(this.index - 1);
+    }
+
+    /**
+     * Moves the map to the next view. It returns `false` if there is no next view.
+     */
+    public forward(): boolean {
+        return this.go(this.index + 1);
+    }
+
+    /**
+     * Discards all views except the current one
+     */
+    public clear(): void {
+        this.entries = this.entries.slice(this.index, this.index + 1);
+        this.index = this.entries.length - 1;
+        this.notify();
+    }
+
+    /**
+     * Stops recording the views of the map
+     */
+    public destroy(): void {
+        this.map.off('moveend zoomend', this.record, this);
+        this.canGoBackSubject.complete();
+        this.canGoForwardSubject.complete();
+    }
+
+    public getEntries(): IViewHistoryEntry[] {
+        return this.entries.slice();
+    }
+
+    public getIndex(): number {
+        return this.index;
+    }
+
+    /**
+     * Records the current view of the map, if it differs from the current view of the history
+     */
+    protected record(): void {
+        if (this.navigating) {
+            return;
+        }
+        const entry: IViewHistoryEntry = {center: this.map.getCenter(), zoom: this.map.getZoom()};
+        const current: IViewHistoryEntry = this.entries[this.index];
+        if (current && current.zoom === entry.zoom && current.center.equals(entry.center)) {
+            return;
+        }
+        this.entries = this.entries.slice(0, this.index + 1);
+        this.entries.push(entry);
+        if (this.entries.length > this.maxSize) {
+            this.entries.splice(0, this.entries.length - this.maxSize);
+        }
+        this.index = this.entries.length - 1;
+        this.notify();
+    }
+
+    private go(index: number): boolean {
+        if (index < 0 || index >= this.entries.length) {
+            return false;
+        }
+        this.index = index;
+        this.navigating = true;
+        this.map.setView(this.entries[index].center, this.entries[index].zoom, {animate: false});
+        this.navigating = false;
+        this.notify();
+        return true;
+    }
+
+    private notify(): void {
+        const canGoBack: boolean = this.index > 0;
+        const canGoForward: boolean = this.index < this.entries.length - 1;
+        if (this.canGoBackSubject.getValue() !== canGoBack) {
+            this.zoneEmitter.run(() => this.canGoBackSubject.next(canGoBack));
+        }
+        if (this.canGoForwardSubject.getValue() !== canGoForward) {
+            this.zoneEmitter.run(() => this.canGoForwardSubject.next(canGoForward));
+        }
+    }
+}
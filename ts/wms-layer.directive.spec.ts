@@ -1,3 +1,4 @@
+import { NgZone } from '@angular/core';
 import { expect } from 'chai';
 import { latLngBounds, point } from 'leaflet';
 import {
@@ -38,6 +39,13 @@ describe('WMS-Layer Directive', () => {
             layer.display = false;
             expect(hasAsChild(layer.getPane(), (layer as any)._container)).to.equal(false);
         });
+        it('should fire an event when changing in Angular', (done: MochaDone) => {
+            layer.displayChange.subscribe((eventVal: boolean) => {
+                expect(eventVal).to.equal(false);
+                return done();
+            });
+            layer.display = false;
+        });
         it('should re-add DOM container when display is true again', () => {
             layer.display = false;
             layer.display = true;
@@ -618,6 +626,75 @@ describe('WMS-Layer Directive', () => {
         });
     });
 
+    describe('NgZone', () => {
+        let zone: NgZone;
+        let inside: boolean;
+        beforeEach(() => {
+            zone = new NgZone({enableLongStackTrace: false});
+            layer = zone.run(() => new WmsLayerDirective(map, undefined, zone));
+            layer.off('tileunload', (layer as any)._onTileRemove); // Hack to disable another listener
+            inside = undefined;
+        });
+        const events: string[] = [
+            'add',
+            'remove',
+            'popupopen',
+            'popupclose',
+            'tooltipopen',
+            'tooltipclose',
+            'click',
+            'dbclick',
+            'mousedown',
+            'mouseover',
+            'mouseout',
+            'contextmenu',
+            'loading',
+            'tileunload',
+            'tileloadstart',
+            'tileerror',
+            'tileload',
+            'load',
+        ];
+        for (const name of events) {
+            it(`should emit (${name}) inside of the zone when firing the event outside of it`, () => {
+                (layer as any)[name + 'Event'].subscribe(() => inside = NgZone.isInAngularZone());
+                zone.runOutsideAngular(() => layer.fire(name, {}));
+                expect(inside).to.equal(true);
+            });
+        }
+        it('should emit (displayChange) inside of the zone when removing the layer outside of it', () => {
+            layer.displayChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => map.removeLayer(layer));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (urlChange) inside of the zone when changing the url outside of it', () => {
+            layer.urlChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => layer.setUrl('http://test.org/{z}/{x}/{y}.png'));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (opacityChange) inside of the zone when changing the opacity outside of it', () => {
+            layer.opacityChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => layer.setOpacity(0.5));
+            expect(inside).to.equal(true);
+        });
+        it('should emit (zIndexChange) inside of the zone when changing the zIndex outside of it', () => {
+            layer.zIndexChange.subscribe(() => inside = NgZone.isInAngularZone());
+            zone.runOutsideAngular(() => layer.setZIndex(5));
+            expect(inside).to.equal(true);
+        });
+        it('should emit the changes of the WMS params inside of the zone when setting them outside of it', () => {
+            const insides: boolean[] = [];
+            const push: () => void = () => insides.push(NgZone.isInAngularZone());
+            layer.layersChange.subscribe(push);
+            layer.stylesChange.subscribe(push);
+            layer.formatChange.subscribe(push);
+            layer.versionChange.subscribe(push);
+            layer.transparentChange.subscribe(push);
+            zone.runOutsideAngular(() => layer.setParams({layers: 'a,b'} as WMSParams));
+            expect(insides).to.deep.equal([true, true, true, true, true]);
+        });
+    });
+
     // Inputs
     describe('[tileSize]', () => {
         it('should be changed in Leaflet when changing in Angular', () => {
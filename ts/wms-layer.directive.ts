@@ -4,7 +4,9 @@ import {
     forwardRef,
     Inject,
     Input,
+    NgZone,
     OnDestroy,
+    Optional,
     Output,
 } from '@angular/core';
 import {
@@ -21,7 +23,9 @@ import {
     WMSParams,
 } from 'leaflet';
 import { TRANSPARENT_PIXEL } from './consts';
+import { LayerGroupProvider } from './layer-group.provider';
 import { MapComponent } from './map.component';
+import { ZoneEmitter } from './zone-emitter';
 
 @Directive({
     selector: 'yaga-wms-layer',
@@ -57,79 +61,106 @@ export class WmsLayerDirective extends TileLayer.WMS implements OnDestroy  {
     @Output('tileload') public tileloadEvent: EventEmitter<TileEvent> = new EventEmitter();
     @Output('load') public loadEvent: EventEmitter<LeafletEvent> = new EventEmitter();
 
+    /**
+     * Input for the name of the layer in a layers control.
+     * Use it with `<yaga-wms-layer yaga-layer-name="someName">` within a `yaga-layers-control`
+     */
+    @Input('yaga-layer-name') public layerName: string;
+    /**
+     * Input to use this layer as base layer (radio button) instead of an overlay (checkbox) in a layers control.
+     * Use it with `<yaga-wms-layer baseLayer>` or `<yaga-wms-layer [baseLayer]="someValue">`
+     */
+    @Input() public baseLayer: boolean;
+
+    protected layerGroupProvider: LayerGroupProvider;
+    protected zoneEmitter: ZoneEmitter;
+
     constructor(
         @Inject(forwardRef(() => MapComponent)) mapComponent: MapComponent,
+        @Optional() @Inject(LayerGroupProvider) layerGroupProvider?: LayerGroupProvider,
+        @Optional() @Inject(NgZone) ngZone?: NgZone,
     ) {
         // Transparent 1px image:
         super(TRANSPARENT_PIXEL, {layers: ''});
 
+        this.zoneEmitter = new ZoneEmitter(ngZone);
+
         this.on('remove', () => {
-            this.displayChange.emit(false);
+            this.zoneEmitter.emit(this.displayChange, false);
         });
         this.on('add', () => {
-            this.displayChange.emit(true);
+            this.zoneEmitter.emit(this.displayChange, true);
         });
 
-        this.addTo(mapComponent);
+        this.layerGroupProvider = layerGroupProvider;
+        if (layerGroupProvider) {
+            layerGroupProvider.addLayer(this);
+        } else {
+            this.addTo(mapComponent);
+        }
 
         // Events
         this.on('add', (event: Event) => {
-            this.addEvent.emit(event);
+            this.zoneEmitter.emit(this.addEvent, event);
         });
         this.on('remove', (event: Event) => {
-            this.removeEvent.emit(event);
+            this.zoneEmitter.emit(this.removeEvent, event);
         });
         this.on('popupopen', (event: PopupEvent) => {
-            this.popupopenEvent.emit(event);
+            this.zoneEmitter.emit(this.popupopenEvent, event);
         });
         this.on('popupclose', (event: PopupEvent) => {
-            this.popupcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.popupcloseEvent, event);
         });
         this.on('tooltipopen', (event: TooltipEvent) => {
-            this.tooltipopenEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipopenEvent, event);
         });
         this.on('tooltipclose', (event: TooltipEvent) => {
-            this.tooltipcloseEvent.emit(event);
+            this.zoneEmitter.emit(this.tooltipcloseEvent, event);
         });
         this.on('click', (event: MouseEvent) => {
-            this.clickEvent.emit(event);
+            this.zoneEmitter.emit(this.clickEvent, event);
         });
         this.on('dbclick', (event: MouseEvent) => {
-            this.dbclickEvent.emit(event);
+            this.zoneEmitter.emit(this.dbclickEvent, event);
         });
         this.on('mousedown', (event: MouseEvent) => {
-            this.mousedownEvent.emit(event);
+            this.zoneEmitter.emit(this.mousedownEvent, event);
         });
         this.on('mouseover', (event: MouseEvent) => {
-            this.mouseoverEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoverEvent, event);
         });
         this.on('mouseout', (event: MouseEvent) => {
-            this.mouseoutEvent.emit(event);
+            this.zoneEmitter.emit(this.mouseoutEvent, event);
         });
         this.on('contextmenu', (event: MouseEvent) => {
-            this.contextmenuEvent.emit(event);
+            this.zoneEmitter.emit(this.contextmenuEvent, event);
         });
+        // Tiles are loaded by listeners that run outside of the Angular zone, while the map moves
         this.on('loading', (event: Event) => {
-            this.loadingEvent.emit(event);
+            this.zoneEmitter.emit(this.loadingEvent, event);
         });
         this.on('tileunload', (event: TileEvent) => {
-            this.tileunloadEvent.emit(event);
+            this.zoneEmitter.emit(this.tileunloadEvent, event);
         });
         this.on('tileloadstart', (event: TileEvent) => {
-            this.tileloadstartEvent.emit(event);
+            this.zoneEmitter.emit(this.tileloadstartEvent, event);
         });
         this.on('tileerror', (event: TileErrorEvent) => {
-            this.tileerrorEvent.emit(event);
+            this.zoneEmitter.emit(this.tileerrorEvent, event);
         });
         this.on('tileload', (event: TileEvent) => {
-            this.tileloadEvent.emit(event);
+            this.zoneEmitter.emit(this.tileloadEvent, event);
         });
         this.on('load', (event: Event) => {
-            this.loadEvent.emit(event);
+            this.zoneEmitter.emit(this.loadEvent, event);
         });
     }
 
     public ngOnDestroy(): void {
+        if (this.layerGroupProvider) {
+            this.layerGroupProvider.removeLayer(this);
+        }
         this.removeFrom((this as any)._map);
     }
 
@@ -137,7 +168,7 @@ export class WmsLayerDirective extends TileLayer.WMS implements OnDestroy  {
         if (this.url === url) {
             return;
         }
-        this.urlChange.emit(url);
+        this.zoneEmitter.emit(this.urlChange, url);
         return super.setUrl(url, noRedraw);
     }
     @Input() public set url(val: string) {
@@ -151,7 +182,7 @@ export class WmsLayerDirective extends TileLayer.WMS implements OnDestroy  {
         if (this.opacity === val) {
             return;
         }
-        this.opacityChange.emit(val);
+        this.zoneEmitter.emit(this.opacityChange, val);
         return super.setOpacity(val);
     }
     @Input() public set opacity(val: number) {
@@ -195,6 +226,7 @@ export class WmsLayerDirective extends TileLayer.WMS implements OnDestroy  {
                 map.off(oventKey, events[oventKey], this);
             }
         }
+        this.zoneEmitter.emit(this.displayChange, val);
     }
     public get display(): boolean {
         let pane: HTMLElement;
@@ -219,7 +251,7 @@ export class WmsLayerDirective extends TileLayer.WMS implements OnDestroy  {
 
     public setZIndex(val: number): this {
         super.setZIndex(val);
-        this.zIndexChange.emit(val);
+        this.zoneEmitter.emit(this.zIndexChange, val);
         return this;
     }
     @Input() public set zIndex(val: number) {
@@ -360,11 +392,11 @@ export class WmsLayerDirective extends TileLayer.WMS implements OnDestroy  {
     // WMS Params
     public setParams(params: WMSParams, redraw?: boolean): this {
         super.setParams(params, redraw);
-        this.layersChange.emit(this.wmsParams.layers.split(','));
-        this.stylesChange.emit(this.wmsParams.styles.split(','));
-        this.formatChange.emit(this.wmsParams.format);
-        this.versionChange.emit(this.wmsParams.version);
-        this.transparentChange.emit(this.wmsParams.transparent);
+        this.zoneEmitter.emit(this.layersChange, this.wmsParams.layers.split(','));
+        this.zoneEmitter.emit(this.stylesChange, this.wmsParams.styles.split(','));
+        this.zoneEmitter.emit(this.formatChange, this.wmsParams.format);
+        this.zoneEmitter.emit(this.versionChange, this.wmsParams.version);
+        this.zoneEmitter.emit(this.transparentChange, this.wmsParams.transparent);
         return this;
     }
     @Input() public set layers(val: string[]) {
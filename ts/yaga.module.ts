@@ -1,64 +1,142 @@
-import { NgModule } from '@angular/core';
+import { ModuleWithProviders, NgModule } from '@angular/core';
 
 import { AttributionControlDirective } from './attribution-control.directive';
+import { BookmarksControlDirective } from './bookmarks-control.directive';
 import { CircleMarkerDirective } from './circle-marker.directive';
 import { CircleDirective } from './circle.directive';
+import { ComponentIconDirective } from './component-icon.directive';
+import { ControlDirective } from './control.directive';
+import { CoordinatesControlDirective } from './coordinates-control.directive';
 import { DivIconDirective } from './div-icon.directive';
+import { DrawControlDirective } from './draw-control.directive';
+import { FeatureGroupDirective } from './feature-group.directive';
+import { FullscreenControlDirective } from './fullscreen-control.directive';
 import { GeoJSONDirective } from './geojson.directive';
+import { HistoryControlDirective } from './history-control.directive';
 import { IconDirective } from './icon.directive';
 import { ImageOverlayDirective } from './image-overlay.directive';
+import { LayerGroupDirective } from './layer-group.directive';
+import { LayersControlDirective } from './layers-control.directive';
+import { LegendControlDirective } from './legend-control.directive';
+import { LocateControlDirective } from './locate-control.directive';
+import { MapHashDirective } from './map-hash.directive';
 import { MapComponent } from './map.component';
+import { MapService } from './map.service';
+import { MarkerClusterDirective } from './marker-cluster.directive';
+import { MarkerValueAccessorDirective } from './marker-value-accessor.directive';
 import { MarkerDirective } from './marker.directive';
+import { MeasureControlDirective } from './measure-control.directive';
+import { MinimapControlDirective } from './minimap-control.directive';
+import { PolygonValueAccessorDirective } from './polygon-value-accessor.directive';
 import { PolygonDirective } from './polygon.directive';
+import { PolylineValueAccessorDirective } from './polyline-value-accessor.directive';
 import { PolylineDirective } from './polyline.directive';
 import { PopupDirective } from './popup.directive';
+import { RectangleValueAccessorDirective } from './rectangle-value-accessor.directive';
 import { RectangleDirective } from './rectangle.directive';
 import { ScaleControlDirective } from './scale-control.directive';
+import { SideBySideControlDirective } from './side-by-side-control.directive';
 import { TileLayerDirective } from './tile-layer.directive';
 import { TooltipDirective } from './tooltip.directive';
+import { UserLocationDirective } from './user-location.directive';
 import { WmsLayerDirective } from './wms-layer.directive';
 import { ZoomControlDirective } from './zoom-control.directive';
 
 @NgModule({
     declarations: [
         AttributionControlDirective,
+        BookmarksControlDirective,
         CircleMarkerDirective,
         CircleDirective,
+        ComponentIconDirective,
+        ControlDirective,
+        CoordinatesControlDirective,
         DivIconDirective,
+        DrawControlDirective,
+        FeatureGroupDirective,
+        FullscreenControlDirective,
         GeoJSONDirective,
+        HistoryControlDirective,
         IconDirective,
         ImageOverlayDirective,
+        LayerGroupDirective,
+        LayersControlDirective,
+        LegendControlDirective,
+        LocateControlDirective,
         MapComponent,
+        MapHashDirective,
+        MarkerClusterDirective,
         MarkerDirective,
+        MarkerValueAccessorDirective,
+        MeasureControlDirective,
+        MinimapControlDirective,
         PolygonDirective,
+        PolygonValueAccessorDirective,
         PolylineDirective,
+        PolylineValueAccessorDirective,
         PopupDirective,
         RectangleDirective,
+        RectangleValueAccessorDirective,
         ScaleControlDirective,
+        SideBySideControlDirective,
         TileLayerDirective,
         TooltipDirective,
+        UserLocationDirective,
         WmsLayerDirective,
         ZoomControlDirective,
     ],
     exports: [
         AttributionControlDirective,
+        BookmarksControlDirective,
         CircleMarkerDirective,
         CircleDirective,
+        ComponentIconDirective,
+        ControlDirective,
+        CoordinatesControlDirective,
         DivIconDirective,
+        DrawControlDirective,
+        FeatureGroupDirective,
+        FullscreenControlDirective,
         GeoJSONDirective,
+        HistoryControlDirective,
         IconDirective,
         ImageOverlayDirective,
+        LayerGroupDirective,
+        LayersControlDirective,
+        LegendControlDirective,
+        LocateControlDirective,
         MapComponent,
+        MapHashDirective,
+        MarkerClusterDirective,
         MarkerDirective,
+        MarkerValueAccessorDirective,
+        MeasureControlDirective,
+        MinimapControlDirective,
         PolygonDirective,
+        PolygonValueAccessorDirective,
         PolylineDirective,
+        PolylineValueAccessorDirective,
         PopupDirective,
         RectangleDirective,
+        RectangleValueAccessorDirective,
         ScaleControlDirective,
+        SideBySideControlDirective,
         TileLayerDirective,
         TooltipDirective,
+        UserLocationDirective,
         WmsLayerDirective,
         ZoomControlDirective,
     ],
 })
-export class YagaModule { }
+export class YagaModule {
+    /**
+     * Module with the providers of the library, like the `MapService`. Import it with `YagaModule.forRoot()` only in
+     * the root module and with `YagaModule` in other modules, so that lazy loaded modules share the same services.
+     */
+    public static forRoot(): ModuleWithProviders {
+        return {
+            ngModule: YagaModule,
+            providers: [MapService],
+        };
+    }
+}
@@ -0,0 +1,111 @@
+import { EventEmitter, NgZone } from '@angular/core';
+import { expect } from 'chai';
+import { ZoneEmitter } from './index';
+
+/**
+ * Creates a stand-in for the Angular zone that records whether a function runs inside of it
+ */
+function createTestZone(): NgZone & {inside: boolean, entered: number, left: number} {
+    const zone: any = {entered: 0, inside: false, left: 0};
+    zone.run = (fn: () => any): any => {
+        const inside: boolean = zone.inside;
+        zone.entered += 1;
+        zone.inside = true;
+        try {
+            return fn();
+        } finally {
+            zone.inside = inside;
+        }
+    };
+    zone.runOutsideAngular = (fn: () => any): any => {
+        const inside: boolean = zone.inside;
+        zone.left += 1;
+        zone.inside = false;
+        try {
+            return fn();
+        } finally {
+            zone.inside = inside;
+        }
+    };
+    return zone;
+}
+
+describe('Zone-Emitter', () => {
+    let zone: NgZone & {inside: boolean, entered: number, left: number};
+    let zoneEmitter: ZoneEmitter;
+    let emitter: EventEmitter<number>;
+
+    beforeEach(() => {
+        zone = createTestZone();
+        zoneEmitter = new ZoneEmitter(zone);
+        emitter = new EventEmitter();
+    });
+    afterEach(() => {
+        zoneEmitter.destroy();
+    });
+
+    describe('.emit', () => {
+        it('should emit inside of the zone', () => {
+            let inside: boolean = false;
+            emitter.subscribe(() => {
+                inside = zone.inside;
+            });
+            zoneEmitter.emit(emitter, 1);
+            expect(inside).to.equal(true);
+        });
+        it('should not enter the zone without subscribers', () => {
+            zoneEmitter.emit(emitter, 1);
+            expect(zone.entered).to.equal(0);
+        });
+        it('should emit without a zone', () => {
+            const values: number[] = [];
+            zoneEmitter = new ZoneEmitter();
+            emitter.subscribe((val: number) => values.push(val));
+            zoneEmitter.emit(emitter, 1);
+            expect(values).to.deep.equal([1]);
+        });
+        it('should emit throttled with the latest value', (done: MochaDone) => {
+            const values: number[] = [];
+            zoneEmitter.throttleTimes = {value: 20};
+            emitter.subscribe((val: number) => values.push(val));
+            zoneEmitter.emit(emitter, 1, 'value');
+            zoneEmitter.emit(emitter, 2, 'value');
+            zoneEmitter.emit(emitter, 3, 'value');
+            expect(values).to.deep.equal([1]);
+            setTimeout(() => {
+                expect(values).to.deep.equal([1, 3]);
+                done();
+            }, 40);
+        });
+        it('should not throttle outputs without a throttle time', () => {
+            const values: number[] = [];
+            zoneEmitter.throttleTimes = {other: 20};
+            emitter.subscribe((val: number) => values.push(val));
+            zoneEmitter.emit(emitter, 1, 'value');
+            zoneEmitter.emit(emitter, 2, 'value');
+            expect(values).to.deep.equal([1, 2]);
+        });
+        it('should drop pending values on destroy', (done: MochaDone) => {
+            const values: number[] = [];
+            zoneEmitter.throttleTimes = {value: 10};
+            emitter.subscribe((val: number) => values.push(val));
+            zoneEmitter.emit(emitter, 1, 'value');
+            zoneEmitter.emit(emitter, 2, 'value');
+            zoneEmitter.destroy();
+            setTimeout(() => {
+                expect(values).to.deep.equal([1]);
+                done();
+            }, 20);
+        });
+    });
+    describe('.runOutside', () => {
+        it('should run the function outside of the zone', () => {
+            zone.run(() => {
+                zoneEmitter.runOutside(() => {
+                    expect(zone.inside).to.equal(false);
+                });
+            });
+            expect(zone.left).to.equal(1);
+        });
+    });
+});
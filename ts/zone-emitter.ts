@@ -0,0 +1,100 @@
+import { EventEmitter, NgZone } from '@angular/core';
+
+/**
+ * State of a throttled output
+ */
+interface IThrottleState {
+    last: number;
+    timeout?: any;
+    emitter?: EventEmitter<any>;
+    value?: any;
+}
+
+/**
+ * Helper to emit outputs from Leaflet listeners that run outside of the Angular zone.
+ *
+ * An output is only emitted, and the zone only entered for change detection, if the output has subscribers. Outputs
+ * with a throttle time are emitted at most once within this time. Values in between are dropped, except the latest
+ * one, that is emitted at the end of the time.
+ */
+export class ZoneEmitter {
+    /**
+     * Throttle times in milliseconds by the names of the outputs
+     */
+    public throttleTimes: {[name: string]: number} = {};
+
+    protected zone: NgZone;
+
+    private throttled: {[name: string]: IThrottleState} = {};
+
+    constructor(zone?: NgZone) {
+        this.zone = zone;
+    }
+
+    /**
+     * Runs the function inside of the Angular zone. Running it from inside of the zone does not trigger another change
+     * detection.
+     */
+    public run<T>(fn: () => T): T {
+        if (!this.zone) {
+            return fn();
+        }
+        return this.zone.run(fn);
+    }
+
+    /**
+     * Runs the function outside of the Angular zone, so that its event listeners and timers do not trigger the change
+     * detection.
+     */
+    public runOutside<T>(fn: () => T): T {
+        if (!this.zone) {
+            return fn();
+        }
+        return this.zone.runOutsideAngular(fn);
+    }
+
+    /**
+     * Emits the value in the Angular zone, if the output has subscribers. It is throttled with the throttle time of the
+     * given name.
+     */
+    public emit<T>(emitter: EventEmitter<T>, value: T, name?: string): void {
+        if (!emitter.observers.length) {
+            return;
+        }
+        const time: number = name ? this.throttleTimes[name] : 0;
+        if (!time) {
+            this.run(() => emitter.emit(value));
+            return;
+        }
+
+        const state: IThrottleState = this.throttled[name] = this.throttled[name] || {last: 0};
+        const now: number = Date.now();
+        if (!state.timeout && now - state.last >= time) {
+            state.last = now;
+            this.run(() => emitter.emit(value));
+            return;
+        }
+        state.emitter = emitter;
+        state.value = value;
+        if (state.timeout) {
+            return;
+        }
+        state.timeout = this.runOutside(() => setTimeout(() => {
+            state.timeout = undefined;
+            state.last = Date.now();
+            this.run(() => state.emitter.emit(state.value));
+        }, time - (now - state.last)));
+    }
+
+    /**
+     * Drops the pending values of the throttled outputs
+     */
+    public destroy(): void {
+        for (const name of Object.keys(this.throttled)) {
+            if (this.throttled[name].timeout) {
+                clearTimeout(this.throttled[name].timeout);
+            }
+        }
+        this.throttled = {};
+    }
+}